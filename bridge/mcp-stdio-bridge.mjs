@@ -0,0 +1,458 @@
+#!/usr/bin/env node
+// ============================================
+// AI Brainstorm - MCP Stdio Bridge
+// ============================================
+//
+// Browsers cannot spawn local processes, so stdio MCP servers are started by
+// this small Node process instead. Each WebSocket connection runs one server:
+//
+//   browser                          bridge                      MCP server
+//   ws://127.0.0.1:7410/?token=...
+//   { type: 'spawn', command, ... } ─► spawn(command, args, env)
+//   ◄─ { type: 'ready', pid }
+//   { type: 'message', payload } ──► stdin  (newline-delimited JSON-RPC)
+//   ◄─ { type: 'message', payload } ◄── stdout
+//   ◄─ { type: 'exit', code, signal }    process exited
+//
+// Several browser connections can be open at once, one per configured server.
+//
+// Usage:
+//   npm run mcp-bridge -- [--port 7410] [--host 127.0.0.1]
+//
+// Environment:
+//   MCP_BRIDGE_TOKEN    Token the browser must send (generated and printed if unset)
+//   MCP_BRIDGE_ORIGINS  Comma-separated allowed page origins (default: any localhost origin)
+//
+// No dependencies: the WebSocket handshake and framing are implemented on top of node:http.
+
+import { createServer } from 'node:http';
+import { spawn } from 'node:child_process';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 16 * 1024 * 1024;
+
+export const DEFAULT_PORT = 7410;
+export const DEFAULT_HOST = '127.0.0.1';
+
+const OPCODES = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+};
+
+// ============================================
+// WebSocket framing
+// ============================================
+
+/**
+ * Encode a single WebSocket frame (clients must mask, servers must not)
+ * @param {number} opcode
+ * @param {Buffer} payload
+ * @param {boolean} [mask]
+ * @returns {Buffer}
+ */
+export function encodeFrame(opcode, payload, mask = false) {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+
+  if (!mask) {
+    return Buffer.concat([header, payload]);
+  }
+
+  header[1] |= 0x80;
+  const key = randomBytes(4);
+  const masked = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    masked[i] = payload[i] ^ key[i % 4];
+  }
+  return Buffer.concat([header, key, masked]);
+}
+
+/**
+ * Incremental frame decoder: feed socket data, receive complete messages
+ * @param {(opcode: number, payload: Buffer) => void} onMessage
+ * @returns {(chunk: Buffer) => void}
+ */
+export function createFrameDecoder(onMessage) {
+  let buffer = Buffer.alloc(0);
+  /** @type {Buffer[]} */
+  let fragments = [];
+  let fragmentOpcode = 0;
+
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        const bigLength = buffer.readBigUInt64BE(2);
+        if (bigLength > BigInt(MAX_FRAME_BYTES)) {
+          throw new Error('Frame too large');
+        }
+        length = Number(bigLength);
+        offset = 10;
+      }
+
+      if (length > MAX_FRAME_BYTES) {
+        throw new Error('Frame too large');
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      let payload = buffer.subarray(offset, offset + length);
+      if (masked) {
+        const key = buffer.subarray(maskOffset, maskOffset + 4);
+        payload = Buffer.from(payload.map((byte, i) => byte ^ key[i % 4]));
+      } else {
+        payload = Buffer.from(payload);
+      }
+      buffer = buffer.subarray(offset + length);
+
+      // Control frames are never fragmented
+      if (opcode >= OPCODES.CLOSE) {
+        onMessage(opcode, payload);
+        continue;
+      }
+
+      if (opcode !== OPCODES.CONTINUATION) {
+        fragmentOpcode = opcode;
+        fragments = [];
+      }
+      fragments.push(payload);
+
+      if (fin) {
+        const message = Buffer.concat(fragments);
+        fragments = [];
+        onMessage(fragmentOpcode, message);
+      }
+    }
+  };
+}
+
+// ============================================
+// Bridge connection
+// ============================================
+
+/**
+ * Split a command line typed into one field ("npx -y @mcp/server") when no
+ * separate arguments were configured
+ * @param {string} command
+ * @param {string[]} args
+ * @returns {{ command: string; args: string[] }}
+ */
+function resolveCommand(command, args) {
+  if (args.length > 0 || !/\s/.test(command.trim())) {
+    return { command: command.trim(), args };
+  }
+  const [first, ...rest] = command.trim().split(/\s+/);
+  return { command: first, args: rest };
+}
+
+/**
+ * Serve one browser connection: spawn its MCP server and relay messages
+ * @param {import('node:net').Socket} socket
+ * @param {string} label
+ */
+function handleConnection(socket, label) {
+  /** @type {import('node:child_process').ChildProcessWithoutNullStreams | null} */
+  let child = null;
+  let closed = false;
+  let stdoutBuffer = '';
+
+  const send = (message) => {
+    if (closed) return;
+    socket.write(encodeFrame(OPCODES.TEXT, Buffer.from(JSON.stringify(message))));
+  };
+
+  const close = (code = 1000, reason = '') => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    socket.end(encodeFrame(OPCODES.CLOSE, payload));
+    child?.kill();
+  };
+
+  const startServer = (request) => {
+    if (child) {
+      send({ type: 'error', message: 'A server is already running on this connection' });
+      return;
+    }
+    if (typeof request.command !== 'string' || !request.command.trim()) {
+      send({ type: 'error', message: 'Spawn request is missing a command' });
+      close(1008, 'Missing command');
+      return;
+    }
+
+    const args = Array.isArray(request.args) ? request.args.map(String) : [];
+    const env = request.env && typeof request.env === 'object' ? request.env : {};
+    const resolved = resolveCommand(request.command, args);
+
+    console.log(`[bridge] ${label} spawning: ${resolved.command} ${resolved.args.join(' ')}`);
+    child = spawn(resolved.command, resolved.args, {
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32', // npx and friends are .cmd shims on Windows
+    });
+
+    child.on('spawn', () => send({ type: 'ready', pid: child?.pid }));
+
+    child.on('error', (error) => {
+      console.error(`[bridge] ${label} failed to start:`, error.message);
+      send({ type: 'error', message: `Failed to start "${resolved.command}": ${error.message}` });
+      close(1011, 'Spawn failed');
+    });
+
+    child.on('exit', (code, signal) => {
+      console.log(`[bridge] ${label} exited (code=${code}, signal=${signal})`);
+      send({ type: 'exit', code, signal });
+      close(1000, 'Server exited');
+    });
+
+    // MCP stdio messages are newline-delimited JSON
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (data) => {
+      stdoutBuffer += data;
+      const lines = stdoutBuffer.split('\n');
+      stdoutBuffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+        try {
+          send({ type: 'message', payload: JSON.parse(trimmed) });
+        } catch {
+          console.warn(`[bridge] ${label} non-JSON output: ${trimmed}`);
+        }
+      }
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (data) => {
+      process.stderr.write(`[bridge] ${label} stderr: ${data}`);
+    });
+  };
+
+  const handleText = (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      send({ type: 'error', message: 'Invalid JSON' });
+      return;
+    }
+
+    if (message.type === 'spawn') {
+      startServer(message);
+    } else if (message.type === 'message') {
+      if (!child) {
+        send({ type: 'error', message: 'No server is running on this connection' });
+        return;
+      }
+      child.stdin.write(JSON.stringify(message.payload) + '\n');
+    } else {
+      send({ type: 'error', message: `Unknown message type: ${message.type}` });
+    }
+  };
+
+  const decode = createFrameDecoder((opcode, payload) => {
+    switch (opcode) {
+      case OPCODES.TEXT:
+      case OPCODES.BINARY:
+        handleText(payload.toString('utf8'));
+        break;
+      case OPCODES.PING:
+        socket.write(encodeFrame(OPCODES.PONG, payload));
+        break;
+      case OPCODES.CLOSE:
+        close(1000);
+        break;
+    }
+  });
+
+  socket.on('data', (chunk) => {
+    try {
+      decode(chunk);
+    } catch (error) {
+      console.error(`[bridge] ${label} protocol error:`, error.message);
+      close(1002, 'Protocol error');
+    }
+  });
+  socket.on('close', () => {
+    closed = true;
+    child?.kill();
+  });
+  socket.on('error', () => {
+    closed = true;
+    child?.kill();
+  });
+}
+
+// ============================================
+// Server
+// ============================================
+
+/**
+ * Default origin check: pages served from this machine
+ * @param {string | undefined} origin
+ */
+function isLocalOrigin(origin) {
+  if (!origin) return false;
+  try {
+    const host = new URL(origin).hostname;
+    return host === 'localhost' || host === '127.0.0.1' || host === '[::1]';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @param {string} expected
+ * @param {string | null} received
+ */
+function tokenMatches(expected, received) {
+  if (!received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * @param {import('node:net').Socket} socket
+ * @param {number} status
+ * @param {string} message
+ */
+function rejectUpgrade(socket, status, message) {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Start the bridge
+ * @param {{ host?: string; port?: number; token: string; allowedOrigins?: string[] }} options
+ * @returns {Promise<import('node:http').Server>}
+ */
+export function startBridge(options) {
+  const { host = DEFAULT_HOST, port = DEFAULT_PORT, token, allowedOrigins = [] } = options;
+  let connectionCount = 0;
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('MCP stdio bridge: connect with a WebSocket\n');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const url = new URL(req.url ?? '/', 'http://bridge');
+    const origin = req.headers.origin;
+    const originAllowed = allowedOrigins.length > 0
+      ? !!origin && allowedOrigins.includes(origin)
+      : !origin || isLocalOrigin(origin);
+
+    if (!originAllowed) {
+      console.warn(`[bridge] Rejected connection from origin ${origin}`);
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+    if (!tokenMatches(token, url.searchParams.get('token'))) {
+      console.warn('[bridge] Rejected connection with a missing or invalid token');
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      rejectUpgrade(socket, 400, 'Bad Request');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+
+    handleConnection(socket, `#${++connectionCount}`);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+/**
+ * Read --name value pairs from the command line
+ * @param {string[]} argv
+ */
+function parseArgs(argv) {
+  /** @type {Record<string, string>} */
+  const parsed = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      parsed[argv[i].slice(2)] = argv[i + 1] ?? '';
+      i++;
+    }
+  }
+  return parsed;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const host = args.host || DEFAULT_HOST;
+  const port = args.port ? Number(args.port) : DEFAULT_PORT;
+  const token = process.env.MCP_BRIDGE_TOKEN || randomBytes(16).toString('hex');
+  const allowedOrigins = (process.env.MCP_BRIDGE_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+  await startBridge({ host, port, token, allowedOrigins });
+
+  console.log(`[bridge] MCP stdio bridge listening on ws://${host}:${port}`);
+  console.log(`[bridge] Token: ${token}`);
+  console.log('[bridge] Enter this URL and token in Settings → MCP for each stdio server.');
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error('[bridge] Failed to start:', error.message);
+    process.exit(1);
+  });
+}
@@ -5,7 +5,7 @@
 import { Agent } from './agent';
 import { agentStorage, presetStorage } from '../storage/storage-manager';
 import { generateAgentColor } from '../utils/helpers';
-import type { CreateAgent } from '../types';
+import type { CreateAgent, DebateSide, KnowledgePack, ModelRoute } from '../types';
 
 export interface CreateAgentOptions {
   conversationId: string;
@@ -15,10 +15,15 @@ export interface CreateAgentOptions {
   presetId?: string;
   llmProviderId: string;
   modelId: string;
+  modelFallbacks?: ModelRoute[];
   thinkingDepth?: number;
+  extendedThinking?: boolean;
   creativityLevel?: number;
   notebookUsage?: number;
+  knowledgePacks?: KnowledgePack[];
+  knowledgeUsage?: number;
   isSecretary?: boolean;
+  debateSide?: DebateSide;
   order: number;
 }
 
@@ -38,10 +43,15 @@ export class AgentFactory {
       presetId: options.presetId,
       llmProviderId: options.llmProviderId,
       modelId: options.modelId,
+      modelFallbacks: options.modelFallbacks,
       thinkingDepth: options.thinkingDepth ?? 3,
+      extendedThinking: options.extendedThinking,
       creativityLevel: options.creativityLevel ?? 3,
       notebookUsage: options.notebookUsage ?? 50,
+      knowledgePacks: options.knowledgePacks,
+      knowledgeUsage: options.knowledgeUsage,
       isSecretary: options.isSecretary ?? false,
+      debateSide: options.debateSide,
       color: generateAgentColor(options.order),
       order: options.order,
     };
@@ -75,10 +85,15 @@ export class AgentFactory {
       presetId: preset.id,
       llmProviderId,
       modelId,
+      modelFallbacks: overrides?.modelFallbacks,
       thinkingDepth: overrides?.thinkingDepth ?? preset.defaultThinkingDepth,
+      extendedThinking: overrides?.extendedThinking,
       creativityLevel: overrides?.creativityLevel ?? preset.defaultCreativityLevel,
       notebookUsage: overrides?.notebookUsage ?? 50,
+      knowledgePacks: overrides?.knowledgePacks ?? preset.knowledgePacks,
+      knowledgeUsage: overrides?.knowledgeUsage,
       isSecretary: overrides?.isSecretary ?? false,
+      debateSide: overrides?.debateSide,
       order,
     });
   }
@@ -121,6 +136,7 @@ export class AgentFactory {
       modelId: string;
       thinkingDepth?: number;
       creativityLevel?: number;
+      debateSide?: DebateSide;
     }>,
     includeSecretary: boolean = true
   ): Promise<Agent[]> {
@@ -142,6 +158,7 @@ export class AgentFactory {
             role: config.role,
             thinkingDepth: config.thinkingDepth,
             creativityLevel: config.creativityLevel,
+            debateSide: config.debateSide,
           }
         );
       } else {
@@ -154,6 +171,7 @@ export class AgentFactory {
           modelId: config.modelId,
           thinkingDepth: config.thinkingDepth,
           creativityLevel: config.creativityLevel,
+          debateSide: config.debateSide,
           order: i,
         });
       }
@@ -194,9 +212,13 @@ export class AgentFactory {
       presetId: original.presetId,
       llmProviderId: original.llmProviderId,
       modelId: original.modelId,
+      modelFallbacks: original.modelFallbacks,
       thinkingDepth: original.thinkingDepth,
+      extendedThinking: original.extendedThinking,
       creativityLevel: original.creativityLevel,
       notebookUsage: original.notebookUsage,
+      knowledgePacks: original.knowledgePacks,
+      knowledgeUsage: original.knowledgeUsage,
       isSecretary: original.isSecretary,
       order: newOrder,
     });
@@ -2,10 +2,10 @@
 // AI Brainstorm - Agent Class
 // ============================================
 
-import type { Agent as AgentEntity, Notebook, Message } from '../types';
+import type { Agent as AgentEntity, Notebook, Message, ModelRoute } from '../types';
 import { agentStorage, notebookStorage, messageStorage } from '../storage/storage-manager';
 import { llmRouter } from '../llm/llm-router';
-import { creativityToTemperature } from '../llm/prompt-builder';
+import { creativityToTemperature, thinkingDepthToReasoningEffort, thinkingDepthToThinkingBudget } from '../llm/prompt-builder';
 import { eventBus } from '../utils/event-bus';
 import type { LLMMessage, LLMStreamChunk, LLMResponse } from '../llm/types';
 
@@ -63,10 +63,21 @@ export class Agent {
     return this.entity.modelId;
   }
 
+  get modelFallbacks(): ModelRoute[] | undefined {
+    return this.entity.modelFallbacks;
+  }
+
   get thinkingDepth(): number {
     return this.entity.thinkingDepth;
   }
 
+  /**
+   * Extended thinking budget in tokens, or undefined when extended thinking is off
+   */
+  get thinkingBudget(): number | undefined {
+    return this.entity.extendedThinking ? thinkingDepthToThinkingBudget(this.entity.thinkingDepth) : undefined;
+  }
+
   get creativityLevel(): number {
     return this.entity.creativityLevel;
   }
@@ -145,7 +156,11 @@ export class Agent {
         model: this.modelId,
         messages,
         temperature: creativityToTemperature(this.creativityLevel),
+        reasoningEffort: thinkingDepthToReasoningEffort(this.thinkingDepth),
+        thinkingBudget: this.thinkingBudget,
         signal: this.currentAbortController.signal,
+        usage: { purpose: 'turn', conversationId: this.conversationId, agentId: this.id },
+        fallbacks: this.modelFallbacks,
       });
 
       this.setStatus('idle');
@@ -178,7 +193,11 @@ export class Agent {
           model: this.modelId,
           messages,
           temperature: creativityToTemperature(this.creativityLevel),
+          reasoningEffort: thinkingDepthToReasoningEffort(this.thinkingDepth),
+          thinkingBudget: this.thinkingBudget,
           signal: this.currentAbortController.signal,
+          usage: { purpose: 'turn', conversationId: this.conversationId, agentId: this.id },
+          fallbacks: this.modelFallbacks,
         },
         (chunk: LLMStreamChunk) => {
           if (firstChunk && chunk.content) {
@@ -6,7 +6,7 @@ import { notebookStorage } from '../storage/storage-manager';
 import { llmRouter } from '../llm/llm-router';
 import { buildNotePrompt } from '../llm/prompt-builder';
 import { countTokens } from '../llm/token-counter';
-import type { Notebook, Agent } from '../types';
+import type { Notebook, Agent, ModelRoute } from '../types';
 
 const MAX_NOTE_LENGTH = 100; // Max characters per note entry
 const MAX_NOTES_SIZE = 2000; // Max total characters
@@ -19,11 +19,15 @@ export class NotebookManager {
   private agentId: string;
   private llmProviderId: string;
   private modelId: string;
+  private conversationId?: string;
+  private modelFallbacks?: ModelRoute[];
 
-  constructor(agentId: string, llmProviderId: string, modelId: string) {
+  constructor(agentId: string, llmProviderId: string, modelId: string, conversationId?: string, modelFallbacks?: ModelRoute[]) {
     this.agentId = agentId;
     this.llmProviderId = llmProviderId;
     this.modelId = modelId;
+    this.conversationId = conversationId;
+    this.modelFallbacks = modelFallbacks;
   }
 
   /**
@@ -73,6 +77,8 @@ export class NotebookManager {
         model: this.modelId,
         messages: prompt,
         maxTokens: 100,
+        usage: { purpose: 'notebook', conversationId: this.conversationId, agentId: this.agentId },
+        fallbacks: this.modelFallbacks,
         temperature: 0.3, // Low temperature for factual extraction
       });
 
@@ -91,6 +97,19 @@ export class NotebookManager {
     }
   }
 
+  /**
+   * Remove a note added earlier (e.g. one extracted from a message that was since replaced)
+   */
+  async removeNote(note: string): Promise<void> {
+    const trimmedNote = this.trimNote(note);
+    const entries = (await this.getNotes()).split('\n---\n');
+    const index = entries.lastIndexOf(trimmedNote);
+    if (index === -1) return;
+
+    entries.splice(index, 1);
+    await notebookStorage.update(this.agentId, entries.join('\n---\n'));
+  }
+
   /**
    * Clear all notes
    */
@@ -187,7 +206,9 @@ export class NotebookManager {
     return new NotebookManager(
       agent.id,
       agent.llmProviderId,
-      agent.modelId
+      agent.modelId,
+      agent.conversationId,
+      agent.modelFallbacks
     );
   }
 
@@ -196,7 +217,7 @@ export class NotebookManager {
     const agent = await agentStorage.getById(agentId);
     if (!agent) return null;
 
-    return new NotebookManager(agentId, agent.llmProviderId, agent.modelId);
+    return new NotebookManager(agentId, agent.llmProviderId, agent.modelId, agent.conversationId, agent.modelFallbacks);
   }
 }
 
@@ -2,7 +2,59 @@
 // AI Brainstorm - Finance & Trading Presets
 // ============================================
 
-import type { AgentPreset } from '../../types';
+import type { AgentPreset, KnowledgePack } from '../../types';
+
+/**
+ * Regulations reference shipped with the Compliance Officer (only that agent sees it)
+ */
+const regulationsPack: KnowledgePack = {
+  id: 'pack-financial-regulations',
+  name: 'Financial Regulations Reference',
+  content: `# Financial Regulations Reference
+
+A working summary for discussions. Requirements change and vary by jurisdiction - confirm against the current text before relying on a detail.
+
+## KYC and AML
+- Customer due diligence: identify and verify every customer before onboarding; apply enhanced due diligence to high-risk customers, politically exposed persons and high-risk jurisdictions.
+- Beneficial ownership: identify the natural persons who own 25% or more of a legal entity customer, plus one person with significant control.
+- Ongoing monitoring: keep customer information current and monitor transactions against the expected profile.
+- Suspicious activity: report suspicious transactions to the financial intelligence unit (a SAR in the US, an STR in the EU) and never tip off the customer.
+- US cash reporting: file a Currency Transaction Report for cash transactions over $10,000 in a business day, and watch for structuring below the threshold.
+- Sanctions: screen customers and payments against sanctions lists (OFAC SDN, EU and UN lists) before processing.
+
+## US securities (SEC and FINRA)
+- Regulation Best Interest: broker-dealers must act in the retail customer's best interest when recommending, and disclose and mitigate conflicts (Form CRS summarises the relationship).
+- FINRA Rule 2111: recommendations must be suitable for the customer's investment profile.
+- FINRA Rule 2210: communications with the public must be fair, balanced and not misleading; retail communications need principal approval.
+- SEC Rule 17a-4: keep required books and records, including business communications, in a non-rewriteable or audit-trailed form for the required period.
+- Insider trading: trading on material non-public information is prohibited; keep information barriers and restricted lists.
+
+## EU investment services (MiFID II)
+- Suitability and appropriateness assessments before advice or execution of complex products.
+- Best execution: take sufficient steps to obtain the best result for clients and review execution quality.
+- Product governance: define a target market for every product and distribute within it.
+- Inducements: restricted for independent advice and portfolio management; other inducements must enhance service quality and be disclosed.
+- Record keeping: record telephone and electronic communications relating to transactions and keep them for at least five years.
+
+## Market abuse (EU MAR)
+- Prohibits insider dealing, unlawful disclosure of inside information and market manipulation.
+- Issuers disclose inside information as soon as possible and keep insider lists.
+- Firms report suspicious orders and transactions (STORs) to the regulator.
+
+## Data protection (GDPR)
+- Process personal data only with a lawful basis, for a stated purpose, and no longer than needed.
+- Run a data protection impact assessment before high-risk processing.
+- Notify the supervisory authority of a personal data breach within 72 hours of becoming aware of it.
+- Fines reach the higher of EUR 20 million or 4% of worldwide annual turnover.
+
+## Financial reporting controls (Sarbanes-Oxley)
+- Section 302: the CEO and CFO certify each periodic report and the disclosure controls behind it.
+- Section 404: management assesses internal control over financial reporting each year; larger filers also need an auditor attestation.
+
+## Compliance program essentials
+- Written policies and procedures, a named compliance officer, regular training, independent testing, and a documented risk assessment.
+- Escalate breaches promptly, record the remediation, and report to regulators when required.`,
+};
 
 export const financePresets: AgentPreset[] = [
   {
@@ -193,6 +245,7 @@ When contributing:
     isBuiltIn: true,
     defaultThinkingDepth: 4,
     defaultCreativityLevel: 1,
+    knowledgePacks: [regulationsPack],
   },
   {
     id: 'preset-fund-manager',
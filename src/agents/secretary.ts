@@ -4,12 +4,14 @@
 
 import { Agent } from './agent';
 import { llmRouter } from '../llm/llm-router';
-import { buildSummaryPrompt, buildDistillationPrompt, parseDistillationResponse } from '../llm/prompt-builder';
-import { resultDraftStorage, messageStorage, agentStorage, conversationStorage, distilledMemoryStorage } from '../storage/storage-manager';
+import { buildSummaryPrompt, buildDistillationPrompt, parseDistillationResponse, buildDecisionPointPrompt, parseDecisionPoint, formatVoteResult, buildConvergencePrompt, parseConvergenceResponse, buildDocumentSummaryPrompt, type ConvergenceView } from '../llm/prompt-builder';
+import { resultDraftStorage, messageStorage, agentStorage, conversationStorage, distilledMemoryStorage, documentStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
 import { languageService } from '../prompts/language-service';
-import type { Message, ResultDraft, Conversation, Agent as AgentType, DistilledMemory, PinnedFact } from '../types';
-import type { LLMMessage } from '../llm/types';
+import { VOTING, CONVERGENCE, DOCUMENTS } from '../constants';
+import { assessRound, measureNovelty, measureRepetition } from '../engine/convergence';
+import type { Message, ResultDraft, Conversation, Agent as AgentType, DistilledMemory, PinnedFact, UsageContext, UsagePurpose, RoundConvergence, ConversationDocument } from '../types';
+import type { LLMMessage, LLMRequestOptions, LLMResponse, CacheMode } from '../llm/types';
 
 /**
  * Secretary Agent
@@ -39,6 +41,24 @@ export class SecretaryAgent {
     return this.agent.name;
   }
 
+  /**
+   * Usage accounting context for calls made by the secretary
+   */
+  private usage(purpose: UsagePurpose): UsageContext {
+    return { purpose, conversationId: this.conversationId, agentId: this.agent.id };
+  }
+
+  /**
+   * Send a completion request with the secretary's model, falling back to its fallback models
+   */
+  private complete(options: Omit<LLMRequestOptions, 'model' | 'fallbacks'>): Promise<LLMResponse> {
+    return llmRouter.complete(this.agent.llmProviderId, {
+      ...options,
+      model: this.agent.modelId,
+      fallbacks: this.agent.modelFallbacks,
+    });
+  }
+
   /**
    * Get round decision fallback reasoning in the appropriate language
    */
@@ -84,8 +104,8 @@ export class SecretaryAgent {
     this.agent.setStatus('thinking');
 
     try {
-      const response = await llmRouter.complete(this.agent.llmProviderId, {
-        model: this.agent.modelId,
+      const response = await this.complete({
+        usage: this.usage('secretary'),
         messages: prompt,
         temperature: 0.3, // Low temperature for accurate summarization
         maxTokens: 1000,
@@ -122,7 +142,11 @@ export class SecretaryAgent {
       systemContent += `\n\n${languageService.interpolate(prompts.agent.languageRequirement, { language: targetLanguage })}`;
     }
     
-    systemContent += `\n\n${languageService.interpolate(prompts.secretary.roundSummarySystem, { round })}`;
+    // Parallel rounds were answered independently, so compare the answers instead
+    const summaryTemplate = conversation?.mode === 'parallel' && prompts.secretary.parallelRoundSummarySystem
+      ? prompts.secretary.parallelRoundSummarySystem
+      : prompts.secretary.roundSummarySystem;
+    systemContent += `\n\n${languageService.interpolate(summaryTemplate, { round })}`;
 
     const prompt: LLMMessage[] = [
       {
@@ -205,8 +229,8 @@ export class SecretaryAgent {
     this.agent.setStatus('thinking');
 
     try {
-      const response = await llmRouter.complete(this.agent.llmProviderId, {
-        model: this.agent.modelId,
+      const response = await this.complete({
+        usage: this.usage('secretary'),
         messages: prompt,
         temperature: 0.3,
         maxTokens: 300,
@@ -261,6 +285,120 @@ export class SecretaryAgent {
     }
   }
 
+  /**
+   * Check whether the discussion has reached a decision point worth a vote.
+   * Returns the proposal to vote on, or null when no vote is needed.
+   */
+  async detectDecisionPoint(conversation: Conversation): Promise<string | null> {
+    const messages = await messageStorage.getByConversation(this.conversationId);
+    if (!messages.some(m => m.type === 'response')) {
+      return null;
+    }
+
+    const agents = await agentStorage.getByConversation(this.conversationId);
+    const previousProposals = messages.filter(m => m.type === 'vote').map(m => m.content);
+    const prompt = buildDecisionPointPrompt(
+      conversation,
+      messages.slice(-VOTING.CONTEXT_MESSAGES),
+      agents,
+      previousProposals
+    );
+
+    this.agent.setStatus('thinking');
+
+    try {
+      const response = await this.complete({
+        usage: this.usage('secretary'),
+        messages: prompt,
+        temperature: VOTING.TEMPERATURE,
+        maxTokens: VOTING.DECISION_MAX_TOKENS,
+      });
+      return parseDecisionPoint(response.content);
+    } catch (error) {
+      console.warn('[Secretary] Decision point check failed:', error);
+      return null;
+    } finally {
+      this.agent.setStatus('idle');
+    }
+  }
+
+  /**
+   * Measure how far the discussion has converged after a round: how much new content
+   * the round added, how much it repeated and whether the open questions moved.
+   * If the check fails, the previous open questions are kept and the measurements decide.
+   * @param askModel false to take only the measurements, without the secretary's check
+   */
+  async assessConvergence(
+    conversation: Conversation,
+    round: number,
+    history: RoundConvergence[],
+    askModel: boolean = true
+  ): Promise<RoundConvergence> {
+    const responses = (await messageStorage.getByConversation(this.conversationId)).filter(m => m.type === 'response');
+    const roundMessages = responses.filter(m => m.round === round);
+    const roundTexts = roundMessages.map(m => m.content);
+    const earlierTexts = responses.filter(m => m.round < round).map(m => m.content);
+    const measured = {
+      novelty: measureNovelty(roundTexts, earlierTexts),
+      repetition: measureRepetition(roundTexts, earlierTexts),
+    };
+    const previousQuestions = history.filter(entry => entry.round < round).at(-1)?.openQuestions ?? [];
+
+    let view: ConvergenceView = { openQuestions: previousQuestions, recommendation: 'continue', reasoning: '' };
+    if (!askModel) {
+      return assessRound(round, measured, view, history);
+    }
+
+    this.agent.setStatus('thinking');
+
+    try {
+      const agents = await agentStorage.getByConversation(this.conversationId);
+      const prompt = buildConvergencePrompt(conversation, round, roundMessages, agents, previousQuestions, measured);
+      const response = await this.complete({
+        usage: this.usage('secretary'),
+        messages: prompt,
+        temperature: CONVERGENCE.TEMPERATURE,
+        maxTokens: CONVERGENCE.MAX_TOKENS,
+      });
+      view = parseConvergenceResponse(response.content) ?? view;
+    } catch (error) {
+      console.warn('[Secretary] Convergence check failed:', error);
+    } finally {
+      this.agent.setStatus('idle');
+    }
+
+    return assessRound(round, measured, view, history);
+  }
+
+  /**
+   * Summarize an attached document for the other agents.
+   * Long documents are summarized from their first chunks, up to DOCUMENTS.SUMMARY_INPUT_TOKENS.
+   */
+  async summarizeDocument(conversation: Conversation, document: ConversationDocument): Promise<string> {
+    const chunks = await documentStorage.getChunks(document.id);
+    const included: string[] = [];
+    let tokens = 0;
+    for (const chunk of chunks) {
+      if (included.length > 0 && tokens + chunk.tokens > DOCUMENTS.SUMMARY_INPUT_TOKENS) break;
+      included.push(chunk.content);
+      tokens += chunk.tokens;
+    }
+
+    this.agent.setStatus('thinking');
+
+    try {
+      const response = await this.complete({
+        usage: this.usage('secretary'),
+        messages: buildDocumentSummaryPrompt(conversation, document, included.join('\n\n')),
+        temperature: DOCUMENTS.TEMPERATURE,
+        maxTokens: DOCUMENTS.SUMMARY_MAX_TOKENS,
+      });
+      return response.content.trim();
+    } finally {
+      this.agent.setStatus('idle');
+    }
+  }
+
   /**
    * Update the result draft with the latest summary
    */
@@ -276,8 +414,9 @@ export class SecretaryAgent {
   /**
    * Generate and store a complete structured result draft
    * Uses multi-step extraction for themes, consensus, disagreements, etc.
+   * The extraction calls may be answered from the response cache; pass 'bypass' to ask the model again.
    */
-  async generateResultDraft(conversation: Conversation): Promise<ResultDraft> {
+  async generateResultDraft(conversation: Conversation, cache: CacheMode = 'use'): Promise<ResultDraft> {
     const messages = await messageStorage.getByConversation(this.conversationId);
     const agents = await agentStorage.getByConversation(this.conversationId);
     const existingDraft = await resultDraftStorage.get(this.conversationId);
@@ -286,25 +425,25 @@ export class SecretaryAgent {
 
     try {
       // Step 1: Generate executive summary
-      const executiveSummary = await this.extractExecutiveSummaryLLM(conversation, messages, agents);
+      const executiveSummary = await this.extractExecutiveSummaryLLM(conversation, messages, agents, cache);
 
       // Step 2: Extract themes
-      const themes = await this.extractThemes(messages, agents, conversation.targetLanguage);
+      const themes = await this.extractThemes(messages, agents, conversation.targetLanguage, cache);
 
       // Step 3: Identify consensus areas
-      const consensusAreas = await this.extractConsensus(messages, agents, conversation.targetLanguage);
+      const consensusAreas = await this.extractConsensus(messages, agents, conversation.targetLanguage, cache);
 
       // Step 4: Identify disagreements
-      const disagreements = await this.extractDisagreements(messages, agents, conversation.targetLanguage);
+      const disagreements = await this.extractDisagreements(messages, agents, conversation.targetLanguage, cache);
 
       // Step 5: Generate recommendations (neutral, based on discussion)
-      const recommendations = await this.extractRecommendations(conversation, messages, agents);
+      const recommendations = await this.extractRecommendations(conversation, messages, agents, cache);
 
       // Step 6: Extract action items
-      const actionItems = await this.extractActionItems(messages, agents, conversation.targetLanguage);
+      const actionItems = await this.extractActionItems(messages, agents, conversation.targetLanguage, cache);
 
       // Step 7: Identify open questions
-      const openQuestions = await this.extractOpenQuestions(messages, agents, conversation.targetLanguage);
+      const openQuestions = await this.extractOpenQuestions(messages, agents, conversation.targetLanguage, cache);
 
       this.agent.setStatus('idle');
 
@@ -344,8 +483,9 @@ export class SecretaryAgent {
 
   /**
    * Generate a comprehensive final result after all rounds complete
+   * The extraction calls may be answered from the response cache; pass 'bypass' to ask the model again.
    */
-  async generateFinalComprehensiveResult(conversation: Conversation): Promise<ResultDraft> {
+  async generateFinalComprehensiveResult(conversation: Conversation, cache: CacheMode = 'use'): Promise<ResultDraft> {
     const messages = await messageStorage.getByConversation(this.conversationId);
     const agents = await agentStorage.getByConversation(this.conversationId);
     const existingDraft = await resultDraftStorage.get(this.conversationId);
@@ -365,26 +505,27 @@ export class SecretaryAgent {
         conversation,
         messages,
         agents,
-        roundSummariesText
+        roundSummariesText,
+        cache
       );
 
       // Step 2: Extract final themes across all rounds
-      const themes = await this.extractThemes(messages, agents, conversation.targetLanguage);
+      const themes = await this.extractThemes(messages, agents, conversation.targetLanguage, cache);
 
       // Step 3: Identify final consensus areas
-      const consensusAreas = await this.extractConsensus(messages, agents, conversation.targetLanguage);
+      const consensusAreas = await this.extractConsensus(messages, agents, conversation.targetLanguage, cache);
 
       // Step 4: Identify final disagreements
-      const disagreements = await this.extractDisagreements(messages, agents, conversation.targetLanguage);
+      const disagreements = await this.extractDisagreements(messages, agents, conversation.targetLanguage, cache);
 
       // Step 5: Generate final recommendations
-      const recommendations = await this.extractRecommendations(conversation, messages, agents);
+      const recommendations = await this.extractRecommendations(conversation, messages, agents, cache);
 
       // Step 6: Extract action items
-      const actionItems = await this.extractActionItems(messages, agents, conversation.targetLanguage);
+      const actionItems = await this.extractActionItems(messages, agents, conversation.targetLanguage, cache);
 
       // Step 7: Identify remaining open questions
-      const openQuestions = await this.extractOpenQuestions(messages, agents, conversation.targetLanguage);
+      const openQuestions = await this.extractOpenQuestions(messages, agents, conversation.targetLanguage, cache);
 
       this.agent.setStatus('idle');
       eventBus.emit('agent:idle', this.agent.id);
@@ -434,7 +575,8 @@ export class SecretaryAgent {
     conversation: Conversation,
     messages: Message[],
     agents: AgentType[],
-    roundSummariesText: string
+    roundSummariesText: string,
+    cache: CacheMode
   ): Promise<string> {
     const prompts = languageService.getPromptsSync(conversation.targetLanguage || '');
     
@@ -456,8 +598,9 @@ export class SecretaryAgent {
       },
     ];
 
-    const response = await llmRouter.complete(this.agent.llmProviderId, {
-      model: this.agent.modelId,
+    const response = await this.complete({
+      usage: this.usage('secretary'),
+      cache,
       messages: prompt,
       temperature: 0.3,
       maxTokens: 500,
@@ -533,7 +676,8 @@ export class SecretaryAgent {
   private async extractExecutiveSummaryLLM(
     conversation: Conversation,
     messages: Message[],
-    agents: AgentType[]
+    agents: AgentType[],
+    cache: CacheMode
   ): Promise<string> {
     const prompts = languageService.getPromptsSync(conversation.targetLanguage || '');
     
@@ -554,8 +698,9 @@ export class SecretaryAgent {
       },
     ];
 
-    const response = await llmRouter.complete(this.agent.llmProviderId, {
-      model: this.agent.modelId,
+    const response = await this.complete({
+      usage: this.usage('secretary'),
+      cache,
       messages: prompt,
       temperature: 0.3,
       maxTokens: 300,
@@ -564,7 +709,7 @@ export class SecretaryAgent {
     return response.content;
   }
 
-  private async extractThemes(messages: Message[], agents: AgentType[], targetLanguage?: string): Promise<string[]> {
+  private async extractThemes(messages: Message[], agents: AgentType[], targetLanguage: string | undefined, cache: CacheMode): Promise<string[]> {
     const prompts = languageService.getPromptsSync(targetLanguage || '');
     
     const prompt: LLMMessage[] = [
@@ -579,8 +724,9 @@ export class SecretaryAgent {
     ];
 
     try {
-      const response = await llmRouter.complete(this.agent.llmProviderId, {
-        model: this.agent.modelId,
+      const response = await this.complete({
+        usage: this.usage('secretary'),
+        cache,
         messages: prompt,
         temperature: 0.2,
         maxTokens: 200,
@@ -597,7 +743,7 @@ export class SecretaryAgent {
     }
   }
 
-  private async extractConsensus(messages: Message[], agents: AgentType[], targetLanguage?: string): Promise<string> {
+  private async extractConsensus(messages: Message[], agents: AgentType[], targetLanguage: string | undefined, cache: CacheMode): Promise<string> {
     const prompts = languageService.getPromptsSync(targetLanguage || '');
     
     const prompt: LLMMessage[] = [
@@ -611,8 +757,9 @@ export class SecretaryAgent {
       },
     ];
 
-    const response = await llmRouter.complete(this.agent.llmProviderId, {
-      model: this.agent.modelId,
+    const response = await this.complete({
+      usage: this.usage('secretary'),
+      cache,
       messages: prompt,
       temperature: 0.3,
       maxTokens: 500,
@@ -621,7 +768,7 @@ export class SecretaryAgent {
     return response.content;
   }
 
-  private async extractDisagreements(messages: Message[], agents: AgentType[], targetLanguage?: string): Promise<string> {
+  private async extractDisagreements(messages: Message[], agents: AgentType[], targetLanguage: string | undefined, cache: CacheMode): Promise<string> {
     const prompts = languageService.getPromptsSync(targetLanguage || '');
     
     const prompt: LLMMessage[] = [
@@ -635,8 +782,9 @@ export class SecretaryAgent {
       },
     ];
 
-    const response = await llmRouter.complete(this.agent.llmProviderId, {
-      model: this.agent.modelId,
+    const response = await this.complete({
+      usage: this.usage('secretary'),
+      cache,
       messages: prompt,
       temperature: 0.3,
       maxTokens: 500,
@@ -648,7 +796,8 @@ export class SecretaryAgent {
   private async extractRecommendations(
     conversation: Conversation,
     messages: Message[],
-    agents: AgentType[]
+    agents: AgentType[],
+    cache: CacheMode
   ): Promise<string> {
     const prompts = languageService.getPromptsSync(conversation.targetLanguage || '');
     
@@ -666,8 +815,9 @@ export class SecretaryAgent {
       },
     ];
 
-    const response = await llmRouter.complete(this.agent.llmProviderId, {
-      model: this.agent.modelId,
+    const response = await this.complete({
+      usage: this.usage('secretary'),
+      cache,
       messages: prompt,
       temperature: 0.3,
       maxTokens: 500,
@@ -676,7 +826,7 @@ export class SecretaryAgent {
     return response.content;
   }
 
-  private async extractActionItems(messages: Message[], agents: AgentType[], targetLanguage?: string): Promise<string> {
+  private async extractActionItems(messages: Message[], agents: AgentType[], targetLanguage: string | undefined, cache: CacheMode): Promise<string> {
     const prompts = languageService.getPromptsSync(targetLanguage || '');
     
     const prompt: LLMMessage[] = [
@@ -690,8 +840,9 @@ export class SecretaryAgent {
       },
     ];
 
-    const response = await llmRouter.complete(this.agent.llmProviderId, {
-      model: this.agent.modelId,
+    const response = await this.complete({
+      usage: this.usage('secretary'),
+      cache,
       messages: prompt,
       temperature: 0.3,
       maxTokens: 400,
@@ -700,7 +851,7 @@ export class SecretaryAgent {
     return response.content;
   }
 
-  private async extractOpenQuestions(messages: Message[], agents: AgentType[], targetLanguage?: string): Promise<string> {
+  private async extractOpenQuestions(messages: Message[], agents: AgentType[], targetLanguage: string | undefined, cache: CacheMode): Promise<string> {
     const prompts = languageService.getPromptsSync(targetLanguage || '');
     
     const prompt: LLMMessage[] = [
@@ -714,8 +865,9 @@ export class SecretaryAgent {
       },
     ];
 
-    const response = await llmRouter.complete(this.agent.llmProviderId, {
-      model: this.agent.modelId,
+    const response = await this.complete({
+      usage: this.usage('secretary'),
+      cache,
       messages: prompt,
       temperature: 0.3,
       maxTokens: 400,
@@ -793,8 +945,8 @@ export class SecretaryAgent {
     this.agent.setStatus('thinking');
 
     try {
-      const response = await llmRouter.complete(this.agent.llmProviderId, {
-        model: this.agent.modelId,
+      const response = await this.complete({
+        usage: this.usage('secretary'),
         messages: prompt,
         temperature: 0.3,
         maxTokens: 500,
@@ -853,8 +1005,8 @@ export class SecretaryAgent {
     ];
 
     try {
-      const response = await llmRouter.complete(this.agent.llmProviderId, {
-        model: this.agent.modelId,
+      const response = await this.complete({
+        usage: this.usage('secretary'),
         messages: prompt,
         temperature: 0.3,
         maxTokens: 100,
@@ -933,8 +1085,8 @@ export class SecretaryAgent {
     this.agent.setStatus('thinking');
 
     try {
-      const response = await llmRouter.complete(this.agent.llmProviderId, {
-        model: this.agent.modelId,
+      const response = await this.complete({
+        usage: this.usage('distillation'),
         messages: distillationPrompt,
         temperature: 0.2,
         maxTokens: 2000,
@@ -1030,10 +1182,13 @@ export class SecretaryAgent {
     agents: Array<{ id: string; name: string }>
   ): string {
     return messages
+      .filter(m => m.type !== 'vote' || m.voteTally)
       .map(m => {
         const sender = agents.find(a => a.id === m.agentId);
         const senderName = sender?.name || 'Unknown';
-        return `[${senderName}]: ${m.content}`;
+        // Counted votes are shown with their result
+        const content = m.type === 'vote' ? formatVoteResult(m) : m.content;
+        return `[${senderName}]: ${content}`;
       })
       .join('\n\n');
   }
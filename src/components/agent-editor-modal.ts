@@ -5,7 +5,12 @@
 import { presetStorage, providerStorage, settingsStorage } from '../storage/storage-manager';
 import { presetCategories } from '../agents/presets';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
-import type { Agent, AgentPreset, LLMProvider } from '../types';
+import { KNOWLEDGE } from '../constants';
+import './knowledge-pack-editor';
+import type { KnowledgePackEditor } from './knowledge-pack-editor';
+import './model-fallback-editor';
+import type { ModelFallbackEditor } from './model-fallback-editor';
+import type { Agent, AgentPreset, DebateSide, KnowledgePack, LLMProvider, ModelRoute } from '../types';
 
 export interface AgentEditorConfig {
   mode: 'create' | 'edit';
@@ -13,6 +18,7 @@ export interface AgentEditorConfig {
   presetId?: string;
   conversationId?: string;
   order?: number;
+  showDebateSide?: boolean; // Show the team picker (debate mode)
 }
 
 export interface AgentEditorResult {
@@ -23,11 +29,16 @@ export interface AgentEditorResult {
   strengths: string;
   thinkingStyle: string;
   thinkingDepth: number;
+  extendedThinking: boolean;
   creativityLevel: number;
   notebookUsage: number;
+  knowledgePacks: KnowledgePack[];
+  knowledgeUsage: number;
   wordLimit?: number; // Optional per-agent word limit override
+  debateSide?: DebateSide; // Undefined = assigned automatically
   llmProviderId: string;
   modelId: string;
+  modelFallbacks: ModelRoute[];
   presetId?: string;
 }
 
@@ -85,18 +96,27 @@ export class AgentEditorModal extends HTMLElement {
         role: config.agent.role || '',
         expertise: config.agent.expertise || '',
         thinkingDepth: config.agent.thinkingDepth ?? 3,
+        extendedThinking: config.agent.extendedThinking ?? false,
         creativityLevel: config.agent.creativityLevel ?? 3,
         notebookUsage: config.agent.notebookUsage ?? 50,
+        knowledgePacks: config.agent.knowledgePacks ?? [],
+        knowledgeUsage: config.agent.knowledgeUsage ?? KNOWLEDGE.DEFAULT_USAGE,
         wordLimit: config.agent.wordLimit, // Optional override
+        debateSide: config.agent.debateSide,
         llmProviderId: config.agent.llmProviderId || '',
         modelId: config.agent.modelId || '',
+        modelFallbacks: config.agent.modelFallbacks ?? [],
         presetId: config.agent.presetId,
       };
     } else {
       this.formData = {
         thinkingDepth: 3,
+        extendedThinking: false,
         creativityLevel: 3,
         notebookUsage: 50,
+        knowledgePacks: [],
+        knowledgeUsage: KNOWLEDGE.DEFAULT_USAGE,
+        modelFallbacks: [],
         wordLimit: undefined,
       };
     }
@@ -135,6 +155,7 @@ export class AgentEditorModal extends HTMLElement {
         thinkingStyle: preset.thinkingStyle,
         thinkingDepth: preset.defaultThinkingDepth,
         creativityLevel: preset.defaultCreativityLevel,
+        knowledgePacks: preset.knowledgePacks ?? [],
         presetId: preset.id,
       };
       this.selectedPresetId = presetId;
@@ -465,6 +486,16 @@ export class AgentEditorModal extends HTMLElement {
           color: var(--color-text-tertiary);
         }
 
+        .checkbox-label {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          margin-top: var(--space-2);
+          font-size: var(--text-sm);
+          color: var(--color-text-secondary);
+          cursor: pointer;
+        }
+
         .preset-selector {
           background: var(--color-bg-tertiary);
           border: 1px solid var(--color-border);
@@ -883,6 +914,11 @@ export class AgentEditorModal extends HTMLElement {
                     </select>
                   </div>
                 </div>
+                <div class="form-group">
+                  <label class="form-label">Fallback Models</label>
+                  <model-fallback-editor id="model-fallbacks"></model-fallback-editor>
+                  <div class="form-hint">Tried in order when the model above is rate limited, down or times out</div>
+                </div>
               </div>
 
               <!-- Behavior Settings -->
@@ -897,6 +933,11 @@ export class AgentEditorModal extends HTMLElement {
                       <span class="slider-value" id="thinkingDepthValue">${this.formData.thinkingDepth || 3}</span>
                     </div>
                     <div class="form-hint">1 = Quick responses, 5 = Deep analysis</div>
+                    <label class="checkbox-label">
+                      <input type="checkbox" id="extendedThinking" ${this.formData.extendedThinking ? 'checked' : ''}>
+                      <span>Extended thinking</span>
+                    </label>
+                    <div class="form-hint">Claude models think before answering, for 1K-16K tokens by depth</div>
                   </div>
                   <div class="form-group">
                     <label class="form-label">Creativity Level</label>
@@ -924,6 +965,34 @@ export class AgentEditorModal extends HTMLElement {
                          value="${this.formData.wordLimit ?? ''}">
                   <div class="form-hint">Optional: Override conversation's default word limit (50-1000). Empty = use conversation default.</div>
                 </div>
+                ${this.config.showDebateSide ? `
+                  <div class="form-group">
+                    <label class="form-label">Debate Team</label>
+                    <select class="form-select" id="debateSide">
+                      <option value="" ${!this.formData.debateSide ? 'selected' : ''}>Automatic</option>
+                      <option value="pro" ${this.formData.debateSide === 'pro' ? 'selected' : ''}>Pro (supports the motion)</option>
+                      <option value="con" ${this.formData.debateSide === 'con' ? 'selected' : ''}>Con (opposes the motion)</option>
+                    </select>
+                    <div class="form-hint">Automatic puts the agent on whichever team is smaller</div>
+                  </div>
+                ` : ''}
+              </div>
+
+              <!-- Private Knowledge -->
+              <div class="section">
+                <div class="section-title">Private Knowledge</div>
+                <div class="form-group">
+                  <knowledge-pack-editor id="knowledge-packs"></knowledge-pack-editor>
+                  <div class="form-hint">Reference material only this agent sees, such as style guides, glossaries or policies</div>
+                </div>
+                <div class="form-group">
+                  <label class="form-label">Knowledge Usage: <span id="knowledgeUsageValue">${this.formData.knowledgeUsage ?? KNOWLEDGE.DEFAULT_USAGE}%</span></label>
+                  <div class="slider-group">
+                    <input type="range" class="slider-input" id="knowledgeUsage" 
+                           min="0" max="${KNOWLEDGE.MAX_USAGE}" value="${this.formData.knowledgeUsage ?? KNOWLEDGE.DEFAULT_USAGE}">
+                  </div>
+                  <div class="form-hint">Percentage of context reserved for the most relevant passages of the packs</div>
+                </div>
               </div>
 
               <!-- Advanced: Personality -->
@@ -1009,6 +1078,30 @@ export class AgentEditorModal extends HTMLElement {
       }
     });
 
+    // Knowledge packs live in their own component; keep a copy so a re-render doesn't lose them
+    const packEditor = this.shadowRoot?.getElementById('knowledge-packs') as KnowledgePackEditor | null;
+    if (packEditor) {
+      packEditor.packs = this.formData.knowledgePacks ?? [];
+      packEditor.addEventListener('packs:changed', (e: Event) => {
+        this.formData.knowledgePacks = (e as CustomEvent<KnowledgePack[]>).detail;
+      });
+    }
+
+    const fallbackEditor = this.shadowRoot?.getElementById('model-fallbacks') as ModelFallbackEditor | null;
+    if (fallbackEditor) {
+      fallbackEditor.providers = this.providers;
+      fallbackEditor.routes = this.formData.modelFallbacks ?? [];
+      fallbackEditor.addEventListener('fallbacks:changed', (e: Event) => {
+        this.formData.modelFallbacks = (e as CustomEvent<ModelRoute[]>).detail;
+      });
+    }
+
+    const knowledgeUsage = this.shadowRoot?.getElementById('knowledgeUsage') as HTMLInputElement | null;
+    knowledgeUsage?.addEventListener('input', () => {
+      const value = this.shadowRoot?.getElementById('knowledgeUsageValue');
+      if (value) value.textContent = `${knowledgeUsage.value}%`;
+    });
+
     // Category accordion toggle
     this.attachCategoryHandlers();
 
@@ -1127,10 +1220,16 @@ export class AgentEditorModal extends HTMLElement {
     const providerId = (this.shadowRoot?.getElementById(this.elId('provider')) as HTMLSelectElement)?.value;
     const modelId = (this.shadowRoot?.getElementById(this.elId('model')) as HTMLSelectElement)?.value;
     const thinkingDepth = parseInt((this.shadowRoot?.getElementById('thinkingDepth') as HTMLInputElement)?.value || '3');
+    const extendedThinking = (this.shadowRoot?.getElementById('extendedThinking') as HTMLInputElement)?.checked ?? false;
     const creativityLevel = parseInt((this.shadowRoot?.getElementById('creativityLevel') as HTMLInputElement)?.value || '3');
     const notebookUsage = parseInt((this.shadowRoot?.getElementById('notebookUsage') as HTMLInputElement)?.value || '50');
+    const knowledgeUsage = parseInt((this.shadowRoot?.getElementById('knowledgeUsage') as HTMLInputElement)?.value || String(KNOWLEDGE.DEFAULT_USAGE));
     const wordLimitInput = (this.shadowRoot?.getElementById('wordLimit') as HTMLInputElement)?.value;
     const wordLimit = wordLimitInput ? parseInt(wordLimitInput) : undefined;
+    const debateSideSelect = this.shadowRoot?.getElementById('debateSide') as HTMLSelectElement | null;
+    const debateSide = debateSideSelect
+      ? (debateSideSelect.value as DebateSide) || undefined
+      : this.formData.debateSide;
     const systemPrompt = (this.shadowRoot?.getElementById('systemPrompt') as HTMLTextAreaElement)?.value;
     const strengths = (this.shadowRoot?.getElementById('strengths') as HTMLInputElement)?.value;
     const thinkingStyle = (this.shadowRoot?.getElementById('thinkingStyle') as HTMLInputElement)?.value;
@@ -1145,10 +1244,15 @@ export class AgentEditorModal extends HTMLElement {
       expertise,
       llmProviderId: providerId,
       modelId,
+      modelFallbacks: this.formData.modelFallbacks ?? [],
       thinkingDepth,
+      extendedThinking,
       creativityLevel,
       notebookUsage,
+      knowledgePacks: this.formData.knowledgePacks ?? [],
+      knowledgeUsage,
       wordLimit,
+      debateSide,
       systemPrompt: systemPrompt || '',
       strengths: strengths || '',
       thinkingStyle: thinkingStyle || '',
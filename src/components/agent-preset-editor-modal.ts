@@ -5,7 +5,9 @@
 import { presetStorage } from '../storage/storage-manager';
 import { presetCategories } from '../agents/presets';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
-import type { AgentPreset, CreateAgentPreset } from '../types';
+import './knowledge-pack-editor';
+import type { KnowledgePackEditor } from './knowledge-pack-editor';
+import type { AgentPreset, CreateAgentPreset, KnowledgePack } from '../types';
 
 export interface PresetEditorConfig {
   mode: 'create' | 'edit' | 'clone';
@@ -22,6 +24,7 @@ export interface PresetEditorResult {
   thinkingStyle: string;
   defaultThinkingDepth: number;
   defaultCreativityLevel: number;
+  knowledgePacks: KnowledgePack[];
 }
 
 export class AgentPresetEditorModal extends HTMLElement {
@@ -66,6 +69,7 @@ export class AgentPresetEditorModal extends HTMLElement {
         thinkingStyle: config.preset.thinkingStyle,
         defaultThinkingDepth: config.preset.defaultThinkingDepth,
         defaultCreativityLevel: config.preset.defaultCreativityLevel,
+        knowledgePacks: config.preset.knowledgePacks ?? [],
       };
     } else {
       this.formData = {
@@ -78,6 +82,7 @@ export class AgentPresetEditorModal extends HTMLElement {
         thinkingStyle: '',
         defaultThinkingDepth: 3,
         defaultCreativityLevel: 3,
+        knowledgePacks: [],
       };
     }
   }
@@ -126,6 +131,7 @@ export class AgentPresetEditorModal extends HTMLElement {
       thinkingStyle: thinkingStyle || 'Analytical',
       defaultThinkingDepth: thinkingDepth,
       defaultCreativityLevel: creativityLevel,
+      knowledgePacks: this.formData.knowledgePacks ?? [],
     };
 
     try {
@@ -623,6 +629,18 @@ export class AgentPresetEditorModal extends HTMLElement {
                 </div>
               </div>
             </div>
+
+            <!-- Knowledge Packs -->
+            <div class="section">
+              <div class="section-title">Knowledge Packs</div>
+
+              <div class="form-group">
+                <knowledge-pack-editor id="knowledge-packs"></knowledge-pack-editor>
+                <div class="form-hint">
+                  Private reference material copied to every agent created from this preset. Only that agent sees it.
+                </div>
+              </div>
+            </div>
           </div>
 
           <div class="modal-footer">
@@ -659,6 +677,15 @@ export class AgentPresetEditorModal extends HTMLElement {
       if (e.target === e.currentTarget) this.close();
     });
 
+    // Knowledge packs
+    const packEditor = this.shadowRoot?.getElementById('knowledge-packs') as KnowledgePackEditor | null;
+    if (packEditor) {
+      packEditor.packs = this.formData.knowledgePacks ?? [];
+      packEditor.addEventListener('packs:changed', (e: Event) => {
+        this.formData.knowledgePacks = (e as CustomEvent<KnowledgePack[]>).detail;
+      });
+    }
+
     // Slider value updates
     const thinkingDepthSlider = this.shadowRoot?.getElementById('thinking-depth') as HTMLInputElement;
     const creativitySlider = this.shadowRoot?.getElementById('creativity-level') as HTMLInputElement;
@@ -5,7 +5,8 @@
 import { agentStorage, conversationStorage, providerStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
-import type { Agent, Conversation, LLMProvider, TurnQueueState } from '../types';
+import { getDebaters, getDebateTeams } from '../engine/debate';
+import type { Agent, Conversation, DebateSide, LLMProvider, TurnQueueState } from '../types';
 import './agent-editor-modal';
 import type { AgentEditorModal, AgentEditorResult } from './agent-editor-modal';
 
@@ -406,6 +407,32 @@ export class AgentRoster extends HTMLElement {
           white-space: nowrap;
         }
 
+        .debate-badge {
+          align-self: flex-start;
+          margin-top: 2px;
+          padding: 0 var(--space-2);
+          border-radius: var(--radius-full);
+          font-size: 9px;
+          font-weight: var(--font-bold);
+          letter-spacing: 0.05em;
+          text-transform: uppercase;
+        }
+
+        .debate-badge.pro {
+          background: color-mix(in srgb, var(--color-success) 15%, transparent);
+          color: var(--color-success);
+        }
+
+        .debate-badge.con {
+          background: color-mix(in srgb, var(--color-error) 15%, transparent);
+          color: var(--color-error);
+        }
+
+        .debate-badge.judge {
+          background: var(--color-primary-dim);
+          color: var(--color-primary);
+        }
+
         .empty-roster {
           color: var(--color-text-tertiary);
           font-size: var(--text-sm);
@@ -583,9 +610,14 @@ export class AgentRoster extends HTMLElement {
           expertise: result.expertise,
           llmProviderId: result.llmProviderId,
           modelId: result.modelId,
+          modelFallbacks: result.modelFallbacks,
           thinkingDepth: result.thinkingDepth,
+          extendedThinking: result.extendedThinking,
           creativityLevel: result.creativityLevel,
           notebookUsage: result.notebookUsage,
+          knowledgePacks: result.knowledgePacks,
+          knowledgeUsage: result.knowledgeUsage,
+          debateSide: result.debateSide,
         });
       }
 
@@ -621,6 +653,7 @@ export class AgentRoster extends HTMLElement {
     }
 
     const editable = this.isEditable();
+    const debateSides = this.getDebateSides();
 
     roster.innerHTML = this.agents.map(agent => {
       const status = this.agentStatuses.get(agent.id) || 'idle';
@@ -656,6 +689,7 @@ export class AgentRoster extends HTMLElement {
           <div class="agent-info">
             <span class="agent-name">${agent.name}</span>
             <span class="agent-role">${agent.isSecretary ? 'Secretary' : agent.role}</span>
+            ${this.renderDebateBadge(agent, debateSides)}
           </div>
         </div>
       `;
@@ -772,6 +806,36 @@ export class AgentRoster extends HTMLElement {
       .replace(/'/g, '&#39;');
   }
 
+  /**
+   * Team of each debater (empty outside debate mode)
+   */
+  private getDebateSides(): Map<string, DebateSide> {
+    const sides = new Map<string, DebateSide>();
+    if (this.conversation?.mode !== 'debate') return sides;
+
+    const teams = getDebateTeams(getDebaters(this.agents, this.conversation.judgeAgentId));
+    for (const side of ['pro', 'con'] as const) {
+      for (const agent of teams[side]) sides.set(agent.id, side);
+    }
+    return sides;
+  }
+
+  /**
+   * Team badge for debaters, and a judge badge for whoever scores the debate
+   */
+  private renderDebateBadge(agent: Agent, debateSides: Map<string, DebateSide>): string {
+    if (this.conversation?.mode !== 'debate') return '';
+
+    const side = debateSides.get(agent.id);
+    if (side) {
+      return `<span class="debate-badge ${side}">${side}</span>`;
+    }
+
+    const judgeId = this.agents.find(a => a.id === this.conversation?.judgeAgentId)?.id
+      ?? this.agents.find(a => a.isSecretary)?.id;
+    return agent.id === judgeId ? `<span class="debate-badge judge">Judge</span>` : '';
+  }
+
   private renderTurnBadge(position: TurnPosition, _color: string): string {
     if (!position || position === 'waiting') return '';
 
@@ -809,6 +873,7 @@ export class AgentRoster extends HTMLElement {
       mode: 'edit',
       agent: agent,
       conversationId: this.conversationId || undefined,
+      showDebateSide: this.conversation?.mode === 'debate' && !agent.isSecretary,
     });
 
     agentEditor.setAttribute('open', 'true');
@@ -14,6 +14,7 @@ import './settings-panel';
 import './new-conversation-modal';
 import './conversation-settings-modal';
 import './tool-approval-modal';
+import './search-modal';
 
 /**
  * App Shell - Main application container
@@ -188,6 +189,8 @@ export class AppShell extends HTMLElement {
         </main>
       </div>
       <new-conversation-modal></new-conversation-modal>
+      <tool-approval-modal></tool-approval-modal>
+      <search-modal></search-modal>
     `;
   }
 
@@ -3,6 +3,12 @@
 // ============================================
 
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
+import { escapeHtml } from '../utils/helpers';
+
+export interface ConfirmationInput {
+  placeholder?: string;
+  value?: string;
+}
 
 export interface ConfirmationConfig {
   title: string;
@@ -11,6 +17,7 @@ export interface ConfirmationConfig {
   confirmText?: string;
   cancelText?: string;
   variant?: 'danger' | 'warning' | 'info' | 'success';
+  input?: ConfirmationInput; // Show a text field (see prompt())
 }
 
 export class ConfirmationModal extends HTMLElement {
@@ -22,6 +29,7 @@ export class ConfirmationModal extends HTMLElement {
     cancelText: 'Cancel',
     variant: 'warning',
   };
+  private inputValue = '';
 
   static get observedAttributes() {
     return ['open'];
@@ -44,11 +52,12 @@ export class ConfirmationModal extends HTMLElement {
     if (name === 'open') {
       this.render();
       
-      // Focus the cancel button when opening for better accessibility
+      // Focus the text field, or the cancel button, when opening for better accessibility
       if (newValue === 'true') {
         requestAnimationFrame(() => {
+          const input = this.shadowRoot?.getElementById(this.elId('input')) as HTMLTextAreaElement | null;
           const cancelBtn = this.shadowRoot?.getElementById(this.elId('cancel-btn')) as HTMLButtonElement;
-          cancelBtn?.focus();
+          (input ?? cancelBtn)?.focus();
         });
       }
     }
@@ -92,7 +101,21 @@ export class ConfirmationModal extends HTMLElement {
     });
   }
 
+  /**
+   * Show the modal with a text field and return the entered text,
+   * or null when cancelled or left empty
+   */
+  async prompt(config: Partial<ConfirmationConfig> & { input: ConfirmationInput }): Promise<string | null> {
+    const confirmed = await this.show(config);
+    const value = this.inputValue;
+    this.configure({ input: undefined });
+    return confirmed && value ? value : null;
+  }
+
   private close(confirmed: boolean) {
+    // Read the text field before closing re-renders it
+    const input = this.shadowRoot?.getElementById(this.elId('input')) as HTMLTextAreaElement | null;
+    this.inputValue = input?.value.trim() ?? '';
     this.setAttribute('open', 'false');
     this.dispatchEvent(new CustomEvent(confirmed ? 'confirm' : 'cancel'));
   }
@@ -137,7 +160,7 @@ export class ConfirmationModal extends HTMLElement {
     if (!this.shadowRoot) return;
 
     const isOpen = this.getAttribute('open') === 'true';
-    const { title, message, details, confirmText, cancelText, variant } = this.config;
+    const { title, message, details, confirmText, cancelText, variant, input } = this.config;
 
     this.shadowRoot.innerHTML = `
       <style>
@@ -263,6 +286,25 @@ export class ConfirmationModal extends HTMLElement {
           flex-shrink: 0;
         }
 
+        .prompt-input {
+          width: 100%;
+          min-height: 72px;
+          margin-top: var(--space-4);
+          padding: var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+          color: var(--color-text-primary);
+          font-family: inherit;
+          font-size: var(--text-sm);
+          resize: vertical;
+        }
+
+        .prompt-input:focus {
+          outline: none;
+          border-color: var(--color-primary);
+        }
+
         .modal-footer {
           display: flex;
           justify-content: flex-end;
@@ -330,6 +372,16 @@ export class ConfirmationModal extends HTMLElement {
           opacity: 0.9;
         }
 
+        .btn-info {
+          background: var(--color-primary);
+          border: 1px solid var(--color-primary);
+          color: var(--color-bg-primary);
+        }
+
+        .btn-info:hover {
+          opacity: 0.9;
+        }
+
         .btn-success {
           background: var(--color-success);
           border: 1px solid var(--color-success);
@@ -384,6 +436,9 @@ export class ConfirmationModal extends HTMLElement {
                 `).join('')}
               </ul>
             ` : ''}
+            ${input ? `
+              <textarea class="prompt-input" id="${this.elId('input')}" placeholder="${escapeHtml(input.placeholder || '')}">${escapeHtml(input.value || '')}</textarea>
+            ` : ''}
           </div>
           <div class="modal-footer">
             <button class="btn btn-secondary" id="${this.elId('cancel-btn')}">${cancelText}</button>
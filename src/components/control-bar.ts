@@ -10,9 +10,11 @@ export class ControlBar extends HTMLElement {
   private status: ConversationStatus = 'idle';
   private speedMs: number = 2000;
   private locked: boolean = false;
+  private budgetNotice: string = '';
+  private budgetLevel: string = 'warning';
 
   static get observedAttributes() {
-    return ['status', 'speed', 'locked'];
+    return ['status', 'speed', 'locked', 'budget-notice', 'budget-level'];
   }
 
   constructor() {
@@ -37,6 +39,11 @@ export class ControlBar extends HTMLElement {
       this.locked = newValue === 'true';
       this.updateButtons();
     }
+    if (name === 'budget-notice' || name === 'budget-level') {
+      this.budgetNotice = this.getAttribute('budget-notice') || '';
+      this.budgetLevel = this.getAttribute('budget-level') || 'warning';
+      this.updateBudgetNotice();
+    }
   }
 
   private render() {
@@ -209,6 +216,23 @@ export class ControlBar extends HTMLElement {
         .status-text.locked {
           color: var(--color-warning);
         }
+
+        .budget-notice {
+          font-size: var(--text-xs);
+          color: var(--color-warning);
+          max-width: 260px;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .budget-notice.reached {
+          color: var(--color-error);
+        }
+
+        .budget-notice:empty {
+          display: none;
+        }
       </style>
 
       <div class="control-container">
@@ -234,6 +258,12 @@ export class ControlBar extends HTMLElement {
               <path d="M20 6L9 17l-5-5"/>
             </svg>
           </button>
+          <button class="control-btn" id="vote-btn" title="Call a Vote" disabled>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <rect x="3" y="3" width="18" height="18" rx="2"/>
+              <path d="M8 12l3 3 5-6"/>
+            </svg>
+          </button>
           <button class="control-btn" id="reset-btn" title="Reset">
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
               <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/>
@@ -251,6 +281,7 @@ export class ControlBar extends HTMLElement {
         <div class="status-indicator">
           <div class="status-dot ${this.status}"></div>
           <span class="status-text">${this.status}</span>
+          <span class="budget-notice" id="budget-notice"></span>
         </div>
       </div>
 
@@ -259,6 +290,7 @@ export class ControlBar extends HTMLElement {
 
     this.setupEventHandlers();
     this.updateButtons();
+    this.updateBudgetNotice();
   }
 
   private setupEventHandlers() {
@@ -304,6 +336,26 @@ export class ControlBar extends HTMLElement {
       }
     });
 
+    // Vote button - ask for the proposal to vote on
+    this.shadowRoot?.getElementById('vote-btn')?.addEventListener('click', async () => {
+      const modal = this.shadowRoot?.getElementById('reset-confirm-modal') as ConfirmationModal;
+      if (!modal) return;
+
+      const proposal = await modal.prompt({
+        title: 'Call a Vote',
+        message: 'Every participant will support, oppose or abstain on the proposal, with a confidence score and a one-line reason. While the discussion is running, the vote is held after the current turn.',
+        details: [],
+        input: { placeholder: 'e.g. Start with a pilot in one region' },
+        confirmText: 'Call Vote',
+        cancelText: 'Cancel',
+        variant: 'info',
+      });
+
+      if (proposal) {
+        this.dispatchEvent(new CustomEvent('call-vote', { detail: { proposal } }));
+      }
+    });
+
     // Reset button - show confirmation modal
     this.shadowRoot?.getElementById('reset-btn')?.addEventListener('click', async () => {
       const modal = this.shadowRoot?.getElementById('reset-confirm-modal') as ConfirmationModal;
@@ -343,8 +395,12 @@ export class ControlBar extends HTMLElement {
     const stopBtn = this.shadowRoot?.getElementById('stop-btn') as HTMLButtonElement;
     const finishBtn = this.shadowRoot?.getElementById('finish-btn') as HTMLButtonElement;
     const resetBtn = this.shadowRoot?.getElementById('reset-btn') as HTMLButtonElement;
+    const voteBtn = this.shadowRoot?.getElementById('vote-btn') as HTMLButtonElement;
+
+    if (!playBtn || !pauseBtn || !stopBtn || !finishBtn || !resetBtn || !voteBtn) return;
 
-    if (!playBtn || !pauseBtn || !stopBtn || !finishBtn || !resetBtn) return;
+    // Votes need a discussion to vote on, and can't be held while wrapping up
+    voteBtn.disabled = this.locked || this.status === 'idle' || this.status === 'finishing';
 
     // If locked by another tab, disable all control buttons
     if (this.locked) {
@@ -432,6 +488,15 @@ export class ControlBar extends HTMLElement {
     }
   }
 
+  private updateBudgetNotice() {
+    const notice = this.shadowRoot?.getElementById('budget-notice');
+    if (!notice) return;
+
+    notice.textContent = this.budgetNotice;
+    notice.title = this.budgetNotice;
+    notice.className = `budget-notice ${this.budgetLevel}`;
+  }
+
   private updateSpeed() {
     const speedValue = this.shadowRoot?.getElementById('speed-value');
     if (speedValue) {
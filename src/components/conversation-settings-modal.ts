@@ -2,14 +2,17 @@
 // AI Brainstorm - Conversation Settings Modal
 // ============================================
 
-import { conversationStorage, agentStorage, providerStorage, settingsStorage } from '../storage/storage-manager';
+import { conversationStorage, agentStorage, providerStorage, settingsStorage, documentStorage } from '../storage/storage-manager';
+import { attachDocument, removeDocument } from '../utils/documents';
 import { eventBus } from '../utils/event-bus';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
 import { ALL_LANGUAGES, getEnabledLanguages, type Language } from '../utils/languages';
-import type { Conversation, Agent, LLMProvider, ConversationMode, ExtendedMultiplier, ConversationDepth, AppSettings } from '../types';
+import type { Conversation, Agent, LLMProvider, ConversationMode, ExtendedMultiplier, ConversationDepth, AppSettings, BudgetLimitAction, ConversationDocument } from '../types';
+import { BUDGET, DEBATE, DOCUMENTS } from '../constants';
+import { getDebateRoundCount, getRebuttalRounds } from '../engine/debate';
 import './agent-editor-modal';
 import type { AgentEditorModal, AgentEditorResult } from './agent-editor-modal';
-import { generateAgentColor } from '../utils/helpers';
+import { generateAgentColor, escapeHtml, formatFileSize } from '../utils/helpers';
 
 // Depth level configuration for UI display
 const DEPTH_LEVELS: Array<{ id: ConversationDepth; name: string; icon: string; description: string }> = [
@@ -25,11 +28,14 @@ export class ConversationSettingsModal extends HTMLElement {
   private readonly uid = `conversation-settings-${Math.random().toString(36).slice(2, 10)}`;
   private conversation: Conversation | null = null;
   private agents: Agent[] = [];
+  private documents: ConversationDocument[] = [];
+  private documentError = '';
   private providers: LLMProvider[] = [];
   private activeTab: 'general' | 'agents' = 'general';
   // Enabled languages from settings
   private enabledLanguages: Language[] = getEnabledLanguages(['']);
   private settingsUnsubscribe: (() => void) | null = null;
+  private documentsUnsubscribe: (() => void) | null = null;
 
   private elId(suffix: string): string {
     return `${this.uid}-${suffix}`;
@@ -60,6 +66,14 @@ export class ConversationSettingsModal extends HTMLElement {
         this.render();
       }
     });
+
+    // Document summaries arrive while the conversation runs; only the list is redrawn
+    this.documentsUnsubscribe?.();
+    this.documentsUnsubscribe = eventBus.on('documents:updated', (conversationId: string) => {
+      if (this.getAttribute('open') === 'true' && conversationId === this.conversation?.id) {
+        void this.refreshDocuments();
+      }
+    });
   }
   
   disconnectedCallback() {
@@ -68,12 +82,15 @@ export class ConversationSettingsModal extends HTMLElement {
       this.settingsUnsubscribe();
       this.settingsUnsubscribe = null;
     }
+    this.documentsUnsubscribe?.();
+    this.documentsUnsubscribe = null;
   }
 
   attributeChangedCallback(name: string, _oldValue: string, newValue: string) {
     if (name === 'open') {
       // Always re-render on open state changes so the overlay display updates immediately.
       if (newValue === 'true') {
+        this.documentError = '';
         this.loadData().then(() => this.render());
       } else {
         this.render();
@@ -92,6 +109,7 @@ export class ConversationSettingsModal extends HTMLElement {
 
     this.conversation = await conversationStorage.getById(conversationId) || null;
     this.agents = await agentStorage.getByConversation(conversationId);
+    this.documents = await documentStorage.getByConversation(conversationId);
     this.providers = await providerStorage.getAll();
     
     // Load enabled languages from settings
@@ -635,6 +653,10 @@ export class ConversationSettingsModal extends HTMLElement {
           cursor: not-allowed;
         }
 
+        .document-error {
+          color: var(--color-error);
+        }
+
         .running-warning {
           padding: var(--space-3) var(--space-4);
           background: rgba(245, 158, 11, 0.1);
@@ -901,9 +923,48 @@ export class ConversationSettingsModal extends HTMLElement {
             <div class="mode-icon">💬</div>
             <div class="mode-name">Dynamic</div>
           </div>
+          <div class="mode-option ${conv.mode === 'parallel' ? 'selected' : ''} ${!editable ? 'disabled' : ''}" data-mode="parallel">
+            <div class="mode-icon">⚡</div>
+            <div class="mode-name">Parallel</div>
+          </div>
+          <div class="mode-option ${conv.mode === 'debate' ? 'selected' : ''} ${!editable ? 'disabled' : ''}" data-mode="debate">
+            <div class="mode-icon">⚖️</div>
+            <div class="mode-name">Debate</div>
+          </div>
         </div>
       </div>
 
+      <!-- Moderator - only used in moderated mode -->
+      <div class="form-group" id="moderator-group" ${conv.mode !== 'moderator' ? 'style="display: none;"' : ''}>
+        <label class="form-label">Moderator</label>
+        <select class="form-select" id="moderator-agent" ${!editable ? 'disabled' : ''}>
+          ${this.agents.map(agent => `
+            <option value="${agent.id}" ${this.getModeratorAgentId(conv) === agent.id ? 'selected' : ''}>
+              ${agent.name}${agent.isSecretary ? ' (Secretary)' : ''}
+            </option>
+          `).join('')}
+        </select>
+        <div class="form-hint">Decides who speaks next and explains why</div>
+      </div>
+
+      <!-- Debate - only used in debate mode -->
+      <div class="form-group" id="debate-group" ${conv.mode !== 'debate' ? 'style="display: none;"' : ''}>
+        <label class="form-label">Judge</label>
+        <select class="form-select" id="judge-agent" ${!editable ? 'disabled' : ''}>
+          ${this.agents.map(agent => `
+            <option value="${agent.id}" ${this.getJudgeAgentId(conv) === agent.id ? 'selected' : ''}>
+              ${agent.name}${agent.isSecretary ? ' (Secretary)' : ''}
+            </option>
+          `).join('')}
+        </select>
+        <div class="form-hint">Scores both teams at the end and declares the winner. A participant chosen here sits out the debate.</div>
+
+        <label class="form-label" style="margin-top: var(--space-3);">Rebuttal Rounds</label>
+        <input type="number" class="form-input" id="debateRebuttalRounds" min="0" max="${DEBATE.MAX_REBUTTAL_ROUNDS}"
+          value="${getRebuttalRounds(conv)}" ${!editable ? 'disabled' : ''}>
+        <div class="form-hint">Rounds between the opening and closing statements. Teams are set per agent in the Agents tab.</div>
+      </div>
+
       <!-- Response Depth - Can be changed while running -->
       <div class="form-group">
         <label class="form-label">Response Depth</label>
@@ -1008,6 +1069,85 @@ export class ConversationSettingsModal extends HTMLElement {
         </div>
       </div>
 
+      <div class="form-group">
+        <label class="form-label">Votes</label>
+        <select class="form-select" id="autoVote" ${!editable ? 'disabled' : ''}>
+          <option value="off" ${!conv.autoVote ? 'selected' : ''}>Only when I call one</option>
+          <option value="on" ${conv.autoVote ? 'selected' : ''}>Secretary also calls votes at decision points</option>
+        </select>
+        <div class="form-hint">Agents vote on a proposal; agreed results are added to the result draft</div>
+      </div>
+
+      <div class="form-group">
+        <label class="form-label">Convergence</label>
+        <select class="form-select" id="autoConverge" ${!editable ? 'disabled' : ''}>
+          <option value="off" ${!conv.autoConverge ? 'selected' : ''}>Only chart the measurements</option>
+          <option value="on" ${conv.autoConverge ? 'selected' : ''}>Secretary finishes early or adds rounds</option>
+        </select>
+        <div class="form-hint">Checked after every round from new content, repeated points and open questions</div>
+      </div>
+
+      <div class="form-group">
+        <label class="form-label">Context Selection</label>
+        <select class="form-select" id="relevanceScoring" ${!editable ? 'disabled' : ''}>
+          <option value="off" ${!conv.relevanceScoring ? 'selected' : ''}>Recent and highly rated messages first</option>
+          <option value="on" ${conv.relevanceScoring ? 'selected' : ''}>Also bring back older messages on the current topic</option>
+        </select>
+        <div class="form-hint">Relevance compares each message with the agent's role and the latest messages</div>
+      </div>
+
+      <!-- Budget Guardrails -->
+      <div class="form-row">
+        <div class="form-group">
+          <label class="form-label">Max Tokens</label>
+          <input type="number" class="form-input" id="budgetMaxTokens" min="0" step="1000"
+                 value="${conv.budgetMaxTokens ?? ''}" placeholder="No limit" ${!editable ? 'disabled' : ''}>
+          <div class="form-hint">Tokens agents may spend on turns</div>
+        </div>
+
+        <div class="form-group">
+          <label class="form-label">Max Cost (USD)</label>
+          <input type="number" class="form-input" id="budgetMaxCost" min="0" step="0.01"
+                 value="${conv.budgetMaxCost ?? ''}" placeholder="No limit" ${!editable ? 'disabled' : ''}>
+          <div class="form-hint">Estimated from model prices</div>
+        </div>
+      </div>
+
+      <div class="form-row">
+        <div class="form-group">
+          <label class="form-label">Max Running Time (minutes)</label>
+          <input type="number" class="form-input" id="budgetMaxMinutes" min="0" step="1"
+                 value="${conv.budgetMaxDurationMs ? conv.budgetMaxDurationMs / 60000 : ''}" placeholder="No limit" ${!editable ? 'disabled' : ''}>
+          <div class="form-hint">Paused time does not count</div>
+        </div>
+
+        <div class="form-group">
+          <label class="form-label">When a Limit Is Reached</label>
+          <select class="form-select" id="budgetAction" ${!editable ? 'disabled' : ''}>
+            <option value="pause" ${(conv.budgetAction ?? BUDGET.DEFAULT_ACTION) === 'pause' ? 'selected' : ''}>Pause</option>
+            <option value="finish" ${conv.budgetAction === 'finish' ? 'selected' : ''}>Finish with a final round</option>
+          </select>
+          <div class="form-hint">You are warned at ${Math.round(BUDGET.WARNING_RATIO * 100)}% of a limit</div>
+        </div>
+      </div>
+
+      <!-- Source Documents -->
+      <div class="form-group">
+        <label class="form-label">Source Documents</label>
+        <div class="agent-list" id="document-list">
+          ${this.documents.map(document => this.renderDocumentCard(document)).join('')}
+        </div>
+        <input type="file" id="document-input" accept="${DOCUMENTS.ACCEPT}" multiple hidden>
+        <button type="button" class="add-agent-btn" id="attach-document-btn">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <line x1="12" y1="5" x2="12" y2="19"/>
+            <line x1="5" y1="12" x2="19" y2="12"/>
+          </svg>
+          Attach Documents
+        </button>
+        <div class="form-hint" id="document-hint">${this.renderDocumentHint()}</div>
+      </div>
+
       <div class="danger-zone">
         <div class="danger-zone-header">
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -1032,6 +1172,38 @@ export class ConversationSettingsModal extends HTMLElement {
     `;
   }
 
+  private renderDocumentHint(): string {
+    return this.documentError
+      ? `<span class="document-error">${escapeHtml(this.documentError)}</span>`
+      : `Markdown, text, PDF, CSV or JSON up to ${DOCUMENTS.MAX_FILE_BYTES / (1024 * 1024)} MB. Agents see the most relevant passages and cite them like [D1.2]`;
+  }
+
+  private renderDocumentCard(document: ConversationDocument): string {
+    return `
+      <div class="agent-card" data-document-id="${document.id}">
+        <div class="agent-avatar" style="background: var(--color-primary-dim); color: var(--color-primary);">
+          D${document.number}
+        </div>
+        <div class="agent-info">
+          <div class="agent-name">${escapeHtml(document.name)}</div>
+          <div class="agent-meta">
+            <span>${document.chunkCount} passage${document.chunkCount !== 1 ? 's' : ''} · ${document.tokenCount.toLocaleString()} tokens · ${formatFileSize(document.size)}</span>
+            <span class="agent-model-badge">${document.summary ? 'Summarized' : 'Summary pending'}</span>
+          </div>
+        </div>
+        <div class="agent-actions">
+          <button type="button" class="agent-action-btn delete-document" data-document-id="${document.id}" title="Remove">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M3 6h18"/>
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/>
+              <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+            </svg>
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
   private renderAgentsTab(): string {
     const editable = this.isEditable();
     const regularAgents = this.agents.filter(a => !a.isSecretary);
@@ -1137,6 +1309,15 @@ export class ConversationSettingsModal extends HTMLElement {
         option.addEventListener('click', () => {
           this.shadowRoot?.querySelectorAll('.mode-option').forEach(o => o.classList.remove('selected'));
           option.classList.add('selected');
+
+          const moderatorGroup = this.shadowRoot?.getElementById('moderator-group');
+          if (moderatorGroup) {
+            moderatorGroup.style.display = option.getAttribute('data-mode') === 'moderator' ? '' : 'none';
+          }
+          const debateGroup = this.shadowRoot?.getElementById('debate-group');
+          if (debateGroup) {
+            debateGroup.style.display = option.getAttribute('data-mode') === 'debate' ? '' : 'none';
+          }
         });
       });
     }
@@ -1247,10 +1428,15 @@ export class ConversationSettingsModal extends HTMLElement {
           expertise: result.expertise,
           llmProviderId: result.llmProviderId,
           modelId: result.modelId,
+          modelFallbacks: result.modelFallbacks,
           thinkingDepth: result.thinkingDepth,
+          extendedThinking: result.extendedThinking,
           creativityLevel: result.creativityLevel,
           notebookUsage: result.notebookUsage,
+          knowledgePacks: result.knowledgePacks,
+          knowledgeUsage: result.knowledgeUsage,
           wordLimit: result.wordLimit,
+          debateSide: result.debateSide,
         });
       } else if (this.conversation) {
         // Create new agent
@@ -1262,9 +1448,14 @@ export class ConversationSettingsModal extends HTMLElement {
           presetId: result.presetId,
           llmProviderId: result.llmProviderId,
           modelId: result.modelId,
+          modelFallbacks: result.modelFallbacks,
           thinkingDepth: result.thinkingDepth,
+          extendedThinking: result.extendedThinking,
           creativityLevel: result.creativityLevel,
           notebookUsage: result.notebookUsage,
+          knowledgePacks: result.knowledgePacks,
+          knowledgeUsage: result.knowledgeUsage,
+          debateSide: result.debateSide,
           isSecretary: false,
           color: generateAgentColor(this.agents.length),
           order: this.agents.filter(a => !a.isSecretary).length,
@@ -1280,6 +1471,16 @@ export class ConversationSettingsModal extends HTMLElement {
       await this.saveSettings();
     });
 
+    // Source documents (can be added or removed while the conversation runs)
+    const documentInput = this.shadowRoot?.getElementById('document-input') as HTMLInputElement | null;
+    this.shadowRoot?.getElementById('attach-document-btn')?.addEventListener('click', () => documentInput?.click());
+    documentInput?.addEventListener('change', async () => {
+      await this.attachDocuments(Array.from(documentInput.files ?? []));
+      documentInput.value = '';
+    });
+
+    this.setupDocumentHandlers();
+
     // Delete conversation button
     this.shadowRoot?.getElementById('delete-conv-btn')?.addEventListener('click', async () => {
       await this.deleteConversation();
@@ -1289,6 +1490,49 @@ export class ConversationSettingsModal extends HTMLElement {
     this.setupDragAndDrop();
   }
 
+  private setupDocumentHandlers() {
+    this.shadowRoot?.querySelectorAll('.agent-action-btn.delete-document').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const documentId = btn.getAttribute('data-document-id');
+        if (this.conversation && documentId && confirm('Remove this document? Citations of it will no longer open.')) {
+          await removeDocument(this.conversation.id, documentId);
+        }
+      });
+    });
+  }
+
+  /**
+   * Attach files as source documents, reporting the first one that can't be read
+   */
+  private async attachDocuments(files: File[]) {
+    if (!this.conversation) return;
+
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        await attachDocument(this.conversation.id, file);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    this.documentError = errors[0] ?? '';
+    await this.refreshDocuments();
+  }
+
+  /**
+   * Reload and redraw the document list without touching unsaved form fields
+   */
+  private async refreshDocuments() {
+    if (!this.conversation) return;
+
+    this.documents = await documentStorage.getByConversation(this.conversation.id);
+    const list = this.shadowRoot?.getElementById('document-list');
+    const hint = this.shadowRoot?.getElementById('document-hint');
+    if (list) list.innerHTML = this.documents.map(document => this.renderDocumentCard(document)).join('');
+    if (hint) hint.innerHTML = this.renderDocumentHint();
+    this.setupDocumentHandlers();
+  }
+
   /**
    * Set up drag and drop for agent reordering in the Agents tab
    */
@@ -1426,6 +1670,7 @@ export class ConversationSettingsModal extends HTMLElement {
           mode: 'edit',
           agent: agent,
           conversationId: this.conversation?.id,
+          showDebateSide: this.conversation?.mode === 'debate' && !agent.isSecretary,
         });
       }
     } else {
@@ -1437,12 +1682,29 @@ export class ConversationSettingsModal extends HTMLElement {
         },
         conversationId: this.conversation?.id,
         order: this.agents.filter(a => !a.isSecretary).length,
+        showDebateSide: this.conversation?.mode === 'debate',
       });
     }
 
     agentEditor.setAttribute('open', 'true');
   }
 
+  /**
+   * Moderator used in moderated mode (the secretary unless another agent was chosen)
+   */
+  private getModeratorAgentId(conv: Conversation): string | undefined {
+    const configured = this.agents.find(a => a.id === conv.moderatorAgentId);
+    return (configured ?? this.agents.find(a => a.isSecretary))?.id;
+  }
+
+  /**
+   * Judge used in debate mode (the secretary unless another agent was chosen)
+   */
+  private getJudgeAgentId(conv: Conversation): string | undefined {
+    const configured = this.agents.find(a => a.id === conv.judgeAgentId);
+    return (configured ?? this.agents.find(a => a.isSecretary))?.id;
+  }
+
   private async saveSettings() {
     if (!this.conversation || !this.isEditable()) return;
 
@@ -1470,18 +1732,48 @@ export class ConversationSettingsModal extends HTMLElement {
     // We pass the value directly - empty string will be stored and handled by language service
     const targetLanguage = targetLanguageSelect?.value || undefined;
 
+    const moderatorSelect = this.shadowRoot?.getElementById('moderator-agent') as HTMLSelectElement | null;
+    const moderatorAgentId = moderatorSelect?.value || undefined;
+
+    // Debates run a fixed number of rounds, so maxRounds follows the rebuttal count
+    const judgeSelect = this.shadowRoot?.getElementById('judge-agent') as HTMLSelectElement | null;
+    const judgeAgentId = judgeSelect?.value || undefined;
+    const debateRebuttalRounds = getRebuttalRounds({
+      debateRebuttalRounds: parseInt((this.shadowRoot?.getElementById('debateRebuttalRounds') as HTMLInputElement)?.value || `${DEBATE.DEFAULT_REBUTTAL_ROUNDS}`),
+    });
+
+    const autoVote = (this.shadowRoot?.getElementById('autoVote') as HTMLSelectElement | null)?.value === 'on';
+    const autoConverge = (this.shadowRoot?.getElementById('autoConverge') as HTMLSelectElement | null)?.value === 'on';
+    const relevanceScoring = (this.shadowRoot?.getElementById('relevanceScoring') as HTMLSelectElement | null)?.value === 'on';
+
+    // Budget limits (empty or 0 = no limit)
+    const budgetMaxTokens = parseInt((this.shadowRoot?.getElementById('budgetMaxTokens') as HTMLInputElement)?.value || '0');
+    const budgetMaxCost = parseFloat((this.shadowRoot?.getElementById('budgetMaxCost') as HTMLInputElement)?.value || '0');
+    const budgetMaxMinutes = parseFloat((this.shadowRoot?.getElementById('budgetMaxMinutes') as HTMLInputElement)?.value || '0');
+    const budgetAction = ((this.shadowRoot?.getElementById('budgetAction') as HTMLSelectElement)?.value || BUDGET.DEFAULT_ACTION) as BudgetLimitAction;
+
     await conversationStorage.update(this.conversation.id, {
       subject,
       goal,
       mode,
       speedMs,
-      maxRounds: maxRounds > 0 ? maxRounds : undefined,
+      maxRounds: mode === 'debate' ? getDebateRoundCount({ debateRebuttalRounds }) : maxRounds > 0 ? maxRounds : undefined,
       maxContextTokens,
       defaultWordLimit,
       extendedSpeakingChance,
       extendedMultiplier,
       conversationDepth,
       targetLanguage,
+      moderatorAgentId,
+      judgeAgentId,
+      debateRebuttalRounds,
+      autoVote,
+      autoConverge,
+      relevanceScoring,
+      budgetMaxTokens: budgetMaxTokens > 0 ? budgetMaxTokens : undefined,
+      budgetMaxCost: budgetMaxCost > 0 ? budgetMaxCost : undefined,
+      budgetMaxDurationMs: budgetMaxMinutes > 0 ? budgetMaxMinutes * 60000 : undefined,
+      budgetAction,
     });
 
     eventBus.emit('conversation:updated', await conversationStorage.getById(this.conversation.id) as Conversation);
@@ -3,13 +3,18 @@
 // ============================================
 
 import { ConversationEngine } from '../engine/conversation-engine';
+import { conversationStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
 import { downloadConversation } from '../utils/export';
 import { isLockedByOtherTab } from '../utils/conversation-lock';
+import { escapeHtml } from '../utils/helpers';
+import type { Conversation, BudgetNotice } from '../types';
 import './message-stream';
+import type { MessageStream, MessageReviseDetail } from './message-stream';
 import './agent-roster';
 import './control-bar';
 import './result-draft';
+import type { ResultDraftPanel } from './result-draft';
 import './secretary-panel';
 import './user-input';
 import './conversation-settings-modal';
@@ -24,6 +29,7 @@ export class ConversationView extends HTMLElement {
   private onExportDocumentClick: ((e: MouseEvent) => void) | null = null;
   private onExportDocumentKeydown: ((e: KeyboardEvent) => void) | null = null;
   private eventUnsubscribers: (() => void)[] = [];
+  private branchGroup: Conversation[] = []; // Original conversation followed by its branches
 
   static get observedAttributes() {
     return ['conversation-id'];
@@ -88,6 +94,8 @@ export class ConversationView extends HTMLElement {
       return;
     }
 
+    this.branchGroup = await this.loadBranchGroup(this.engine.getConversation());
+
     // Check if this conversation is locked by another tab
     this.isLocked = await isLockedByOtherTab(this.conversationId);
     
@@ -99,6 +107,38 @@ export class ConversationView extends HTMLElement {
     this.renderConversation();
   }
 
+  /**
+   * Load the conversations this one can switch between: the conversation it was
+   * forked from (or itself, if it is the original) followed by that conversation's branches
+   */
+  private async loadBranchGroup(conversation: Conversation): Promise<Conversation[]> {
+    const root = conversation.parentConversationId
+      ? await conversationStorage.getById(conversation.parentConversationId)
+      : conversation;
+    if (!root) return [];
+
+    const branches = await conversationStorage.getBranches(root.id);
+    return branches.length > 0 ? [root, ...branches] : [];
+  }
+
+  private renderBranchNav(conversationId: string): string {
+    const index = this.branchGroup.findIndex(c => c.id === conversationId);
+    if (index === -1) return '';
+
+    const label = index === 0 ? 'Original' : `Branch ${index}`;
+    return `
+      <div class="branch-nav">
+        <button class="branch-nav-btn" id="branch-prev-btn" title="Previous branch" ${index === 0 ? 'disabled' : ''}>
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M15 18l-6-6 6-6"/></svg>
+        </button>
+        <span class="branch-nav-label">${label} · ${index + 1}/${this.branchGroup.length}</span>
+        <button class="branch-nav-btn" id="branch-next-btn" title="Next branch" ${index === this.branchGroup.length - 1 ? 'disabled' : ''}>
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M9 18l6-6-6-6"/></svg>
+        </button>
+      </div>
+    `;
+  }
+
   /**
    * Start polling for lock status changes
    * When the other tab releases the lock, we refresh to enable controls
@@ -136,6 +176,7 @@ export class ConversationView extends HTMLElement {
       eventBus.on('conversation:started', (id) => {
         if (id === this.conversationId) {
           this.updateControlBar();
+          this.setBudgetNotice(null);
         }
       })
     );
@@ -152,6 +193,7 @@ export class ConversationView extends HTMLElement {
       eventBus.on('conversation:resumed', (id) => {
         if (id === this.conversationId) {
           this.updateControlBar();
+          this.setBudgetNotice(null);
         }
       })
     );
@@ -172,6 +214,22 @@ export class ConversationView extends HTMLElement {
       })
     );
 
+    this.eventUnsubscribers.push(
+      eventBus.on('conversation:budget-warning', (notice) => {
+        if (notice.conversationId === this.conversationId) {
+          this.setBudgetNotice(notice);
+        }
+      })
+    );
+
+    this.eventUnsubscribers.push(
+      eventBus.on('conversation:budget-reached', (notice) => {
+        if (notice.conversationId === this.conversationId) {
+          this.setBudgetNotice(notice);
+        }
+      })
+    );
+
     this.eventUnsubscribers.push(
       eventBus.on('conversation:updated', (conv) => {
         if (conv.id === this.conversationId) {
@@ -197,6 +255,18 @@ export class ConversationView extends HTMLElement {
     }
   }
 
+  private setBudgetNotice(notice: BudgetNotice | null) {
+    const controlBar = this.shadowRoot?.querySelector('control-bar');
+    if (!controlBar) return;
+
+    if (notice) {
+      controlBar.setAttribute('budget-level', notice.level);
+      controlBar.setAttribute('budget-notice', notice.message);
+    } else {
+      controlBar.removeAttribute('budget-notice');
+    }
+  }
+
   private async emitInitialTurnQueueState(conversationId: string): Promise<void> {
     if (!this.engine) return;
     const state = await this.engine.getTurnQueueState();
@@ -395,6 +465,44 @@ export class ConversationView extends HTMLElement {
           color: var(--color-text-secondary);
         }
 
+        .branch-nav {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+          margin-top: var(--space-1);
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+        }
+
+        .branch-nav-btn {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 20px;
+          height: 20px;
+          padding: 0;
+          background: transparent;
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-secondary);
+          cursor: pointer;
+        }
+
+        .branch-nav-btn:hover:not(:disabled) {
+          background: var(--color-surface-hover);
+          color: var(--color-text-primary);
+        }
+
+        .branch-nav-btn:disabled {
+          opacity: 0.4;
+          cursor: default;
+        }
+
+        .branch-nav-btn svg {
+          width: 12px;
+          height: 12px;
+        }
+
         .conv-meta {
           display: flex;
           align-items: center;
@@ -694,6 +802,7 @@ export class ConversationView extends HTMLElement {
         <div class="conv-info">
           <div class="conv-subject">${conversation.subject}</div>
           <div class="conv-goal">${conversation.goal}</div>
+          ${this.renderBranchNav(conversation.id)}
         </div>
         <div class="conv-meta">
           <round-progress conversation-id="${conversation.id}"></round-progress>
@@ -815,6 +924,7 @@ export class ConversationView extends HTMLElement {
           conversation-id="${conversation.id}" 
           status="${conversation.status}"
           ${this.isLocked ? 'locked="true"' : ''}
+          ${conversation.budgetStopReason ? `budget-notice="${escapeHtml(conversation.budgetStopReason)}" budget-level="reached"` : ''}
         ></control-bar>
       </div>
     `;
@@ -832,6 +942,12 @@ export class ConversationView extends HTMLElement {
       controlBar.addEventListener('stop', () => this.engine?.stop());
       controlBar.addEventListener('finish', () => this.engine?.finish());
       controlBar.addEventListener('reset', () => this.engine?.reset());
+      controlBar.addEventListener('call-vote', (e: Event) => {
+        const { proposal } = (e as CustomEvent).detail || {};
+        if (typeof proposal === 'string') {
+          void this.engine?.callVote(proposal);
+        }
+      });
       controlBar.addEventListener('speed-change', (e: Event) => {
         const { speedMs } = (e as CustomEvent).detail || {};
         if (typeof speedMs === 'number') {
@@ -840,6 +956,35 @@ export class ConversationView extends HTMLElement {
       });
     }
 
+    // Set up message regenerate/edit and version switching
+    const messageStream = this.shadowRoot.querySelector('message-stream') as MessageStream | null;
+    messageStream?.addEventListener('message-revise', async (e: Event) => {
+      const { messageId, ...options } = (e as CustomEvent<MessageReviseDetail>).detail;
+      const result = await this.engine?.regenerateMessage(messageId, options);
+      if (result && !result.success) {
+        eventBus.emit('error', { message: result.error || 'Failed to update message' });
+      }
+      messageStream.endRevision(messageId, result?.success ?? false);
+    });
+    messageStream?.addEventListener('message-version', async (e: Event) => {
+      const { messageId, versionId } = (e as CustomEvent<{ messageId: string; versionId: string }>).detail;
+      const updated = await this.engine?.selectMessageVersion(messageId, versionId);
+      if (!updated) {
+        eventBus.emit('error', { message: 'Pause the conversation before switching message versions' });
+      }
+    });
+
+    // Set up result draft regeneration (skips the response cache)
+    const resultDraft = this.shadowRoot.querySelector('result-draft') as ResultDraftPanel | null;
+    resultDraft?.addEventListener('result-regenerate', async () => {
+      try {
+        await this.engine?.regenerateResult();
+      } catch (error) {
+        eventBus.emit('error', { message: error instanceof Error ? error.message : 'Failed to regenerate the result' });
+      }
+      resultDraft.endRegeneration();
+    });
+
     // Set up settings button
     const settingsBtn = this.shadowRoot.getElementById('settings-btn');
     settingsBtn?.addEventListener('click', () => {
@@ -847,6 +992,17 @@ export class ConversationView extends HTMLElement {
       settingsModal?.setAttribute('open', 'true');
     });
 
+    // Set up sibling branch navigation
+    const branchIndex = this.branchGroup.findIndex(c => c.id === conversation.id);
+    this.shadowRoot.getElementById('branch-prev-btn')?.addEventListener('click', () => {
+      const target = this.branchGroup[branchIndex - 1];
+      if (target) eventBus.emit('conversation:selected', target.id);
+    });
+    this.shadowRoot.getElementById('branch-next-btn')?.addEventListener('click', () => {
+      const target = this.branchGroup[branchIndex + 1];
+      if (target) eventBus.emit('conversation:selected', target.id);
+    });
+
     // Set up header finish button (calls the same finish as control bar)
     const finishHeaderBtn = this.shadowRoot.getElementById('finish-header-btn');
     finishHeaderBtn?.addEventListener('click', () => this.engine?.finish());
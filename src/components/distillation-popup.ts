@@ -538,6 +538,118 @@ export class DistillationPopup extends HTMLElement {
       `);
     }
 
+    // Workspace memory from earlier conversations
+    if (snapshot.workspaceMemory && snapshot.workspaceMemory.length > 0) {
+      const entriesHtml = snapshot.workspaceMemory.map((entry, i) => `
+        <div class="fact-item">
+          <span class="fact-category" style="background: var(--color-primary-dim); color: var(--color-primary);">
+            [${i + 1}] ${entry.kind}
+          </span>
+          <div>
+            <div class="fact-content">${escapeHtml(entry.content)}</div>
+            <div class="fact-source">From: ${escapeHtml(entry.sourceSubject)}</div>
+          </div>
+        </div>
+      `).join('');
+
+      sections.push(`
+        <div class="section">
+          <div class="section-title">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <ellipse cx="12" cy="5" rx="9" ry="3"/>
+              <path d="M21 12c0 1.66-4 3-9 3s-9-1.34-9-3"/>
+              <path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5"/>
+            </svg>
+            From Earlier Conversations (${snapshot.workspaceMemory.length})
+          </div>
+          <div class="section-content">
+            <div class="facts-list">${entriesHtml}</div>
+          </div>
+        </div>
+      `);
+    }
+
+    // Document passages that were in the prompt
+    if (snapshot.documentChunks && snapshot.documentChunks.length > 0) {
+      sections.push(`
+        <div class="section">
+          <div class="section-title">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+              <polyline points="14 2 14 8 20 8"/>
+            </svg>
+            Document Passages (${snapshot.documentChunks.length})
+          </div>
+          <div class="section-content">
+            <div class="summary-text">${snapshot.documentChunks.map(ref => escapeHtml(ref)).join(', ')}</div>
+          </div>
+        </div>
+      `);
+    }
+
+    // Passages from the agent's own knowledge packs
+    if (snapshot.knowledgePassages && snapshot.knowledgePassages.length > 0) {
+      const passages = snapshot.knowledgePassages.map(ref => `${ref.packName} #${ref.index + 1}`);
+
+      sections.push(`
+        <div class="section">
+          <div class="section-title">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"/>
+              <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"/>
+            </svg>
+            Private Knowledge (${snapshot.knowledgePassages.length})
+          </div>
+          <div class="section-content">
+            <div class="summary-text">${passages.map(passage => escapeHtml(passage)).join(', ')}</div>
+          </div>
+        </div>
+      `);
+    }
+
+    // Score breakdown of the included messages, best first
+    if (snapshot.messageScores && snapshot.messageScores.length > 0) {
+      const scores = [...snapshot.messageScores].sort((a, b) => b.total - a.total);
+      const scoresHtml = scores.map(score => {
+        const parts = [
+          `type ${score.type}`,
+          score.addressing ? `addressing +${score.addressing}` : '',
+          score.votes ? `votes ${score.votes > 0 ? '+' : ''}${score.votes}` : '',
+          score.recency ? `recency +${score.recency}` : '',
+          score.decayFactor < 1 ? `decay ×${score.decayFactor.toFixed(2)}` : '',
+          score.relevance !== undefined ? `relevance ${Math.round(score.relevance * 100)}% (+${score.relevanceBonus ?? 0})` : '',
+        ].filter(Boolean).join(' · ');
+
+        return `
+          <div class="fact-item">
+            <span class="fact-category" style="background: ${score.critical ? 'var(--color-primary-dim)' : 'var(--color-bg-tertiary)'}; color: ${score.critical ? 'var(--color-primary)' : 'var(--color-text-secondary)'};">
+              ${score.total}
+            </span>
+            <div>
+              <div class="fact-content">${escapeHtml(score.preview)}</div>
+              <div class="fact-source">Round ${score.round + 1}${score.critical ? ' · always included' : ''} · ${escapeHtml(parts)}</div>
+            </div>
+          </div>
+        `;
+      }).join('');
+
+      sections.push(`
+        <div class="section">
+          <div class="section-title">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <line x1="18" y1="20" x2="18" y2="10"/>
+              <line x1="12" y1="20" x2="12" y2="4"/>
+              <line x1="6" y1="20" x2="6" y2="14"/>
+            </svg>
+            Why These Messages (${scores.length})
+          </div>
+          <div class="section-content">
+            <div class="facts-list">${scoresHtml}</div>
+          </div>
+        </div>
+      `);
+    }
+
     // If no distillation content, show a simple message
     if (!snapshot.distilledMemoryUsed && !snapshot.distilledSummary && (!snapshot.pinnedFacts || snapshot.pinnedFacts.length === 0)) {
       sections.push(`
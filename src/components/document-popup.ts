@@ -0,0 +1,297 @@
+// ============================================
+// AI Brainstorm - Document Popup Component
+// ============================================
+// Displays the document passage that an agent cited
+
+import { shadowBaseStyles } from '../styles/shadow-base-styles';
+import { escapeHtml, formatFileSize } from '../utils/helpers';
+import type { ConversationDocument, DocumentChunk } from '../types';
+
+export class DocumentPopup extends HTMLElement {
+  private ref = '';
+  private document: ConversationDocument | null = null;
+  private chunk: DocumentChunk | null = null;
+
+  static get observedAttributes() {
+    return ['open'];
+  }
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+  }
+
+  connectedCallback() {
+    this.render();
+  }
+
+  attributeChangedCallback(name: string, _oldValue: string, _newValue: string) {
+    if (name === 'open') {
+      this.render();
+    }
+  }
+
+  /**
+   * Show a cited passage; without a chunk the citation is reported as not found
+   */
+  show(ref: string, document: ConversationDocument | null, chunk: DocumentChunk | null): void {
+    this.ref = ref;
+    this.document = document;
+    this.chunk = chunk;
+    this.setAttribute('open', 'true');
+  }
+
+  /**
+   * Close the popup
+   */
+  close(): void {
+    this.setAttribute('open', 'false');
+  }
+
+  private render() {
+    if (!this.shadowRoot) return;
+
+    const isOpen = this.getAttribute('open') === 'true';
+
+    this.shadowRoot.innerHTML = `
+      <style>
+        ${shadowBaseStyles}
+
+        .modal-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 0, 0, 0.75);
+          backdrop-filter: blur(8px);
+          -webkit-backdrop-filter: blur(8px);
+          z-index: var(--z-modal, 600);
+          display: ${isOpen ? 'flex' : 'none'};
+          align-items: center;
+          justify-content: center;
+          padding: var(--space-4);
+          animation: fadeIn 0.2s ease;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        .modal-content {
+          background: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-xl);
+          width: 100%;
+          max-width: 600px;
+          max-height: 80vh;
+          overflow: hidden;
+          display: flex;
+          flex-direction: column;
+          box-shadow:
+            0 0 0 1px rgba(255, 255, 255, 0.05),
+            0 20px 50px -10px rgba(0, 0, 0, 0.5);
+        }
+
+        .modal-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--space-3);
+          padding: var(--space-4) var(--space-5);
+          border-bottom: 1px solid var(--color-border);
+          background: var(--color-bg-tertiary);
+        }
+
+        .header-left {
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+          min-width: 0;
+        }
+
+        .modal-header h2 {
+          margin: 0;
+          font-size: var(--text-base);
+          color: var(--color-text-primary);
+          font-weight: var(--font-semibold);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .header-icon {
+          width: 20px;
+          height: 20px;
+          flex-shrink: 0;
+          color: var(--color-primary);
+        }
+
+        .close-btn {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 32px;
+          height: 32px;
+          background: transparent;
+          border: none;
+          border-radius: var(--radius-md);
+          color: var(--color-text-tertiary);
+          cursor: pointer;
+          transition: all var(--transition-fast);
+        }
+
+        .close-btn:hover {
+          background: var(--color-surface);
+          color: var(--color-text-primary);
+        }
+
+        .close-btn svg {
+          width: 18px;
+          height: 18px;
+        }
+
+        .modal-body {
+          flex: 1;
+          overflow-y: auto;
+          padding: var(--space-4) var(--space-5);
+        }
+
+        .status-bar {
+          display: flex;
+          gap: var(--space-2);
+          margin-bottom: var(--space-4);
+          flex-wrap: wrap;
+        }
+
+        .status-badge {
+          padding: var(--space-1) var(--space-2);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          font-size: var(--text-xs);
+          color: var(--color-text-secondary);
+        }
+
+        .status-badge.active {
+          background: var(--color-primary-dim);
+          border-color: var(--color-primary);
+          color: var(--color-primary);
+        }
+
+        .section {
+          margin-bottom: var(--space-4);
+        }
+
+        .section:last-child {
+          margin-bottom: 0;
+        }
+
+        .section-title {
+          font-size: var(--text-xs);
+          font-weight: var(--font-semibold);
+          color: var(--color-text-tertiary);
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+          margin-bottom: var(--space-2);
+        }
+
+        .section-content {
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+          padding: var(--space-3);
+          font-size: var(--text-sm);
+          color: var(--color-text-secondary);
+          line-height: 1.6;
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .empty-state {
+          text-align: center;
+          padding: var(--space-6);
+          color: var(--color-text-tertiary);
+          font-size: var(--text-sm);
+        }
+      </style>
+
+      <div class="modal-overlay" id="overlay">
+        <div class="modal-content">
+          <div class="modal-header">
+            <div class="header-left">
+              <svg class="header-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                <polyline points="14 2 14 8 20 8"/>
+                <line x1="8" y1="13" x2="16" y2="13"/>
+                <line x1="8" y1="17" x2="16" y2="17"/>
+              </svg>
+              <h2>${escapeHtml(this.document ? `${this.ref} · ${this.document.name}` : this.ref)}</h2>
+            </div>
+            <button class="close-btn" id="close-btn" title="Close">
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <line x1="18" y1="6" x2="6" y2="18"/>
+                <line x1="6" y1="6" x2="18" y2="18"/>
+              </svg>
+            </button>
+          </div>
+          <div class="modal-body">
+            ${this.renderContent()}
+          </div>
+        </div>
+      </div>
+    `;
+
+    this.setupEventHandlers();
+  }
+
+  private renderContent(): string {
+    const { document, chunk } = this;
+    if (!document || !chunk) {
+      return `
+        <div class="empty-state">
+          No passage ${escapeHtml(this.ref)} in this conversation's documents. The agent may have cited it incorrectly, or the document was removed.
+        </div>
+      `;
+    }
+
+    return `
+      <div class="status-bar">
+        <span class="status-badge active">Passage ${chunk.index + 1} of ${document.chunkCount}</span>
+        <span class="status-badge">${escapeHtml(document.format.toUpperCase())}</span>
+        <span class="status-badge">${formatFileSize(document.size)}</span>
+      </div>
+      <div class="section">
+        <div class="section-title">Passage</div>
+        <div class="section-content">${escapeHtml(chunk.content)}</div>
+      </div>
+      ${document.summary ? `
+        <div class="section">
+          <div class="section-title">Document Summary</div>
+          <div class="section-content">${escapeHtml(document.summary)}</div>
+        </div>
+      ` : ''}
+    `;
+  }
+
+  private setupEventHandlers() {
+    // Click overlay to close
+    this.shadowRoot?.getElementById('overlay')?.addEventListener('click', (e) => {
+      if ((e.target as HTMLElement).id === 'overlay') {
+        this.close();
+      }
+    });
+
+    // Close button
+    this.shadowRoot?.getElementById('close-btn')?.addEventListener('click', () => {
+      this.close();
+    });
+
+    // Escape key to close
+    this.shadowRoot?.querySelector('.modal-overlay')?.addEventListener('keydown', (e: Event) => {
+      if ((e as KeyboardEvent).key === 'Escape') {
+        this.close();
+      }
+    });
+  }
+}
+
+customElements.define('document-popup', DocumentPopup);
@@ -0,0 +1,255 @@
+// ============================================
+// AI Brainstorm - Knowledge Pack Editor Component
+// ============================================
+// Lists an agent's or preset's private knowledge packs and adds new ones
+// from pasted text or a Markdown/text file
+
+import { v4 as uuidv4 } from 'uuid';
+import { shadowBaseStyles } from '../styles/shadow-base-styles';
+import { escapeHtml, readFileContent } from '../utils/helpers';
+import { countTokens } from '../llm/token-counter';
+import { KNOWLEDGE } from '../constants';
+import type { KnowledgePack } from '../types';
+
+export class KnowledgePackEditor extends HTMLElement {
+  private _packs: KnowledgePack[] = [];
+  private error = '';
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+  }
+
+  connectedCallback() {
+    this.render();
+  }
+
+  get packs(): KnowledgePack[] {
+    return this._packs;
+  }
+
+  set packs(value: KnowledgePack[]) {
+    this._packs = [...value];
+    this.error = '';
+    this.render();
+  }
+
+  private render() {
+    if (!this.shadowRoot) return;
+
+    this.shadowRoot.innerHTML = `
+      <style>
+        ${shadowBaseStyles}
+
+        .pack-list {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          margin-bottom: var(--space-3);
+        }
+
+        .pack-item {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--space-3);
+          padding: var(--space-2) var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+        }
+
+        .pack-name {
+          font-size: var(--text-sm);
+          color: var(--color-text-primary);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .pack-size {
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+          flex-shrink: 0;
+        }
+
+        .pack-info {
+          display: flex;
+          align-items: baseline;
+          gap: var(--space-2);
+          min-width: 0;
+        }
+
+        .remove-btn {
+          background: transparent;
+          border: none;
+          color: var(--color-text-tertiary);
+          cursor: pointer;
+          font-size: var(--text-base);
+          line-height: 1;
+          padding: var(--space-1);
+          border-radius: var(--radius-sm);
+        }
+
+        .remove-btn:hover {
+          color: var(--color-error);
+          background: var(--color-surface-hover);
+        }
+
+        .empty {
+          font-size: var(--text-sm);
+          color: var(--color-text-tertiary);
+          margin-bottom: var(--space-3);
+        }
+
+        .add-form {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .form-input, .form-textarea {
+          width: 100%;
+          padding: var(--space-2) var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+          color: var(--color-text-primary);
+          font-family: inherit;
+          font-size: var(--text-sm);
+        }
+
+        .form-input:focus, .form-textarea:focus {
+          outline: none;
+          border-color: var(--color-primary);
+          box-shadow: 0 0 0 3px var(--color-primary-dim);
+        }
+
+        .form-textarea {
+          min-height: 90px;
+          resize: vertical;
+          line-height: 1.5;
+          font-family: var(--font-mono, monospace);
+        }
+
+        .actions {
+          display: flex;
+          gap: var(--space-2);
+          justify-content: flex-end;
+        }
+
+        .btn {
+          padding: var(--space-2) var(--space-4);
+          border-radius: var(--radius-md);
+          font-weight: var(--font-medium);
+          cursor: pointer;
+          font-size: var(--text-sm);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          color: var(--color-text-primary);
+        }
+
+        .btn:hover {
+          background: var(--color-surface-hover);
+          border-color: var(--color-border-strong);
+        }
+
+        .error {
+          font-size: var(--text-xs);
+          color: var(--color-error);
+        }
+      </style>
+
+      ${this._packs.length > 0 ? `
+        <div class="pack-list">
+          ${this._packs.map(pack => `
+            <div class="pack-item">
+              <div class="pack-info">
+                <span class="pack-name">${escapeHtml(pack.name)}</span>
+                <span class="pack-size">~${countTokens(pack.content).toLocaleString()} tokens</span>
+              </div>
+              <button type="button" class="remove-btn" data-pack-id="${escapeHtml(pack.id)}" title="Remove pack">×</button>
+            </div>
+          `).join('')}
+        </div>
+      ` : '<div class="empty">No knowledge packs</div>'}
+
+      <div class="add-form">
+        <input type="text" class="form-input" id="pack-name" placeholder="Pack name, e.g. House style guide">
+        <textarea class="form-textarea" id="pack-content" placeholder="Paste reference material, or load a Markdown or text file..."></textarea>
+        ${this.error ? `<div class="error">${escapeHtml(this.error)}</div>` : ''}
+        <div class="actions">
+          <input type="file" id="pack-file" accept="${KNOWLEDGE.ACCEPT}" hidden>
+          <button type="button" class="btn" id="load-file-btn">Load File</button>
+          <button type="button" class="btn" id="add-pack-btn">Add Pack</button>
+        </div>
+      </div>
+    `;
+
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers() {
+    const nameInput = this.shadowRoot?.getElementById('pack-name') as HTMLInputElement | null;
+    const contentInput = this.shadowRoot?.getElementById('pack-content') as HTMLTextAreaElement | null;
+    const fileInput = this.shadowRoot?.getElementById('pack-file') as HTMLInputElement | null;
+
+    this.shadowRoot?.querySelectorAll('.remove-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const packId = btn.getAttribute('data-pack-id');
+        this._packs = this._packs.filter(pack => pack.id !== packId);
+        this.error = '';
+        this.changed();
+      });
+    });
+
+    this.shadowRoot?.getElementById('load-file-btn')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file || !nameInput || !contentInput) return;
+      try {
+        contentInput.value = await readFileContent(file);
+        if (!nameInput.value.trim()) nameInput.value = file.name.replace(/\.[^.]+$/, '');
+      } catch (error) {
+        this.showError(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      fileInput.value = '';
+    });
+
+    this.shadowRoot?.getElementById('add-pack-btn')?.addEventListener('click', () => {
+      const name = nameInput?.value.trim() ?? '';
+      const content = contentInput?.value.trim() ?? '';
+
+      if (!name || !content) {
+        this.showError('A pack needs a name and some content');
+        return;
+      }
+      if (content.length > KNOWLEDGE.MAX_PACK_CHARS) {
+        this.showError(`A pack can hold up to ${KNOWLEDGE.MAX_PACK_CHARS.toLocaleString()} characters`);
+        return;
+      }
+
+      this._packs = [...this._packs, { id: uuidv4(), name, content }];
+      this.error = '';
+      this.changed();
+    });
+  }
+
+  private showError(message: string) {
+    const nameValue = (this.shadowRoot?.getElementById('pack-name') as HTMLInputElement | null)?.value ?? '';
+    const contentValue = (this.shadowRoot?.getElementById('pack-content') as HTMLTextAreaElement | null)?.value ?? '';
+    this.error = message;
+    this.render();
+
+    // Keep what was typed
+    (this.shadowRoot?.getElementById('pack-name') as HTMLInputElement).value = nameValue;
+    (this.shadowRoot?.getElementById('pack-content') as HTMLTextAreaElement).value = contentValue;
+  }
+
+  private changed() {
+    this.render();
+    this.dispatchEvent(new CustomEvent('packs:changed', { detail: this._packs }));
+  }
+}
+
+customElements.define('knowledge-pack-editor', KnowledgePackEditor);
@@ -2,28 +2,57 @@
 // AI Brainstorm - Message Stream Component
 // ============================================
 
-import { messageStorage, agentStorage, contextSnapshotStorage } from '../storage/storage-manager';
+import { messageStorage, agentStorage, contextSnapshotStorage, mcpToolCallStorage, providerStorage, voteStorage, documentStorage, turnStorage } from '../storage/storage-manager';
+import { ConversationEngine } from '../engine/conversation-engine';
 import { eventBus } from '../utils/event-bus';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
 import { formatRelativeTime, escapeHtml, parseBasicFormatting } from '../utils/helpers';
 import { isRTLLanguage } from '../utils/languages';
-import type { Message, Agent, ContextSnapshot } from '../types';
+import { CITATION_PATTERN } from '../utils/documents';
+import type { Message, Agent, ContextSnapshot, MCPToolCall, ProviderModel, Turn, Vote, VoteOutcome, VoteStance } from '../types';
 import './distillation-popup';
 import type { DistillationPopup } from './distillation-popup';
+import './document-popup';
+import type { DocumentPopup } from './document-popup';
+
+/**
+ * Regenerate/edit panel state for one agent message
+ */
+interface MessageRevision {
+  messageId: string;
+  mode: 'regenerate' | 'edit';
+  models: ProviderModel[];
+  pending: boolean;
+}
+
+/**
+ * Emitted (as 'message-revise') when the user applies a regenerate or edit
+ */
+export interface MessageReviseDetail {
+  messageId: string;
+  content?: string;
+  modelId?: string;
+  laterTurns: 'keep' | 'rerun';
+}
 
 export class MessageStream extends HTMLElement {
   private messages: Message[] = [];
   private agents: Map<string, Agent> = new Map();
   private contextSnapshots: Map<string, ContextSnapshot> = new Map(); // turnId -> snapshot
+  private toolTraces: Map<string, MCPToolCall[]> = new Map(); // turnId -> tool calls
+  private turns: Map<string, Turn> = new Map(); // turnId -> turn (which model answered)
+  private votes: Map<string, Vote[]> = new Map(); // vote messageId -> votes cast so far
   private conversationId: string | null = null;
   private targetLanguage: string = '';
   private isRTL: boolean = false;
   private autoScroll = true;
-  private streamingAgentId: string | null = null;
-  private streamingContent: string = '';
+  private streamingContent: Map<string, string> = new Map(); // agentId -> text so far (several agents stream at once in parallel mode)
+  private streamingThinking: Map<string, string> = new Map(); // agentId -> thinking text so far
   private collapsedMessages: Set<string> = new Set();
   private isClickHandlerAttached = false;
   private distillationPopup: DistillationPopup | null = null;
+  private documentPopup: DocumentPopup | null = null;
+  private revision: MessageRevision | null = null; // Open regenerate/edit panel
 
   static get observedAttributes() {
     return ['conversation-id', 'target-language'];
@@ -67,8 +96,11 @@ export class MessageStream extends HTMLElement {
     // Load messages
     this.messages = await messageStorage.getByConversation(this.conversationId);
     
-    // Load context snapshots for messages that have turnIds
+    // Load context snapshots and tool traces for messages that have turnIds
     await this.loadContextSnapshots();
+    await this.loadToolTraces();
+    await this.loadTurns();
+    await this.loadVotes();
     
     this.renderMessages();
   }
@@ -86,6 +118,39 @@ export class MessageStream extends HTMLElement {
     }
   }
 
+  /**
+   * Load MCP tool calls made during agent turns
+   */
+  private async loadToolTraces() {
+    const turnIds = this.messages
+      .filter(m => m.turnId && m.type === 'response')
+      .map(m => m.turnId as string);
+
+    this.toolTraces = turnIds.length > 0
+      ? await mcpToolCallStorage.getByTurnIds(turnIds)
+      : new Map();
+  }
+
+  /**
+   * Load the conversation's turns (the model that answered each one, and any failovers)
+   */
+  private async loadTurns() {
+    const turns = await turnStorage.getByConversation(this.conversationId!);
+    this.turns = new Map(turns.map(turn => [turn.id, turn]));
+  }
+
+  /**
+   * Load the votes cast on the conversation's proposals
+   */
+  private async loadVotes() {
+    this.votes = new Map();
+    if (!this.messages.some(m => m.type === 'vote')) return;
+
+    for (const vote of await voteStorage.getByConversation(this.conversationId!)) {
+      this.votes.set(vote.messageId, [...(this.votes.get(vote.messageId) ?? []), vote]);
+    }
+  }
+
   private setupEventListeners() {
     // New message
     eventBus.on('message:created', async (message: Message) => {
@@ -96,15 +161,54 @@ export class MessageStream extends HTMLElement {
       }
     });
 
+    // Regenerated, edited or switched message version
+    eventBus.on('message:updated', async (message: Message) => {
+      if (message.conversationId !== this.conversationId) return;
+
+      const index = this.messages.findIndex(m => m.id === message.id);
+      if (index === -1) return;
+      this.messages[index] = message;
+
+      if (message.turnId) {
+        const snapshot = await contextSnapshotStorage.getByTurnId(message.turnId);
+        if (snapshot) this.contextSnapshots.set(message.turnId, snapshot);
+        this.toolTraces.set(message.turnId, await mcpToolCallStorage.getByTurn(message.turnId));
+        const turn = await turnStorage.getById(message.turnId);
+        if (turn) this.turns.set(turn.id, turn);
+      }
+      this.rerenderMessage(message.id);
+    });
+
+    // Votes come in one by one; the tally follows as a message update
+    eventBus.on('vote:cast', (vote: Vote) => {
+      if (vote.conversationId !== this.conversationId) return;
+
+      this.votes.set(vote.messageId, [...(this.votes.get(vote.messageId) ?? []), vote]);
+      this.rerenderMessage(vote.messageId);
+    });
+
     // Streaming chunks
     eventBus.on('stream:chunk', ({ agentId, content }) => {
-      if (this.streamingAgentId !== agentId) {
-        this.streamingAgentId = agentId;
-        this.streamingContent = '';
+      if (!this.streamingContent.has(agentId)) {
         this.addStreamingBubble(agentId);
       }
-      this.streamingContent += content;
-      this.updateStreamingBubble(this.streamingContent);
+      const streamed = (this.streamingContent.get(agentId) || '') + content;
+      this.streamingContent.set(agentId, streamed);
+      this.updateStreamingBubble(agentId, streamed);
+    });
+
+    // Thinking streams before (and apart from) the reply text
+    eventBus.on('stream:thinking', ({ agentId, content }) => {
+      this.streamingThinking.set(agentId, (this.streamingThinking.get(agentId) || '') + content);
+      this.updateLiveThinking(agentId);
+    });
+
+    // A model failed with a retryable error; say which one the agent moves on to
+    eventBus.on('llm:failover', ({ failover, next, usage }) => {
+      if (!usage?.agentId || usage.conversationId !== this.conversationId) return;
+
+      const label = this.shadowRoot?.querySelector(`.thinking-message[data-agent="${usage.agentId}"] .thinking-label`);
+      if (label) label.textContent = `${failover.modelId} unavailable, trying ${next.modelId}...`;
     });
 
     eventBus.on('stream:complete', ({ agentId }) => {
@@ -112,10 +216,8 @@ export class MessageStream extends HTMLElement {
       const container = this.shadowRoot?.getElementById('messages');
       container?.querySelector(`.streaming-message[data-agent="${agentId}"]`)?.remove();
 
-      if (this.streamingAgentId === agentId) {
-        this.streamingAgentId = null;
-        this.streamingContent = '';
-      }
+      this.streamingContent.delete(agentId);
+      this.streamingThinking.delete(agentId);
     });
 
     // Agent status
@@ -141,8 +243,10 @@ export class MessageStream extends HTMLElement {
   private clearMessages() {
     this.messages = [];
     this.contextSnapshots.clear();
-    this.streamingAgentId = null;
-    this.streamingContent = '';
+    this.toolTraces.clear();
+    this.votes.clear();
+    this.streamingContent.clear();
+    this.streamingThinking.clear();
     this.collapsedMessages.clear();
     this.renderMessages();
   }
@@ -308,6 +412,67 @@ export class MessageStream extends HTMLElement {
           color: var(--color-primary);
         }
 
+        .action-btn:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .version-switcher {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+          margin-left: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+        }
+
+        .version-btn {
+          padding: 0 var(--space-1);
+          background: transparent;
+          border: none;
+          color: var(--color-text-secondary);
+          cursor: pointer;
+          font-size: var(--text-sm);
+          line-height: 1;
+        }
+
+        .version-btn:disabled {
+          opacity: 0.3;
+          cursor: default;
+        }
+
+        .revise-panel {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          margin-top: var(--space-2);
+          padding: var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+        }
+
+        .revise-text {
+          width: 100%;
+          resize: vertical;
+          font: inherit;
+          font-size: var(--text-sm);
+        }
+
+        .revise-field {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--color-text-secondary);
+        }
+
+        .revise-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--space-2);
+        }
+
         .weight-badge {
           font-size: var(--text-xs);
           color: var(--color-primary);
@@ -315,6 +480,22 @@ export class MessageStream extends HTMLElement {
         }
 
         /* Distillation context icon */
+        .doc-citation {
+          display: inline;
+          padding: 0 2px;
+          background: var(--color-primary-dim);
+          border: none;
+          border-radius: var(--radius-sm);
+          color: var(--color-primary);
+          font: inherit;
+          font-size: 0.9em;
+          cursor: pointer;
+        }
+
+        .doc-citation:hover {
+          text-decoration: underline;
+        }
+
         .distillation-btn {
           display: flex;
           align-items: center;
@@ -557,6 +738,208 @@ export class MessageStream extends HTMLElement {
           display: none;
         }
 
+        .reasoning-disclosure {
+          margin-bottom: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--color-text-secondary);
+        }
+
+        .reasoning-disclosure summary {
+          cursor: pointer;
+          color: var(--color-text-tertiary);
+          user-select: none;
+        }
+
+        .reasoning-text {
+          margin-top: var(--space-1);
+          padding-left: var(--space-3);
+          border-left: 2px solid var(--color-border);
+          line-height: var(--leading-relaxed);
+        }
+
+        .failover-notice {
+          margin-top: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--color-text-secondary);
+        }
+
+        .failover-notice summary {
+          cursor: pointer;
+          color: var(--color-warning, #f59e0b);
+          user-select: none;
+        }
+
+        .failover-entry {
+          display: flex;
+          gap: var(--space-2);
+          margin-top: var(--space-1);
+          padding-left: var(--space-3);
+          border-left: 2px solid var(--color-border);
+        }
+
+        .failover-model {
+          font-family: var(--font-mono, monospace);
+          flex-shrink: 0;
+        }
+
+        .failover-error {
+          color: var(--color-text-tertiary);
+          word-break: break-word;
+        }
+
+        .tool-trace {
+          margin-top: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--color-text-secondary);
+        }
+
+        .tool-trace summary {
+          cursor: pointer;
+          color: var(--color-text-tertiary);
+          user-select: none;
+        }
+
+        .tool-trace-step {
+          margin-top: var(--space-2);
+          padding-left: var(--space-3);
+          border-left: 2px solid var(--color-border);
+        }
+
+        .tool-trace-step-label {
+          font-weight: var(--font-medium);
+          margin-bottom: var(--space-1);
+        }
+
+        .tool-trace-call {
+          margin-bottom: var(--space-2);
+        }
+
+        .tool-trace-call-header {
+          display: flex;
+          gap: var(--space-2);
+          align-items: center;
+        }
+
+        .tool-trace-name {
+          font-family: var(--font-mono, monospace);
+          color: var(--color-primary);
+        }
+
+        .tool-trace-call.denied .tool-trace-name,
+        .tool-trace-call.failed .tool-trace-name {
+          color: var(--color-error);
+        }
+
+        .tool-trace-detail {
+          margin: var(--space-1) 0 0;
+          padding: var(--space-2);
+          background: var(--color-bg-tertiary);
+          border-radius: var(--radius-sm);
+          font-family: var(--font-mono, monospace);
+          white-space: pre-wrap;
+          word-break: break-word;
+          max-height: 160px;
+          overflow-y: auto;
+        }
+
+        .tool-trace-detail.error {
+          color: var(--color-error);
+        }
+
+        .vote-avatar {
+          background: var(--color-bg-tertiary);
+          font-size: var(--text-lg);
+        }
+
+        .vote-outcome {
+          font-size: var(--text-xs);
+          padding: 0 var(--space-2);
+          border-radius: var(--radius-full);
+          background: var(--color-bg-tertiary);
+          color: var(--color-text-secondary);
+        }
+
+        .vote-outcome.consensus {
+          color: var(--color-success);
+        }
+
+        .vote-outcome.rejected {
+          color: var(--color-error);
+        }
+
+        .vote-outcome.split {
+          color: var(--color-warning);
+        }
+
+        .ballot {
+          padding: var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+        }
+
+        .ballot-proposal {
+          color: var(--color-text-primary);
+          font-weight: var(--font-medium);
+          margin-bottom: var(--space-3);
+        }
+
+        .ballot-bar {
+          display: flex;
+          height: 6px;
+          border-radius: var(--radius-full);
+          overflow: hidden;
+          background: var(--color-bg-tertiary);
+        }
+
+        .ballot-bar-support {
+          background: var(--color-success);
+        }
+
+        .ballot-bar-oppose {
+          background: var(--color-error);
+        }
+
+        .ballot-bar-abstain {
+          background: var(--color-text-muted);
+        }
+
+        .ballot-counts {
+          margin: var(--space-1) 0 var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+        }
+
+        .ballot-vote {
+          display: flex;
+          align-items: baseline;
+          gap: var(--space-2);
+          padding: var(--space-1) 0;
+          font-size: var(--text-sm);
+          border-top: 1px solid var(--color-border);
+        }
+
+        .ballot-voter {
+          font-weight: var(--font-medium);
+          flex-shrink: 0;
+        }
+
+        .ballot-confidence {
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+          flex-shrink: 0;
+        }
+
+        .ballot-reason {
+          color: var(--color-text-secondary);
+        }
+
+        .ballot-proposal.rtl,
+        .ballot-reason.rtl {
+          direction: rtl;
+          text-align: right;
+        }
+
         .empty-state {
           display: flex;
           flex-direction: column;
@@ -775,10 +1158,12 @@ export class MessageStream extends HTMLElement {
       </div>
       
       <distillation-popup id="distillation-popup"></distillation-popup>
+      <document-popup id="document-popup"></document-popup>
     `;
     
     // Get reference to distillation popup
     this.distillationPopup = this.shadowRoot.getElementById('distillation-popup') as DistillationPopup;
+    this.documentPopup = this.shadowRoot.getElementById('document-popup') as DocumentPopup;
 
     // Scroll handler
     const container = this.shadowRoot.getElementById('messages');
@@ -824,6 +1209,53 @@ export class MessageStream extends HTMLElement {
           e.stopPropagation();
           const turnId = distillationBtn.getAttribute('data-turn-id');
           if (turnId) this.showDistillationPopup(turnId);
+          return;
+        }
+
+        // Handle document citation click
+        const citation = target.closest('.doc-citation') as HTMLElement | null;
+        if (citation) {
+          e.stopPropagation();
+          const ref = citation.getAttribute('data-ref');
+          if (ref) void this.showCitedPassage(ref);
+          return;
+        }
+
+        const branchBtn = target.closest('.branch-btn') as HTMLElement | null;
+        if (branchBtn) {
+          e.stopPropagation();
+          const messageId = branchBtn.getAttribute('data-id');
+          if (messageId) void this.branchFromMessage(messageId);
+          return;
+        }
+
+        const reviseBtn = target.closest('.regenerate-btn, .edit-btn') as HTMLElement | null;
+        if (reviseBtn) {
+          e.stopPropagation();
+          const messageId = reviseBtn.getAttribute('data-id');
+          const mode = reviseBtn.classList.contains('edit-btn') ? 'edit' : 'regenerate';
+          if (messageId) void this.openRevision(messageId, mode);
+          return;
+        }
+
+        if (target.closest('.revise-cancel')) {
+          e.stopPropagation();
+          this.closeRevision();
+          return;
+        }
+
+        if (target.closest('.revise-apply')) {
+          e.stopPropagation();
+          this.applyRevision();
+          return;
+        }
+
+        const versionBtn = target.closest('.version-btn') as HTMLElement | null;
+        if (versionBtn && !versionBtn.hasAttribute('disabled')) {
+          e.stopPropagation();
+          this.dispatchEvent(new CustomEvent('message-version', {
+            detail: { messageId: versionBtn.dataset.id, versionId: versionBtn.dataset.version },
+          }));
         }
       });
     }
@@ -839,6 +1271,119 @@ export class MessageStream extends HTMLElement {
     }
   }
 
+  /**
+   * Show the document passage behind a citation like [D1.2]
+   */
+  private async showCitedPassage(ref: string) {
+    if (!this.conversationId || !this.documentPopup) return;
+
+    const chunk = await documentStorage.getChunkByRef(this.conversationId, ref);
+    const document = chunk ? await documentStorage.getById(chunk.documentId) : undefined;
+    this.documentPopup.show(ref, document ?? null, chunk ?? null);
+  }
+
+  /**
+   * Turn document citations in rendered content into buttons that open the cited passage
+   */
+  private linkCitations(html: string): string {
+    return html.replace(CITATION_PATTERN, (_match, refs: string) => {
+      const links = refs.split(/\s*[,;]\s*/).map(ref =>
+        `<button class="doc-citation" data-ref="${ref}" title="Show passage ${ref}">${ref}</button>`
+      );
+      return `[${links.join(', ')}]`;
+    });
+  }
+
+  /**
+   * Open the regenerate/edit panel under an agent message
+   */
+  private async openRevision(messageId: string, mode: MessageRevision['mode']) {
+    const message = this.messages.find(m => m.id === messageId);
+    const agent = message?.agentId ? this.agents.get(message.agentId) : undefined;
+    if (!message || !agent) return;
+
+    const previous = this.revision?.messageId;
+    const models = mode === 'regenerate' ? await providerStorage.getModels(agent.llmProviderId) : [];
+    this.revision = { messageId, mode, models, pending: false };
+
+    if (previous && previous !== messageId) this.rerenderMessage(previous);
+    this.rerenderMessage(messageId);
+  }
+
+  private closeRevision() {
+    const messageId = this.revision?.messageId;
+    if (!messageId || this.revision?.pending) return;
+
+    this.revision = null;
+    this.rerenderMessage(messageId);
+  }
+
+  private applyRevision() {
+    if (!this.revision || this.revision.pending) return;
+
+    const panel = this.shadowRoot?.querySelector(`.revise-panel[data-id="${this.revision.messageId}"]`);
+    if (!panel) return;
+
+    const laterSelect = panel.querySelector('.revise-later') as HTMLSelectElement | null;
+    const detail: MessageReviseDetail = {
+      messageId: this.revision.messageId,
+      laterTurns: laterSelect?.value === 'rerun' ? 'rerun' : 'keep',
+    };
+
+    if (this.revision.mode === 'edit') {
+      const content = (panel.querySelector('.revise-text') as HTMLTextAreaElement).value;
+      if (!content.trim()) return;
+      detail.content = content;
+    } else {
+      detail.modelId = (panel.querySelector('.revise-model') as HTMLSelectElement).value || undefined;
+    }
+
+    this.revision.pending = true;
+    this.rerenderMessage(detail.messageId);
+    this.dispatchEvent(new CustomEvent<MessageReviseDetail>('message-revise', { detail }));
+  }
+
+  /**
+   * Called by the conversation view once a regenerate/edit request has finished
+   */
+  endRevision(messageId: string, success: boolean) {
+    if (this.revision?.messageId !== messageId) return;
+
+    if (success) {
+      this.revision = null;
+    } else {
+      this.revision.pending = false;
+    }
+    this.rerenderMessage(messageId);
+  }
+
+  private rerenderMessage(messageId: string) {
+    const messageEl = this.shadowRoot?.querySelector(`.message[data-id="${messageId}"]`);
+    const message = this.messages.find(m => m.id === messageId);
+    if (messageEl && message) {
+      messageEl.outerHTML = this.renderMessage(message);
+    }
+  }
+
+  /**
+   * Fork the conversation at a message and switch to the new branch
+   */
+  private async branchFromMessage(messageId: string) {
+    if (!this.conversationId) return;
+
+    try {
+      const branch = await ConversationEngine.fork(this.conversationId, messageId);
+      if (!branch) {
+        eventBus.emit('error', { message: 'Could not create a branch from this message' });
+        return;
+      }
+      eventBus.emit('conversation:selected', branch.id);
+    } catch (error) {
+      console.error('Branching failed:', error);
+      eventBus.emit('error', { message: 'Could not create a branch from this message' });
+    }
+  }
+
   private renderMessages() {
     const container = this.shadowRoot?.getElementById('messages');
     const toolbar = this.shadowRoot?.getElementById('toolbar');
@@ -865,6 +1410,10 @@ export class MessageStream extends HTMLElement {
   }
 
   private renderMessage(message: Message): string {
+    if (message.type === 'vote') {
+      return this.renderVoteMessage(message);
+    }
+
     const agent = message.agentId ? this.agents.get(message.agentId) : null;
     const isInterjection = message.type === 'interjection';
     const isSecretary = agent?.isSecretary;
@@ -875,7 +1424,7 @@ export class MessageStream extends HTMLElement {
     const initials = name.slice(0, 2).toUpperCase();
     const role = agent?.role || '';
 
-    const formattedContent = parseBasicFormatting(escapeHtml(message.content));
+    const formattedContent = this.linkCitations(parseBasicFormatting(escapeHtml(message.content)));
     const isCollapsed = this.collapsedMessages.has(message.id);
     const previewText = message.content.slice(0, 80).replace(/\n/g, ' ') + (message.content.length > 80 ? '...' : '');
     
@@ -900,11 +1449,16 @@ export class MessageStream extends HTMLElement {
             <span class="message-time">${formatRelativeTime(message.createdAt)}</span>
             ${message.weight > 0 ? `<span class="weight-badge">+${message.weight}</span>` : ''}
             ${isAgentResponse ? this.renderDistillationIcon(message.turnId!, snapshot, hasDistillation) : ''}
+            ${this.renderVersionSwitcher(message)}
           </div>
           <div class="collapsed-preview" data-id="${message.id}">${escapeHtml(previewText)}</div>
           <div class="message-body-wrapper ${isCollapsed ? 'collapsed' : ''}">
+            ${this.renderReasoning(message)}
             <div class="message-body ${this.isRTL ? 'rtl' : ''}">${formattedContent}</div>
+            ${message.turnId ? this.renderToolTrace(this.toolTraces.get(message.turnId) ?? []) : ''}
+            ${message.turnId ? this.renderFailoverNotice(this.turns.get(message.turnId)) : ''}
           </div>
+          ${this.revision?.messageId === message.id ? this.renderRevisionPanel(message, agent ?? null) : ''}
           <div class="message-actions">
             <button class="action-btn like-btn" data-id="${message.id}">
               <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -919,12 +1473,161 @@ export class MessageStream extends HTMLElement {
               </svg>
               Copy
             </button>
+            <button class="action-btn branch-btn" data-id="${message.id}" title="Continue from this message in a new branch">
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <line x1="6" y1="3" x2="6" y2="15"/>
+                <circle cx="18" cy="6" r="3"/>
+                <circle cx="6" cy="18" r="3"/>
+                <path d="M18 9a9 9 0 0 1-9 9"/>
+              </svg>
+              Branch
+            </button>
+            ${isAgentResponse ? `
+            <button class="action-btn regenerate-btn" data-id="${message.id}" title="Generate a new version of this message">
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <path d="M23 4v6h-6"/>
+                <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"/>
+              </svg>
+              Regenerate
+            </button>
+            <button class="action-btn edit-btn" data-id="${message.id}" title="Edit this message by hand">
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <path d="M12 20h9"/>
+                <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4z"/>
+              </svg>
+              Edit
+            </button>
+            ` : ''}
           </div>
         </div>
       </div>
     `;
   }
 
+  /**
+   * Render a vote as a ballot: the proposal, the count so far and each participant's vote
+   */
+  private renderVoteMessage(message: Message): string {
+    const caller = message.voteTrigger === 'secretary'
+      ? (message.agentId ? this.agents.get(message.agentId)?.name : null) || 'Secretary'
+      : 'User';
+    const votes = this.votes.get(message.id) ?? [];
+    const tally = message.voteTally;
+    const counts = { support: 0, oppose: 0, abstain: 0 };
+    for (const vote of votes) counts[vote.stance]++;
+    const total = Math.max(1, votes.length);
+
+    const stanceIcons: Record<VoteStance, string> = { support: '👍', oppose: '👎', abstain: '➖' };
+    const outcomeLabels: Record<VoteOutcome, string> = {
+      consensus: 'Consensus',
+      rejected: 'Rejected',
+      split: 'Split',
+      'no-quorum': 'No quorum',
+    };
+
+    return `
+      <div class="message vote-message" data-id="${message.id}">
+        <div class="avatar vote-avatar">🗳️</div>
+        <div class="message-content">
+          <div class="message-header">
+            <span class="agent-name">Vote</span>
+            <span class="message-role">called by ${escapeHtml(caller)}</span>
+            <span class="message-time">${formatRelativeTime(message.createdAt)}</span>
+            ${tally
+              ? `<span class="vote-outcome ${tally.outcome}">${outcomeLabels[tally.outcome]} · ${Math.round(tally.agreement * 100)}% agreement</span>`
+              : '<span class="vote-outcome pending">Voting…</span>'}
+          </div>
+          <div class="ballot">
+            <div class="ballot-proposal ${this.isRTL ? 'rtl' : ''}">${parseBasicFormatting(escapeHtml(message.content))}</div>
+            <div class="ballot-bar" title="${counts.support} support · ${counts.oppose} oppose · ${counts.abstain} abstain">
+              <span class="ballot-bar-support" style="width: ${(counts.support / total) * 100}%"></span>
+              <span class="ballot-bar-oppose" style="width: ${(counts.oppose / total) * 100}%"></span>
+              <span class="ballot-bar-abstain" style="width: ${(counts.abstain / total) * 100}%"></span>
+            </div>
+            <div class="ballot-counts">
+              ${counts.support} support · ${counts.oppose} oppose · ${counts.abstain} abstain
+              ${tally ? ` · ${tally.averageConfidence}% average confidence` : ''}
+            </div>
+            ${votes.map(vote => {
+              const agent = this.agents.get(vote.agentId);
+              return `
+                <div class="ballot-vote ${vote.stance}">
+                  <span class="ballot-stance" title="${vote.stance}">${stanceIcons[vote.stance]}</span>
+                  <span class="ballot-voter" style="color: ${agent?.color || 'var(--color-text-secondary)'};">${escapeHtml(agent?.name || 'Unknown')}</span>
+                  <span class="ballot-confidence">${vote.confidence}%</span>
+                  <span class="ballot-reason ${this.isRTL ? 'rtl' : ''}">${escapeHtml(vote.reason)}</span>
+                </div>
+              `;
+            }).join('')}
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the ‹ n/m › control for messages with several versions
+   */
+  private renderVersionSwitcher(message: Message): string {
+    const versions = message.versions ?? [];
+    if (versions.length < 2) return '';
+
+    const index = Math.max(0, versions.findIndex(v => v.id === message.activeVersionId));
+    const active = versions[index];
+    const prev = versions[index - 1];
+    const next = versions[index + 1];
+    const detail = active.source === 'edited' ? 'edited' : active.modelId ?? '';
+
+    return `
+      <span class="version-switcher" title="${detail ? escapeHtml(detail) : 'Message versions'}">
+        <button class="version-btn" data-id="${message.id}" data-version="${prev?.id ?? ''}" ${prev ? '' : 'disabled'}>‹</button>
+        <span>${index + 1}/${versions.length}${active.source === 'edited' ? ' · edited' : ''}</span>
+        <button class="version-btn" data-id="${message.id}" data-version="${next?.id ?? ''}" ${next ? '' : 'disabled'}>›</button>
+      </span>
+    `;
+  }
+
+  /**
+   * Render the inline regenerate/edit panel
+   */
+  private renderRevisionPanel(message: Message, agent: Agent | null): string {
+    const revision = this.revision!;
+    const isLast = this.messages[this.messages.length - 1]?.id === message.id;
+    const modelIds = revision.models.map(m => m.id);
+    const models = agent && !modelIds.includes(agent.modelId)
+      ? [{ id: agent.modelId, name: agent.modelId }, ...revision.models]
+      : revision.models;
+
+    return `
+      <div class="revise-panel" data-id="${message.id}">
+        ${revision.mode === 'edit'
+          ? `<textarea class="revise-text" rows="6" ${revision.pending ? 'disabled' : ''}>${escapeHtml(message.content)}</textarea>`
+          : `<label class="revise-field">
+              Model
+              <select class="revise-model" ${revision.pending ? 'disabled' : ''}>
+                ${models.map(m => `<option value="${escapeHtml(m.id)}" ${m.id === agent?.modelId ? 'selected' : ''}>${escapeHtml(m.name)}</option>`).join('')}
+              </select>
+            </label>`}
+        ${isLast ? '' : `
+        <label class="revise-field">
+          Later messages
+          <select class="revise-later" ${revision.pending ? 'disabled' : ''}>
+            <option value="keep">Keep as they are</option>
+            <option value="rerun">Remove and re-run from here</option>
+          </select>
+        </label>`}
+        <div class="revise-actions">
+          <button class="action-btn revise-cancel" ${revision.pending ? 'disabled' : ''}>Cancel</button>
+          <button class="action-btn revise-apply" ${revision.pending ? 'disabled' : ''}>
+            ${revision.pending
+              ? (revision.mode === 'edit' ? 'Saving…' : 'Regenerating…')
+              : (revision.mode === 'edit' ? 'Save as new version' : 'Regenerate')}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
   /**
    * Render the distillation context icon
    */
@@ -952,6 +1655,83 @@ export class MessageStream extends HTMLElement {
     `;
   }
 
+  /**
+   * Show a reasoning model's summary of its thinking, collapsed
+   */
+  private renderReasoning(message: Message): string {
+    if (!message.reasoning) return '';
+
+    return `
+      <details class="reasoning-disclosure">
+        <summary>💭 Thinking</summary>
+        <div class="reasoning-text">${parseBasicFormatting(escapeHtml(message.reasoning))}</div>
+      </details>
+    `;
+  }
+
+  /**
+   * Note that the reply came from a fallback model, listing the models that failed first
+   */
+  private renderFailoverNotice(turn: Turn | undefined): string {
+    if (!turn?.answeredBy || !turn.failovers?.length) return '';
+
+    return `
+      <details class="failover-notice">
+        <summary>↪ Answered by ${escapeHtml(turn.answeredBy.modelId)} after ${turn.failovers.length} failover${turn.failovers.length === 1 ? '' : 's'}</summary>
+        ${turn.failovers.map(failover => `
+          <div class="failover-entry">
+            <span class="failover-model">${escapeHtml(failover.modelId)}</span>
+            <span class="failover-error">${escapeHtml(failover.error)}</span>
+          </div>
+        `).join('')}
+      </details>
+    `;
+  }
+
+  /**
+   * Render the agent's tool calls as a collapsible trace grouped by loop step
+   */
+  private renderToolTrace(toolCalls: MCPToolCall[]): string {
+    if (toolCalls.length === 0) return '';
+
+    const steps = new Map<number, MCPToolCall[]>();
+    for (const call of toolCalls) {
+      const step = call.step ?? 1;
+      steps.set(step, [...(steps.get(step) ?? []), call]);
+    }
+
+    const statusIcons: Record<MCPToolCall['status'], string> = {
+      pending: '⏳',
+      approved: '⏳',
+      denied: '🚫',
+      executed: '✓',
+      failed: '✕',
+    };
+
+    return `
+      <details class="tool-trace">
+        <summary>🔧 ${toolCalls.length} tool call${toolCalls.length === 1 ? '' : 's'} in ${steps.size} step${steps.size === 1 ? '' : 's'}</summary>
+        ${Array.from(steps.entries()).map(([step, calls]) => `
+          <div class="tool-trace-step">
+            <div class="tool-trace-step-label">Step ${step}</div>
+            ${calls.map(call => `
+              <div class="tool-trace-call ${call.status}">
+                <div class="tool-trace-call-header">
+                  <span class="tool-trace-status">${statusIcons[call.status]}</span>
+                  <span class="tool-trace-name">${escapeHtml(call.toolName)}</span>
+                </div>
+                <pre class="tool-trace-detail">${escapeHtml(JSON.stringify(call.arguments, null, 2))}</pre>
+                ${call.result || call.error ? `
+                  <pre class="tool-trace-detail ${call.error ? 'error' : ''}">${escapeHtml(call.error || call.result || '')}</pre>
+                ` : ''}
+              </div>
+            `).join('')}
+          </div>
+        `).join('')}
+      </details>
+    `;
+  }
+
   private async appendMessage(message: Message) {
     const container = this.shadowRoot?.getElementById('messages');
     const toolbar = this.shadowRoot?.getElementById('toolbar');
@@ -966,10 +1746,9 @@ export class MessageStream extends HTMLElement {
       emptyState.remove();
     }
 
-    // Remove streaming bubble if exists
-    const streamingBubble = container.querySelector('.streaming-message');
-    if (streamingBubble) {
-      streamingBubble.remove();
+    // Remove the author's streaming bubble if exists
+    if (message.agentId) {
+      container.querySelector(`.streaming-message[data-agent="${message.agentId}"]`)?.remove();
     }
 
     // Load context snapshot for this message if it has a turnId
@@ -978,9 +1757,23 @@ export class MessageStream extends HTMLElement {
       if (snapshot) {
         this.contextSnapshots.set(message.turnId, snapshot);
       }
+
+      const toolCalls = await mcpToolCallStorage.getByTurn(message.turnId);
+      if (toolCalls.length > 0) {
+        this.toolTraces.set(message.turnId, toolCalls);
+      }
+
+      const turn = await turnStorage.getById(message.turnId);
+      if (turn) this.turns.set(turn.id, turn);
     }
 
-    container.insertAdjacentHTML('beforeend', this.renderMessage(message));
+    // Keep bubbles of agents still writing below the finished message
+    const liveBubble = container.querySelector('.streaming-message, .thinking-message');
+    if (liveBubble) {
+      liveBubble.insertAdjacentHTML('beforebegin', this.renderMessage(message));
+    } else {
+      container.insertAdjacentHTML('beforeend', this.renderMessage(message));
+    }
   }
 
   private toggleMessageCollapse(messageId: string) {
@@ -1065,11 +1858,37 @@ export class MessageStream extends HTMLElement {
       </div>
     `);
 
+    // Keep the thinking shown while the agent was thinking
+    this.updateLiveThinking(agentId);
     this.scrollToBottom();
   }
 
-  private updateStreamingBubble(content: string) {
-    const streamingBody = this.shadowRoot?.querySelector('.streaming-body');
+  /**
+   * Show the thinking streamed so far under the agent's thinking indicator or streaming
+   * bubble, collapsed; only the text is replaced so an opened disclosure stays open
+   */
+  private updateLiveThinking(agentId: string) {
+    const content = this.shadowRoot?.querySelector(
+      `.streaming-message[data-agent="${agentId}"] .message-content, .thinking-message[data-agent="${agentId}"] .message-content`
+    );
+    const thinking = this.streamingThinking.get(agentId);
+    if (!content || !thinking) return;
+
+    let text = content.querySelector('.reasoning-text');
+    if (!text) {
+      content.querySelector('.message-header')?.insertAdjacentHTML('afterend', `
+        <details class="reasoning-disclosure">
+          <summary>💭 Thinking...</summary>
+          <div class="reasoning-text"></div>
+        </details>
+      `);
+      text = content.querySelector('.reasoning-text');
+    }
+    if (text) text.innerHTML = parseBasicFormatting(escapeHtml(thinking));
+  }
+
+  private updateStreamingBubble(agentId: string, content: string) {
+    const streamingBody = this.shadowRoot?.querySelector(`.streaming-message[data-agent="${agentId}"] .streaming-body`);
     if (streamingBody) {
       const formattedContent = parseBasicFormatting(escapeHtml(content));
       streamingBody.innerHTML = formattedContent + '<span class="streaming-cursor"></span>';
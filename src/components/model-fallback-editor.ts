@@ -0,0 +1,266 @@
+// ============================================
+// AI Brainstorm - Model Fallback Editor Component
+// ============================================
+// Edits an agent's ordered fallback chain: the provider + model pairs tried
+// in turn when its main model fails with a retryable error
+
+import { shadowBaseStyles } from '../styles/shadow-base-styles';
+import { escapeHtml } from '../utils/helpers';
+import type { LLMProvider, ModelRoute } from '../types';
+
+export class ModelFallbackEditor extends HTMLElement {
+  private _routes: ModelRoute[] = [];
+  private _providers: LLMProvider[] = [];
+  private selectedProviderId = '';
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+  }
+
+  connectedCallback() {
+    this.render();
+  }
+
+  get routes(): ModelRoute[] {
+    return this._routes;
+  }
+
+  set routes(value: ModelRoute[]) {
+    this._routes = [...value];
+    this.render();
+  }
+
+  set providers(value: LLMProvider[]) {
+    this._providers = value;
+    this.render();
+  }
+
+  private describeRoute(route: ModelRoute): { provider: string; model: string } {
+    const provider = this._providers.find(p => p.id === route.providerId);
+    const model = provider?.models.find(m => m.id === route.modelId);
+    return {
+      provider: provider?.name ?? 'Unknown provider',
+      model: model?.name ?? route.modelId,
+    };
+  }
+
+  private render() {
+    if (!this.shadowRoot) return;
+
+    const activeProviders = this._providers.filter(p => p.isActive);
+    const selectedProvider = activeProviders.find(p => p.id === this.selectedProviderId) ?? activeProviders[0];
+    this.selectedProviderId = selectedProvider?.id ?? '';
+
+    this.shadowRoot.innerHTML = `
+      <style>
+        ${shadowBaseStyles}
+
+        .route-list {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          margin-bottom: var(--space-3);
+        }
+
+        .route-item {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-2) var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+        }
+
+        .route-position {
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+          flex-shrink: 0;
+        }
+
+        .route-info {
+          display: flex;
+          align-items: baseline;
+          gap: var(--space-2);
+          min-width: 0;
+          flex: 1;
+        }
+
+        .route-model {
+          font-size: var(--text-sm);
+          color: var(--color-text-primary);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .route-provider {
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+          flex-shrink: 0;
+        }
+
+        .icon-btn {
+          background: transparent;
+          border: none;
+          color: var(--color-text-tertiary);
+          cursor: pointer;
+          font-size: var(--text-sm);
+          line-height: 1;
+          padding: var(--space-1);
+          border-radius: var(--radius-sm);
+        }
+
+        .icon-btn:hover:not(:disabled) {
+          color: var(--color-text-primary);
+          background: var(--color-surface-hover);
+        }
+
+        .icon-btn:disabled {
+          opacity: 0.3;
+          cursor: default;
+        }
+
+        .icon-btn.remove:hover {
+          color: var(--color-error);
+        }
+
+        .empty {
+          font-size: var(--text-sm);
+          color: var(--color-text-tertiary);
+          margin-bottom: var(--space-3);
+        }
+
+        .add-row {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .form-select {
+          flex: 1;
+          min-width: 0;
+          padding: var(--space-2) var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+          color: var(--color-text-primary);
+          font-family: inherit;
+          font-size: var(--text-sm);
+        }
+
+        .form-select:focus {
+          outline: none;
+          border-color: var(--color-primary);
+          box-shadow: 0 0 0 3px var(--color-primary-dim);
+        }
+
+        .btn {
+          padding: var(--space-2) var(--space-4);
+          border-radius: var(--radius-md);
+          font-weight: var(--font-medium);
+          cursor: pointer;
+          font-size: var(--text-sm);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          color: var(--color-text-primary);
+          flex-shrink: 0;
+        }
+
+        .btn:hover:not(:disabled) {
+          background: var(--color-surface-hover);
+          border-color: var(--color-border-strong);
+        }
+
+        .btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+      </style>
+
+      ${this._routes.length > 0 ? `
+        <div class="route-list">
+          ${this._routes.map((route, index) => {
+            const { provider, model } = this.describeRoute(route);
+            return `
+              <div class="route-item">
+                <span class="route-position">${index + 1}.</span>
+                <div class="route-info">
+                  <span class="route-model">${escapeHtml(model)}</span>
+                  <span class="route-provider">${escapeHtml(provider)}</span>
+                </div>
+                <button type="button" class="icon-btn" data-action="up" data-index="${index}" title="Try earlier" ${index === 0 ? 'disabled' : ''}>↑</button>
+                <button type="button" class="icon-btn" data-action="down" data-index="${index}" title="Try later" ${index === this._routes.length - 1 ? 'disabled' : ''}>↓</button>
+                <button type="button" class="icon-btn remove" data-action="remove" data-index="${index}" title="Remove fallback">×</button>
+              </div>
+            `;
+          }).join('')}
+        </div>
+      ` : '<div class="empty">No fallbacks, requests fail when the main model is unavailable</div>'}
+
+      <div class="add-row">
+        <select class="form-select" id="fallback-provider" ${activeProviders.length === 0 ? 'disabled' : ''}>
+          ${activeProviders.map(p => `
+            <option value="${escapeHtml(p.id)}" ${p.id === this.selectedProviderId ? 'selected' : ''}>${escapeHtml(p.name)}</option>
+          `).join('') || '<option value="">No configured providers</option>'}
+        </select>
+        <select class="form-select" id="fallback-model" ${!selectedProvider?.models.length ? 'disabled' : ''}>
+          ${selectedProvider?.models.map(m => `
+            <option value="${escapeHtml(m.id)}">${escapeHtml(m.name)}</option>
+          `).join('') || '<option value="">No models available</option>'}
+        </select>
+        <button type="button" class="btn" id="add-fallback-btn" ${!selectedProvider?.models.length ? 'disabled' : ''}>Add</button>
+      </div>
+    `;
+
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers() {
+    this.shadowRoot?.querySelectorAll('.icon-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const index = parseInt(btn.getAttribute('data-index') || '0');
+        const routes = [...this._routes];
+
+        switch (btn.getAttribute('data-action')) {
+          case 'up':
+            [routes[index - 1], routes[index]] = [routes[index], routes[index - 1]];
+            break;
+          case 'down':
+            [routes[index], routes[index + 1]] = [routes[index + 1], routes[index]];
+            break;
+          case 'remove':
+            routes.splice(index, 1);
+            break;
+        }
+
+        this._routes = routes;
+        this.changed();
+      });
+    });
+
+    const providerSelect = this.shadowRoot?.getElementById('fallback-provider') as HTMLSelectElement | null;
+    providerSelect?.addEventListener('change', () => {
+      this.selectedProviderId = providerSelect.value;
+      this.render();
+    });
+
+    this.shadowRoot?.getElementById('add-fallback-btn')?.addEventListener('click', () => {
+      const modelId = (this.shadowRoot?.getElementById('fallback-model') as HTMLSelectElement | null)?.value;
+      if (!this.selectedProviderId || !modelId) return;
+
+      const exists = this._routes.some(r => r.providerId === this.selectedProviderId && r.modelId === modelId);
+      if (exists) return;
+
+      this._routes = [...this._routes, { providerId: this.selectedProviderId, modelId }];
+      this.changed();
+    });
+  }
+
+  private changed() {
+    this.render();
+    this.dispatchEvent(new CustomEvent('fallbacks:changed', { detail: this._routes }));
+  }
+}
+
+customElements.define('model-fallback-editor', ModelFallbackEditor);
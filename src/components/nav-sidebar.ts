@@ -34,6 +34,43 @@ export class NavSidebar extends HTMLElement {
     eventBus.on('conversation:created', () => this.loadConversations());
     eventBus.on('conversation:deleted', () => this.loadConversations());
     eventBus.on('conversation:updated', () => this.loadConversations());
+    eventBus.on('conversation:selected', (id) => {
+      if (id === this.selectedId) return;
+      this.selectedId = id;
+      this.renderConversationList();
+    });
+  }
+
+  /**
+   * Order conversations so each branch follows its parent, oldest branch first.
+   * Branches whose parent is not in the list are shown at the top level.
+   */
+  private buildTree(conversations: Conversation[]): Array<{ conv: Conversation; depth: number }> {
+    const ids = new Set(conversations.map(c => c.id));
+    const children = new Map<string, Conversation[]>();
+    for (const conv of conversations) {
+      if (conv.parentConversationId && ids.has(conv.parentConversationId)) {
+        const siblings = children.get(conv.parentConversationId) ?? [];
+        siblings.push(conv);
+        children.set(conv.parentConversationId, siblings);
+      }
+    }
+
+    const ordered: Array<{ conv: Conversation; depth: number }> = [];
+    const visit = (conv: Conversation, depth: number) => {
+      ordered.push({ conv, depth });
+      const branches = (children.get(conv.id) ?? []).sort((a, b) => a.createdAt - b.createdAt);
+      for (const branch of branches) {
+        visit(branch, depth + 1);
+      }
+    };
+
+    for (const conv of conversations) {
+      if (!conv.parentConversationId || !ids.has(conv.parentConversationId)) {
+        visit(conv, 0);
+      }
+    }
+    return ordered;
   }
 
   private render() {
@@ -122,6 +159,20 @@ export class NavSidebar extends HTMLElement {
           border-color: var(--color-primary);
         }
 
+        .conversation-item.branch {
+          margin-left: calc(var(--branch-depth) * var(--space-4));
+          border-left: 2px solid var(--color-border);
+          border-radius: 0 var(--radius-md) var(--radius-md) 0;
+        }
+
+        .conversation-item.branch.selected {
+          border-color: var(--color-primary);
+        }
+
+        .branch-badge {
+          color: var(--color-text-secondary);
+        }
+
         .conversation-item.archived {
           opacity: 0.7;
         }
@@ -222,6 +273,10 @@ export class NavSidebar extends HTMLElement {
           color: var(--color-text-primary);
         }
 
+        .search-btn {
+          margin-bottom: var(--space-2);
+        }
+
         .empty-state {
           padding: var(--space-8);
           text-align: center;
@@ -313,6 +368,13 @@ export class NavSidebar extends HTMLElement {
       </div>
 
       <div class="sidebar-footer">
+        <button class="settings-btn search-btn" id="search-btn" title="Search all conversations (Ctrl+K)">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <circle cx="11" cy="11" r="8"/>
+            <path d="M21 21l-4.35-4.35"/>
+          </svg>
+          Search
+        </button>
         <button class="settings-btn" id="settings-btn">
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
             <circle cx="12" cy="12" r="3"/>
@@ -329,6 +391,10 @@ export class NavSidebar extends HTMLElement {
       modal?.setAttribute('open', 'true');
     });
 
+    this.shadowRoot.getElementById('search-btn')?.addEventListener('click', () => {
+      eventBus.emit('search:open', undefined);
+    });
+
     this.shadowRoot.getElementById('settings-btn')?.addEventListener('click', () => {
       eventBus.emit('settings:open', undefined);
     });
@@ -386,8 +452,8 @@ export class NavSidebar extends HTMLElement {
 
     list.innerHTML = `
       ${archiveToggleHtml}
-      ${displayConversations.map(conv => `
-        <div class="conversation-item ${conv.id === this.selectedId ? 'selected' : ''} ${conv.isArchived ? 'archived' : ''}" data-id="${conv.id}">
+      ${this.buildTree(displayConversations).map(({ conv, depth }) => `
+        <div class="conversation-item ${conv.id === this.selectedId ? 'selected' : ''} ${conv.isArchived ? 'archived' : ''} ${depth > 0 ? 'branch' : ''}" data-id="${conv.id}" style="--branch-depth: ${Math.min(depth, 4)};">
           <div class="conv-header">
             <div class="conv-subject">
               ${truncate(conv.subject?.trim() ? conv.subject : 'Untitled', 35)}
@@ -409,6 +475,7 @@ export class NavSidebar extends HTMLElement {
           </div>
           <div class="conv-meta">
             <span class="conv-status status-${conv.status}">${conv.status}</span>
+            ${conv.parentConversationId ? `<span class="branch-badge">branch · round ${(conv.branchRound ?? 0) + 1}</span>` : ''}
             <span>${formatRelativeTime(conv.updatedAt)}</span>
           </div>
         </div>
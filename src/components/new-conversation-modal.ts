@@ -6,6 +6,7 @@ import { ConversationEngine } from '../engine/conversation-engine';
 import { presetStorage, providerStorage, settingsStorage, mcpServerStorage } from '../storage/storage-manager';
 import { getSoftwareTeamPresets, getFinanceTeamPresets, getAITeamPresets, getGeneralTeamPresets, getCriticalThinkingTeamPresets } from '../agents/presets';
 import { llmRouter } from '../llm/llm-router';
+import type { CacheMode } from '../llm/types';
 import { eventBus } from '../utils/event-bus';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
 import { startingStrategies, getStrategyById, buildOpeningStatement, buildGroundRules } from '../strategies/starting-strategies';
@@ -13,9 +14,12 @@ import { conversationTemplates, templateCategories, getTemplateById } from '../s
 import { getEnabledLanguages, type Language } from '../utils/languages';
 import { languageService, type TranslationProgress } from '../prompts/language-service';
 import { validateSubject, validateGoal, sanitizeInput } from '../utils/validation';
+import { MCP_APPROVAL, MCP_TOOL_LOOP, DOCUMENTS } from '../constants';
+import { attachDocument, detectDocumentFormat } from '../utils/documents';
+import { escapeHtml } from '../utils/helpers';
 import './agent-preset-editor-modal';
 import type { AgentPresetEditorModal } from './agent-preset-editor-modal';
-import type { AgentPreset, LLMProvider, ConversationMode, StartingStrategyId, ConversationDepth, AppSettings, MCPServer, ToolApprovalMode, ProviderModel } from '../types';
+import type { AgentPreset, LLMProvider, ConversationMode, StartingStrategyId, ConversationDepth, AppSettings, MCPServer, ToolApprovalMode, ToolApprovalDefault, ProviderModel } from '../types';
 
 // Quick team definitions for dropdown
 const QUICK_TEAMS = [
@@ -53,6 +57,9 @@ export class NewConversationModal extends HTMLElement {
   private selectedTemplateId: string | null = null;
   private customOpeningStatement: string = '';
   private showOpeningStatementField: boolean = false;
+  // Source documents, attached once the conversation is created
+  private pendingDocuments: File[] = [];
+  private documentHint: string = '';
   // Conversation depth state
   private selectedDepth: ConversationDepth = 'standard';
   // Target language state
@@ -72,6 +79,10 @@ export class NewConversationModal extends HTMLElement {
   private mcpServers: MCPServer[] = [];
   private selectedMcpServerIds: Set<string> = new Set();
   private mcpToolApprovalMode: ToolApprovalMode = 'auto';
+  private mcpApprovalTimeoutMs: number = MCP_APPROVAL.DEFAULT_TIMEOUT_MS;
+  private mcpApprovalDefault: ToolApprovalDefault = MCP_APPROVAL.DEFAULT_ACTION;
+  private mcpMaxToolSteps: number = MCP_TOOL_LOOP.DEFAULT_MAX_STEPS;
+  private mcpToolTokenBudget: number = MCP_TOOL_LOOP.DEFAULT_TOKEN_BUDGET;
   // Agent search state
   private agentSearchQuery: string = '';
 
@@ -289,6 +300,8 @@ export class NewConversationModal extends HTMLElement {
     this.selectedTemplateId = null;
     this.customOpeningStatement = '';
     this.showOpeningStatementField = false;
+    this.pendingDocuments = [];
+    this.documentHint = '';
     // Reset depth state
     this.selectedDepth = 'standard';
     // Reset language state
@@ -1676,6 +1689,32 @@ export class NewConversationModal extends HTMLElement {
           font-size: var(--text-sm);
         }
 
+        .document-chips {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--space-2);
+          margin-top: var(--space-2);
+        }
+
+        .document-chip {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+          padding: var(--space-1) var(--space-2);
+          background: var(--color-primary-dim);
+          border-radius: var(--radius-sm);
+          font-size: var(--text-xs);
+          color: var(--color-primary);
+        }
+
+        .document-chip-remove {
+          padding: 0 2px;
+          background: none;
+          border: none;
+          color: inherit;
+          cursor: pointer;
+        }
+
         .opening-hint {
           font-size: var(--text-xs);
           color: var(--color-text-tertiary);
@@ -1955,6 +1994,26 @@ export class NewConversationModal extends HTMLElement {
                   >${this.customOpeningStatement}</textarea>
                   <div class="opening-hint">Leave empty to use the strategy's default opening.</div>
                 </div>
+
+                <!-- Source Documents -->
+                <div class="opening-toggle" id="attach-documents-btn">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                    <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"/>
+                  </svg>
+                  Attach source documents
+                </div>
+                <input type="file" id="document-input" accept="${DOCUMENTS.ACCEPT}" multiple hidden>
+                ${this.pendingDocuments.length > 0 ? `
+                  <div class="document-chips">
+                    ${this.pendingDocuments.map((file, i) => `
+                      <span class="document-chip">
+                        ${escapeHtml(file.name)}
+                        <button type="button" class="document-chip-remove" data-index="${i}" title="Remove">×</button>
+                      </span>
+                    `).join('')}
+                  </div>
+                ` : ''}
+                <div class="opening-hint">${escapeHtml(this.documentHint || 'Markdown, text, PDF, CSV or JSON. Agents see the most relevant passages and cite them.')}</div>
               </div>
 
               <div class="section-divider"></div>
@@ -1974,6 +2033,14 @@ export class NewConversationModal extends HTMLElement {
                     <div class="mode-icon">💬</div>
                     <div class="mode-name">Dynamic</div>
                   </div>
+                  <div class="mode-option ${this.selectedMode === 'parallel' ? 'selected' : ''}" data-mode="parallel">
+                    <div class="mode-icon">⚡</div>
+                    <div class="mode-name">Parallel</div>
+                  </div>
+                  <div class="mode-option ${this.selectedMode === 'debate' ? 'selected' : ''}" data-mode="debate">
+                    <div class="mode-icon">⚖️</div>
+                    <div class="mode-name">Debate</div>
+                  </div>
                 </div>
               </div>
 
@@ -2055,6 +2122,31 @@ export class NewConversationModal extends HTMLElement {
                     </span>
                   </label>
                 </div>
+                <div class="inline-select" id="${this.elId('approval-settings')}" style="margin-top: var(--space-2); ${this.mcpToolApprovalMode === 'approval' ? '' : 'display: none;'}">
+                  <input type="number" class="form-input" id="${this.elId('approval-timeout')}"
+                    min="10" max="3600" step="10" value="${Math.round(this.mcpApprovalTimeoutMs / 1000)}"
+                    title="Seconds to wait for a decision">
+                  <select class="form-select" id="${this.elId('approval-default')}" title="Action taken when no decision is made">
+                    <option value="deny" ${this.mcpApprovalDefault === 'deny' ? 'selected' : ''}>Deny when time runs out</option>
+                    <option value="approve" ${this.mcpApprovalDefault === 'approve' ? 'selected' : ''}>Approve when time runs out</option>
+                  </select>
+                </div>
+                <div class="form-hint" style="margin-top: var(--space-2); font-size: var(--text-xs); color: var(--color-text-tertiary); ${this.mcpToolApprovalMode === 'approval' ? '' : 'display: none;'}" id="${this.elId('approval-hint')}">
+                  Seconds to wait for your decision before the default action applies
+                </div>
+              </div>
+
+              <div class="form-group">
+                <label class="form-label">Tool Use Limits (per turn)</label>
+                <div class="inline-select">
+                  <input type="number" class="form-input" id="${this.elId('tool-max-steps')}"
+                    min="1" max="20" value="${this.mcpMaxToolSteps}" title="Maximum tool steps">
+                  <input type="number" class="form-input" id="${this.elId('tool-token-budget')}"
+                    min="1000" step="1000" value="${this.mcpToolTokenBudget}" title="Token budget">
+                </div>
+                <div class="form-hint" style="margin-top: var(--space-2); font-size: var(--text-xs); color: var(--color-text-tertiary);">
+                  Maximum tool steps and token budget before an agent must write its answer
+                </div>
               </div>
               ` : ''}
               ` : ''}
@@ -2309,9 +2401,38 @@ export class NewConversationModal extends HTMLElement {
         this.mcpToolApprovalMode = mode;
         this.shadowRoot?.querySelectorAll('.approval-option').forEach(o => o.classList.remove('selected'));
         (e.target as HTMLInputElement).closest('.approval-option')?.classList.add('selected');
+        for (const suffix of ['approval-settings', 'approval-hint']) {
+          const el = this.shadowRoot?.getElementById(this.elId(suffix));
+          if (el) el.style.display = mode === 'approval' ? '' : 'none';
+        }
       });
     });
 
+    // MCP approval timeout and default action
+    this.shadowRoot?.getElementById(this.elId('approval-timeout'))?.addEventListener('change', (e) => {
+      const seconds = parseInt((e.target as HTMLInputElement).value, 10);
+      if (Number.isFinite(seconds) && seconds > 0) {
+        this.mcpApprovalTimeoutMs = seconds * 1000;
+      }
+    });
+    this.shadowRoot?.getElementById(this.elId('approval-default'))?.addEventListener('change', (e) => {
+      this.mcpApprovalDefault = (e.target as HTMLSelectElement).value as ToolApprovalDefault;
+    });
+
+    // MCP tool loop limits
+    this.shadowRoot?.getElementById(this.elId('tool-max-steps'))?.addEventListener('change', (e) => {
+      const steps = parseInt((e.target as HTMLInputElement).value, 10);
+      if (Number.isFinite(steps) && steps > 0) {
+        this.mcpMaxToolSteps = steps;
+      }
+    });
+    this.shadowRoot?.getElementById(this.elId('tool-token-budget'))?.addEventListener('change', (e) => {
+      const budget = parseInt((e.target as HTMLInputElement).value, 10);
+      if (Number.isFinite(budget) && budget > 0) {
+        this.mcpToolTokenBudget = budget;
+      }
+    });
+
     // Strategy selector
     this.shadowRoot?.querySelectorAll('.strategy-card').forEach(card => {
       card.addEventListener('click', () => {
@@ -2350,6 +2471,25 @@ export class NewConversationModal extends HTMLElement {
       this.customOpeningStatement = openingInput.value;
     });
 
+    // Source documents: checked now, read and stored after the conversation is created
+    const documentInput = this.shadowRoot?.getElementById('document-input') as HTMLInputElement | null;
+    this.shadowRoot?.getElementById('attach-documents-btn')?.addEventListener('click', () => documentInput?.click());
+    documentInput?.addEventListener('change', () => {
+      const files = Array.from(documentInput.files ?? []);
+      const rejected = files.filter(file => !detectDocumentFormat(file.name, file.type) || file.size > DOCUMENTS.MAX_FILE_BYTES);
+      this.pendingDocuments.push(...files.filter(file => !rejected.includes(file)));
+      this.documentHint = rejected.length > 0
+        ? `Skipped ${rejected.map(file => file.name).join(', ')}: unsupported type or larger than ${DOCUMENTS.MAX_FILE_BYTES / (1024 * 1024)} MB.`
+        : '';
+      this.renderPreservingDraft();
+    });
+    this.shadowRoot?.querySelectorAll('.document-chip-remove').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.pendingDocuments.splice(Number(btn.getAttribute('data-index')), 1);
+        this.renderPreservingDraft();
+      });
+    });
+
     // Provider/model selection
     const providerSelect = this.shadowRoot?.getElementById(this.elId('provider')) as HTMLSelectElement | null;
     const modelSelect = this.shadowRoot?.getElementById(this.elId('model')) as HTMLSelectElement | null;
@@ -2561,11 +2701,27 @@ export class NewConversationModal extends HTMLElement {
           targetLanguage: this.selectedLanguage || undefined,
           mcpServerIds: this.selectedMcpServerIds.size > 0 ? Array.from(this.selectedMcpServerIds) : undefined,
           mcpToolApprovalMode: this.selectedMcpServerIds.size > 0 ? this.mcpToolApprovalMode : undefined,
+          mcpMaxToolSteps: this.selectedMcpServerIds.size > 0 ? this.mcpMaxToolSteps : undefined,
+          mcpToolTokenBudget: this.selectedMcpServerIds.size > 0 ? this.mcpToolTokenBudget : undefined,
+          ...(this.selectedMcpServerIds.size > 0 && this.mcpToolApprovalMode === 'approval' ? {
+            mcpToolApprovalTimeoutMs: this.mcpApprovalTimeoutMs,
+            mcpToolApprovalDefault: this.mcpApprovalDefault,
+          } : {}),
         }
       );
 
+      // A document that can't be read doesn't stop the conversation from being created
+      const conversationId = engine.getConversation().id;
+      for (const file of this.pendingDocuments) {
+        try {
+          await attachDocument(conversationId, file);
+        } catch (error) {
+          console.warn('[NewConversationModal] Failed to attach document:', error);
+        }
+      }
+
       this.close();
-      eventBus.emit('conversation:selected', engine.getConversation().id);
+      eventBus.emit('conversation:selected', conversationId);
     } catch (error) {
       console.error('[NewConversationModal] Failed to create conversation:', error);
     }
@@ -2628,6 +2784,9 @@ export class NewConversationModal extends HTMLElement {
 
           <div class="translation-modal-actions">
             ${hasCompleted ? `
+              <button type="button" class="translation-btn cancel" id="translation-again" title="Translate again without the response cache">
+                Translate Again
+              </button>
               <button type="button" class="translation-btn primary" id="translation-done">
                 Done
               </button>
@@ -2664,6 +2823,7 @@ export class NewConversationModal extends HTMLElement {
     const cancelBtn = this.shadowRoot?.getElementById('translation-cancel');
     const confirmBtn = this.shadowRoot?.getElementById('translation-confirm');
     const doneBtn = this.shadowRoot?.getElementById('translation-done');
+    const againBtn = this.shadowRoot?.getElementById('translation-again');
     const overlay = this.shadowRoot?.querySelector('.translation-modal-overlay');
 
     cancelBtn?.addEventListener('click', () => {
@@ -2678,6 +2838,10 @@ export class NewConversationModal extends HTMLElement {
       this.closeTranslationModal();
     });
 
+    againBtn?.addEventListener('click', () => {
+      this.startTranslation('bypass');
+    });
+
     // Close on overlay click (only if not translating)
     overlay?.addEventListener('click', (e) => {
       if (e.target === overlay && this.translationProgress?.status !== 'translating') {
@@ -2713,8 +2877,9 @@ export class NewConversationModal extends HTMLElement {
 
   /**
    * Start the translation process
+   * @param cache 'bypass' to translate again instead of reusing cached translations
    */
-  private async startTranslation(): Promise<void> {
+  private async startTranslation(cache: CacheMode = 'use'): Promise<void> {
     if (!this.pendingLanguageSelection) return;
 
     const { code, name } = this.pendingLanguageSelection;
@@ -2734,7 +2899,7 @@ export class NewConversationModal extends HTMLElement {
       await languageService.translateLanguage(code, name, (progress: TranslationProgress) => {
         this.translationProgress = progress;
         this.renderTranslationModal();
-      });
+      }, undefined, undefined, cache);
 
       // Translation complete
       this.translationProgress = {
@@ -104,6 +104,11 @@ export class ResultDraftPanel extends HTMLElement {
           color: var(--color-text-primary);
         }
 
+        .action-btn:disabled {
+          opacity: 0.5;
+          cursor: wait;
+        }
+
         .panel-content {
           flex: 1;
           overflow-y: auto;
@@ -235,6 +240,11 @@ export class ResultDraftPanel extends HTMLElement {
               <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
             </svg>
           </button>
+          <button class="action-btn" id="regenerate-btn" title="Regenerate without cache">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="m12 3-1.9 5.8a2 2 0 0 1-1.3 1.3L3 12l5.8 1.9a2 2 0 0 1 1.3 1.3L12 21l1.9-5.8a2 2 0 0 1 1.3-1.3L21 12l-5.8-1.9a2 2 0 0 1-1.3-1.3Z"/>
+            </svg>
+          </button>
           <button class="action-btn" id="refresh-btn" title="Refresh">
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
               <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/>
@@ -272,6 +282,20 @@ export class ResultDraftPanel extends HTMLElement {
     this.shadowRoot?.getElementById('refresh-btn')?.addEventListener('click', () => {
       this.loadDraft();
     });
+
+    const regenerateBtn = this.shadowRoot?.getElementById('regenerate-btn') as HTMLButtonElement | null;
+    regenerateBtn?.addEventListener('click', () => {
+      regenerateBtn.disabled = true;
+      this.dispatchEvent(new CustomEvent('result-regenerate'));
+    });
+  }
+
+  /**
+   * Called by the conversation view once a regenerate request has finished
+   */
+  endRegeneration() {
+    const regenerateBtn = this.shadowRoot?.getElementById('regenerate-btn') as HTMLButtonElement | null;
+    if (regenerateBtn) regenerateBtn.disabled = false;
   }
 
   private renderContent() {
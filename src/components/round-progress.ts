@@ -5,7 +5,19 @@
 import { agentStorage, conversationStorage, turnStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
-import type { Agent, Conversation, TurnQueueState } from '../types';
+import { getDebaters, getDebateTeams, getDebatePhase } from '../engine/debate';
+import type { Agent, Conversation, ConvergenceRecommendation, DebatePhase, TurnQueueState } from '../types';
+
+const PHASE_LABELS: Record<DebatePhase, string> = {
+  opening: 'Opening statements',
+  rebuttal: 'Rebuttals',
+  closing: 'Closing statements',
+};
+
+const RECOMMENDATION_LABELS: Record<Exclude<ConvergenceRecommendation, 'continue'>, string> = {
+  stop: 'Converged',
+  extend: 'Needs more rounds',
+};
 
 export class RoundProgress extends HTMLElement {
   private conversationId: string | null = null;
@@ -43,8 +55,10 @@ export class RoundProgress extends HTMLElement {
 
     this.conversation = await conversationStorage.getById(this.conversationId) || null;
     const allAgents = await agentStorage.getByConversation(this.conversationId);
-    // Filter out secretary
-    this.agents = allAgents.filter(a => !a.isSecretary);
+    // Filter out secretary (and the judge, who doesn't speak in a debate)
+    this.agents = this.conversation?.mode === 'debate'
+      ? getDebaters(allAgents, this.conversation.judgeAgentId)
+      : allAgents.filter(a => !a.isSecretary);
     // Hydrate progress from persisted turns so completed conversations render correctly after reload
     await this.hydrateProgressFromTurns();
     this.updateDisplay();
@@ -130,6 +144,14 @@ export class RoundProgress extends HTMLElement {
       }
     });
 
+    eventBus.on('conversation:convergence', ({ conversationId, convergence }) => {
+      if (conversationId === this.conversationId && this.conversation) {
+        const history = (this.conversation.convergence ?? []).filter(entry => entry.round < convergence.round);
+        this.conversation.convergence = [...history, convergence];
+        this.updateDisplay();
+      }
+    });
+
     eventBus.on('conversation:started', (id) => {
       if (id === this.conversationId) {
         this.completedTurns = 0;
@@ -183,6 +205,29 @@ export class RoundProgress extends HTMLElement {
           height: 12px;
         }
 
+        .phase-badge {
+          padding: var(--space-1) var(--space-3);
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-full);
+          font-size: var(--text-xs);
+          font-weight: var(--font-medium);
+          color: var(--color-text-secondary);
+          white-space: nowrap;
+        }
+
+        .speaker-team {
+          font-weight: var(--font-semibold);
+        }
+
+        .speaker-team.pro {
+          color: var(--color-success);
+        }
+
+        .speaker-team.con {
+          color: var(--color-error);
+        }
+
         .progress-bar-container {
           display: flex;
           align-items: center;
@@ -228,7 +273,39 @@ export class RoundProgress extends HTMLElement {
           white-space: nowrap;
         }
 
-        .current-speaker {
+.novelty-chart {
+          display: flex;
+          align-items: flex-end;
+          gap: var(--space-2);
+        }
+
+        .novelty-bar {
+          fill: var(--color-primary);
+        }
+
+        .novelty-bar.plateaued {
+          fill: var(--color-warning);
+        }
+
+        .convergence-badge {
+          padding: 0 var(--space-2);
+          border-radius: var(--radius-full);
+          font-size: var(--text-xs);
+          font-weight: var(--font-medium);
+          white-space: nowrap;
+        }
+
+        .convergence-badge.stop {
+          background: var(--color-bg-tertiary);
+          color: var(--color-warning);
+        }
+
+        .convergence-badge.extend {
+          background: var(--color-primary-dim);
+          color: var(--color-primary);
+        }
+
+                .current-speaker {
           display: flex;
           align-items: center;
           gap: var(--space-2);
@@ -359,6 +436,8 @@ export class RoundProgress extends HTMLElement {
         Round ${displayRound}
       </div>
 
+      ${this.renderDebatePhase(hasMatchingQueueState)}
+
       <div class="circular-progress">
         <svg width="32" height="32" viewBox="0 0 32 32">
           <circle class="bg" cx="16" cy="16" r="12" fill="none" stroke-width="3"/>
@@ -381,10 +460,55 @@ export class RoundProgress extends HTMLElement {
         <span class="progress-text">${completed} of ${totalAgents} agents</span>
       </div>
 
+      ${this.renderNoveltyChart()}
+
       ${this.renderCurrentSpeaker()}
     `;
   }
 
+  /**
+   * Bar per round showing how much new content it added, with the secretary's latest recommendation
+   */
+  private renderNoveltyChart(): string {
+    const history = this.conversation?.convergence ?? [];
+    if (history.length === 0) return '';
+
+    const barWidth = 5;
+    const gap = 2;
+    const height = 20;
+    const width = history.length * (barWidth + gap) - gap;
+    const latest = history[history.length - 1];
+    const title = history.map(entry => `Round ${entry.round + 1}: ${Math.round(entry.novelty * 100)}% new`).join('\n');
+
+    return `
+      <div class="novelty-chart" title="${title}">
+        <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+          ${history.map((entry, i) => {
+            const barHeight = Math.max(1, Math.round(entry.novelty * height));
+            return `<rect class="novelty-bar ${entry.plateaued ? 'plateaued' : ''}" x="${i * (barWidth + gap)}" y="${height - barHeight}" width="${barWidth}" height="${barHeight}" rx="1"/>`;
+          }).join('')}
+        </svg>
+        <span class="progress-text">${Math.round(latest.novelty * 100)}% new</span>
+        ${latest.recommendation !== 'continue'
+          ? `<span class="convergence-badge ${latest.recommendation}">${RECOMMENDATION_LABELS[latest.recommendation]}</span>`
+          : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Current debate phase next to the round badge (debate mode only)
+   */
+  private renderDebatePhase(hasMatchingQueueState: boolean): string {
+    if (this.conversation?.mode !== 'debate') return '';
+
+    const phase = hasMatchingQueueState && this.turnQueueState?.debatePhase
+      ? this.turnQueueState.debatePhase
+      : getDebatePhase(this.conversation, this.getRelevantRoundIndex());
+
+    return `<div class="phase-badge">⚖️ ${PHASE_LABELS[phase]}</div>`;
+  }
+
   private renderCurrentSpeaker(): string {
     if (!this.currentAgentId) return '';
 
@@ -392,6 +516,9 @@ export class RoundProgress extends HTMLElement {
     if (!agent) return '';
 
     const initials = agent.name.slice(0, 2).toUpperCase();
+    const side = this.conversation?.mode === 'debate'
+      ? (getDebateTeams(this.agents).con.includes(agent) ? 'con' : 'pro')
+      : null;
 
     return `
       <div class="current-speaker">
@@ -399,7 +526,7 @@ export class RoundProgress extends HTMLElement {
           ${initials}
         </div>
         <div class="speaker-info">
-          <span class="speaker-label">Speaking</span>
+          <span class="speaker-label">Speaking${side ? ` · <span class="speaker-team ${side}">${side}</span>` : ''}</span>
           <span class="speaker-name">${agent.name}</span>
         </div>
         <div class="thinking-dots">
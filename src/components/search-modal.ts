@@ -0,0 +1,419 @@
+// ============================================
+// AI Brainstorm - Search Modal Component
+// ============================================
+//
+// Semantic search over all messages and results, ranked by similarity
+// and filterable by agent, round, message type and date
+
+import { shadowBaseStyles } from '../styles/shadow-base-styles';
+import { eventBus } from '../utils/event-bus';
+import { escapeHtml, formatDateTime } from '../utils/helpers';
+import { semanticSearch, updateSearchIndex, getAgentNames, type SemanticSearchFilters, type SemanticSearchResult } from '../utils/search';
+import type { MessageType } from '../types';
+
+const SEARCH_DELAY_MS = 300;
+
+const TYPE_LABELS: Record<MessageType | 'result', string> = {
+  response: 'Response',
+  summary: 'Summary',
+  interjection: 'User',
+  system: 'System',
+  opening: 'Opening',
+  vote: 'Vote',
+  result: 'Final result',
+};
+
+export class SearchModal extends HTMLElement {
+  private query = '';
+  private filters: SemanticSearchFilters = {};
+  private results: SemanticSearchResult[] = [];
+  private agentNames: string[] = [];
+  private status = '';
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+  private searchId = 0;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+  }
+
+  connectedCallback() {
+    this.render();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [
+      eventBus.on('search:open', () => {
+        void this.open();
+      }),
+    ];
+  }
+
+  disconnectedCallback() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private async open(): Promise<void> {
+    this.setAttribute('open', 'true');
+    this.agentNames = await getAgentNames();
+    this.render();
+    this.shadowRoot?.querySelector<HTMLInputElement>('#search-query')?.focus();
+
+    // Index what changed since the last search in the background
+    this.setStatus('Updating the search index...');
+    try {
+      const status = await updateSearchIndex((done, total) => this.setStatus(`Indexing ${done} of ${total}...`));
+      this.setStatus(`${status.total} messages and results indexed`);
+    } catch (error) {
+      console.error('[Search] Failed to update the index:', error);
+      this.setStatus('Could not update the search index');
+    }
+  }
+
+  private close(): void {
+    this.removeAttribute('open');
+  }
+
+  private setStatus(status: string): void {
+    this.status = status;
+    const element = this.shadowRoot?.getElementById('search-status');
+    if (element) element.textContent = status;
+  }
+
+  /**
+   * Search after typing pauses; only the latest search updates the results
+   */
+  private scheduleSearch(): void {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+    this.searchTimer = setTimeout(() => {
+      void this.runSearch();
+    }, SEARCH_DELAY_MS);
+  }
+
+  private async runSearch(): Promise<void> {
+    const searchId = ++this.searchId;
+    if (!this.query.trim()) {
+      this.results = [];
+      this.renderResults();
+      return;
+    }
+
+    try {
+      const results = await semanticSearch(this.query, this.filters);
+      if (searchId !== this.searchId) return;
+      this.results = results;
+      this.setStatus(`${results.length} result${results.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      console.error('[Search] Search failed:', error);
+      this.results = [];
+      this.setStatus('Search failed');
+    }
+    this.renderResults();
+  }
+
+  /**
+   * Snippet with the matched words marked
+   */
+  private renderSnippet(result: SemanticSearchResult): string {
+    let html = '';
+    let position = 0;
+    for (const [start, end] of result.highlights) {
+      html += escapeHtml(result.snippet.slice(position, start));
+      html += `<mark>${escapeHtml(result.snippet.slice(start, end))}</mark>`;
+      position = end;
+    }
+    return html + escapeHtml(result.snippet.slice(position));
+  }
+
+  private renderResultList(): string {
+    if (!this.query.trim()) {
+      return `<div class="search-empty">Search messages and results by meaning, not just exact words.</div>`;
+    }
+    if (this.results.length === 0) {
+      return `<div class="search-empty">No matching messages or results.</div>`;
+    }
+
+    return this.results.map((result, index) => {
+      const meta = [
+        result.agentName,
+        result.round !== undefined ? `Round ${result.round + 1}` : '',
+        TYPE_LABELS[result.type === 'result' ? 'result' : result.messageType ?? 'response'],
+        formatDateTime(result.timestamp),
+      ].filter(Boolean).join(' · ');
+
+      return `
+        <button class="search-result" data-index="${index}">
+          <div class="result-header">
+            <span class="result-title">${escapeHtml(result.title)}</span>
+            <span class="result-similarity">${Math.round(result.similarity * 100)}%</span>
+          </div>
+          <div class="result-meta">${escapeHtml(meta)}</div>
+          <div class="result-snippet">${this.renderSnippet(result)}</div>
+        </button>
+      `;
+    }).join('');
+  }
+
+  private renderResults(): void {
+    const list = this.shadowRoot?.getElementById('search-results');
+    if (!list) return;
+    list.innerHTML = this.renderResultList();
+
+    list.querySelectorAll<HTMLElement>('.search-result').forEach(item => {
+      item.addEventListener('click', () => {
+        const result = this.results[Number(item.dataset.index)];
+        if (!result) return;
+        eventBus.emit('conversation:selected', result.conversationId);
+        this.close();
+      });
+    });
+  }
+
+  private render(): void {
+    if (!this.shadowRoot) return;
+
+    this.shadowRoot.innerHTML = `
+      <style>
+        ${shadowBaseStyles}
+
+        :host {
+          display: none;
+        }
+
+        :host([open]) {
+          display: block;
+        }
+
+        .modal-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 0, 0, 0.7);
+          display: flex;
+          align-items: flex-start;
+          justify-content: center;
+          padding-top: 10vh;
+          z-index: 10000;
+          animation: fadeIn 0.15s ease-out;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        .modal {
+          background: var(--color-bg-primary);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-lg);
+          width: 640px;
+          max-width: 92vw;
+          max-height: 75vh;
+          display: flex;
+          flex-direction: column;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.5);
+        }
+
+        .search-header {
+          display: flex;
+          gap: var(--space-2);
+          padding: var(--space-4);
+          border-bottom: 1px solid var(--color-border);
+        }
+
+        .search-input {
+          flex: 1;
+          padding: var(--space-2) var(--space-3);
+          background: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+          color: var(--color-text-primary);
+          font-size: var(--text-base);
+        }
+
+        .close-btn {
+          background: transparent;
+          border: none;
+          color: var(--color-text-tertiary);
+          font-size: var(--text-lg);
+          cursor: pointer;
+        }
+
+        .search-filters {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--space-2);
+          padding: var(--space-2) var(--space-4);
+          border-bottom: 1px solid var(--color-border);
+          background: var(--color-bg-secondary);
+        }
+
+        .search-filters select,
+        .search-filters input {
+          padding: var(--space-1) var(--space-2);
+          background: var(--color-bg-primary);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-secondary);
+          font-size: var(--text-xs);
+        }
+
+        .search-filters input[type="number"] {
+          width: 80px;
+        }
+
+        .search-results {
+          flex: 1;
+          overflow-y: auto;
+          padding: var(--space-2);
+        }
+
+        .search-result {
+          display: block;
+          width: 100%;
+          text-align: start;
+          padding: var(--space-3);
+          background: transparent;
+          border: 1px solid transparent;
+          border-radius: var(--radius-md);
+          color: var(--color-text-primary);
+          cursor: pointer;
+        }
+
+        .search-result:hover {
+          background: var(--color-surface);
+          border-color: var(--color-border);
+        }
+
+        .result-header {
+          display: flex;
+          justify-content: space-between;
+          gap: var(--space-2);
+        }
+
+        .result-title {
+          font-weight: var(--font-medium);
+          font-size: var(--text-sm);
+        }
+
+        .result-similarity {
+          font-size: var(--text-xs);
+          color: var(--color-primary);
+        }
+
+        .result-meta {
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+          margin: var(--space-1) 0;
+        }
+
+        .result-snippet {
+          font-size: var(--text-sm);
+          color: var(--color-text-secondary);
+          line-height: 1.5;
+        }
+
+        .result-snippet mark {
+          background: var(--color-primary-dim);
+          color: var(--color-text-primary);
+          border-radius: 2px;
+        }
+
+        .search-empty {
+          padding: var(--space-6);
+          text-align: center;
+          color: var(--color-text-tertiary);
+          font-size: var(--text-sm);
+        }
+
+        .search-status {
+          padding: var(--space-2) var(--space-4);
+          border-top: 1px solid var(--color-border);
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+        }
+      </style>
+
+      <div class="modal-overlay" id="overlay">
+        <div class="modal">
+          <div class="search-header">
+            <input type="search" class="search-input" id="search-query" placeholder="Search all conversations..." value="${escapeHtml(this.query)}">
+            <button class="close-btn" id="close-btn" title="Close">✕</button>
+          </div>
+          <div class="search-filters">
+            <select id="filter-agent">
+              <option value="">Any agent</option>
+              ${this.agentNames.map(name => `
+                <option value="${escapeHtml(name)}" ${this.filters.agentName === name ? 'selected' : ''}>${escapeHtml(name)}</option>
+              `).join('')}
+            </select>
+            <select id="filter-type">
+              <option value="">Any type</option>
+              ${Object.entries(TYPE_LABELS).map(([type, label]) => `
+                <option value="${type}" ${this.filters.messageType === type ? 'selected' : ''}>${label}</option>
+              `).join('')}
+            </select>
+            <input type="number" id="filter-round" min="1" placeholder="Round" value="${this.filters.round !== undefined ? this.filters.round + 1 : ''}">
+            <input type="date" id="filter-from" title="From">
+            <input type="date" id="filter-to" title="To">
+          </div>
+          <div class="search-results" id="search-results">
+            ${this.renderResultList()}
+          </div>
+          <div class="search-status" id="search-status">${escapeHtml(this.status)}</div>
+        </div>
+      </div>
+    `;
+
+    this.setupEventHandlers();
+    this.renderResults();
+  }
+
+  private setupEventHandlers(): void {
+    const root = this.shadowRoot;
+    if (!root) return;
+
+    root.getElementById('overlay')?.addEventListener('click', (e) => {
+      if ((e.target as HTMLElement).id === 'overlay') this.close();
+    });
+    root.getElementById('close-btn')?.addEventListener('click', () => this.close());
+    root.querySelector('.modal')?.addEventListener('keydown', (e) => {
+      if ((e as KeyboardEvent).key === 'Escape') this.close();
+    });
+
+    root.getElementById('search-query')?.addEventListener('input', (e) => {
+      this.query = (e.target as HTMLInputElement).value;
+      this.scheduleSearch();
+    });
+
+    root.getElementById('filter-agent')?.addEventListener('change', (e) => {
+      this.filters.agentName = (e.target as HTMLSelectElement).value || undefined;
+      void this.runSearch();
+    });
+
+    root.getElementById('filter-type')?.addEventListener('change', (e) => {
+      this.filters.messageType = ((e.target as HTMLSelectElement).value || undefined) as SemanticSearchFilters['messageType'];
+      void this.runSearch();
+    });
+
+    root.getElementById('filter-round')?.addEventListener('change', (e) => {
+      const round = parseInt((e.target as HTMLInputElement).value);
+      this.filters.round = round > 0 ? round - 1 : undefined;
+      void this.runSearch();
+    });
+
+    // Dates cover whole days: "from" starts at midnight, "to" runs to the end of the day
+    root.getElementById('filter-from')?.addEventListener('change', (e) => {
+      const date = (e.target as HTMLInputElement).valueAsDate;
+      this.filters.from = date ? date.getTime() + date.getTimezoneOffset() * 60_000 : undefined;
+      void this.runSearch();
+    });
+
+    root.getElementById('filter-to')?.addEventListener('change', (e) => {
+      const date = (e.target as HTMLInputElement).valueAsDate;
+      this.filters.to = date ? date.getTime() + date.getTimezoneOffset() * 60_000 + 86_400_000 - 1 : undefined;
+      void this.runSearch();
+    });
+  }
+}
+
+customElements.define('search-modal', SearchModal);
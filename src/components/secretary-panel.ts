@@ -2,10 +2,12 @@
 // AI Brainstorm - Secretary Panel Component
 // ============================================
 
-import { resultDraftStorage, messageStorage, agentStorage } from '../storage/storage-manager';
+import { resultDraftStorage, messageStorage, agentStorage, providerStorage, usageStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
 import { copyToClipboard, downloadAsFile, parseBasicFormatting, escapeHtml } from '../utils/helpers';
-import type { ResultDraft, Message, Agent } from '../types';
+import { summarizeUsage, formatCost, type UsageTotals } from '../llm/usage';
+import { DEBATE } from '../constants';
+import type { ResultDraft, Message, Agent, UsageRecord, UsagePurpose, DebateVerdict } from '../types';
 
 // Color palette for theme tags (matching variables.css)
 const THEME_COLORS = [
@@ -23,6 +25,9 @@ export class SecretaryPanel extends HTMLElement {
   private conversationId: string | null = null;
   private roundSummaryMessages: Message[] = [];
   private activeSection: string = 'summaries';
+  private usageRecords: UsageRecord[] = [];
+  private agentNames: Map<string, string> = new Map();
+  private providerNames: Map<string, string> = new Map();
   agents: Map<string, Agent> = new Map();
 
   static get observedAttributes() {
@@ -54,6 +59,12 @@ export class SecretaryPanel extends HTMLElement {
     // Load agents for color mapping
     const agentList = await agentStorage.getByConversation(this.conversationId);
     this.agents = new Map(agentList.filter(a => !a.isSecretary).map(a => [a.id, a]));
+    this.agentNames = new Map(agentList.map(a => [a.id, a.name]));
+
+    // Load token usage and provider names for the usage tab
+    this.usageRecords = await usageStorage.getByConversation(this.conversationId);
+    const providers = await providerStorage.getAll();
+    this.providerNames = new Map(providers.map(p => [p.id, p.name]));
 
     // Load result draft
     this.draft = await resultDraftStorage.get(this.conversationId) || null;
@@ -81,6 +92,16 @@ export class SecretaryPanel extends HTMLElement {
         this.renderContent();
       }
     });
+
+    // Listen for LLM calls made for this conversation
+    eventBus.on('usage:recorded', (record: UsageRecord) => {
+      if (record.conversationId === this.conversationId) {
+        this.usageRecords.push(record);
+        if (this.activeSection === 'usage') {
+          this.renderContent();
+        }
+      }
+    });
   }
 
   private render() {
@@ -384,6 +405,82 @@ export class SecretaryPanel extends HTMLElement {
           display: none;
         }
 
+        /* Usage */
+        .usage-total {
+          display: grid;
+          grid-template-columns: repeat(4, 1fr);
+          gap: var(--space-2);
+          margin-bottom: var(--space-4);
+        }
+
+        .usage-stat {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: var(--space-3) var(--space-2);
+          background: var(--color-bg-tertiary);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+        }
+
+        .usage-stat-value {
+          font-size: var(--text-sm);
+          font-weight: var(--font-semibold);
+          color: var(--color-text-primary);
+        }
+
+        .usage-stat-label {
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+        }
+
+        .usage-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: var(--text-xs);
+        }
+
+        .usage-table th,
+        .usage-table td {
+          padding: var(--space-1) var(--space-2);
+          text-align: right;
+        }
+
+        .usage-table th:first-child,
+        .usage-table td:first-child {
+          text-align: left;
+        }
+
+        .usage-table th {
+          color: var(--color-text-tertiary);
+          font-weight: var(--font-medium);
+        }
+
+        /* Debate verdict */
+        .verdict-winner {
+          font-size: var(--text-base);
+          font-weight: var(--font-semibold);
+          margin-bottom: var(--space-2);
+        }
+
+        .verdict-winner.pro {
+          color: var(--color-success);
+        }
+
+        .verdict-winner.con {
+          color: var(--color-error);
+        }
+
+        .verdict-judge {
+          font-size: var(--text-xs);
+          color: var(--color-text-tertiary);
+          margin-bottom: var(--space-3);
+        }
+
+        .verdict-reasoning {
+          margin-top: var(--space-3);
+        }
+
         /* Theme Tags - Colorful */
         .themes-list {
           display: flex;
@@ -560,6 +657,7 @@ export class SecretaryPanel extends HTMLElement {
       <div class="tabs">
         <button class="tab active" data-tab="summaries">Round Summaries</button>
         <button class="tab" data-tab="result">Final Result</button>
+        <button class="tab" data-tab="usage">Usage</button>
       </div>
 
       <div class="panel-content" id="content">
@@ -611,6 +709,8 @@ export class SecretaryPanel extends HTMLElement {
 
     if (this.activeSection === 'summaries') {
       this.renderRoundSummaries(content);
+    } else if (this.activeSection === 'usage') {
+      this.renderUsage(content);
     } else {
       this.renderFinalResult(content);
     }
@@ -740,6 +840,8 @@ export class SecretaryPanel extends HTMLElement {
         This is an objective summary based on what was discussed
       </div>
 
+      ${this.draft.debateVerdict ? this.renderDebateVerdict(this.draft.debateVerdict) : ''}
+
       ${this.draft.executiveSummary ? this.renderSectionWithHighlights('Executive Summary', this.draft.executiveSummary) : ''}
       
       ${this.draft.themes && this.draft.themes.length > 0 ? `
@@ -810,6 +912,158 @@ export class SecretaryPanel extends HTMLElement {
   /**
    * Render a section with agent name highlighting
    */
+  private renderUsage(container: HTMLElement) {
+    if (this.usageRecords.length === 0) {
+      container.innerHTML = `
+        <div class="empty-state">
+          <svg class="empty-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">
+            <line x1="12" y1="20" x2="12" y2="10"/>
+            <line x1="18" y1="20" x2="18" y2="4"/>
+            <line x1="6" y1="20" x2="6" y2="16"/>
+          </svg>
+          <p>No LLM calls recorded yet</p>
+          <p style="font-size: var(--text-xs); margin-top: var(--space-2);">
+            Token usage and cost appear once the conversation runs
+          </p>
+        </div>
+      `;
+      return;
+    }
+
+    const summary = summarizeUsage(this.usageRecords);
+    const purposeLabels: Record<UsagePurpose, string> = {
+      turn: 'Agent turns',
+      secretary: 'Secretary',
+      distillation: 'Memory distillation',
+      notebook: 'Notebook notes',
+      moderator: 'Moderator',
+      judge: 'Debate judge',
+      vote: 'Votes',
+      translation: 'Translation',
+      embedding: 'Search embeddings',
+    };
+
+    const agentRows = Array.from(summary.byAgent.entries())
+      .map(([id, totals]) => ({ label: id ? this.agentNames.get(id) || 'Deleted agent' : 'Other', totals }));
+    const providerRows = Array.from(summary.byProvider.entries())
+      .map(([id, totals]) => ({ label: this.providerNames.get(id) || 'Deleted provider', totals }));
+    const purposeRows = Array.from(summary.byPurpose.entries())
+      .map(([purpose, totals]) => ({ label: purposeLabels[purpose], totals }));
+
+    const notes: string[] = [];
+    if (summary.total.unpricedCalls > 0) {
+      notes.push(`${summary.total.unpricedCalls} call(s) used models without a price and are not included in the cost`);
+    }
+    if (summary.total.estimatedCalls > 0) {
+      notes.push(`${summary.total.estimatedCalls} call(s) did not report usage; their tokens are estimated`);
+    }
+
+    container.innerHTML = `
+      <div class="usage-total">
+        <div class="usage-stat">
+          <span class="usage-stat-value">${formatCost(summary.total.cost)}</span>
+          <span class="usage-stat-label">Cost</span>
+        </div>
+        <div class="usage-stat">
+          <span class="usage-stat-value">${summary.total.inputTokens.toLocaleString()}</span>
+          <span class="usage-stat-label">Input tokens</span>
+        </div>
+        <div class="usage-stat">
+          <span class="usage-stat-value">${summary.total.outputTokens.toLocaleString()}</span>
+          <span class="usage-stat-label">Output tokens</span>
+        </div>
+        <div class="usage-stat">
+          <span class="usage-stat-value">${summary.total.calls}</span>
+          <span class="usage-stat-label">Calls</span>
+        </div>
+      </div>
+      ${notes.map(note => `<div class="neutral-notice">${escapeHtml(note)}</div>`).join('')}
+      ${this.renderUsageTable('By Agent', agentRows)}
+      ${this.renderUsageTable('By Provider', providerRows)}
+      ${this.renderUsageTable('By Purpose', purposeRows)}
+    `;
+  }
+
+  private renderUsageTable(title: string, rows: Array<{ label: string; totals: UsageTotals }>): string {
+    const sorted = [...rows].sort((a, b) =>
+      (b.totals.cost - a.totals.cost) ||
+      (b.totals.inputTokens + b.totals.outputTokens - a.totals.inputTokens - a.totals.outputTokens)
+    );
+
+    return `
+      <div class="section">
+        <div class="section-header">
+          <span class="section-title">${title}</span>
+        </div>
+        <div class="section-content">
+          <table class="usage-table">
+            <thead>
+              <tr><th></th><th>Calls</th><th>In</th><th>Out</th><th>Cost</th></tr>
+            </thead>
+            <tbody>
+              ${sorted.map(({ label, totals }) => `
+                <tr>
+                  <td>${escapeHtml(label)}</td>
+                  <td>${totals.calls}</td>
+                  <td>${totals.inputTokens.toLocaleString()}</td>
+                  <td>${totals.outputTokens.toLocaleString()}</td>
+                  <td>${totals.unpricedCalls === totals.calls ? '—' : formatCost(totals.cost)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Judge's verdict with the rubric scores of both teams (debate mode)
+   */
+  private renderDebateVerdict(verdict: DebateVerdict): string {
+    const winner = verdict.winner === 'draw' ? 'The debate is a draw' : `${verdict.winner.toUpperCase()} wins the debate`;
+    const judge = verdict.judgeAgentId ? this.agentNames.get(verdict.judgeAgentId) : undefined;
+    const pro = verdict.scores.find(s => s.side === 'pro');
+    const con = verdict.scores.find(s => s.side === 'con');
+
+    return `
+      <div class="section">
+        <div class="section-title">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <path d="M6 9l6 6 6-6"/>
+          </svg>
+          Debate Verdict
+        </div>
+        <div class="section-content">
+          <div class="verdict-winner ${verdict.winner}">⚖️ ${winner}</div>
+          ${judge ? `<div class="verdict-judge">Judged by ${escapeHtml(judge)}</div>` : ''}
+          <table class="usage-table">
+            <thead>
+              <tr><th></th><th>Pro</th><th>Con</th></tr>
+            </thead>
+            <tbody>
+              ${DEBATE.RUBRIC.map(criterion => `
+                <tr>
+                  <td>${criterion}</td>
+                  <td>${pro?.criteria[criterion] ?? 0}/${DEBATE.MAX_SCORE}</td>
+                  <td>${con?.criteria[criterion] ?? 0}/${DEBATE.MAX_SCORE}</td>
+                </tr>
+              `).join('')}
+              <tr>
+                <th>Total</th>
+                <th>${pro?.total ?? 0}</th>
+                <th>${con?.total ?? 0}</th>
+              </tr>
+            </tbody>
+          </table>
+          ${verdict.reasoning ? `
+            <div class="verdict-reasoning">${this.highlightAgentNames(parseBasicFormatting(escapeHtml(verdict.reasoning)))}</div>
+          ` : ''}
+        </div>
+      </div>
+    `;
+  }
+
   private renderSectionWithHighlights(title: string, content: string): string {
     if (!content || content.trim() === '') return '';
     
@@ -833,6 +1087,7 @@ export class SecretaryPanel extends HTMLElement {
   private hasStructuredContent(): boolean {
     if (!this.draft) return false;
     return !!(
+      this.draft.debateVerdict ||
       this.draft.executiveSummary ||
       (this.draft.themes && this.draft.themes.length > 0) ||
       this.draft.consensusAreas ||
@@ -848,6 +1103,23 @@ export class SecretaryPanel extends HTMLElement {
 
     parts.push('# Secretary Report\n');
 
+    const verdict = this.draft?.debateVerdict;
+    if (verdict) {
+      parts.push('## Debate Verdict\n');
+      parts.push(verdict.winner === 'draw' ? '**Draw**\n' : `**Winner: ${verdict.winner.toUpperCase()}**\n`);
+      parts.push('| Criterion | Pro | Con |');
+      parts.push('| --- | --- | --- |');
+      for (const criterion of DEBATE.RUBRIC) {
+        const score = (side: string) => verdict.scores.find(s => s.side === side)?.criteria[criterion] ?? 0;
+        parts.push(`| ${criterion} | ${score('pro')} | ${score('con')} |`);
+      }
+      const total = (side: string) => verdict.scores.find(s => s.side === side)?.total ?? 0;
+      parts.push(`| **Total** | **${total('pro')}** | **${total('con')}** |\n`);
+      if (verdict.reasoning) {
+        parts.push(verdict.reasoning + '\n');
+      }
+    }
+
     if (this.draft?.executiveSummary) {
       parts.push('## Executive Summary\n');
       parts.push(this.draft.executiveSummary + '\n');
@@ -2,7 +2,7 @@
 // AI Brainstorm - Settings Panel Component
 // ============================================
 
-import { settingsStorage, providerStorage, presetStorage, mcpServerStorage } from '../storage/storage-manager';
+import { settingsStorage, providerStorage, presetStorage, mcpServerStorage, workspaceMemoryStorage, embeddingStorage } from '../storage/storage-manager';
 import { presetCategories } from '../agents/presets';
 import { llmRouter } from '../llm/llm-router';
 import { mcpRouter } from '../mcp';
@@ -10,8 +10,12 @@ import { eventBus } from '../utils/event-bus';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
 import { ALL_LANGUAGES } from '../utils/languages';
 import { downloadPresets, importPresets, downloadSelectedPresets, downloadMCPServers, importMCPServers, normalizeMCPServerImport } from '../utils/export';
-import { readFileContent } from '../utils/helpers';
-import type { AppSettings, LLMProvider, ApiFormat, AgentPreset, MCPServer, MCPTransport, MCPImportConflictStrategy } from '../types';
+import { readFileContent, formatFileSize } from '../utils/helpers';
+import { searchMemory } from '../engine/workspace-memory';
+import { rebuildSearchIndex } from '../utils/search';
+import { responseCache, type ResponseCacheStats } from '../llm/response-cache';
+import { MCP_BRIDGE, MOCK_PROVIDER, RESPONSE_CACHE } from '../constants';
+import type { AppSettings, LLMProvider, ApiFormat, AgentPreset, MCPServer, MCPTransport, MCPImportConflictStrategy, WorkspaceMemoryEntry } from '../types';
 import './agent-preset-editor-modal';
 import type { AgentPresetEditorModal } from './agent-preset-editor-modal';
 
@@ -29,6 +33,10 @@ export class SettingsPanel extends HTMLElement {
   private selectedMcpServerId: string | null = null;
   private connectingServerId: string | null = null;
   private languageFilter: string = '';
+  private workspaceMemory: WorkspaceMemoryEntry[] = [];
+  private memoryQuery: string = '';
+  private indexedCount: number = 0;
+  private cacheStats: ResponseCacheStats | null = null;
 
   constructor() {
     super();
@@ -45,6 +53,9 @@ export class SettingsPanel extends HTMLElement {
     this.providers = await providerStorage.getAll();
     this.presets = await presetStorage.getAll();
     this.mcpServers = await mcpServerStorage.getAll();
+    this.workspaceMemory = await workspaceMemoryStorage.getAll();
+    this.indexedCount = await embeddingStorage.count();
+    this.cacheStats = await responseCache.getStats();
   }
 
   private render() {
@@ -749,6 +760,75 @@ export class SettingsPanel extends HTMLElement {
           background: linear-gradient(135deg, #f5f5f8, #eaeaef);
         }
 
+        .memory-search {
+          display: flex;
+          gap: var(--space-2);
+          margin: var(--space-3) 0;
+        }
+
+        .memory-search .form-input {
+          flex: 1;
+        }
+
+        .memory-results {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          max-height: 320px;
+          overflow-y: auto;
+        }
+
+        .memory-entry {
+          padding: var(--space-2) var(--space-3);
+          background: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-md);
+          font-size: var(--text-sm);
+        }
+
+        .memory-entry-kind {
+          display: inline-block;
+          margin-inline-end: var(--space-2);
+          padding: 0 var(--space-2);
+          border-radius: var(--radius-sm);
+          background: var(--color-primary-dim);
+          color: var(--color-primary);
+          font-size: var(--text-xs);
+          text-transform: uppercase;
+        }
+
+        .memory-entry-source {
+          margin-top: var(--space-1);
+          color: var(--color-text-tertiary);
+          font-size: var(--text-xs);
+        }
+
+        .memory-source-link {
+          background: none;
+          border: none;
+          padding: 0;
+          color: var(--color-primary);
+          font-size: inherit;
+          cursor: pointer;
+        }
+
+        .memory-topic {
+          display: inline-block;
+          margin: var(--space-1) var(--space-1) 0 0;
+          padding: 0 var(--space-2);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-full);
+          background: none;
+          color: var(--color-text-secondary);
+          font-size: var(--text-xs);
+          cursor: pointer;
+        }
+
+        .memory-empty {
+          color: var(--color-text-tertiary);
+          font-size: var(--text-sm);
+        }
+
         .version-info {
           text-align: center;
           padding: var(--space-4);
@@ -1732,7 +1812,9 @@ export class SettingsPanel extends HTMLElement {
             <select class="form-select" id="new-provider-format">
               <option value="openai">OpenAI Compatible</option>
               <option value="anthropic">Anthropic</option>
+              <option value="gemini">Google Gemini</option>
               <option value="ollama">Ollama</option>
+              <option value="mock">Mock (offline)</option>
             </select>
           </div>
           <div class="form-group">
@@ -1797,6 +1879,18 @@ export class SettingsPanel extends HTMLElement {
             <label class="form-label">Arguments (comma-separated)</label>
             <input type="text" class="form-input" id="new-mcp-args" placeholder="--port, 3000">
           </div>
+          <div class="form-group" id="mcp-env-group" style="display: none;">
+            <label class="form-label">Environment Variables (Optional)</label>
+            <textarea class="form-input" id="new-mcp-env" rows="3" placeholder='{"API_KEY": "value"}'></textarea>
+            <div class="form-hint">JSON object of environment variables for the process</div>
+          </div>
+          <div class="form-group" id="mcp-bridge-group" style="display: none;">
+            <label class="form-label">Bridge URL</label>
+            <input type="text" class="form-input" id="new-mcp-bridge-url" placeholder="${MCP_BRIDGE.DEFAULT_URL}">
+            <label class="form-label" style="margin-top: var(--space-3);">Bridge Token</label>
+            <input type="password" class="form-input" id="new-mcp-bridge-token" placeholder="Token printed by the bridge">
+            <div class="form-hint">Stdio servers run through the local bridge: start it with <code>npm run mcp-bridge</code></div>
+          </div>
           <div class="modal-actions">
             <button class="modal-btn cancel" id="cancel-add-mcp">Cancel</button>
             <button class="modal-btn primary" id="confirm-add-mcp">Add Server</button>
@@ -1851,6 +1945,21 @@ export class SettingsPanel extends HTMLElement {
             <label class="form-label">Context Length</label>
             <input type="number" class="form-input" id="new-model-context" value="8192" min="1000" max="2000000">
           </div>
+          <div class="form-group">
+            <label class="form-label">Input Price (USD per 1M tokens, optional)</label>
+            <input type="number" class="form-input" id="new-model-input-price" placeholder="e.g., 2.50" min="0" step="0.01">
+          </div>
+          <div class="form-group">
+            <label class="form-label">Output Price (USD per 1M tokens, optional)</label>
+            <input type="number" class="form-input" id="new-model-output-price" placeholder="e.g., 10.00" min="0" step="0.01">
+          </div>
+          <div class="form-group">
+            <label class="checkbox-label">
+              <input type="checkbox" id="new-model-reasoning">
+              <span>Reasoning model</span>
+            </label>
+            <div class="form-hint">OpenAI-compatible providers send reasoning models to the Responses API with a reasoning effort from the agent's thinking depth. o-series and GPT-5 models are detected automatically.</div>
+          </div>
           <div class="modal-actions">
             <button class="modal-btn cancel" id="cancel-add-model">Cancel</button>
             <button class="modal-btn primary" id="confirm-add-model">Add Model</button>
@@ -1869,7 +1978,9 @@ export class SettingsPanel extends HTMLElement {
     switch (format) {
       case 'openai': return 'OpenAI Format';
       case 'anthropic': return 'Anthropic Format';
+      case 'gemini': return 'Gemini Format';
       case 'ollama': return 'Ollama Format';
+      case 'mock': return 'Mock (offline)';
       default: return format;
     }
   }
@@ -2003,7 +2114,9 @@ export class SettingsPanel extends HTMLElement {
     switch (format) {
       case 'openai': return 'Required for most OpenAI-compatible APIs';
       case 'anthropic': return 'Get your API key from console.anthropic.com';
+      case 'gemini': return 'Get your API key from aistudio.google.com';
       case 'ollama': return 'Ollama runs locally. Make sure OLLAMA_ORIGINS=* is set.';
+      case 'mock': return 'Not used. Replies are generated offline; add ?seed=N to the base URL to vary them.';
       default: return '';
     }
   }
@@ -2095,12 +2208,158 @@ export class SettingsPanel extends HTMLElement {
         </div>
       </div>
 
+      <!-- Workspace Memory Section -->
+      <div class="section">
+        <div class="section-title">
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <ellipse cx="12" cy="5" rx="9" ry="3"/>
+            <path d="M21 12c0 1.66-4 3-9 3s-9-1.34-9-3"/>
+            <path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5"/>
+          </svg>
+          Workspace Memory
+        </div>
+        <div class="toggle-group">
+          <span class="toggle-label">Remember finished conversations and bring relevant knowledge into new ones</span>
+          <label class="toggle-switch">
+            <input type="checkbox" id="workspace-memory" ${this.settings.workspaceMemory ? 'checked' : ''}>
+            <span class="toggle-slider"></span>
+          </label>
+        </div>
+        <div class="memory-search">
+          <input type="search" class="form-input" id="memory-query" placeholder="Search ${this.workspaceMemory.length} remembered entries by keyword or topic" value="${this.escapeHtml(this.memoryQuery)}">
+          <button class="btn-small" id="clear-workspace-memory" ${this.workspaceMemory.length === 0 ? 'disabled' : ''}>Clear</button>
+        </div>
+        <div class="memory-results" id="memory-results">
+          ${this.renderMemoryResults()}
+        </div>
+      </div>
+
+      <!-- Semantic Search Section -->
+      <div class="section">
+        <div class="section-title">
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <circle cx="11" cy="11" r="8"/>
+            <path d="M21 21l-4.35-4.35"/>
+          </svg>
+          Semantic Search
+        </div>
+        <div class="inline-form-row">
+          <div class="inline-form-group">
+            <label class="form-label">Embedding Provider</label>
+            <select class="form-select" id="embedding-provider">
+              <option value="">Built-in (offline)</option>
+              ${this.providers.filter(p => llmRouter.supportsEmbeddings(p.id)).map(p => `
+                <option value="${p.id}" ${this.settings!.embeddingProviderId === p.id ? 'selected' : ''}>${this.escapeHtml(p.name)}</option>
+              `).join('')}
+            </select>
+          </div>
+          <div class="inline-form-group">
+            <label class="form-label">Embedding Model</label>
+            <input type="text" class="form-input" id="embedding-model" value="${this.escapeHtml(this.settings.embeddingModelId ?? '')}" placeholder="e.g., text-embedding-3-small" ${this.settings.embeddingProviderId ? '' : 'disabled'}>
+          </div>
+        </div>
+        <div class="form-hint">Messages and results are indexed on this device. Changing the provider or model re-indexes everything on the next search.</div>
+        <div class="memory-search">
+          <span class="toggle-label" id="search-index-status">${this.indexedCount} messages and results indexed</span>
+          <button class="btn-small" id="rebuild-search-index">Rebuild index</button>
+        </div>
+      </div>
+
+      <!-- Response Cache Section -->
+      <div class="section">
+        <div class="section-title">
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <polyline points="23 4 23 10 17 10"/>
+            <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"/>
+          </svg>
+          Response Cache
+        </div>
+        <div class="toggle-group">
+          <span class="toggle-label">Reuse answers to repeated secretary extraction and translation requests instead of calling the model again</span>
+          <label class="toggle-switch">
+            <input type="checkbox" id="response-cache" ${this.settings.responseCache ? 'checked' : ''}>
+            <span class="toggle-slider"></span>
+          </label>
+        </div>
+        <div class="inline-form-row">
+          <div class="inline-form-group">
+            <label class="form-label">Keep Answers For (hours)</label>
+            <input type="number" class="form-input" id="response-cache-ttl" value="${this.settings.responseCacheTtlHours ?? RESPONSE_CACHE.DEFAULT_TTL_HOURS}" min="1" max="8760" step="1">
+          </div>
+          <div class="inline-form-group">
+            <label class="form-label">Size Limit (MB)</label>
+            <input type="number" class="form-input" id="response-cache-size" value="${this.settings.responseCacheMaxMb ?? RESPONSE_CACHE.DEFAULT_MAX_MB}" min="1" max="500" step="1">
+          </div>
+        </div>
+        <div class="memory-search">
+          <span class="toggle-label" id="response-cache-stats">${this.renderCacheStats()}</span>
+          <button class="btn-small" id="clear-response-cache" ${this.cacheStats?.entries ? '' : 'disabled'}>Clear</button>
+        </div>
+      </div>
+
       <div class="version-info">
         AI Brainstorm v3.0.0
       </div>
     `;
   }
 
+  private renderCacheStats(): string {
+    if (!this.cacheStats) return '';
+    const { entries, bytes, hits, sessionHits, sessionMisses } = this.cacheStats;
+    return `${entries} cached answers (${formatFileSize(bytes)}), ${hits} hits served. This session: ${sessionHits} hits, ${sessionMisses} misses`;
+  }
+
+  /**
+   * Workspace memory entries matching the search (the newest ones without a search)
+   */
+  private renderMemoryResults(): string {
+    if (this.workspaceMemory.length === 0) {
+      return `<div class="memory-empty">Nothing remembered yet. Entries are added when a conversation finishes with workspace memory on.</div>`;
+    }
+
+    const query = this.memoryQuery.trim();
+    const entries = query ? searchMemory(this.workspaceMemory, query, 20) : this.workspaceMemory.slice(0, 20);
+    if (entries.length === 0) {
+      return `<div class="memory-empty">No entries match "${this.escapeHtml(query)}".</div>`;
+    }
+
+    return entries.map(entry => `
+      <div class="memory-entry">
+        <span class="memory-entry-kind">${entry.kind}</span>${this.escapeHtml(entry.content)}
+        <div class="memory-entry-source">
+          from <button class="memory-source-link" data-conversation-id="${entry.sourceConversationId}">${this.escapeHtml(entry.sourceSubject)}</button>
+        </div>
+        <div>
+          ${entry.topics.map(topic => `<button class="memory-topic" data-topic="${this.escapeHtml(topic)}">${this.escapeHtml(topic)}</button>`).join('')}
+        </div>
+      </div>
+    `).join('');
+  }
+
+  private setupMemoryResultHandlers() {
+    const results = this.shadowRoot?.getElementById('memory-results');
+    results?.querySelectorAll<HTMLElement>('.memory-source-link').forEach(link => {
+      link.addEventListener('click', () => {
+        eventBus.emit('conversation:selected', link.dataset.conversationId!);
+      });
+    });
+    results?.querySelectorAll<HTMLElement>('.memory-topic').forEach(chip => {
+      chip.addEventListener('click', () => {
+        this.memoryQuery = chip.dataset.topic!;
+        const input = this.shadowRoot?.getElementById('memory-query') as HTMLInputElement | null;
+        if (input) input.value = this.memoryQuery;
+        this.updateMemoryResults();
+      });
+    });
+  }
+
+  private updateMemoryResults() {
+    const results = this.shadowRoot?.getElementById('memory-results');
+    if (!results) return;
+    results.innerHTML = this.renderMemoryResults();
+    this.setupMemoryResultHandlers();
+  }
+
   private renderProvidersTab(): string {
     // Auto-select first provider if none selected
     if (!this.selectedProviderId && this.providers.length > 0) {
@@ -2389,6 +2648,37 @@ export class SettingsPanel extends HTMLElement {
             placeholder="--port, 3000"
           >
         </div>
+        <div class="form-group">
+          <label class="form-label">Environment Variables (Optional)</label>
+          <textarea 
+            class="form-input mcp-env-input" 
+            data-mcp-server="${server.id}"
+            rows="3"
+            placeholder='{"API_KEY": "value"}'
+          >${server.env ? JSON.stringify(server.env, null, 2) : ''}</textarea>
+          <div class="form-hint">JSON object of environment variables for the process</div>
+        </div>
+        <div class="form-group">
+          <label class="form-label">Bridge URL</label>
+          <input 
+            type="text" 
+            class="form-input mcp-bridge-url-input" 
+            data-mcp-server="${server.id}"
+            value="${server.bridgeUrl || ''}"
+            placeholder="${MCP_BRIDGE.DEFAULT_URL}"
+          >
+          <div class="form-hint">Stdio servers run through the local bridge: start it with <code>npm run mcp-bridge</code></div>
+        </div>
+        <div class="form-group">
+          <label class="form-label">Bridge Token</label>
+          <input 
+            type="password" 
+            class="form-input mcp-bridge-token-input" 
+            data-mcp-server="${server.id}"
+            value="${server.bridgeToken || ''}"
+            placeholder="Token printed by the bridge"
+          >
+        </div>
       `}
 
       ${server.lastError ? `
@@ -2958,6 +3248,43 @@ export class SettingsPanel extends HTMLElement {
       });
     });
 
+    // MCP env updates
+    this.shadowRoot?.querySelectorAll('.mcp-env-input').forEach(input => {
+      input.addEventListener('change', async (e) => {
+        const serverId = (e.target as HTMLTextAreaElement).dataset.mcpServer;
+        const envStr = (e.target as HTMLTextAreaElement).value.trim();
+        if (!serverId) return;
+
+        const env = this.parseMCPEnv(envStr);
+        if (env === null) {
+          alert('Invalid environment JSON format. Please provide a valid JSON object.');
+          return;
+        }
+        await mcpServerStorage.update(serverId, { env });
+      });
+    });
+
+    // MCP bridge URL / token updates
+    this.shadowRoot?.querySelectorAll('.mcp-bridge-url-input').forEach(input => {
+      input.addEventListener('change', async (e) => {
+        const serverId = (e.target as HTMLInputElement).dataset.mcpServer;
+        const bridgeUrl = (e.target as HTMLInputElement).value.trim() || undefined;
+        if (serverId) {
+          await mcpServerStorage.update(serverId, { bridgeUrl });
+        }
+      });
+    });
+
+    this.shadowRoot?.querySelectorAll('.mcp-bridge-token-input').forEach(input => {
+      input.addEventListener('change', async (e) => {
+        const serverId = (e.target as HTMLInputElement).dataset.mcpServer;
+        const bridgeToken = (e.target as HTMLInputElement).value.trim() || undefined;
+        if (serverId) {
+          await mcpServerStorage.update(serverId, { bridgeToken });
+        }
+      });
+    });
+
     // Add Model modal handlers
     this.shadowRoot?.getElementById('cancel-add-model')?.addEventListener('click', () => {
       this.hideAddModelModal();
@@ -3100,6 +3427,79 @@ export class SettingsPanel extends HTMLElement {
       eventBus.emit('settings:updated', this.settings!);
     });
 
+    // Workspace memory
+    this.shadowRoot?.getElementById('workspace-memory')?.addEventListener('change', async (e) => {
+      const checked = (e.target as HTMLInputElement).checked;
+      this.settings = await settingsStorage.update({ workspaceMemory: checked });
+    });
+
+    this.shadowRoot?.getElementById('memory-query')?.addEventListener('input', (e) => {
+      this.memoryQuery = (e.target as HTMLInputElement).value;
+      this.updateMemoryResults();
+    });
+
+    this.shadowRoot?.getElementById('clear-workspace-memory')?.addEventListener('click', async () => {
+      if (!confirm('Forget everything in the workspace memory? Conversations are not affected.')) return;
+      await workspaceMemoryStorage.clear();
+      this.workspaceMemory = [];
+      this.memoryQuery = '';
+      this.render();
+    });
+
+    this.setupMemoryResultHandlers();
+
+    // Semantic search
+    this.shadowRoot?.getElementById('embedding-provider')?.addEventListener('change', async (e) => {
+      const providerId = (e.target as HTMLSelectElement).value || undefined;
+      this.settings = await settingsStorage.update({ embeddingProviderId: providerId });
+      this.render();
+    });
+
+    this.shadowRoot?.getElementById('embedding-model')?.addEventListener('change', async (e) => {
+      const modelId = (e.target as HTMLInputElement).value.trim() || undefined;
+      this.settings = await settingsStorage.update({ embeddingModelId: modelId });
+    });
+
+    this.shadowRoot?.getElementById('rebuild-search-index')?.addEventListener('click', async (e) => {
+      const button = e.target as HTMLButtonElement;
+      const status = this.shadowRoot?.getElementById('search-index-status');
+      button.disabled = true;
+      try {
+        const result = await rebuildSearchIndex((done, total) => {
+          if (status) status.textContent = `Indexing ${done} of ${total}...`;
+        });
+        this.indexedCount = result.total;
+        if (status) status.textContent = `${result.total} messages and results indexed`;
+      } catch (error) {
+        console.error('[Settings] Failed to rebuild the search index:', error);
+        if (status) status.textContent = `Indexing failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+      } finally {
+        button.disabled = false;
+      }
+    });
+
+    // Response cache
+    this.shadowRoot?.getElementById('response-cache')?.addEventListener('change', async (e) => {
+      const checked = (e.target as HTMLInputElement).checked;
+      this.settings = await settingsStorage.update({ responseCache: checked });
+    });
+
+    this.shadowRoot?.getElementById('response-cache-ttl')?.addEventListener('change', async (e) => {
+      const value = parseInt((e.target as HTMLInputElement).value);
+      if (value > 0) this.settings = await settingsStorage.update({ responseCacheTtlHours: value });
+    });
+
+    this.shadowRoot?.getElementById('response-cache-size')?.addEventListener('change', async (e) => {
+      const value = parseInt((e.target as HTMLInputElement).value);
+      if (value > 0) this.settings = await settingsStorage.update({ responseCacheMaxMb: value });
+    });
+
+    this.shadowRoot?.getElementById('clear-response-cache')?.addEventListener('click', async () => {
+      await responseCache.clear();
+      this.cacheStats = await responseCache.getStats();
+      this.render();
+    });
+
     // Language handlers (includes filter and checkboxes)
     this.setupLanguageHandlers();
     
@@ -3526,9 +3926,15 @@ export class SettingsPanel extends HTMLElement {
         case 'anthropic':
           urlInput.placeholder = 'https://api.anthropic.com';
           break;
+        case 'gemini':
+          urlInput.placeholder = 'https://generativelanguage.googleapis.com/v1beta';
+          break;
         case 'ollama':
           urlInput.placeholder = 'http://localhost:11434';
           break;
+        case 'mock':
+          urlInput.placeholder = MOCK_PROVIDER.BASE_URL;
+          break;
       }
     }
   }
@@ -3547,7 +3953,8 @@ export class SettingsPanel extends HTMLElement {
   private async handleAddProvider() {
     const name = (this.shadowRoot?.getElementById('new-provider-name') as HTMLInputElement).value.trim();
     const apiFormat = (this.shadowRoot?.getElementById('new-provider-format') as HTMLSelectElement).value as ApiFormat;
-    const baseUrl = (this.shadowRoot?.getElementById('new-provider-url') as HTMLInputElement).value.trim();
+    const baseUrl = (this.shadowRoot?.getElementById('new-provider-url') as HTMLInputElement).value.trim() ||
+      (apiFormat === 'mock' ? MOCK_PROVIDER.BASE_URL : '');
     const apiKey = (this.shadowRoot?.getElementById('new-provider-key') as HTMLInputElement).value.trim();
 
     if (!name) {
@@ -3591,6 +3998,9 @@ export class SettingsPanel extends HTMLElement {
       (this.shadowRoot?.getElementById('new-mcp-use-proxy') as HTMLInputElement).checked = true; // Default to true for dev
       (this.shadowRoot?.getElementById('new-mcp-command') as HTMLInputElement).value = '';
       (this.shadowRoot?.getElementById('new-mcp-args') as HTMLInputElement).value = '';
+      (this.shadowRoot?.getElementById('new-mcp-env') as HTMLTextAreaElement).value = '';
+      (this.shadowRoot?.getElementById('new-mcp-bridge-url') as HTMLInputElement).value = '';
+      (this.shadowRoot?.getElementById('new-mcp-bridge-token') as HTMLInputElement).value = '';
       // Reset field visibility
       this.updateMCPTransportFields();
     }
@@ -3604,8 +4014,10 @@ export class SettingsPanel extends HTMLElement {
     const proxyGroup = this.shadowRoot?.getElementById('mcp-proxy-group');
     const commandGroup = this.shadowRoot?.getElementById('mcp-command-group');
     const argsGroup = this.shadowRoot?.getElementById('mcp-args-group');
+    const envGroup = this.shadowRoot?.getElementById('mcp-env-group');
+    const bridgeGroup = this.shadowRoot?.getElementById('mcp-bridge-group');
     
-    if (transportSelect && endpointGroup && authTokenGroup && headersGroup && proxyGroup && commandGroup && argsGroup) {
+    if (transportSelect && endpointGroup && authTokenGroup && headersGroup && proxyGroup && commandGroup && argsGroup && envGroup && bridgeGroup) {
       const isHttpTransport = transportSelect.value === 'http' || transportSelect.value === 'streamable-http';
       if (isHttpTransport) {
         endpointGroup.style.display = 'block';
@@ -3614,6 +4026,8 @@ export class SettingsPanel extends HTMLElement {
         proxyGroup.style.display = 'block';
         commandGroup.style.display = 'none';
         argsGroup.style.display = 'none';
+        envGroup.style.display = 'none';
+        bridgeGroup.style.display = 'none';
       } else {
         endpointGroup.style.display = 'none';
         authTokenGroup.style.display = 'none';
@@ -3621,6 +4035,8 @@ export class SettingsPanel extends HTMLElement {
         proxyGroup.style.display = 'none';
         commandGroup.style.display = 'block';
         argsGroup.style.display = 'block';
+        envGroup.style.display = 'block';
+        bridgeGroup.style.display = 'block';
       }
     }
   }
@@ -3673,11 +4089,21 @@ export class SettingsPanel extends HTMLElement {
       const argsString = (this.shadowRoot?.getElementById('new-mcp-args') as HTMLInputElement).value.trim();
       const args = argsString ? argsString.split(',').map(a => a.trim()).filter(a => a) : [];
       
+      const envStr = (this.shadowRoot?.getElementById('new-mcp-env') as HTMLTextAreaElement).value.trim();
+      const bridgeUrl = (this.shadowRoot?.getElementById('new-mcp-bridge-url') as HTMLInputElement).value.trim() || undefined;
+      const bridgeToken = (this.shadowRoot?.getElementById('new-mcp-bridge-token') as HTMLInputElement).value.trim() || undefined;
+      
       if (!command) {
         alert('Please enter a command');
         return;
       }
-      await mcpServerStorage.create({ name, transport, command, args });
+
+      const env = this.parseMCPEnv(envStr);
+      if (env === null) {
+        alert('Invalid environment JSON format. Please provide a valid JSON object.');
+        return;
+      }
+      await mcpServerStorage.create({ name, transport, command, args, env, bridgeUrl, bridgeToken });
     }
 
     this.hideAddMCPServerModal();
@@ -3686,6 +4112,22 @@ export class SettingsPanel extends HTMLElement {
     this.render();
   }
 
+  /**
+   * Parse an environment variables JSON object (empty input means none, null means invalid)
+   */
+  private parseMCPEnv(envStr: string): Record<string, string> | undefined | null {
+    if (!envStr) return undefined;
+    try {
+      const parsed = JSON.parse(envStr);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return null;
+      }
+      return Object.fromEntries(Object.entries(parsed).map(([key, value]) => [key, String(value)]));
+    } catch {
+      return null;
+    }
+  }
+
   private async handleConnectMCPServer(serverId: string) {
     // Set connecting state and re-render to show "Stop" button
     this.connectingServerId = serverId;
@@ -3898,6 +4340,9 @@ export class SettingsPanel extends HTMLElement {
       (this.shadowRoot?.getElementById('new-model-id') as HTMLInputElement).value = '';
       (this.shadowRoot?.getElementById('new-model-name') as HTMLInputElement).value = '';
       (this.shadowRoot?.getElementById('new-model-context') as HTMLInputElement).value = '8192';
+      (this.shadowRoot?.getElementById('new-model-input-price') as HTMLInputElement).value = '';
+      (this.shadowRoot?.getElementById('new-model-output-price') as HTMLInputElement).value = '';
+      (this.shadowRoot?.getElementById('new-model-reasoning') as HTMLInputElement).checked = false;
     }
   }
 
@@ -3907,6 +4352,9 @@ export class SettingsPanel extends HTMLElement {
     const modelId = (this.shadowRoot?.getElementById('new-model-id') as HTMLInputElement).value.trim();
     const modelName = (this.shadowRoot?.getElementById('new-model-name') as HTMLInputElement).value.trim();
     const contextLength = parseInt((this.shadowRoot?.getElementById('new-model-context') as HTMLInputElement).value);
+    const inputPrice = parseFloat((this.shadowRoot?.getElementById('new-model-input-price') as HTMLInputElement).value);
+    const outputPrice = parseFloat((this.shadowRoot?.getElementById('new-model-output-price') as HTMLInputElement).value);
+    const reasoning = (this.shadowRoot?.getElementById('new-model-reasoning') as HTMLInputElement).checked;
 
     if (!modelId) {
       alert('Please enter a model ID');
@@ -3922,6 +4370,9 @@ export class SettingsPanel extends HTMLElement {
       id: modelId,
       name: modelName,
       contextLength: contextLength || 8192,
+      // Cost is only tracked when both prices are given
+      pricing: inputPrice >= 0 && outputPrice >= 0 ? { input: inputPrice, output: outputPrice } : undefined,
+      reasoning,
     });
 
     await llmRouter.syncProviderModels(this.currentAddModelProviderId);
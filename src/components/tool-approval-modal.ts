@@ -6,18 +6,24 @@
 // when a conversation is in "approval" mode
 
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
-import type { MCPToolCall, MCPServer } from '../types';
+import type { MCPToolCall, MCPServer, ToolApprovalDefault } from '../types';
+import { eventBus } from '../utils/event-bus';
+import { escapeHtml } from '../utils/helpers';
+import { mcpServerStorage, mcpToolCallStorage, conversationStorage } from '../storage/storage-manager';
+import { MCP_APPROVAL } from '../constants';
 
 export interface ToolApprovalRequest {
   toolCall: MCPToolCall;
   server: MCPServer;
   onApprove: () => void;
   onDeny: () => void;
+  defaultAction?: ToolApprovalDefault;
 }
 
 export class ToolApprovalModal extends HTMLElement {
   private currentRequest: ToolApprovalRequest | null = null;
   private pendingRequests: ToolApprovalRequest[] = [];
+  private unsubscribers: Array<() => void> = [];
 
   constructor() {
     super();
@@ -26,6 +32,63 @@ export class ToolApprovalModal extends HTMLElement {
 
   connectedCallback() {
     this.render();
+
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [
+      eventBus.on('mcp:tool-call-pending', (toolCall) => {
+        void this.handlePendingToolCall(toolCall);
+      }),
+      // Decisions made elsewhere (timeout, cancelled turn) close the matching request
+      eventBus.on('mcp:tool-call-approved', (toolCall) => this.dismiss(toolCall.id)),
+      eventBus.on('mcp:tool-call-denied', (toolCall) => this.dismiss(toolCall.id)),
+    ];
+  }
+
+  disconnectedCallback() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Build an approval request for a tool call waiting on the user
+   */
+  private async handlePendingToolCall(toolCall: MCPToolCall): Promise<void> {
+    const [server, conversation] = await Promise.all([
+      mcpServerStorage.getById(toolCall.serverId),
+      conversationStorage.getById(toolCall.conversationId),
+    ]);
+    if (!server) {
+      console.warn('[ToolApproval] Unknown MCP server for pending tool call:', toolCall.serverId);
+      return;
+    }
+
+    // The executor may have decided already while storage was loading
+    const stored = await mcpToolCallStorage.getById(toolCall.id);
+    if (stored && stored.status !== 'pending') return;
+
+    this.requestApproval({
+      toolCall,
+      server,
+      defaultAction: conversation?.mcpToolApprovalDefault ?? MCP_APPROVAL.DEFAULT_ACTION,
+      onApprove: () => eventBus.emit('mcp:tool-call-approved', { ...toolCall, status: 'approved' }),
+      onDeny: () => eventBus.emit('mcp:tool-call-denied', { ...toolCall, status: 'denied' }),
+    });
+  }
+
+  /**
+   * Drop a request that no longer needs a decision
+   */
+  private dismiss(toolCallId: string): void {
+    if (this.currentRequest?.toolCall.id === toolCallId) {
+      this.processNextRequest();
+      return;
+    }
+
+    const remaining = this.pendingRequests.filter(r => r.toolCall.id !== toolCallId);
+    if (remaining.length !== this.pendingRequests.length) {
+      this.pendingRequests = remaining;
+      if (this.currentRequest) this.render();
+    }
   }
 
   /**
@@ -61,9 +124,10 @@ export class ToolApprovalModal extends HTMLElement {
    * Handle approval
    */
   private approve(): void {
-    if (this.currentRequest) {
-      this.currentRequest.onApprove();
+    const request = this.currentRequest;
+    if (request) {
       this.processNextRequest();
+      request.onApprove();
     }
   }
 
@@ -71,9 +135,10 @@ export class ToolApprovalModal extends HTMLElement {
    * Handle denial
    */
   private deny(): void {
-    if (this.currentRequest) {
-      this.currentRequest.onDeny();
+    const request = this.currentRequest;
+    if (request) {
       this.processNextRequest();
+      request.onDeny();
     }
   }
 
@@ -337,19 +402,19 @@ export class ToolApprovalModal extends HTMLElement {
             
             <div class="modal-content">
               <div class="tool-info">
-                <div class="tool-name">${request.toolCall.toolName}</div>
+                <div class="tool-name">${escapeHtml(request.toolCall.toolName)}</div>
                 ${this.getToolDescription(request) ? `
-                  <div class="tool-description">${this.getToolDescription(request)}</div>
+                  <div class="tool-description">${escapeHtml(this.getToolDescription(request))}</div>
                 ` : ''}
                 <div class="server-info">
                   <span class="server-icon"></span>
-                  From: ${request.server.name}
+                  From: ${escapeHtml(request.server.name)}
                 </div>
               </div>
 
               <div class="arguments-section">
                 <div class="arguments-label">Arguments:</div>
-                <div class="arguments-code">${this.formatArguments(request.toolCall.arguments)}</div>
+                <div class="arguments-code">${escapeHtml(this.formatArguments(request.toolCall.arguments))}</div>
               </div>
 
               <div class="warning-box">
@@ -357,6 +422,7 @@ export class ToolApprovalModal extends HTMLElement {
                 <div class="warning-text">
                   This tool will be executed with the arguments shown above. 
                   Review carefully before approving.
+                  ${this.getAutoDecisionText(request)}
                 </div>
               </div>
             </div>
@@ -386,6 +452,17 @@ export class ToolApprovalModal extends HTMLElement {
     });
   }
 
+  /**
+   * Describe what happens if the user does not answer in time
+   */
+  private getAutoDecisionText(request: ToolApprovalRequest): string {
+    if (!request.toolCall.approvalExpiresAt) return '';
+
+    const time = new Date(request.toolCall.approvalExpiresAt).toLocaleTimeString();
+    const action = request.defaultAction === 'approve' ? 'approved' : 'denied';
+    return `<br>Without a decision by ${time}, the call will be ${action} automatically.`;
+  }
+
   private getToolDescription(request: ToolApprovalRequest): string {
     const tool = request.server.tools.find(t => t.name === request.toolCall.toolName);
     return tool?.description || '';
@@ -5,11 +5,13 @@
 import { agentStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
 import { shadowBaseStyles } from '../styles/shadow-base-styles';
-import type { Agent, TurnQueueState, TurnQueueItem } from '../types';
+import { escapeHtml } from '../utils/helpers';
+import type { Agent, TurnQueueState, TurnQueueItem, ModeratorDecision } from '../types';
 
 export class TurnQueue extends HTMLElement {
   private conversationId: string | null = null;
   private agents: Agent[] = [];
+  private allAgents: Agent[] = []; // Including secretary (for moderator names)
   private queueState: TurnQueueState | null = null;
   private currentAgentId: string | null = null;
 
@@ -39,9 +41,9 @@ export class TurnQueue extends HTMLElement {
     this.conversationId = this.getAttribute('conversation-id');
     if (!this.conversationId) return;
 
-    this.agents = await agentStorage.getByConversation(this.conversationId);
+    this.allAgents = await agentStorage.getByConversation(this.conversationId);
     // Filter out secretary for turn queue display
-    this.agents = this.agents.filter(a => !a.isSecretary);
+    this.agents = this.allAgents.filter(a => !a.isSecretary);
     this.renderQueue();
   }
 
@@ -259,6 +261,30 @@ export class TurnQueue extends HTMLElement {
           font-style: italic;
         }
 
+        .moderator-note {
+          font-size: var(--text-xs);
+          color: var(--color-text-secondary);
+          padding-top: var(--space-1);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .moderator-note:empty {
+          display: none;
+        }
+
+        .moderator-note .source {
+          color: var(--color-text-tertiary);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          margin-right: var(--space-1);
+        }
+
+        .moderator-note.fallback .source {
+          color: var(--color-warning);
+        }
+
         @keyframes queueSlideIn {
           from {
             opacity: 0;
@@ -304,6 +330,7 @@ export class TurnQueue extends HTMLElement {
           <span class="empty-state">Start conversation to see turn order</span>
         </div>
       </div>
+      <div class="moderator-note" id="moderator-note"></div>
     `;
   }
 
@@ -311,6 +338,8 @@ export class TurnQueue extends HTMLElement {
     const container = this.shadowRoot?.getElementById('queue-items');
     if (!container) return;
 
+    this.renderModeratorNote(this.queueState?.moderatorDecision);
+
     if (this.agents.length === 0) {
       container.innerHTML = `<span class="empty-state">No agents in conversation</span>`;
       return;
@@ -374,6 +403,32 @@ export class TurnQueue extends HTMLElement {
     `;
   }
 
+  private renderModeratorNote(decision: ModeratorDecision | undefined) {
+    const note = this.shadowRoot?.getElementById('moderator-note');
+    if (!note) return;
+
+    if (!decision) {
+      note.innerHTML = '';
+      note.removeAttribute('title');
+      return;
+    }
+
+    const speaker = this.allAgents.find(a => a.id === decision.agentId)?.name ?? 'Unknown';
+    const moderator = this.allAgents.find(a => a.id === decision.moderatorAgentId)?.name ?? 'Moderator';
+    const isFallback = decision.source === 'fallback';
+    const detail = isFallback
+      ? `${decision.reasoning}${decision.fallbackReason ? ` (${decision.fallbackReason})` : ''}`
+      : decision.reasoning;
+    const label = isFallback ? 'Fallback pick' : `${moderator} picked`;
+
+    note.classList.toggle('fallback', isFallback);
+    note.title = `${label} ${speaker}: ${detail}`;
+    note.innerHTML = `
+      <span class="source">${escapeHtml(label)}</span>
+      <strong>${escapeHtml(speaker)}</strong>${detail ? ` — ${escapeHtml(detail)}` : ''}
+    `;
+  }
+
   private renderConnector(completed: boolean): string {
     return `<div class="connector ${completed ? '' : 'active'}"></div>`;
   }
@@ -36,6 +36,8 @@ export const CONTEXT_BUDGET = {
   INTERJECTIONS: 0.15,
   /** Percentage of available tokens for conversation messages */
   MESSAGES: 0.75,
+  /** Percentage taken from the messages for attached documents (only when there are any) */
+  DOCUMENTS: 0.2,
   /** Default tokens reserved for model response */
   RESPONSE_RESERVE: 1000,
 } as const;
@@ -82,6 +84,20 @@ export const MESSAGE_IMPORTANCE = {
   CRITICAL_THRESHOLD: 100,
 } as const;
 
+/**
+ * Relevance scoring for context selection (opt-in per conversation)
+ */
+export const CONTEXT_RELEVANCE = {
+  /** Latest messages that, with the agent's role, make up the relevance query */
+  RECENT_MESSAGES: 3,
+  /** Bonus for a message at full similarity */
+  MAX_BONUS: 60,
+  /** Similarity below which a message gets no bonus */
+  MIN_SIMILARITY: 0.1,
+  /** Characters of each message kept in the score breakdown */
+  PREVIEW_LENGTH: 80,
+} as const;
+
 /**
  * Rate limiting settings for LLM providers
  */
@@ -154,3 +170,219 @@ export const TOKEN_ESTIMATION = {
   CHARS_PER_TOKEN: 4,
 } as const;
 
+
+/**
+ * MCP tool call approval settings
+ */
+export const MCP_APPROVAL = {
+  /** Default time a turn waits for an approval decision in ms (2 minutes) */
+  DEFAULT_TIMEOUT_MS: 2 * 60 * 1000,
+  /** Decision applied when the wait times out */
+  DEFAULT_ACTION: 'deny',
+} as const;
+
+/**
+ * Local bridge for stdio MCP servers (bridge/mcp-stdio-bridge.mjs)
+ */
+export const MCP_BRIDGE = {
+  /** Default WebSocket URL the bridge listens on */
+  DEFAULT_URL: 'ws://127.0.0.1:7410',
+} as const;
+
+/**
+ * Agent tool loop limits (per turn, overridable per conversation)
+ */
+export const MCP_TOOL_LOOP = {
+  /** Tool round-trips an agent may take before it must answer */
+  DEFAULT_MAX_STEPS: 5,
+  /** Tokens a turn may spend before further tool calls are refused */
+  DEFAULT_TOKEN_BUDGET: 20000,
+} as const;
+
+/**
+ * Moderator mode speaker selection
+ */
+export const MODERATOR = {
+  /** Number of recent messages shown to the moderator */
+  RECENT_MESSAGES: 8,
+  /** Max tokens for the moderator's JSON answer */
+  MAX_TOKENS: 200,
+  /** Temperature for the speaker decision */
+  TEMPERATURE: 0.3,
+} as const;
+
+/**
+ * Debate mode: fixed phases and the judge's rubric
+ */
+export const DEBATE = {
+  /** Rebuttal rounds between the opening and closing statements */
+  DEFAULT_REBUTTAL_ROUNDS: 1,
+  MAX_REBUTTAL_ROUNDS: 5,
+  /** Criteria the judge scores each team on */
+  RUBRIC: ['evidence', 'reasoning', 'rebuttal', 'clarity'],
+  /** Highest score per criterion */
+  MAX_SCORE: 10,
+  /** Max tokens for the judge's JSON verdict */
+  JUDGE_MAX_TOKENS: 800,
+  /** Temperature for the verdict */
+  JUDGE_TEMPERATURE: 0.2,
+} as const;
+
+/**
+ * Agent voting on proposals
+ */
+export const VOTING = {
+  /** Share of support/oppose votes on one side needed to call it consensus */
+  CONSENSUS_THRESHOLD: 0.75,
+  /** Recent messages shown to voters and to the secretary when looking for a decision point */
+  CONTEXT_MESSAGES: 12,
+  /** Max tokens for a vote (one-line reason) */
+  VOTE_MAX_TOKENS: 200,
+  /** Max tokens for the secretary's decision-point check */
+  DECISION_MAX_TOKENS: 300,
+  /** Temperature for votes and the decision-point check */
+  TEMPERATURE: 0.3,
+} as const;
+
+/**
+ * Convergence tracking after each round
+ */
+export const CONVERGENCE = {
+  /** Novelty below this makes a low-novelty round */
+  LOW_NOVELTY: 0.3,
+  /** Open questions at least this similar to the previous round's count as settled */
+  STABLE_QUESTIONS: 0.6,
+  /** Consecutive low-novelty rounds with settled questions that make a plateau */
+  PLATEAU_ROUNDS: 2,
+  /** Word overlap at which a sentence repeats an earlier point */
+  REPEAT_SIMILARITY: 0.6,
+  /** Rounds that must run before the conversation can be finished early */
+  MIN_ROUNDS: 2,
+  /** Rounds added when the secretary recommends extending */
+  EXTEND_ROUNDS: 2,
+  /** The conversation is never extended past this many rounds */
+  MAX_ROUNDS: 12,
+  /** Open questions kept per round */
+  MAX_OPEN_QUESTIONS: 8,
+  /** Max tokens for the secretary's convergence check */
+  MAX_TOKENS: 500,
+  /** Temperature for the convergence check */
+  TEMPERATURE: 0.3,
+} as const;
+
+/**
+ * Workspace memory shared across conversations
+ */
+export const WORKSPACE_MEMORY = {
+  /** Share of available tokens for entries from earlier conversations */
+  CONTEXT_SHARE: 0.1,
+  /** Max entries retrieved into a prompt */
+  MAX_ENTRIES: 8,
+  /** Longer entries are cut to this many characters */
+  MAX_ENTRY_CHARS: 600,
+  /** Topics kept per entry */
+  MAX_TOPICS: 12,
+  /** Importance of decisions and of the final result */
+  DECISION_IMPORTANCE: 8,
+  RESULT_IMPORTANCE: 9,
+} as const;
+
+/**
+ * Semantic search embeddings
+ */
+export const EMBEDDINGS = {
+  /** Model name stored with vectors from the built-in embedder */
+  LOCAL_MODEL: 'local-hash-v1',
+  /** Dimensions of the built-in embedder's vectors */
+  LOCAL_DIMENSIONS: 256,
+  /** Texts sent per embedding request */
+  BATCH_SIZE: 32,
+  /** Longer texts are cut before embedding */
+  MAX_CHARS: 8000,
+  /** Results less similar than this are left out */
+  MIN_SIMILARITY: 0.15,
+  /** Characters shown in a result snippet */
+  SNIPPET_LENGTH: 200,
+} as const;
+
+/**
+ * Documents attached to conversations
+ */
+export const DOCUMENTS = {
+  /** Largest file that can be attached (bytes) */
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
+  /** Target size of a chunk in tokens */
+  CHUNK_TOKENS: 400,
+  /** Document text sent to the secretary for its summary (tokens) */
+  SUMMARY_INPUT_TOKENS: 6000,
+  /** Max tokens for a document summary */
+  SUMMARY_MAX_TOKENS: 300,
+  /** Temperature for document summaries */
+  TEMPERATURE: 0.3,
+  /** Latest messages that, with the subject and goal, decide which chunks are relevant */
+  RECENT_MESSAGES: 3,
+  /** File extensions that can be attached */
+  ACCEPT: '.md,.markdown,.txt,.text,.pdf,.csv,.json',
+} as const;
+
+/**
+ * Private knowledge packs carried by agents and presets
+ */
+export const KNOWLEDGE = {
+  /** Default percentage of the context reserved for an agent's packs */
+  DEFAULT_USAGE: 15,
+  /** Highest percentage an agent can reserve */
+  MAX_USAGE: 40,
+  /** Target size of a passage in tokens */
+  CHUNK_TOKENS: 300,
+  /** Longest pack that can be added (characters) */
+  MAX_PACK_CHARS: 200_000,
+  /** File extensions a pack can be loaded from */
+  ACCEPT: '.md,.markdown,.txt,.text',
+} as const;
+
+/**
+ * Response cache for deterministic LLM calls
+ */
+export const RESPONSE_CACHE = {
+  /** Hours an entry stays valid unless set otherwise */
+  DEFAULT_TTL_HOURS: 24 * 7,
+  /** Size limit unless set otherwise (MB) */
+  DEFAULT_MAX_MB: 20,
+} as const;
+
+/**
+ * Reasoning models (OpenAI o-series, GPT-5)
+ */
+export const REASONING = {
+  /** Output tokens added to a request's limit: hidden reasoning counts against it */
+  TOKEN_ALLOWANCE: 8192,
+  /** Smallest extended thinking budget Anthropic accepts */
+  MIN_THINKING_BUDGET: 1024,
+} as const;
+
+/**
+ * Per-conversation budget guardrails
+ */
+export const BUDGET = {
+  /** Share of a limit at which the engine warns */
+  WARNING_RATIO: 0.8,
+  /** Action taken when a limit is reached */
+  DEFAULT_ACTION: 'pause',
+} as const;
+
+/**
+ * Offline mock provider (demos and tests)
+ */
+export const MOCK_PROVIDER = {
+  /** Base URL used when none is given; add ?seed=N to change the generated replies */
+  BASE_URL: 'mock://local',
+  /** Model the mock lists */
+  MODEL_ID: 'mock-model',
+  /** Seed for generated replies */
+  DEFAULT_SEED: 1,
+  /** Characters per streamed chunk */
+  CHUNK_SIZE: 12,
+  /** Delay before each streamed chunk in ms */
+  CHUNK_DELAY_MS: 30,
+} as const;
@@ -0,0 +1,66 @@
+// ============================================
+// AI Brainstorm - Budget Guardrails
+// ============================================
+
+import { BUDGET } from '../constants';
+import { formatCost } from '../llm/usage';
+import type { Conversation, BudgetLimitKind, BudgetNotice } from '../types';
+
+/**
+ * What a conversation has spent so far
+ */
+export interface BudgetUsage {
+  tokens: number;       // Tokens used by agent turns
+  cost: number;         // Estimated USD cost of all LLM calls
+  durationMs: number;   // Time spent running
+}
+
+const LABELS: Record<BudgetLimitKind, string> = {
+  tokens: 'Token',
+  cost: 'Cost',
+  time: 'Time',
+};
+
+function formatAmount(kind: BudgetLimitKind, value: number): string {
+  switch (kind) {
+    case 'tokens':
+      return `${Math.round(value).toLocaleString()} tokens`;
+    case 'cost':
+      return formatCost(value);
+    case 'time':
+      return `${Math.round(value / 60000)} min`;
+  }
+}
+
+/**
+ * Compare usage against the conversation's limits.
+ * Returns a notice for every limit at or above the warning threshold, reached limits first.
+ */
+export function evaluateBudget(conversation: Conversation, usage: BudgetUsage): BudgetNotice[] {
+  const limits: Array<[BudgetLimitKind, number | undefined, number]> = [
+    ['tokens', conversation.budgetMaxTokens, usage.tokens],
+    ['cost', conversation.budgetMaxCost, usage.cost],
+    ['time', conversation.budgetMaxDurationMs, usage.durationMs],
+  ];
+
+  const notices: BudgetNotice[] = [];
+  for (const [kind, max, used] of limits) {
+    if (!max || max <= 0) continue;
+
+    const ratio = used / max;
+    if (ratio < BUDGET.WARNING_RATIO) continue;
+
+    const level = ratio >= 1 ? 'reached' : 'warning';
+    const progress = `${formatAmount(kind, used)} of ${formatAmount(kind, max)}`;
+    notices.push({
+      conversationId: conversation.id,
+      kind,
+      level,
+      message: level === 'reached'
+        ? `${LABELS[kind]} budget reached (${progress})`
+        : `${LABELS[kind]} budget at ${Math.floor(ratio * 100)}% (${progress})`,
+    });
+  }
+
+  return notices.sort((a, b) => (a.level === b.level ? 0 : a.level === 'reached' ? -1 : 1));
+}
@@ -2,21 +2,29 @@
 // AI Brainstorm - Context Builder
 // ============================================
 
-import type { Agent, Conversation, Message, UserInterjection, Notebook, DistilledMemory } from '../types';
+import type { Agent, Conversation, Message, UserInterjection, Notebook, DistilledMemory, WorkspaceMemoryEntry, MessageScore, ConversationDocument, DocumentChunk, KnowledgePassageRef } from '../types';
 import type { LLMMessage } from '../llm/types';
-import { buildSystemPrompt, calculateWordLimit, getDepthConfig } from '../llm/prompt-builder';
+import { buildSystemPrompt, calculateWordLimit, getDepthConfig, formatVoteResult } from '../llm/prompt-builder';
 import { countTokens } from '../llm/token-counter';
+import { embedLocally, cosineSimilarity } from '../llm/embeddings';
 import { ContextStrategy } from './context-strategy';
 import { getStrategyById } from '../strategies/starting-strategies';
 import { languageService } from '../prompts/language-service';
+import { getDebaters, getDebateTeams, getDebatePhase, getRoundLimit } from './debate';
+import { chunkText } from '../utils/documents';
+import { WORKSPACE_MEMORY, DOCUMENTS, KNOWLEDGE } from '../constants';
 
 export interface ContextComponents {
   systemPrompt: string;
   notebook: string;
   interjections: UserInterjection[];
   messages: Message[];
+  messageScores: MessageScore[]; // Why each selected message was included
   promptMessages: LLMMessage[];
   distilledMemoryUsed: boolean;
+  workspaceMemory: WorkspaceMemoryEntry[]; // Entries from earlier conversations that fit the budget
+  documentChunks: string[]; // Citation IDs of the document passages that fit the budget
+  knowledgePassages: KnowledgePassageRef[]; // Passages from the agent's knowledge packs that fit the budget
 }
 
 export interface BuildOptions {
@@ -24,6 +32,9 @@ export interface BuildOptions {
   currentRound?: number;
   distilledMemory?: DistilledMemory | null;
   isFinishing?: boolean; // Set to true during the finishing/wrap-up round
+  workspaceMemory?: WorkspaceMemoryEntry[]; // Relevant entries from earlier conversations, best first
+  documents?: ConversationDocument[]; // Documents attached to the conversation
+  documentChunks?: DocumentChunk[]; // All chunks of those documents
 }
 
 /**
@@ -77,7 +88,13 @@ export class ContextBuilder {
     const systemTokens = countTokens(systemPrompt);
 
     // Calculate budget
-    const budget = this.strategy.calculateBudget(systemTokens);
+    const documents = options.documents ?? [];
+    const hasKnowledge = (agent.knowledgePacks ?? []).some(pack => pack.content.trim());
+    const budget = this.strategy.calculateBudget(
+      systemTokens,
+      documents.length > 0,
+      hasKnowledge ? agent.knowledgeUsage ?? KNOWLEDGE.DEFAULT_USAGE : 0
+    );
 
     // Determine if we should use distilled memory
     // Use it if we have one and there are messages beyond the last distilled point
@@ -97,7 +114,32 @@ export class ContextBuilder {
     const distilledMemoryTokens = useDistilledMemory && distilledMemory 
       ? this.estimateDistilledMemoryTokens(distilledMemory)
       : 0;
-    const adjustedMessageBudget = budget.messages - distilledMemoryTokens;
+
+    // Workspace memory gets its own share, taken from the message budget
+    const workspaceMemory = this.selectWorkspaceMemory(
+      options.workspaceMemory ?? [],
+      Math.floor(budget.messages * WORKSPACE_MEMORY.CONTEXT_SHARE)
+    );
+    const workspaceMemoryTokens = workspaceMemory.length > 0
+      ? countTokens(this.formatWorkspaceMemory(workspaceMemory))
+      : 0;
+
+    // Attached documents have their own budget; whatever they leave goes back to the messages
+    const documentContext = this.selectDocumentContext(
+      agent,
+      messages,
+      documents,
+      options.documentChunks ?? [],
+      budget.documents
+    );
+    const unusedDocumentTokens = budget.documents - (documentContext.content ? countTokens(documentContext.content) : 0);
+
+    // The agent's private knowledge packs work the same way with the share the agent reserves
+    const knowledge = this.selectKnowledge(agent, messages, budget.knowledge);
+    const unusedKnowledgeTokens = budget.knowledge - (knowledge.content ? countTokens(knowledge.content) : 0);
+
+    const adjustedMessageBudget = budget.messages + unusedDocumentTokens + unusedKnowledgeTokens
+      - distilledMemoryTokens - workspaceMemoryTokens;
 
     // Select and truncate components
     const truncatedNotebook = notebook?.notes 
@@ -109,12 +151,13 @@ export class ContextBuilder {
       budget.interjections
     );
 
-    // Pass currentRound for time decay scoring
-    const selectedMessages = this.strategy.selectMessages(
+    // Pass currentRound for time decay scoring, and the agent's profile when relevance scoring is on
+    const { messages: selectedMessages, scores: messageScores } = this.strategy.selectScoredMessages(
       messagesToSelect,
       adjustedMessageBudget,
       agent.id,
-      currentRound
+      currentRound,
+      this.conversation.relevanceScoring ? `${agent.role}\n${agent.expertise}` : undefined
     );
 
     // Build LLM messages
@@ -130,7 +173,10 @@ export class ContextBuilder {
       isFirstTurn,
       currentRound,
       useDistilledMemory ? distilledMemory : null,
-      isFinishing
+      isFinishing,
+      workspaceMemory,
+      documentContext.content,
+      knowledge.content
     );
 
     return {
@@ -138,8 +184,12 @@ export class ContextBuilder {
       notebook: truncatedNotebook,
       interjections: selectedInterjections,
       messages: selectedMessages,
+      messageScores,
       promptMessages,
       distilledMemoryUsed: useDistilledMemory,
+      workspaceMemory,
+      documentChunks: documentContext.refs,
+      knowledgePassages: knowledge.passages,
     };
   }
 
@@ -186,6 +236,135 @@ export class ContextBuilder {
     return tokens;
   }
 
+  /**
+   * Take entries in order while their citations fit the budget
+   */
+  private selectWorkspaceMemory(entries: WorkspaceMemoryEntry[], budget: number): WorkspaceMemoryEntry[] {
+    if (entries.length === 0) return [];
+
+    const selected: WorkspaceMemoryEntry[] = [];
+    for (const entry of entries) {
+      const candidate = [...selected, entry];
+      if (countTokens(this.formatWorkspaceMemory(candidate)) > budget) break;
+      selected.push(entry);
+    }
+    return selected;
+  }
+
+  /**
+   * Format workspace memory entries as numbered citations of their source conversations
+   */
+  private formatWorkspaceMemory(entries: WorkspaceMemoryEntry[]): string {
+    const prompts = languageService.getPromptsSync(this.conversation.targetLanguage || '');
+    const texts = prompts.context.workspaceMemory ?? languageService.getEnglishPrompts().context.workspaceMemory!;
+
+    const lines = entries.map((entry, i) => languageService.interpolate(texts.citation, {
+      index: i + 1,
+      kind: texts[entry.kind],
+      content: entry.content,
+      subject: entry.sourceSubject,
+    }));
+    return [texts.header, ...lines].join('\n');
+  }
+
+  /**
+   * Document summaries followed by the passages closest to the discussion that fit the budget.
+   * Passages are ranked by similarity to the subject, the goal, the agent's role and the latest messages.
+   */
+  private selectDocumentContext(
+    agent: Agent,
+    messages: Message[],
+    documents: ConversationDocument[],
+    chunks: DocumentChunk[],
+    budget: number
+  ): { content: string; refs: string[] } {
+    if (documents.length === 0) return { content: '', refs: [] };
+
+    const prompts = languageService.getPromptsSync(this.conversation.targetLanguage || '');
+    const texts = prompts.context.documents ?? languageService.getEnglishPrompts().context.documents!;
+
+    const summaries = documents.map(document => languageService.interpolate(texts.summary, {
+      number: document.number,
+      name: document.name,
+      summary: document.summary ?? '',
+    }).trim());
+    let remaining = budget - countTokens([texts.header, ...summaries, texts.passagesHeader].join('\n'));
+    if (remaining <= 0) return { content: '', refs: [] };
+
+    const selected: DocumentChunk[] = [];
+    for (const chunk of this.rankByRelevance(chunks, chunk => chunk.content, agent, messages)) {
+      const line = languageService.interpolate(texts.chunk, { ref: chunk.ref, content: chunk.content });
+      const tokens = countTokens(line);
+      if (tokens > remaining) continue;
+      selected.push(chunk);
+      remaining -= tokens;
+    }
+
+    // Back in document order, so neighbouring passages read in sequence
+    const numbers = new Map(documents.map(document => [document.id, document.number]));
+    selected.sort((a, b) => (numbers.get(a.documentId) ?? 0) - (numbers.get(b.documentId) ?? 0) || a.index - b.index);
+
+    const passages = selected.map(chunk => languageService.interpolate(texts.chunk, { ref: chunk.ref, content: chunk.content }));
+    return {
+      content: [texts.header, ...summaries, ...(passages.length > 0 ? [texts.passagesHeader, ...passages] : [])].join('\n'),
+      refs: selected.map(chunk => chunk.ref),
+    };
+  }
+
+  /**
+   * Passages from the agent's own knowledge packs that fit the budget, most relevant first
+   * and then back in pack order. Ranked like document passages.
+   */
+  private selectKnowledge(agent: Agent, messages: Message[], budget: number): { content: string; passages: KnowledgePassageRef[] } {
+    const packs = (agent.knowledgePacks ?? []).filter(pack => pack.content.trim());
+    if (packs.length === 0 || budget <= 0) return { content: '', passages: [] };
+
+    const prompts = languageService.getPromptsSync(this.conversation.targetLanguage || '');
+    const texts = prompts.context.knowledge ?? languageService.getEnglishPrompts().context.knowledge!;
+
+    const candidates = packs.flatMap((pack, packIndex) => chunkText(pack.content, KNOWLEDGE.CHUNK_TOKENS).map((content, index) => ({
+      pack,
+      packIndex,
+      index,
+      line: languageService.interpolate(texts.passage, { pack: pack.name, content }),
+      content,
+    })));
+
+    let remaining = budget - countTokens(texts.header);
+    const selected: typeof candidates = [];
+    for (const candidate of this.rankByRelevance(candidates, c => c.content, agent, messages)) {
+      const tokens = countTokens(candidate.line);
+      if (tokens > remaining) continue;
+      selected.push(candidate);
+      remaining -= tokens;
+    }
+    if (selected.length === 0) return { content: '', passages: [] };
+
+    selected.sort((a, b) => a.packIndex - b.packIndex || a.index - b.index);
+    return {
+      content: [texts.header, ...selected.map(candidate => candidate.line)].join('\n'),
+      passages: selected.map(({ pack, index }) => ({ packId: pack.id, packName: pack.name, index })),
+    };
+  }
+
+  /**
+   * Order items by similarity to the subject, the goal, the agent's role and expertise and the latest messages
+   */
+  private rankByRelevance<T>(items: T[], textOf: (item: T) => string, agent: Agent, messages: Message[]): T[] {
+    const query = embedLocally([
+      this.conversation.subject,
+      this.conversation.goal,
+      agent.role,
+      agent.expertise,
+      ...messages.slice(-DOCUMENTS.RECENT_MESSAGES).map(m => m.content),
+    ].join('\n'));
+
+    return items
+      .map(item => ({ item, similarity: cosineSimilarity(query, embedLocally(textOf(item))) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .map(({ item }) => item);
+  }
+
   /**
    * Build word limit instruction based on conversation depth
    */
@@ -230,7 +409,10 @@ export class ContextBuilder {
     isFirstTurn: boolean = false,
     currentRound: number = 0,
     distilledMemory: DistilledMemory | null = null,
-    isFinishing: boolean = false
+    isFinishing: boolean = false,
+    workspaceMemory: WorkspaceMemoryEntry[] = [],
+    documentContext: string = '',
+    knowledgeContext: string = ''
   ): LLMMessage[] {
     const prompts = languageService.getPromptsSync(this.conversation.targetLanguage || '');
     const result: LLMMessage[] = [];
@@ -250,7 +432,7 @@ export class ContextBuilder {
 
     // Current state context (helps agents understand where they are in the discussion)
     if (currentRound > 0 || !isFirstTurn) {
-      const effectiveMaxRounds = this.conversation.recommendedRounds || this.conversation.maxRounds;
+      const effectiveMaxRounds = getRoundLimit(this.conversation);
       const displayRound = currentRound + 1;
       
       let stateContent = '';
@@ -298,6 +480,30 @@ export class ContextBuilder {
       });
     }
 
+    // Knowledge carried over from earlier conversations
+    if (workspaceMemory.length > 0) {
+      result.push({
+        role: 'system',
+        content: this.formatWorkspaceMemory(workspaceMemory),
+      });
+    }
+
+    // Source documents attached by the user
+    if (documentContext) {
+      result.push({
+        role: 'system',
+        content: documentContext,
+      });
+    }
+
+    // The agent's private reference material
+    if (knowledgeContext) {
+      result.push({
+        role: 'system',
+        content: knowledgeContext,
+      });
+    }
+
     // Secretary summary (if available)
     if (secretarySummary) {
       result.push({
@@ -322,13 +528,14 @@ export class ContextBuilder {
       });
     }
 
-    // Conversation messages
+    // Conversation messages (votes once they are counted)
     for (const message of messages) {
+      if (message.type === 'vote' && !message.voteTally) continue;
       result.push(this.formatMessage(message, agent, allAgents));
     }
 
     // Final prompt (include finishing flag)
-    result.push(this.buildFinalPrompt(agent, allAgents, isFirstTurn, isFinishing));
+    result.push(this.buildFinalPrompt(agent, allAgents, isFirstTurn, isFinishing, currentRound));
 
     return result;
   }
@@ -408,6 +615,11 @@ export class ContextBuilder {
       return { role: 'user', content: `${prompts.context.messagePrefixes.user}${message.content}` };
     }
 
+    // Counted votes
+    if (message.type === 'vote') {
+      return { role: 'system', content: formatVoteResult(message, this.conversation.targetLanguage) };
+    }
+
     // System messages
     if (message.type === 'system') {
       return { role: 'system', content: message.content };
@@ -448,12 +660,23 @@ export class ContextBuilder {
   /**
    * Build the final prompt asking for the agent's response
    */
-  private buildFinalPrompt(agent: Agent, allAgents: Agent[], isFirstTurn: boolean = false, isFinishing: boolean = false): LLMMessage {
+  private buildFinalPrompt(
+    agent: Agent,
+    allAgents: Agent[],
+    isFirstTurn: boolean = false,
+    isFinishing: boolean = false,
+    currentRound: number = 0
+  ): LLMMessage {
     const prompts = languageService.getPromptsSync(this.conversation.targetLanguage || '');
     const otherAgents = allAgents
       .filter(a => a.id !== agent.id && !a.isSecretary)
       .map(a => a.name);
 
+    // Debaters get their team briefing and the instructions for the current phase
+    if (this.conversation.mode === 'debate' && !agent.isSecretary) {
+      return { role: 'user', content: this.buildDebatePrompt(agent, allAgents, currentRound, isFinishing) };
+    }
+
     // Finishing phase: give brief closing instructions
     if (isFinishing) {
       if (agent.isSecretary) {
@@ -525,6 +748,36 @@ export class ContextBuilder {
     return { role: 'user', content: prompt };
   }
 
+  /**
+   * Build a debater's turn prompt: which team they are on, who is on each side,
+   * and what the current phase asks for
+   */
+  private buildDebatePrompt(agent: Agent, allAgents: Agent[], currentRound: number, isFinishing: boolean): string {
+    const prompts = languageService.getPromptsSync(this.conversation.targetLanguage || '');
+    const debatePrompts = prompts.context.debate ?? languageService.getEnglishPrompts().context.debate!;
+
+    const teams = getDebateTeams(getDebaters(allAgents, this.conversation.judgeAgentId));
+    const side = teams.con.some(a => a.id === agent.id) ? 'con' : 'pro';
+    const opponents = side === 'pro' ? teams.con : teams.pro;
+    const listNames = (agents: Agent[]) =>
+      agents.filter(a => a.id !== agent.id).map(a => a.name).join(', ') || debatePrompts.nobody;
+
+    const briefing = languageService.interpolate(debatePrompts.briefing, {
+      agentName: agent.name,
+      team: side === 'pro' ? debatePrompts.proTeam : debatePrompts.conTeam,
+      stance: side === 'pro' ? debatePrompts.proStance : debatePrompts.conStance,
+      subject: this.conversation.subject,
+      teammates: listNames(teams[side]),
+      opponents: listNames(opponents),
+    });
+    const phase = getDebatePhase(
+      { ...this.conversation, status: isFinishing ? 'finishing' : this.conversation.status },
+      currentRound
+    );
+
+    return `${briefing}\n\n${debatePrompts[phase]}`;
+  }
+
   /**
    * Get estimated token usage for the context
    */
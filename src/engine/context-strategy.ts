@@ -2,10 +2,12 @@
 // AI Brainstorm - Context Window Strategy
 // ============================================
 
-import type { Message, Agent, UserInterjection, Notebook } from '../types';
+import type { Message, Agent, UserInterjection, Notebook, MessageScore } from '../types';
 import type { LLMMessage } from '../llm/types';
 import { countTokens } from '../llm/token-counter';
-import { TIME_DECAY, CONTEXT_BUDGET, MESSAGE_IMPORTANCE, TOKEN_ESTIMATION } from '../constants';
+import { embedLocally, cosineSimilarity } from '../llm/embeddings';
+import { truncate, clamp } from '../utils/helpers';
+import { TIME_DECAY, CONTEXT_BUDGET, KNOWLEDGE, MESSAGE_IMPORTANCE, CONTEXT_RELEVANCE, TOKEN_ESTIMATION } from '../constants';
 
 /**
  * Message with calculated importance score for prioritized selection
@@ -13,6 +15,7 @@ import { TIME_DECAY, CONTEXT_BUDGET, MESSAGE_IMPORTANCE, TOKEN_ESTIMATION } from
 interface ScoredMessage {
   message: Message;
   score: number;
+  breakdown: MessageScore;
   tokens: number;
 }
 
@@ -40,6 +43,8 @@ export interface ContextBudget {
   notebook: number;
   interjections: number;
   messages: number;
+  documents: number;
+  knowledge: number;
   responseReserve: number;
 }
 
@@ -63,16 +68,22 @@ export class ContextStrategy {
 
   /**
    * Calculate token budget for each component
+   *
+   * @param knowledgeUsage - Percentage of the context the agent reserves for its knowledge packs
    */
-  calculateBudget(systemPromptTokens: number): ContextBudget {
+  calculateBudget(systemPromptTokens: number, hasDocuments: boolean = false, knowledgeUsage: number = 0): ContextBudget {
     const available = this.maxTokens - this.responseReserve - systemPromptTokens;
+    const documents = hasDocuments ? Math.floor(available * CONTEXT_BUDGET.DOCUMENTS) : 0;
+    const knowledge = Math.floor(available * clamp(knowledgeUsage, 0, KNOWLEDGE.MAX_USAGE) / 100);
 
     return {
       total: this.maxTokens,
       systemPrompt: systemPromptTokens,
       notebook: Math.floor(available * CONTEXT_BUDGET.NOTEBOOK),
       interjections: Math.floor(available * CONTEXT_BUDGET.INTERJECTIONS),
-      messages: Math.floor(available * CONTEXT_BUDGET.MESSAGES),
+      messages: Math.floor(available * CONTEXT_BUDGET.MESSAGES) - documents - knowledge,
+      documents,
+      knowledge,
       responseReserve: this.responseReserve,
     };
   }
@@ -88,32 +99,57 @@ export class ContextStrategy {
    * - Position in conversation (first/last messages preserved)
    * - Time decay (older messages get progressively lower scores)
    * - Round decay (messages from earlier rounds get penalty)
+   * - Semantic relevance (optional, see selectScoredMessages)
    * 
    * @param messages - All messages to consider
    * @param budget - Token budget for messages
    * @param agentId - Current agent's ID (for relevance scoring)
    * @param currentRound - Current conversation round (for round-based decay)
+   * @param agentProfile - The agent's role and expertise; turns on semantic relevance scoring
    */
   selectMessages(
     messages: Message[],
     budget: number,
     agentId: string,
-    currentRound: number = 0
+    currentRound: number = 0,
+    agentProfile?: string
   ): Message[] {
-    if (budget <= 0 || messages.length === 0) return [];
+    return this.selectScoredMessages(messages, budget, agentId, currentRound, agentProfile).messages;
+  }
+
+  /**
+   * Select messages like selectMessages, and return the score breakdown of each selected message.
+   * 
+   * With an agent profile, every message also gets a relevance bonus from its similarity
+   * to the profile plus the latest few messages. The bonus is added after decay so old
+   * but on-topic contributions can come back, and it never makes a message critical.
+   */
+  selectScoredMessages(
+    messages: Message[],
+    budget: number,
+    agentId: string,
+    currentRound: number = 0,
+    agentProfile?: string
+  ): { messages: Message[]; scores: MessageScore[] } {
+    if (budget <= 0 || messages.length === 0) return { messages: [], scores: [] };
 
     const now = Date.now();
+    const relevance = agentProfile ? this.calculateRelevance(messages, agentProfile) : undefined;
 
     // Calculate importance scores for all messages
-    const scoredMessages: ScoredMessage[] = messages.map((message, index) => ({
-      message,
-      score: this.calculateMessageImportance(message, agentId, index, messages.length, currentRound, now),
-      tokens: countTokens(message.content) + TOKEN_ESTIMATION.MESSAGE_OVERHEAD,
-    }));
+    const scoredMessages: ScoredMessage[] = messages.map((message, index) => {
+      const breakdown = this.calculateMessageImportance(message, agentId, index, messages.length, currentRound, now, relevance?.[index]);
+      return {
+        message,
+        score: breakdown.total,
+        breakdown,
+        tokens: countTokens(message.content) + TOKEN_ESTIMATION.MESSAGE_OVERHEAD,
+      };
+    });
 
     // Separate critical messages (must include) from regular messages
-    const criticalMessages = scoredMessages.filter(sm => sm.score >= MESSAGE_IMPORTANCE.CRITICAL_THRESHOLD);
-    const regularMessages = scoredMessages.filter(sm => sm.score < MESSAGE_IMPORTANCE.CRITICAL_THRESHOLD);
+    const criticalMessages = scoredMessages.filter(sm => sm.breakdown.critical);
+    const regularMessages = scoredMessages.filter(sm => !sm.breakdown.critical);
 
     // Sort regular messages by score (highest first)
     regularMessages.sort((a, b) => b.score - a.score);
@@ -140,7 +176,19 @@ export class ContextStrategy {
     // Sort selected messages back to chronological order
     selected.sort((a, b) => a.message.createdAt - b.message.createdAt);
 
-    return selected.map(sm => sm.message);
+    return {
+      messages: selected.map(sm => sm.message),
+      scores: selected.map(sm => sm.breakdown),
+    };
+  }
+
+  /**
+   * Similarity of each message to the agent's profile and the latest messages (0-1)
+   */
+  private calculateRelevance(messages: Message[], agentProfile: string): number[] {
+    const recent = messages.slice(-CONTEXT_RELEVANCE.RECENT_MESSAGES).map(m => m.content);
+    const query = embedLocally([agentProfile, ...recent].join('\n'));
+    return messages.map(message => Math.max(0, cosineSimilarity(query, embedLocally(message.content))));
   }
 
   /**
@@ -156,62 +204,90 @@ export class ContextStrategy {
     index: number,
     totalMessages: number,
     currentRound: number = 0,
-    now: number = Date.now()
-  ): number {
-    let score = 0;
+    now: number = Date.now(),
+    relevance?: number
+  ): MessageScore {
+    let type = 0;
     let isCritical = false;
 
     // Message type importance (critical types get 100+ score)
     switch (message.type) {
       case 'opening':
-        score += MESSAGE_IMPORTANCE.OPENING;
+        type = MESSAGE_IMPORTANCE.OPENING;
         isCritical = true;
         break;
       case 'summary':
-        score += MESSAGE_IMPORTANCE.SUMMARY;
+        type = MESSAGE_IMPORTANCE.SUMMARY;
         isCritical = true;
         break;
       case 'interjection':
-        score += MESSAGE_IMPORTANCE.INTERJECTION;
+        type = MESSAGE_IMPORTANCE.INTERJECTION;
         break;
       case 'system':
-        score += MESSAGE_IMPORTANCE.SYSTEM;
+        type = MESSAGE_IMPORTANCE.SYSTEM;
         break;
       case 'response':
-        score += MESSAGE_IMPORTANCE.RESPONSE;
+        type = MESSAGE_IMPORTANCE.RESPONSE;
         break;
     }
 
     // Relevance to current agent
+    let addressing = 0;
     if (message.agentId === agentId) {
-      score += MESSAGE_IMPORTANCE.OWN_MESSAGE;
+      addressing += MESSAGE_IMPORTANCE.OWN_MESSAGE;
     }
     if (message.addressedTo === agentId) {
-      score += MESSAGE_IMPORTANCE.ADDRESSED_TO;
+      addressing += MESSAGE_IMPORTANCE.ADDRESSED_TO;
     }
 
     // User weight/votes (each upvote adds 10, downvotes subtract)
-    score += message.weight * 10;
+    const votes = message.weight * 10;
 
     // Recency bonus (newer messages get slight preference)
     const recencyFactor = index / Math.max(totalMessages - 1, 1);
-    score += Math.floor(recencyFactor * MESSAGE_IMPORTANCE.RECENCY_BONUS);
+    let recency = Math.floor(recencyFactor * MESSAGE_IMPORTANCE.RECENCY_BONUS);
 
     // Position bonuses (preserve conversation structure)
     if (index === 0) {
-      score += MESSAGE_IMPORTANCE.FIRST_MESSAGE;
+      recency += MESSAGE_IMPORTANCE.FIRST_MESSAGE;
     }
     if (index >= totalMessages - 3) {
-      score += MESSAGE_IMPORTANCE.RECENT_CONTEXT;
+      recency += MESSAGE_IMPORTANCE.RECENT_CONTEXT;
     }
 
+    let score = type + addressing + votes + recency;
+
     // Apply time-based and round-based decay for non-critical messages
+    let decayFactor = 1;
     if (this.timeDecay.enabled && !isCritical) {
-      const decayFactor = this.calculateTimeDecay(message, currentRound, now);
+      decayFactor = this.calculateTimeDecay(message, currentRound, now);
       score = Math.floor(score * decayFactor);
     }
 
-    return score;
+    const breakdown: MessageScore = {
+      messageId: message.id,
+      round: message.round,
+      preview: truncate(message.content.replace(/\s+/g, ' ').trim(), CONTEXT_RELEVANCE.PREVIEW_LENGTH),
+      type,
+      addressing,
+      votes,
+      recency,
+      decayFactor,
+      total: score,
+      critical: score >= MESSAGE_IMPORTANCE.CRITICAL_THRESHOLD,
+    };
+
+    // Semantic relevance, added after decay
+    if (relevance !== undefined) {
+      const relevanceBonus = relevance >= CONTEXT_RELEVANCE.MIN_SIMILARITY
+        ? Math.round(relevance * CONTEXT_RELEVANCE.MAX_BONUS)
+        : 0;
+      breakdown.relevance = relevance;
+      breakdown.relevanceBonus = relevanceBonus;
+      breakdown.total += relevanceBonus;
+    }
+
+    return breakdown;
   }
 
   /**
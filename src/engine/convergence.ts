@@ -0,0 +1,130 @@
+// ============================================
+// AI Brainstorm - Convergence Tracking
+// ============================================
+
+import { CONVERGENCE } from '../constants';
+import type { ConvergenceRecommendation, RoundConvergence } from '../types';
+
+// Common English words that say nothing about the content
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'are', 'was', 'but', 'not', 'you', 'all', 'can', 'have', 'has',
+  'had', 'its', 'our', 'their', 'they', 'them', 'than', 'then', 'there', 'these', 'those', 'from', 'into',
+  'about', 'would', 'could', 'should', 'will', 'what', 'which', 'when', 'where', 'who', 'how', 'also', 'just',
+  'more', 'most', 'some', 'such', 'very', 'been', 'being', 'were', 'one', 'any', 'each', 'other', 'only',
+]);
+
+/**
+ * Lowercased content words of a text (letters and digits in any script, stop words left out)
+ */
+export function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+}
+
+function bigrams(text: string): string[] {
+  const words = contentWords(text);
+  return words.slice(1).map((word, i) => `${words[i]} ${word}`);
+}
+
+function sentences(text: string): Set<string>[] {
+  return text
+    .split(/(?<=[.!?؟])\s+|\n+/)
+    .map(sentence => new Set(contentWords(sentence)))
+    .filter(words => words.size >= 3);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Share of the round's word pairs that didn't appear in earlier rounds (0-1).
+ * The first round is all new.
+ */
+export function measureNovelty(roundTexts: string[], earlierTexts: string[]): number {
+  const current = roundTexts.flatMap(bigrams);
+  if (current.length === 0) return 0;
+  if (earlierTexts.length === 0) return 1;
+
+  const seen = new Set(earlierTexts.flatMap(bigrams));
+  return current.filter(pair => !seen.has(pair)).length / current.length;
+}
+
+/**
+ * Share of the round's sentences that restate an earlier sentence (0-1)
+ */
+export function measureRepetition(roundTexts: string[], earlierTexts: string[]): number {
+  const current = roundTexts.flatMap(sentences);
+  if (current.length === 0) return 0;
+
+  const earlier = earlierTexts.flatMap(sentences);
+  const repeated = current.filter(sentence =>
+    earlier.some(previous => jaccard(sentence, previous) >= CONVERGENCE.REPEAT_SIMILARITY)
+  );
+  return repeated.length / current.length;
+}
+
+/**
+ * How much two lists of open questions agree (0-1): the share of questions,
+ * out of the longer list, that have a close match in the other list
+ */
+export function compareOpenQuestions(current: string[], previous: string[]): number {
+  if (current.length === 0 && previous.length === 0) return 1;
+  if (current.length === 0 || previous.length === 0) return 0;
+
+  const previousWords = previous.map(question => new Set(contentWords(question)));
+  const matched = current.filter(question => {
+    const words = new Set(contentWords(question));
+    return previousWords.some(other => jaccard(words, other) >= 0.5);
+  });
+  return matched.length / Math.max(current.length, previous.length);
+}
+
+/**
+ * Whether the latest rounds have plateaued: each of the last few rounds added
+ * little new content while the open questions stayed the same
+ */
+export function isPlateau(history: Array<Pick<RoundConvergence, 'novelty' | 'questionStability'>>): boolean {
+  const recent = history.slice(-CONVERGENCE.PLATEAU_ROUNDS);
+  return recent.length === CONVERGENCE.PLATEAU_ROUNDS && recent.every(entry =>
+    entry.novelty < CONVERGENCE.LOW_NOVELTY && entry.questionStability >= CONVERGENCE.STABLE_QUESTIONS
+  );
+}
+
+/**
+ * Combine the measured signals for a round (see measureNovelty and measureRepetition)
+ * with the secretary's reading. A plateau always recommends stopping; a secretary's
+ * "stop" also counts as a plateau when the round itself added little.
+ */
+export function assessRound(
+  round: number,
+  measured: Pick<RoundConvergence, 'novelty' | 'repetition'>,
+  secretaryView: { openQuestions: string[]; recommendation: ConvergenceRecommendation; reasoning: string },
+  history: RoundConvergence[]
+): RoundConvergence {
+  const previous = history.filter(entry => entry.round < round).at(-1);
+  const { novelty, repetition } = measured;
+  const questionStability = previous ? compareOpenQuestions(secretaryView.openQuestions, previous.openQuestions) : 0;
+
+  const signals = { novelty, questionStability };
+  const plateaued = isPlateau([...history.filter(entry => entry.round < round), signals])
+    || (secretaryView.recommendation === 'stop' && novelty < CONVERGENCE.LOW_NOVELTY);
+
+  return {
+    round,
+    novelty,
+    repetition,
+    questionStability,
+    openQuestions: secretaryView.openQuestions,
+    recommendation: plateaued ? 'stop' : secretaryView.recommendation,
+    reasoning: secretaryView.reasoning,
+    plateaued,
+  };
+}
@@ -6,17 +6,25 @@ import { Agent } from '../agents/agent';
 import { AgentFactory } from '../agents/agent-factory';
 import { SecretaryAgent } from '../agents/secretary';
 import { TurnManager, TurnSchedule } from './turn-manager';
-import { TurnExecutor, TurnResult } from './turn-executor';
+import { TurnExecutor, TurnResult, RegenerateOptions } from './turn-executor';
 import { ResultManager } from './result-manager';
 import { UserInterjectionHandler } from './user-interjection';
 import { ConversationStateMachine } from './state-machine';
-import { conversationStorage, turnStorage, messageStorage, notebookStorage, interjectionStorage, reactionStorage, distilledMemoryStorage } from '../storage/storage-manager';
+import { evaluateBudget, type BudgetUsage } from './budget';
+import { getRoundLimit, getDebateRoundCount, getDebatePhase, getDebaters, getDebateTeams, orderDebateSpeakers, assignDebateSides } from './debate';
+import { tallyVotes, reachedAgreement, withVoteResults } from './voting';
+import { collectMemoryEntries } from './workspace-memory';
+import { conversationStorage, turnStorage, messageStorage, notebookStorage, interjectionStorage, reactionStorage, distilledMemoryStorage, usageStorage, resultDraftStorage, voteStorage, workspaceMemoryStorage, settingsStorage, documentStorage } from '../storage/storage-manager';
+import { summarizeUsage } from '../llm/usage';
+import { llmRouter } from '../llm/llm-router';
+import { buildDebateJudgePrompt, parseDebateVerdict, buildVotePrompt, parseVoteResponse, formatVoteResult } from '../llm/prompt-builder';
+import { BUDGET, CONVERGENCE, DEBATE, VOTING } from '../constants';
 import { eventBus } from '../utils/event-bus';
 import { sleep } from '../utils/helpers';
 import { selectFirstSpeaker, getStrategyById } from '../strategies/starting-strategies';
 import { acquireLock, releaseLock, isLockedByOtherTab } from '../utils/conversation-lock';
 import { languageService } from '../prompts/language-service';
-import type { Conversation, Turn, Message, ConversationStatus, ConversationMode, StartingStrategyId, ConversationDepth, TurnQueueState, TurnQueueItem } from '../types';
+import type { Conversation, Turn, Message, ConversationStatus, ConversationMode, StartingStrategyId, ConversationDepth, TurnQueueState, TurnQueueItem, ModeratorDecision, ToolApprovalDefault, BudgetLimitKind, DebateSide, DebatePhase, Vote, VoteTrigger } from '../types';
 
 export interface ConversationEngineOptions {
   onAgentThinking?: (agentId: string) => void;
@@ -50,7 +58,12 @@ export class ConversationEngine {
   private options: ConversationEngineOptions;
   private streamingContent: Map<string, string> = new Map();
   private completedAgentsInRound: Set<string> = new Set();
-  private currentTurnAgentId: string | null = null;
+  private currentTurnAgentIds: Set<string> = new Set(); // Several at once in parallel mode
+  private lastModeratorDecision: ModeratorDecision | null = null;
+  private runStartedAt: number | null = null;
+  private turnsThisRun = 0;
+  private budgetWarnings: Set<BudgetLimitKind> = new Set();
+  private pendingVotes: Array<{ proposal: string; trigger: VoteTrigger }> = []; // Called while a turn was running
 
   constructor(conversation: Conversation, options: ConversationEngineOptions = {}) {
     this.conversation = conversation;
@@ -74,7 +87,8 @@ export class ConversationEngine {
       this.conversation.id,
       this.conversation.mode,
       agentEntities,
-      this.conversation.currentRound
+      this.conversation.currentRound,
+      this.conversation
     );
 
     // Load secretary
@@ -111,7 +125,9 @@ export class ConversationEngine {
 
       // Reset tracking for new run
       this.completedAgentsInRound.clear();
-      this.currentTurnAgentId = null;
+      this.currentTurnAgentIds.clear();
+      this.turnsThisRun = 0;
+      this.budgetWarnings.clear();
 
       ConversationEngine.getActiveConversationSet().add(conversationId);
       await this.updateConversationStatus('running');
@@ -179,6 +195,8 @@ export class ConversationEngine {
         return;
       }
        enteredRunningState = true;
+      this.turnsThisRun = 0;
+      this.budgetWarnings.clear();
 
       ConversationEngine.getActiveConversationSet().add(conversationId);
       await this.updateConversationStatus('running');
@@ -216,6 +234,14 @@ export class ConversationEngine {
       
       // Generate final result draft
       await this.resultManager.generateFinalDraft(this.conversation);
+      await this.recordVoteConsensus();
+
+      // A debate stopped early is still judged on the arguments made so far
+      if (this.conversation.mode === 'debate') {
+        await this.judgeDebate();
+      }
+
+      await this.rememberConversation();
       
       eventBus.emit('conversation:stopped', this.conversation.id);
     }
@@ -293,19 +319,26 @@ export class ConversationEngine {
   }
 
   /**
-   * Run a final wrap-up round where each agent gets one brief turn
+   * Run a final wrap-up round where each agent gets one brief turn.
+   * The wrap-up turns belong to the current round and are numbered after the turns
+   * already taken in it: executeTurn skips a (round, sequence) that is already
+   * completed, so reusing those numbers would drop the wrap-up of anyone who had
+   * spoken when finish was requested.
    */
   private async runFinishingRound(): Promise<void> {
     // Reset round tracking for the finishing round
     this.completedAgentsInRound.clear();
     
-    // Get non-secretary agents
-    const participantAgents = this.agents.filter(a => !a.entityData.isSecretary);
+    // Get non-secretary agents (the debaters, in speaking order, in debate mode)
+    const participantAgents = this.getQueueAgents();
     
     if (participantAgents.length === 0) {
       return;
     }
 
+    const roundTurns = await turnStorage.getByRound(this.conversation.id, this.conversation.currentRound);
+    const firstSequence = roundTurns.reduce((max, t) => Math.max(max, t.sequence + 1), 0);
+
     // Execute brief final turn for each agent
     for (const agent of participantAgents) {
       if (!this.stateMachine.isFinishing()) {
@@ -316,7 +349,7 @@ export class ConversationEngine {
         // Create a simplified turn schedule for the finishing round
         const finishingSchedule: TurnSchedule = {
           round: this.conversation.currentRound,
-          sequence: this.completedAgentsInRound.size,
+          sequence: firstSequence + this.completedAgentsInRound.size,
           agentId: agent.id,
         };
 
@@ -339,7 +372,7 @@ export class ConversationEngine {
 
   /**
    * Reset the conversation - clears all messages, turns, notebooks, and result drafts
-   * to allow re-running the conversation from the beginning
+   * to allow re-running the conversation from the beginning. Attached documents are kept.
    */
   async reset(): Promise<void> {
     this.turnExecutor?.abort();
@@ -360,29 +393,44 @@ export class ConversationEngine {
     // Delete user interjections for this conversation
     await interjectionStorage.deleteByConversation(this.conversation.id);
 
+    // Delete votes
+    await voteStorage.deleteByConversation(this.conversation.id);
+
     // Clear all agent notebooks
     await notebookStorage.clearAllForConversation(this.conversation.id);
 
     // Clear distilled memory
     await distilledMemoryStorage.delete(this.conversation.id);
 
+    // Forget what the earlier run left in the workspace memory
+    await workspaceMemoryStorage.deleteByConversation(this.conversation.id);
+
     // Reset conversation state (including dynamic round decision)
     await conversationStorage.update(this.conversation.id, {
       status: 'idle',
       currentRound: 0,
       recommendedRounds: undefined,
       roundDecisionReasoning: undefined,
+      convergence: undefined,
+      budgetStopReason: undefined,
+      runDurationMs: 0,
     });
 
     this.conversation.status = 'idle';
     this.conversation.currentRound = 0;
     this.conversation.recommendedRounds = undefined;
     this.conversation.roundDecisionReasoning = undefined;
+    this.conversation.convergence = undefined;
+    this.conversation.budgetStopReason = undefined;
+    this.conversation.runDurationMs = 0;
+    this.runStartedAt = null;
 
     // Reset tracking state
     this.completedAgentsInRound.clear();
-    this.currentTurnAgentId = null;
+    this.currentTurnAgentIds.clear();
+    this.lastModeratorDecision = null;
     this.streamingContent.clear();
+    this.pendingVotes = [];
 
     // Reset managers
     await this.interjectionHandler.clear();
@@ -409,6 +457,106 @@ export class ConversationEngine {
     this.turnManager?.queueAgent(agentId, 'User requested');
   }
 
+  /**
+   * Ask every participant to vote on a proposal.
+   * While a run is in progress the vote is held before the next turn and null is returned;
+   * otherwise it is held right away and the counted vote message is returned.
+   */
+  async callVote(proposal: string, trigger: VoteTrigger = 'user'): Promise<Message | null> {
+    const text = proposal.trim();
+    if (!text) {
+      return null;
+    }
+
+    if (this.stateMachine.isRunning() || this.stateMachine.isFinishing()) {
+      this.pendingVotes.push({ proposal: text, trigger });
+      return null;
+    }
+    return this.runVote(text, trigger);
+  }
+
+  /**
+   * Regenerate or edit an agent message while the conversation is not running.
+   * With laterTurns 'rerun', everything after the message is removed and the
+   * conversation runs again from that point (in the background, like start/resume).
+   */
+  async regenerateMessage(
+    messageId: string,
+    options: RegenerateOptions & { laterTurns?: 'keep' | 'rerun' } = {}
+  ): Promise<TurnResult> {
+    if (this.stateMachine.isRunning() || this.stateMachine.isFinishing()) {
+      return { success: false, error: 'Pause the conversation before changing messages', tokensUsed: 0 };
+    }
+
+    const message = await messageStorage.getById(messageId);
+    if (!message?.turnId || message.conversationId !== this.conversation.id) {
+      return { success: false, error: 'Only agent messages can be regenerated', tokensUsed: 0 };
+    }
+
+    const result = await this.turnExecutor!.regenerate(message.turnId, options);
+    if (!result.success) {
+      return result;
+    }
+
+    // Distilled memory that already covers this message summarizes the old text
+    const memory = await distilledMemoryStorage.get(this.conversation.id);
+    if (memory?.lastDistilledMessageId) {
+      const messages = await messageStorage.getByConversation(this.conversation.id);
+      const distilledIndex = messages.findIndex(m => m.id === memory.lastDistilledMessageId);
+      const messageIndex = messages.findIndex(m => m.id === messageId);
+      if (distilledIndex >= messageIndex) {
+        await distilledMemoryStorage.clear(this.conversation.id);
+      }
+    }
+
+    if (options.laterTurns === 'rerun') {
+      await this.rewindTo(message);
+      void (this.stateMachine.isPaused() ? this.resume() : this.start());
+    }
+
+    return result;
+  }
+
+  /**
+   * Switch an agent message to one of its stored versions
+   */
+  async selectMessageVersion(messageId: string, versionId: string): Promise<Message | undefined> {
+    if (this.stateMachine.isRunning() || this.stateMachine.isFinishing()) {
+      return undefined;
+    }
+    return this.turnExecutor?.activateVersion(messageId, versionId);
+  }
+
+  /**
+   * Write the result draft again, asking the model instead of the response cache
+   */
+  async regenerateResult(): Promise<void> {
+    if (this.secretary && this.conversation.status === 'completed') {
+      await this.secretary.generateFinalComprehensiveResult(this.conversation, 'bypass');
+    } else {
+      await this.resultManager.generateFinalDraft(this.conversation, 'bypass');
+    }
+  }
+
+  /**
+   * Drop everything after a message so the next run continues from it
+   */
+  private async rewindTo(message: Message): Promise<void> {
+    const removed = await conversationStorage.truncateAfter(this.conversation.id, message.id);
+
+    this.conversation.currentRound = message.round;
+    await conversationStorage.update(this.conversation.id, { currentRound: message.round });
+
+    this.completedAgentsInRound.clear();
+    this.currentTurnAgentIds.clear();
+    this.lastModeratorDecision = null;
+    this.turnManager?.setCurrentRound(message.round);
+    this.interjectionHandler.setCurrentRound(message.round);
+
+    console.log(`[Engine] Rewound to round ${message.round}, removed ${removed} later message(s)`);
+    eventBus.emit('conversation:updated', this.conversation);
+  }
+
   /**
    * Get current status
    */
@@ -443,14 +591,19 @@ export class ConversationEngine {
    */
   private async runLoop(): Promise<void> {
     while (this.stateMachine.isRunning()) {
-      // Check round limit - use recommendedRounds if set, otherwise maxRounds
-      const effectiveMaxRounds = this.conversation.recommendedRounds || this.conversation.maxRounds || Infinity;
+      // Check round limit - use recommendedRounds if set, otherwise maxRounds (fixed in debate mode)
+      const effectiveMaxRounds = getRoundLimit(this.conversation) || Infinity;
       if (this.conversation.currentRound >= effectiveMaxRounds) {
         // Final round reached - this will be handled by onRoundComplete
         // which generates the final result and stops the conversation
         break;
       }
 
+      // Pause or finish once a budget limit is reached
+      if (await this.enforceBudget()) {
+        break;
+      }
+
       // Check for immediate interjections
       if (this.interjectionHandler.hasImmediateInterjections()) {
         const interjections = this.interjectionHandler.getImmediateInterjections();
@@ -459,6 +612,24 @@ export class ConversationEngine {
         }
       }
 
+      // Summarize documents attached since the last turn
+      await this.summarizeDocuments();
+
+      // Hold votes called while the last turn was running
+      await this.runPendingVotes();
+      if (!this.stateMachine.isRunning()) {
+        break;
+      }
+
+      // Parallel mode runs the whole round at once
+      if (this.conversation.mode === 'parallel') {
+        if (!(await this.executeParallelRound())) {
+          console.log('[Engine] No more agents to schedule');
+          break;
+        }
+        continue;
+      }
+
       // Get next turn
       const schedule = await this.turnManager?.getNextAgent();
       if (!schedule) {
@@ -470,12 +641,19 @@ export class ConversationEngine {
       const result = await this.executeTurn(schedule);
 
       if (!result.success) {
+        // A pause cancels the running turn; the agent gets it back on resume
+        if (!this.stateMachine.isRunning()) {
+          this.turnManager?.requeue(schedule);
+          break;
+        }
+
         this.options.onError?.(new Error(result.error || 'Turn failed'));
         
         // Wait before retrying on error
         await sleep(2000);
         continue;
       }
+      this.turnsThisRun++;
 
       // Check if round is complete
       if (this.turnManager?.isRoundComplete()) {
@@ -489,6 +667,42 @@ export class ConversationEngine {
     }
   }
 
+  /**
+   * Run every agent's turn for the round concurrently (parallel mode).
+   * Each request still waits on its provider's rate limiter, and agents don't
+   * see each other's answers from this round.
+   * Returns false when there is nobody to schedule.
+   */
+  private async executeParallelRound(): Promise<boolean> {
+    const schedules = await this.turnManager?.getParallelRound();
+    if (!schedules) {
+      return false;
+    }
+
+    const results = await Promise.all(schedules.map(schedule => this.executeTurn(schedule)));
+
+    // A pause mid-round cancels the open turns; only the agents that haven't answered run on resume
+    if (!this.stateMachine.isRunning()) {
+      return true;
+    }
+
+    for (const result of results) {
+      if (result.success) {
+        this.turnsThisRun++;
+      } else {
+        this.options.onError?.(new Error(result.error || 'Turn failed'));
+      }
+    }
+
+    // Failed turns don't hold up the round, same as in the sequential modes
+    await this.onRoundComplete();
+
+    if (this.conversation.speedMs > 0 && this.stateMachine.isRunning()) {
+      await sleep(this.conversation.speedMs);
+    }
+    return true;
+  }
+
   /**
    * Execute a single turn
    */
@@ -507,7 +721,10 @@ export class ConversationEngine {
     }
 
     // Track current turn agent
-    this.currentTurnAgentId = agent.id;
+    this.currentTurnAgentIds.add(agent.id);
+    if (schedule.moderatorDecision) {
+      this.lastModeratorDecision = schedule.moderatorDecision;
+    }
 
     // Emit updated turn queue state
     this.emitTurnQueueState();
@@ -537,7 +754,7 @@ export class ConversationEngine {
 
     // Mark agent as completed in this round
     this.completedAgentsInRound.add(agent.id);
-    this.currentTurnAgentId = null;
+    this.currentTurnAgentIds.delete(agent.id);
 
     // Emit updated turn queue state
     this.emitTurnQueueState();
@@ -601,16 +818,31 @@ export class ConversationEngine {
         // After round 1 completes, secretary analyzes and decides total rounds
         // Only do this if maxRounds hasn't been set yet (or was not user-defined)
         // NOTE: In this codebase, the first agent round is round 0.
-        if (round === 0 && !this.conversation.recommendedRounds) {
+        // Debates have a fixed number of rounds, so there is nothing to decide.
+        if (round === 0 && !this.conversation.recommendedRounds && this.conversation.mode !== 'debate') {
           await this.decideRoundsAfterFirstRound(round);
         }
       } catch (error) {
         console.warn('[Engine] Secretary round summary failed:', error);
       }
+
+      // Let the secretary call a vote when the discussion reaches a decision point
+      if (this.conversation.autoVote) {
+        const proposal = await this.secretary.detectDecisionPoint(this.conversation);
+        if (proposal) {
+          await this.runVote(proposal, 'secretary');
+        }
+      }
+    }
+
+    // Track convergence; the secretary may end the discussion early or give it more rounds.
+    // Debates run their fixed phases.
+    if (this.secretary && this.conversation.mode !== 'debate' && await this.trackConvergence(round)) {
+      return;
     }
 
     // Check if this is the final round - if so, generate comprehensive result
-    const effectiveMaxRounds = this.conversation.recommendedRounds || this.conversation.maxRounds;
+    const effectiveMaxRounds = getRoundLimit(this.conversation);
     if (effectiveMaxRounds && this.conversation.currentRound >= effectiveMaxRounds) {
       console.log(`[Engine] Reached final round (${effectiveMaxRounds}), generating comprehensive result...`);
       await this.generateFinalResult();
@@ -684,6 +916,69 @@ export class ConversationEngine {
     }
   }
 
+  /**
+   * Record the convergence reading for a round and act on it.
+   * Without autoConverge only the measurements are charted: nothing would act on the
+   * secretary's check, so it isn't asked. With it, recommendations are posted when they
+   * change, a plateau finishes the conversation early and "extend" adds rounds once the
+   * planned rounds are done.
+   * @returns true when the conversation was finished
+   */
+  private async trackConvergence(round: number): Promise<boolean> {
+    if (!this.secretary) return false;
+
+    const history = (this.conversation.convergence ?? []).filter(entry => entry.round < round);
+    const convergence = await this.secretary.assessConvergence(this.conversation, round, history, !!this.conversation.autoConverge);
+    this.conversation.convergence = [...history, convergence];
+    await conversationStorage.update(this.conversation.id, { convergence: this.conversation.convergence });
+    eventBus.emit('conversation:convergence', { conversationId: this.conversation.id, convergence });
+    console.log(`[Engine] Round ${round} convergence: ${Math.round(convergence.novelty * 100)}% new, recommendation ${convergence.recommendation}`);
+
+    const limit = getRoundLimit(this.conversation);
+    const completedRounds = this.conversation.currentRound;
+    const finishEarly = !!this.conversation.autoConverge
+      && convergence.plateaued
+      && completedRounds >= CONVERGENCE.MIN_ROUNDS
+      && (!limit || completedRounds < limit);
+    const extend = !!this.conversation.autoConverge
+      && convergence.recommendation === 'extend'
+      && !!limit && completedRounds >= limit && limit < CONVERGENCE.MAX_ROUNDS;
+
+    if (extend) {
+      const rounds = Math.min(CONVERGENCE.MAX_ROUNDS, limit + CONVERGENCE.EXTEND_ROUNDS);
+      this.conversation.recommendedRounds = rounds;
+      this.conversation.maxRounds = rounds;
+      await conversationStorage.update(this.conversation.id, { recommendedRounds: rounds, maxRounds: rounds });
+      eventBus.emit('conversation:rounds-decided', {
+        conversationId: this.conversation.id,
+        recommendedRounds: rounds,
+        reasoning: convergence.reasoning,
+      });
+      console.log(`[Engine] Secretary extended the conversation to ${rounds} rounds`);
+    }
+
+    // The secretary writes the reasoning in the target language, so it is posted as-is
+    const previous = history.at(-1);
+    const changed = convergence.recommendation !== (previous?.recommendation ?? 'continue');
+    if (convergence.recommendation !== 'continue' && convergence.reasoning && (changed || finishEarly || extend)) {
+      const notice = await messageStorage.create({
+        conversationId: this.conversation.id,
+        agentId: this.secretary.id,
+        content: convergence.reasoning,
+        round,
+        type: 'system',
+      });
+      eventBus.emit('message:created', notice);
+    }
+
+    if (finishEarly) {
+      console.log(`[Engine] Discussion has plateaued after ${completedRounds} rounds, finishing`);
+      await this.finish();
+      return true;
+    }
+    return false;
+  }
+
   /**
    * Trigger context distillation if conditions are met
    * Distillation compresses older messages into a summary to manage context window
@@ -713,6 +1008,9 @@ export class ConversationEngine {
    * Generate final comprehensive result and complete conversation
    */
   private async generateFinalResult(): Promise<void> {
+    // Votes still waiting are counted before the result is written
+    await this.runPendingVotes();
+
     if (this.secretary) {
       try {
         // Generate comprehensive final result using secretary
@@ -728,6 +1026,14 @@ export class ConversationEngine {
       await this.resultManager.generateFinalDraft(this.conversation);
     }
 
+    await this.recordVoteConsensus();
+
+    if (this.conversation.mode === 'debate') {
+      await this.judgeDebate();
+    }
+
+    await this.rememberConversation();
+
     // Complete the conversation
     if (this.stateMachine.transition('completed')) {
       ConversationEngine.getActiveConversationSet().delete(this.conversation.id);
@@ -737,14 +1043,280 @@ export class ConversationEngine {
     }
   }
 
+  /**
+   * Ask the judge (the configured agent, or the secretary) to score both teams
+   * against the rubric, and save the verdict in the result draft
+   */
+  private async judgeDebate(): Promise<void> {
+    const agents = this.agents.map(a => a.entityData);
+    const judge =
+      agents.find(a => a.id === this.conversation.judgeAgentId) ??
+      agents.find(a => a.isSecretary);
+    if (!judge) {
+      console.warn('[Engine] No judge available, skipping the debate verdict');
+      return;
+    }
+
+    try {
+      const messages = await messageStorage.getByConversation(this.conversation.id);
+      const teams = getDebateTeams(getDebaters(agents, this.conversation.judgeAgentId));
+      const response = await llmRouter.complete(judge.llmProviderId, {
+        model: judge.modelId,
+        messages: buildDebateJudgePrompt(this.conversation, teams, messages, agents),
+        temperature: DEBATE.JUDGE_TEMPERATURE,
+        maxTokens: DEBATE.JUDGE_MAX_TOKENS,
+        usage: { purpose: 'judge', conversationId: this.conversation.id, agentId: judge.id },
+        fallbacks: judge.modelFallbacks,
+      });
+
+      const result = parseDebateVerdict(response.content);
+      if (!result) {
+        console.warn('[Engine] Judge did not return a usable verdict');
+        return;
+      }
+
+      const draft = await resultDraftStorage.update(this.conversation.id, {
+        debateVerdict: { ...result, judgeAgentId: judge.id, decidedAt: Date.now() },
+      });
+      eventBus.emit('draft:updated', draft);
+      console.log(`[Engine] Judge declared the debate for: ${result.winner}`);
+    } catch (error) {
+      console.error('[Engine] Debate judging failed:', error);
+    }
+  }
+
+  /**
+   * Have the secretary summarize attached documents that have no summary yet.
+   * A failed summary is retried before the next turn.
+   */
+  private async summarizeDocuments(): Promise<void> {
+    if (!this.secretary) return;
+
+    const pending = (await documentStorage.getByConversation(this.conversation.id)).filter(d => !d.summary);
+    for (const document of pending) {
+      if (!this.stateMachine.isRunning()) return;
+      try {
+        const summary = await this.secretary.summarizeDocument(this.conversation, document);
+        if (!summary) continue;
+        await documentStorage.update(document.id, { summary });
+        eventBus.emit('documents:updated', this.conversation.id);
+      } catch (error) {
+        console.warn('[Engine] Failed to summarize document:', error);
+      }
+    }
+  }
+
+  /**
+   * Hold the votes that were called while a turn was running
+   */
+  private async runPendingVotes(): Promise<void> {
+    while (this.pendingVotes.length > 0) {
+      const { proposal, trigger } = this.pendingVotes.shift()!;
+      await this.runVote(proposal, trigger);
+    }
+  }
+
+  /**
+   * Post the proposal as a vote message, collect every participant's vote
+   * in parallel, then store the tally on the message
+   */
+  private async runVote(proposal: string, trigger: VoteTrigger): Promise<Message> {
+    const ballot = await messageStorage.create({
+      conversationId: this.conversation.id,
+      agentId: trigger === 'secretary' ? this.secretary?.id : undefined,
+      content: proposal,
+      round: this.conversation.currentRound,
+      type: 'vote',
+      voteTrigger: trigger,
+    });
+    eventBus.emit('message:created', ballot);
+
+    const allAgents = this.agents.map(a => a.entityData);
+    const recentMessages = (await messageStorage.getRecent(this.conversation.id, VOTING.CONTEXT_MESSAGES + 1))
+      .filter(m => m.id !== ballot.id);
+
+    const votes = (await Promise.all(
+      this.getQueueAgents().map(agent => this.castVote(agent, ballot, recentMessages, allAgents))
+    )).filter((vote): vote is Vote => vote !== null);
+
+    const voteTally = tallyVotes(votes);
+    const message = await messageStorage.setVoteTally(ballot.id, voteTally) ?? { ...ballot, voteTally };
+    eventBus.emit('message:updated', message);
+    eventBus.emit('vote:completed', { conversationId: this.conversation.id, message, votes });
+    console.log(`[Engine] Vote counted: ${voteTally.support} support, ${voteTally.oppose} oppose, ${voteTally.abstain} abstain (${voteTally.outcome})`);
+
+    await this.recordVoteConsensus();
+    return message;
+  }
+
+  /**
+   * Ask one agent for its vote. Returns null when the call fails or the answer can't be read.
+   */
+  private async castVote(
+    agent: Agent,
+    ballot: Message,
+    recentMessages: Message[],
+    allAgents: Agent['entityData'][]
+  ): Promise<Vote | null> {
+    try {
+      const response = await llmRouter.complete(agent.entityData.llmProviderId, {
+        model: agent.entityData.modelId,
+        messages: buildVotePrompt(agent.entityData, this.conversation, ballot.content, recentMessages, allAgents),
+        temperature: VOTING.TEMPERATURE,
+        maxTokens: VOTING.VOTE_MAX_TOKENS,
+        usage: { purpose: 'vote', conversationId: this.conversation.id, agentId: agent.id },
+        fallbacks: agent.entityData.modelFallbacks,
+      });
+
+      const choice = parseVoteResponse(response.content);
+      if (!choice) {
+        console.warn(`[Engine] ${agent.name} did not return a usable vote`);
+        return null;
+      }
+
+      const vote = await voteStorage.create({
+        conversationId: this.conversation.id,
+        messageId: ballot.id,
+        agentId: agent.id,
+        ...choice,
+      });
+      eventBus.emit('vote:cast', vote);
+      return vote;
+    } catch (error) {
+      console.warn(`[Engine] Vote failed for ${agent.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the conversation's pinned facts, decisions and final result to the
+   * workspace memory (when enabled), replacing what an earlier run left there
+   */
+  private async rememberConversation(): Promise<void> {
+    try {
+      const settings = await settingsStorage.get();
+      if (!settings.workspaceMemory) return;
+
+      const memory = await distilledMemoryStorage.get(this.conversation.id);
+      const result = await resultDraftStorage.get(this.conversation.id);
+      const entries = collectMemoryEntries(this.conversation, memory, result);
+      await workspaceMemoryStorage.replaceForConversation(this.conversation.id, entries);
+      console.log(`[Engine] Remembered ${entries.length} workspace memory entries`);
+    } catch (error) {
+      console.warn('[Engine] Failed to update workspace memory:', error);
+    }
+  }
+
+  /**
+   * Add the votes that reached agreement to the result draft's consensus areas.
+   * Runs again after the secretary rewrites the draft, replacing the earlier list.
+   */
+  private async recordVoteConsensus(): Promise<void> {
+    const messages = await messageStorage.getByConversation(this.conversation.id);
+    const agreed = messages.filter(m => m.type === 'vote' && m.voteTally && reachedAgreement(m.voteTally));
+    if (agreed.length === 0) {
+      return;
+    }
+
+    const targetLanguage = this.conversation.targetLanguage;
+    const prompts = languageService.getPromptsSync(targetLanguage || '');
+    const header = (prompts.context.voting ?? languageService.getEnglishPrompts().context.voting!).consensusHeader;
+    const existing = await resultDraftStorage.get(this.conversation.id);
+
+    const draft = await resultDraftStorage.update(this.conversation.id, {
+      consensusAreas: withVoteResults(
+        existing?.consensusAreas ?? '',
+        header,
+        agreed.map(m => formatVoteResult(m, targetLanguage))
+      ),
+    });
+    eventBus.emit('draft:updated', draft);
+  }
+
   /**
    * Update conversation status in database
    */
   private async updateConversationStatus(status: ConversationStatus): Promise<void> {
     this.conversation.status = status;
+
+    // Keep the running-time clock used by the time budget
+    if (status === 'running') {
+      this.runStartedAt ??= Date.now();
+      this.conversation.budgetStopReason = undefined;
+      await conversationStorage.update(this.conversation.id, { status, budgetStopReason: undefined });
+      return;
+    }
+    if (this.runStartedAt !== null) {
+      this.conversation.runDurationMs = this.getRunDuration();
+      this.runStartedAt = null;
+      await conversationStorage.update(this.conversation.id, { status, runDurationMs: this.conversation.runDurationMs });
+      return;
+    }
     await conversationStorage.update(this.conversation.id, { status });
   }
 
+  /**
+   * Running time across all runs, including the current one
+   */
+  private getRunDuration(): number {
+    const current = this.runStartedAt !== null ? Date.now() - this.runStartedAt : 0;
+    return (this.conversation.runDurationMs ?? 0) + current;
+  }
+
+  /**
+   * Gather what the conversation has spent so far
+   */
+  private async getBudgetUsage(): Promise<BudgetUsage> {
+    const turns = await turnStorage.getByConversation(this.conversation.id);
+    const records = this.conversation.budgetMaxCost
+      ? await usageStorage.getByConversation(this.conversation.id)
+      : [];
+
+    return {
+      tokens: turns.reduce((sum, turn) => sum + (turn.tokensUsed ?? 0), 0),
+      cost: summarizeUsage(records).total.cost,
+      durationMs: this.getRunDuration(),
+    };
+  }
+
+  /**
+   * Check the budget limits before the next turn. Warns once per limit when it gets close;
+   * when one is reached, the reason is stored and the conversation is paused or finished.
+   * A run that starts over budget is paused rather than wrapped up a second time.
+   * @returns true when the run loop should stop
+   */
+  private async enforceBudget(): Promise<boolean> {
+    const { budgetMaxTokens, budgetMaxCost, budgetMaxDurationMs } = this.conversation;
+    if (!budgetMaxTokens && !budgetMaxCost && !budgetMaxDurationMs) return false;
+
+    const notices = evaluateBudget(this.conversation, await this.getBudgetUsage());
+    const reached = notices.find(n => n.level === 'reached');
+
+    if (!reached) {
+      for (const notice of notices) {
+        if (this.budgetWarnings.has(notice.kind)) continue;
+        this.budgetWarnings.add(notice.kind);
+        console.warn(`[Engine] ${notice.message}`);
+        eventBus.emit('conversation:budget-warning', notice);
+      }
+      return false;
+    }
+
+    const action = this.turnsThisRun > 0 ? this.conversation.budgetAction ?? BUDGET.DEFAULT_ACTION : 'pause';
+    console.log(`[Engine] ${reached.message}, ${action === 'finish' ? 'finishing' : 'pausing'} conversation`);
+
+    this.conversation.budgetStopReason = reached.message;
+    await conversationStorage.update(this.conversation.id, { budgetStopReason: reached.message });
+    eventBus.emit('conversation:budget-reached', reached);
+
+    if (action === 'finish') {
+      await this.finish();
+    } else {
+      await this.pause();
+    }
+    return true;
+  }
+
   /**
    * Get streaming content for an agent
    */
@@ -770,7 +1342,8 @@ export class ConversationEngine {
    * Build and emit turn queue state
    */
   private emitTurnQueueState(): void {
-    const nonSecretaryAgents = this.agents.filter(a => !a.entityData.isSecretary);
+    const nonSecretaryAgents = this.getQueueAgents();
+    const debateSides = this.getDebateSides();
     
     // Build queue items
     const queue: TurnQueueItem[] = nonSecretaryAgents.map((agent, index) => {
@@ -778,7 +1351,7 @@ export class ConversationEngine {
       
       if (this.completedAgentsInRound.has(agent.id)) {
         status = 'completed';
-      } else if (this.currentTurnAgentId === agent.id) {
+      } else if (this.currentTurnAgentIds.has(agent.id)) {
         status = 'current';
       } else {
         status = 'waiting';
@@ -790,6 +1363,7 @@ export class ConversationEngine {
         agentColor: agent.entityData.color,
         status,
         order: index,
+        debateSide: debateSides.get(agent.id),
       };
     });
 
@@ -799,10 +1373,12 @@ export class ConversationEngine {
       currentIndex: this.completedAgentsInRound.size,
       totalAgents: nonSecretaryAgents.length,
       queue,
+      moderatorDecision: this.lastModeratorDecision ?? undefined,
+      debatePhase: this.getDebatePhase(this.conversation.currentRound),
     };
 
     // Emit the appropriate event
-    if (this.currentTurnAgentId) {
+    if (this.currentTurnAgentIds.size > 0) {
       eventBus.emit('turn:queued', state);
     } else {
       eventBus.emit('turn:order-updated', state);
@@ -813,7 +1389,8 @@ export class ConversationEngine {
    * Get current turn queue state (for initial load)
    */
   async getTurnQueueState(): Promise<TurnQueueState | null> {
-    const nonSecretaryAgents = this.agents.filter(a => !a.entityData.isSecretary);
+    const nonSecretaryAgents = this.getQueueAgents();
+    const debateSides = this.getDebateSides();
     if (nonSecretaryAgents.length === 0) return null;
 
     // For display, we treat "running/paused" as being inside the current round,
@@ -830,17 +1407,23 @@ export class ConversationEngine {
     );
 
     // If a turn is currently running, highlight that agent as "current"
-    const runningTurn = turnsInRound
+    // (every running agent in parallel mode, where turns overlap)
+    const runningTurns = turnsInRound
       .filter(t => t.state === 'running')
-      .sort((a, b) => (b.startedAt ?? 0) - (a.startedAt ?? 0))[0];
-    const runningAgentId = runningTurn?.agentId ?? null;
+      .sort((a, b) => (b.startedAt ?? 0) - (a.startedAt ?? 0));
+    const runningAgentIds = new Set(
+      (this.conversation.mode === 'parallel' ? runningTurns : runningTurns.slice(0, 1)).map(t => t.agentId)
+    );
+
+    // Latest moderator decision in the displayed round (moderator mode)
+    const moderatedTurn = [...turnsInRound].reverse().find(t => t.moderatorDecision);
 
     const queue: TurnQueueItem[] = nonSecretaryAgents.map((agent, index) => {
       let itemStatus: 'completed' | 'current' | 'waiting';
 
       if (completedAgentIds.has(agent.id)) {
         itemStatus = 'completed';
-      } else if (runningAgentId && runningAgentId === agent.id) {
+      } else if (runningAgentIds.has(agent.id)) {
         itemStatus = 'current';
       } else {
         itemStatus = 'waiting';
@@ -852,6 +1435,7 @@ export class ConversationEngine {
         agentColor: agent.entityData.color,
         status: itemStatus,
         order: index,
+        debateSide: debateSides.get(agent.id),
       };
     });
 
@@ -861,9 +1445,44 @@ export class ConversationEngine {
       currentIndex: Math.min(completedAgentIds.size, nonSecretaryAgents.length),
       totalAgents: nonSecretaryAgents.length,
       queue,
+      moderatorDecision: moderatedTurn?.moderatorDecision,
+      debatePhase: this.getDebatePhase(displayRound),
     };
   }
 
+  /**
+   * Agents shown in the turn queue, in speaking order (only the debaters in debate mode)
+   */
+  private getQueueAgents(): Agent[] {
+    if (this.conversation.mode !== 'debate') {
+      return this.agents.filter(a => !a.entityData.isSecretary);
+    }
+    const byId = new Map(this.agents.map(a => [a.id, a]));
+    const debaters = getDebaters(this.agents.map(a => a.entityData), this.conversation.judgeAgentId);
+    return orderDebateSpeakers(debaters).map(entity => byId.get(entity.id)!);
+  }
+
+  /**
+   * Team of each debater (empty outside debate mode)
+   */
+  private getDebateSides(): Map<string, DebateSide> {
+    const sides = new Map<string, DebateSide>();
+    if (this.conversation.mode !== 'debate') return sides;
+
+    const teams = getDebateTeams(getDebaters(this.agents.map(a => a.entityData), this.conversation.judgeAgentId));
+    for (const side of ['pro', 'con'] as const) {
+      for (const agent of teams[side]) sides.set(agent.id, side);
+    }
+    return sides;
+  }
+
+  /**
+   * Phase of a debate round (undefined outside debate mode)
+   */
+  private getDebatePhase(round: number): DebatePhase | undefined {
+    return this.conversation.mode === 'debate' ? getDebatePhase(this.conversation, round) : undefined;
+  }
+
   // ----- Static Factory Methods -----
 
   /**
@@ -882,6 +1501,7 @@ export class ConversationEngine {
       modelId: string;
       thinkingDepth?: number;
       creativityLevel?: number;
+      debateSide?: DebateSide;
     }>,
     options: {
       speedMs?: number;
@@ -904,8 +1524,19 @@ export class ConversationEngine {
       // MCP (Model Context Protocol) settings
       mcpServerIds?: string[];
       mcpToolApprovalMode?: 'auto' | 'approval';
+      mcpToolApprovalTimeoutMs?: number;
+      mcpToolApprovalDefault?: ToolApprovalDefault;
+      mcpMaxToolSteps?: number;
+      mcpToolTokenBudget?: number;
+      // Debate mode
+      debateRebuttalRounds?: number;
     } = {}
   ): Promise<ConversationEngine> {
+    // Debates run a fixed number of rounds
+    const maxRounds = mode === 'debate'
+      ? getDebateRoundCount({ debateRebuttalRounds: options.debateRebuttalRounds })
+      : options.maxRounds;
+
     // Create conversation with strategy config and word limits
     const conversation = await conversationStorage.create({
       subject,
@@ -914,7 +1545,7 @@ export class ConversationEngine {
       speedMs: options.speedMs ?? 2000,
       maxContextTokens: options.maxContextTokens ?? 8000,
       plainTextOnly: options.plainTextOnly ?? false,
-      maxRounds: options.maxRounds,
+      maxRounds,
       startingStrategy: options.startingStrategy,
       openingStatement: options.openingStatement,
       groundRules: options.groundRules,
@@ -929,12 +1560,18 @@ export class ConversationEngine {
       // MCP settings
       mcpServerIds: options.mcpServerIds,
       mcpToolApprovalMode: options.mcpToolApprovalMode ?? 'auto',
+      mcpToolApprovalTimeoutMs: options.mcpToolApprovalTimeoutMs,
+      mcpToolApprovalDefault: options.mcpToolApprovalDefault,
+      mcpMaxToolSteps: options.mcpMaxToolSteps,
+      mcpToolTokenBudget: options.mcpToolTokenBudget,
+      debateRebuttalRounds: options.debateRebuttalRounds,
     });
 
-    // Create agents
+    // Create agents (debaters without a side are spread across the two teams)
+    const debateSides = mode === 'debate' ? assignDebateSides(agentConfigs) : [];
     await AgentFactory.createTeam(
       conversation.id,
-      agentConfigs,
+      mode === 'debate' ? agentConfigs.map((config, i) => ({ ...config, debateSide: debateSides[i] })) : agentConfigs,
       options.includeSecretary ?? true
     );
 
@@ -957,6 +1594,20 @@ export class ConversationEngine {
     return engine;
   }
 
+  /**
+   * Fork a conversation at a message into a new branch
+   * The branch starts paused at the round of that message and can be resumed independently.
+   */
+  static async fork(conversationId: string, messageId: string): Promise<Conversation | null> {
+    const branch = await conversationStorage.fork(conversationId, messageId);
+    if (!branch) {
+      return null;
+    }
+
+    eventBus.emit('conversation:created', branch);
+    return branch;
+  }
+
   /**
    * Apply strategy-based first speaker selection
    */
@@ -0,0 +1,95 @@
+// ============================================
+// AI Brainstorm - Debate Mode
+// ============================================
+
+import { DEBATE } from '../constants';
+import type { Agent, Conversation, ConversationStatus, DebatePhase, DebateSide } from '../types';
+
+/**
+ * Rebuttal rounds configured for the debate, clamped to the allowed range
+ */
+export function getRebuttalRounds(conversation: Pick<Conversation, 'debateRebuttalRounds'>): number {
+  const rounds = conversation.debateRebuttalRounds ?? DEBATE.DEFAULT_REBUTTAL_ROUNDS;
+  return Math.max(0, Math.min(DEBATE.MAX_REBUTTAL_ROUNDS, Math.floor(rounds)));
+}
+
+/**
+ * Total rounds: one opening round, the rebuttal rounds, one closing round
+ */
+export function getDebateRoundCount(conversation: Pick<Conversation, 'debateRebuttalRounds'>): number {
+  return getRebuttalRounds(conversation) + 2;
+}
+
+/**
+ * Phase of a (0-based) debate round. The wrap-up round of an early finish counts as closing.
+ */
+export function getDebatePhase(
+  conversation: Pick<Conversation, 'debateRebuttalRounds'> & { status?: ConversationStatus },
+  round: number
+): DebatePhase {
+  if (conversation.status === 'finishing') return 'closing';
+  if (round <= 0) return 'opening';
+  if (round >= getDebateRoundCount(conversation) - 1) return 'closing';
+  return 'rebuttal';
+}
+
+/**
+ * Side for each entry, in order. Explicit sides are kept; the rest join
+ * whichever team is smaller at that point (pro on a tie).
+ */
+export function assignDebateSides(entries: Array<{ debateSide?: DebateSide }>): DebateSide[] {
+  const counts: Record<DebateSide, number> = { pro: 0, con: 0 };
+  for (const entry of entries) {
+    if (entry.debateSide) counts[entry.debateSide]++;
+  }
+
+  return entries.map(entry => {
+    if (entry.debateSide) return entry.debateSide;
+    const side: DebateSide = counts.pro <= counts.con ? 'pro' : 'con';
+    counts[side]++;
+    return side;
+  });
+}
+
+/**
+ * Agents that argue in the debate: everyone except the secretary and the judge
+ */
+export function getDebaters<T extends Pick<Agent, 'id' | 'isSecretary'>>(agents: T[], judgeAgentId?: string): T[] {
+  return agents.filter(a => !a.isSecretary && a.id !== judgeAgentId);
+}
+
+/**
+ * Split debaters into teams, filling in missing sides
+ */
+export function getDebateTeams<T extends Pick<Agent, 'debateSide'>>(debaters: T[]): Record<DebateSide, T[]> {
+  const sides = assignDebateSides(debaters);
+  return {
+    pro: debaters.filter((_, i) => sides[i] === 'pro'),
+    con: debaters.filter((_, i) => sides[i] === 'con'),
+  };
+}
+
+/**
+ * Speaking order for a round: pro and con alternate, starting with pro,
+ * and the larger team's remaining speakers go last
+ */
+export function orderDebateSpeakers<T extends Pick<Agent, 'debateSide'>>(debaters: T[]): T[] {
+  const { pro, con } = getDebateTeams(debaters);
+  const order: T[] = [];
+  for (let i = 0; i < Math.max(pro.length, con.length); i++) {
+    if (pro[i]) order.push(pro[i]);
+    if (con[i]) order.push(con[i]);
+  }
+  return order;
+}
+
+/**
+ * Round limit for the run loop: fixed by the phases in debate mode,
+ * otherwise the secretary's recommendation or the user's maximum
+ */
+export function getRoundLimit(conversation: Conversation): number | undefined {
+  if (conversation.mode === 'debate') {
+    return getDebateRoundCount(conversation);
+  }
+  return conversation.recommendedRounds || conversation.maxRounds;
+}
@@ -5,6 +5,7 @@
 import { SecretaryAgent } from '../agents/secretary';
 import { resultDraftStorage, messageStorage, agentStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
+import type { CacheMode } from '../llm/types';
 import type { ResultDraft, Conversation, Message } from '../types';
 
 /**
@@ -79,15 +80,16 @@ export class ResultManager {
 
   /**
    * Generate complete result draft
+   * @param cache 'bypass' to ask the model again instead of reusing cached answers
    */
-  async generateFinalDraft(conversation: Conversation): Promise<ResultDraft | null> {
+  async generateFinalDraft(conversation: Conversation, cache: CacheMode = 'use'): Promise<ResultDraft | null> {
     if (!this.secretary) {
       // Generate simple draft without secretary
       return this.generateSimpleDraft(conversation);
     }
 
     try {
-      return await this.secretary.generateResultDraft(conversation);
+      return await this.secretary.generateResultDraft(conversation, cache);
     } catch (error) {
       console.error('[ResultManager] Failed to generate final draft:', error);
       return this.generateSimpleDraft(conversation);
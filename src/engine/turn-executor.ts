@@ -4,14 +4,51 @@
 
 import { Agent } from '../agents/agent';
 import { NotebookManager } from '../agents/notebook';
-import { turnStorage, messageStorage, agentStorage, interjectionStorage, notebookStorage, resultDraftStorage, distilledMemoryStorage, contextSnapshotStorage, mcpServerStorage, mcpToolCallStorage } from '../storage/storage-manager';
-import { creativityToTemperature } from '../llm/prompt-builder';
-import { llmRouter } from '../llm/llm-router';
-import { mcpRouter, buildToolDescriptions, parseToolCalls, formatToolResult } from '../mcp';
+import { turnStorage, messageStorage, agentStorage, interjectionStorage, notebookStorage, resultDraftStorage, distilledMemoryStorage, contextSnapshotStorage, mcpServerStorage, mcpToolCallStorage, workspaceMemoryStorage, settingsStorage, documentStorage } from '../storage/storage-manager';
+import { creativityToTemperature, thinkingDepthToReasoningEffort } from '../llm/prompt-builder';
+import { llmRouter, isToolsUnsupportedError } from '../llm/llm-router';
+import { mcpRouter, buildToolDescriptions, buildToolDefinitions, parseToolCalls } from '../mcp';
 import { eventBus } from '../utils/event-bus';
 import { ContextBuilder, ContextComponents } from './context-builder';
-import type { Turn, Message, Conversation, DistilledMemory, CreateContextSnapshot, MCPServer, MCPToolCall } from '../types';
-import type { LLMMessage, LLMResponse } from '../llm/types';
+import { searchMemory } from './workspace-memory';
+import { MCP_APPROVAL, MCP_TOOL_LOOP } from '../constants';
+import type { Turn, Message, Conversation, DistilledMemory, CreateContextSnapshot, ContextSnapshot, MCPServer, MCPTool, MCPToolCall, WorkspaceMemoryEntry } from '../types';
+import type { LLMMessage, LLMRequestOptions, LLMResponse, LLMToolDefinition } from '../llm/types';
+
+/**
+ * Tool call requested by an agent (native calls carry the provider's call ID)
+ */
+interface RequestedToolCall {
+  id?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * What happened to a tool call, as fed back to the agent
+ */
+interface ToolCallOutcome {
+  call: RequestedToolCall;
+  feedback: string;
+}
+
+/**
+ * An agent's reply to a turn, after its tool loop
+ */
+interface GeneratedReply {
+  content: string;
+  tokensUsed: number;
+  toolCallsExecuted: number;
+  reasoning?: string; // Reasoning summaries of the requests that produced it
+}
+
+/**
+ * How to produce a new version of a completed turn
+ */
+export interface RegenerateOptions {
+  content?: string;   // Hand-edited text (no LLM call)
+  modelId?: string;   // Model to use for this turn only
+}
 
 export interface TurnResult {
   success: boolean;
@@ -27,8 +64,10 @@ export interface TurnResult {
 export class TurnExecutor {
   private conversation: Conversation;
   private abortController: AbortController | null = null;
+  private activeTurns = 0;
   private mcpServers: MCPServer[] = [];
   private mcpToolsLoaded: boolean = false;
+  private workspaceMemory: WorkspaceMemoryEntry[] | null = null;
 
   constructor(conversation: Conversation) {
     this.conversation = conversation;
@@ -52,38 +91,29 @@ export class TurnExecutor {
   }
 
   /**
-   * Get MCP tool descriptions for the context
+   * Get the MCP tools available to this conversation
    */
-  private getMCPToolDescriptions(): string {
-    if (this.mcpServers.length === 0) return '';
-
-    const toolsWithServers = this.mcpServers.flatMap(server => 
+  private getMCPTools(): Array<{ serverId: string; serverName: string; tool: MCPTool }> {
+    return this.mcpServers.flatMap(server => 
       server.tools.map(tool => ({
         serverId: server.id,
         serverName: server.name,
         tool,
       }))
     );
-
-    if (toolsWithServers.length === 0) return '';
-
-    return buildToolDescriptions(toolsWithServers);
   }
 
   /**
-   * Process tool calls found in agent response
+   * Process tool calls requested by the agent (native or text-block)
+   * In approval mode each call waits for the user's decision before it runs
    */
   private async processToolCalls(
-    content: string,
+    toolCalls: RequestedToolCall[],
     turn: Turn,
-    agent: Agent
-  ): Promise<{ toolResults: string; toolCallsExecuted: number }> {
-    const toolCalls = parseToolCalls(content);
-    if (toolCalls.length === 0) {
-      return { toolResults: '', toolCallsExecuted: 0 };
-    }
-
-    const results: string[] = [];
+    agent: Agent,
+    step: number
+  ): Promise<{ outcomes: ToolCallOutcome[]; toolCallsExecuted: number }> {
+    const outcomes: ToolCallOutcome[] = [];
     let executedCount = 0;
     const approvalMode = this.conversation.mcpToolApprovalMode || 'auto';
 
@@ -94,11 +124,15 @@ export class TurnExecutor {
       );
 
       if (!serverInfo) {
-        results.push(`**Tool Error: ${call.tool}**\nTool not found in any configured MCP server.`);
+        outcomes.push({
+          call,
+          feedback: 'Error: tool not found in any configured MCP server.',
+        });
         continue;
       }
 
       // Create tool call record
+      const timeoutMs = this.conversation.mcpToolApprovalTimeoutMs ?? MCP_APPROVAL.DEFAULT_TIMEOUT_MS;
       const toolCallRecord = await mcpToolCallStorage.create({
         conversationId: this.conversation.id,
         turnId: turn.id,
@@ -107,177 +141,335 @@ export class TurnExecutor {
         toolName: call.tool,
         arguments: call.arguments,
         status: approvalMode === 'auto' ? 'approved' : 'pending',
+        step,
+        ...(approvalMode === 'approval' && { approvalExpiresAt: Date.now() + timeoutMs }),
       });
 
       if (approvalMode === 'approval') {
-        // LIMITATION: Async approval flow not yet implemented.
-        // In approval mode, tool calls are recorded as "pending" and the conversation
-        // continues without the tool result. Users can view pending tools in the UI.
-        // 
-        // Future enhancement: Implement pause-and-wait mechanism where the turn
-        // executor pauses, waits for user approval via eventBus, then resumes.
-        // This would require:
-        // 1. A Promise-based wait mechanism with timeout
-        // 2. UI to approve/reject pending tool calls
-        // 3. Resume logic to execute approved tools and inject results
-        eventBus.emit('mcp:tool-call-pending', toolCallRecord);
-        results.push(`**⏳ Tool Pending Approval: ${call.tool}**\n` +
-          `Arguments: ${JSON.stringify(call.arguments, null, 2)}\n` +
-          `_This tool call requires manual approval before execution. ` +
-          `The conversation will continue without the tool result._`);
-        continue;
-      }
-
-      // Execute the tool (auto mode)
-      try {
-        // Check if server is connected
-        if (!mcpRouter.isConnected(serverInfo.id)) {
-          // Try to connect
-          await mcpRouter.connect(serverInfo.id);
+        // Suspend the turn until the user decides (or the wait times out)
+        const decision = await this.waitForApproval(toolCallRecord, timeoutMs);
+        const defaultAction = this.conversation.mcpToolApprovalDefault ?? MCP_APPROVAL.DEFAULT_ACTION;
+        const approved = decision === 'approved' || (decision === 'timeout' && defaultAction === 'approve');
+
+        if (!approved) {
+          const reason = decision === 'timeout'
+            ? 'No decision before the approval timeout'
+            : 'Denied by user';
+          const denied = await mcpToolCallStorage.deny(toolCallRecord.id, reason);
+          if (decision === 'timeout') {
+            eventBus.emit('mcp:tool-call-denied', denied ?? { ...toolCallRecord, status: 'denied', error: reason });
+          }
+          outcomes.push({
+            call,
+            feedback: `The tool call was not executed: ${reason.toLowerCase()}.`,
+          });
+          continue;
         }
 
-        const result = await mcpRouter.callTool(serverInfo.id, call.tool, call.arguments);
-        
-        // Update tool call record
-        const resultText = result.content.map(c => c.text || '').join('\n');
-        await mcpToolCallStorage.markExecuted(toolCallRecord.id, resultText);
-        
-        results.push(formatToolResult(call.tool, result));
-        executedCount++;
-
-        eventBus.emit('mcp:tool-call-executed', {
-          ...toolCallRecord,
-          status: 'executed',
-          result: resultText,
-        } as MCPToolCall);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        await mcpToolCallStorage.markFailed(toolCallRecord.id, errorMessage);
-        results.push(`**Tool Error: ${call.tool}**\n${errorMessage}`);
-
-        eventBus.emit('mcp:tool-call-failed', {
-          ...toolCallRecord,
-          status: 'failed',
-          error: errorMessage,
-        } as MCPToolCall);
+        const approvedRecord = await mcpToolCallStorage.approve(toolCallRecord.id);
+        if (decision === 'timeout') {
+          eventBus.emit('mcp:tool-call-approved', approvedRecord ?? { ...toolCallRecord, status: 'approved' });
+        }
       }
+
+      const outcome = await this.executeToolCall(call, toolCallRecord, serverInfo);
+      if (outcome.executed) executedCount++;
+      outcomes.push(outcome);
     }
 
-    return { 
-      toolResults: results.join('\n\n'), 
-      toolCallsExecuted: executedCount 
-    };
+    return { outcomes, toolCallsExecuted: executedCount };
   }
 
   /**
-   * Execute a turn for an agent
+   * Run an approved tool call against its MCP server
    */
-  async execute(
-    turn: Turn,
-    agent: Agent,
-    onStreamChunk?: (content: string) => void
-  ): Promise<TurnResult> {
-    // Create abort controller
-    this.abortController = new AbortController();
-
+  private async executeToolCall(
+    call: RequestedToolCall,
+    toolCallRecord: MCPToolCall,
+    serverInfo: MCPServer
+  ): Promise<ToolCallOutcome & { executed: boolean }> {
     try {
-      // Mark turn as running
-      await turnStorage.updateState(turn.id, 'running');
-      eventBus.emit('turn:started', turn);
+      // Check if server is connected
+      if (!mcpRouter.isConnected(serverInfo.id)) {
+        // Try to connect
+        await mcpRouter.connect(serverInfo.id);
+      }
+
+      const result = await mcpRouter.callTool(serverInfo.id, call.tool, call.arguments);
+      
+      // Update tool call record
+      const resultText = result.content.map(c => c.text || '').join('\n');
+      await mcpToolCallStorage.markExecuted(toolCallRecord.id, resultText);
+
+      eventBus.emit('mcp:tool-call-executed', {
+        ...toolCallRecord,
+        status: 'executed',
+        result: resultText,
+      } as MCPToolCall);
+
+      return {
+        call,
+        feedback: result.isError ? `Error: ${resultText}` : resultText || '(empty result)',
+        executed: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await mcpToolCallStorage.markFailed(toolCallRecord.id, errorMessage);
 
-      // Load MCP tools if configured
-      await this.loadMCPTools();
-      const mcpToolDescriptions = this.getMCPToolDescriptions();
+      eventBus.emit('mcp:tool-call-failed', {
+        ...toolCallRecord,
+        status: 'failed',
+        error: errorMessage,
+      } as MCPToolCall);
 
-      // Build context and get context components for snapshot
-      const { messages, contextComponents, distilledMemory, notebookUsed } = await this.buildContextWithSnapshot(agent);
+      return {
+        call,
+        feedback: `Error: ${errorMessage}`,
+        executed: false,
+      };
+    }
+  }
 
-      // Inject MCP tool descriptions into the system prompt if available
-      if (mcpToolDescriptions && messages.length > 0 && messages[0].role === 'system') {
-        messages[0].content += '\n\n' + mcpToolDescriptions;
+  /**
+   * Wait for the user's decision on a pending tool call.
+   * Resolves 'timeout' when no decision arrives in time; rejects if the turn is aborted.
+   */
+  private waitForApproval(
+    toolCall: MCPToolCall,
+    timeoutMs: number
+  ): Promise<'approved' | 'denied' | 'timeout'> {
+    const signal = this.abortController?.signal;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Turn aborted', 'AbortError'));
+        return;
       }
 
-      // Save context snapshot for this turn (for distillation viewer)
-      await this.saveContextSnapshot(turn.id, contextComponents, distilledMemory, notebookUsed);
+      const cleanup = () => {
+        unsubscribeApproved();
+        unsubscribeDenied();
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
 
-      // Store prompt for debugging
-      await turnStorage.updateState(turn.id, 'running', {
-        promptSent: JSON.stringify(messages),
+      const unsubscribeApproved = eventBus.on('mcp:tool-call-approved', (call) => {
+        if (call.id !== toolCall.id) return;
+        cleanup();
+        resolve('approved');
       });
 
-      // Execute LLM request
-      let response: LLMResponse;
-      let fullContent = '';
-      let chunkCount = 0;
-
-      if (onStreamChunk) {
-        // Streaming mode
-        response = await llmRouter.stream(
-          agent.llmProviderId,
-          {
-            model: agent.modelId,
-            messages,
-            temperature: creativityToTemperature(agent.creativityLevel),
-            signal: this.abortController.signal,
-          },
-          (chunk) => {
-            fullContent += chunk.content;
-            chunkCount++;
-            onStreamChunk(chunk.content);
-          }
-        );
-      } else {
-        // Non-streaming mode
-        response = await llmRouter.complete(agent.llmProviderId, {
-          model: agent.modelId,
-          messages,
-          temperature: creativityToTemperature(agent.creativityLevel),
-          signal: this.abortController.signal,
+      const unsubscribeDenied = eventBus.on('mcp:tool-call-denied', (call) => {
+        if (call.id !== toolCall.id) return;
+        cleanup();
+        resolve('denied');
+      });
+
+      const timer = setTimeout(() => {
+        cleanup();
+        resolve('timeout');
+      }, timeoutMs);
+
+      const onAbort = () => {
+        cleanup();
+        void mcpToolCallStorage.deny(toolCall.id, 'Turn cancelled').then(denied => {
+          eventBus.emit('mcp:tool-call-denied', denied ?? { ...toolCall, status: 'denied', error: 'Turn cancelled' });
         });
-        fullContent = response.content;
-      }
+        reject(new DOMException('Turn aborted', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort);
 
-      // Guard against empty responses
-      if (!fullContent.trim()) {
-        throw new Error('Empty response from LLM provider');
+      // Ask for approval only once we are listening for the answer
+      eventBus.emit('mcp:tool-call-pending', toolCall);
+    });
+  }
+
+  /**
+   * Let the agent call tools, read their results and call more tools until it
+   * answers without tools or hits the step limit / token budget
+   */
+  private async runToolLoop(
+    turn: Turn,
+    agent: Agent,
+    messages: LLMMessage[],
+    response: LLMResponse,
+    tools: LLMToolDefinition[] | undefined,
+    onStreamChunk?: (content: string) => void
+  ): Promise<GeneratedReply> {
+    const maxSteps = this.conversation.mcpMaxToolSteps ?? MCP_TOOL_LOOP.DEFAULT_MAX_STEPS;
+    const tokenBudget = this.conversation.mcpToolTokenBudget ?? MCP_TOOL_LOOP.DEFAULT_TOKEN_BUDGET;
+
+    const contents = [response.content];
+    const reasoning = [response.reasoning ?? ''];
+    let loopMessages = messages;
+    let current = response;
+    let tokensUsed = 0;
+    let toolCallsExecuted = 0;
+
+    for (let step = 1; ; step++) {
+      const toolCalls = this.extractToolCalls(current);
+      if (toolCalls.length === 0) break;
+
+      const limitReason = step > maxSteps
+        ? `the limit of ${maxSteps} tool steps was reached`
+        : response.tokensUsed + tokensUsed >= tokenBudget
+          ? `the turn used up its budget of ${tokenBudget} tokens`
+          : null;
+
+      if (limitReason) {
+        // Answer the pending calls so the transcript stays valid, then ask for the final answer
+        const outcomes = await this.skipToolCalls(toolCalls, turn, agent, step, limitReason);
+        loopMessages = this.appendToolResults(loopMessages, current, outcomes,
+          `Tool use stopped because ${limitReason}. Write your final contribution now without calling any more tools.`);
+
+        onStreamChunk?.('\n\n');
+        const final = await this.requestCompletion(turn, agent, loopMessages, tools, onStreamChunk);
+        tokensUsed += final.tokensUsed;
+        contents.push(final.content);
+        reasoning.push(final.reasoning ?? '');
+        if (this.extractToolCalls(final).length > 0) {
+          console.warn(`[TurnExecutor] Ignoring tool calls requested after ${limitReason}`);
+        }
+        break;
       }
 
-      // Process any MCP tool calls in the response
-      let finalContent = fullContent;
-      let toolCallsExecuted = 0;
+      const { outcomes, toolCallsExecuted: executed } = await this.processToolCalls(toolCalls, turn, agent, step);
+      toolCallsExecuted += executed;
+      loopMessages = this.appendToolResults(loopMessages, current, outcomes);
 
-      if (this.mcpServers.length > 0) {
-        const { toolResults, toolCallsExecuted: executed } = await this.processToolCalls(
-          fullContent,
-          turn,
-          agent
-        );
-        toolCallsExecuted = executed;
-
-        // Append tool results to the message if any were executed
-        if (toolResults) {
-          finalContent += '\n\n---\n\n' + toolResults;
-        }
+      onStreamChunk?.('\n\n');
+      current = await this.requestCompletion(turn, agent, loopMessages, tools, onStreamChunk);
+      tokensUsed += current.tokensUsed;
+      contents.push(current.content);
+      reasoning.push(current.reasoning ?? '');
+    }
+
+    return {
+      content: contents.filter(part => part.trim()).join('\n\n'),
+      tokensUsed,
+      toolCallsExecuted,
+      reasoning: reasoning.filter(part => part.trim()).join('\n\n') || undefined,
+    };
+  }
+
+  /**
+   * Collect native and text-block tool calls from a response
+   */
+  private extractToolCalls(response: LLMResponse): RequestedToolCall[] {
+    return [
+      ...(response.toolCalls ?? []).map(call => ({ id: call.id, tool: call.name, arguments: call.arguments })),
+      ...parseToolCalls(response.content),
+    ];
+  }
+
+  /**
+   * Record tool calls refused by the loop limits
+   */
+  private async skipToolCalls(
+    toolCalls: RequestedToolCall[],
+    turn: Turn,
+    agent: Agent,
+    step: number,
+    reason: string
+  ): Promise<ToolCallOutcome[]> {
+    const outcomes: ToolCallOutcome[] = [];
+
+    for (const call of toolCalls) {
+      const serverInfo = this.mcpServers.find(s => s.tools.some(t => t.name === call.tool));
+      if (serverInfo) {
+        const record = await mcpToolCallStorage.create({
+          conversationId: this.conversation.id,
+          turnId: turn.id,
+          agentId: agent.id,
+          serverId: serverInfo.id,
+          toolName: call.tool,
+          arguments: call.arguments,
+          status: 'denied',
+          error: `Not executed: ${reason}`,
+          step,
+        });
+        eventBus.emit('mcp:tool-call-denied', record);
       }
 
+      outcomes.push({ call, feedback: `The tool call was not executed: ${reason}.` });
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Append the agent's tool-calling response and the tool results to the prompt
+   */
+  private appendToolResults(
+    messages: LLMMessage[],
+    response: LLMResponse,
+    outcomes: ToolCallOutcome[],
+    instruction: string = 'Continue your contribution using these results. Do not repeat what you already said.'
+  ): LLMMessage[] {
+    const nativeOutcomes = outcomes.filter(o => o.call.id);
+    const textOutcomes = outcomes.filter(o => !o.call.id);
+
+    const textResults = textOutcomes.length > 0
+      ? 'Tool results:\n\n' + textOutcomes.map(o => `[${o.call.tool}]\n${o.feedback}`).join('\n\n') + '\n\n'
+      : '';
+
+    return [
+      ...messages,
+      {
+        role: 'assistant',
+        content: response.content,
+        ...(response.toolCalls?.length && { toolCalls: response.toolCalls }),
+        ...(response.thinkingBlocks?.length && { thinkingBlocks: response.thinkingBlocks }),
+      },
+      ...nativeOutcomes.map(o => ({
+        role: 'tool' as const,
+        content: o.feedback,
+        toolCallId: o.call.id,
+        toolName: o.call.tool,
+      })),
+      { role: 'user', content: textResults + instruction },
+    ];
+  }
+
+  /**
+   * Execute a turn for an agent
+   */
+  async execute(
+    turn: Turn,
+    agent: Agent,
+    onStreamChunk?: (content: string) => void
+  ): Promise<TurnResult> {
+    // Turns running side by side (parallel mode) share one controller, so abort() stops them all
+    this.abortController ??= new AbortController();
+    this.activeTurns++;
+
+    try {
+      // Mark turn as running
+      await turnStorage.updateState(turn.id, 'running');
+      eventBus.emit('turn:started', turn);
+
+      const { content, tokensUsed, toolCallsExecuted, reasoning } = await this.generate(turn, agent, onStreamChunk);
+
+      // Update notebook if agent uses it
+      const notebookNote = agent.notebookUsage > 0
+        ? await this.updateNotebook(agent, content)
+        : null;
+
       // Create message
       const message = await messageStorage.create({
         turnId: turn.id,
         conversationId: this.conversation.id,
         agentId: agent.id,
-        content: finalContent,
+        content,
         round: turn.round,
         type: 'response',
+        notebookNote: notebookNote ?? undefined,
+        reasoning,
       });
 
-      // Update notebook if agent uses it
-      if (agent.notebookUsage > 0) {
-        await this.updateNotebook(agent, fullContent);
-      }
-
       // Mark turn as completed
       await turnStorage.updateState(turn.id, 'completed', {
-        tokensUsed: response.tokensUsed,
+        tokensUsed,
       });
 
       eventBus.emit('turn:completed', { ...turn, state: 'completed' });
@@ -286,7 +478,7 @@ export class TurnExecutor {
       return {
         success: true,
         message,
-        tokensUsed: response.tokensUsed,
+        tokensUsed,
         toolCallsExecuted,
       };
     } catch (error) {
@@ -314,15 +506,177 @@ export class TurnExecutor {
         tokensUsed: 0,
       };
     } finally {
-      this.abortController = null;
+      if (--this.activeTurns === 0) {
+        this.abortController = null;
+      }
     }
   }
 
+  /**
+   * Produce the agent's reply for a turn, including its tool loop.
+   * When replacing an existing message, the context is rebuilt from the messages before it.
+   */
+  private async generate(
+    turn: Turn,
+    agent: Agent,
+    onStreamChunk?: (content: string) => void,
+    replacing?: Message
+  ): Promise<GeneratedReply> {
+    // A regenerated turn stays completed so a failed attempt keeps the current message
+    const state = replacing ? 'completed' : 'running';
+
+    // Load MCP tools if configured
+    await this.loadMCPTools();
+    const mcpTools = this.getMCPTools();
+
+    // Build context and get context components for snapshot
+    const { messages, contextComponents, distilledMemory, notebookUsed } = await this.buildContextWithSnapshot(agent, replacing);
+
+    // Send tools in the provider's native format when supported,
+    // otherwise describe them in the system prompt (text-block protocol)
+    let toolDefinitions: LLMToolDefinition[] | undefined;
+    if (mcpTools.length > 0) {
+      if (llmRouter.supportsNativeTools(agent.llmProviderId, agent.modelId)) {
+        toolDefinitions = buildToolDefinitions(mcpTools);
+      } else {
+        this.appendToolDescriptions(messages, mcpTools);
+      }
+    }
+
+    // Save context snapshot for this turn (for distillation viewer)
+    await this.saveContextSnapshot(turn.id, contextComponents, distilledMemory, notebookUsed);
+
+    // Store prompt for debugging (the answering model is recorded again for this attempt)
+    await turnStorage.updateState(turn.id, state, {
+      promptSent: JSON.stringify(messages),
+      answeredBy: undefined,
+      failovers: undefined,
+    });
+
+    // Execute LLM request
+    let response: LLMResponse;
+    try {
+      response = await this.requestCompletion(turn, agent, messages, toolDefinitions, onStreamChunk);
+    } catch (error) {
+      if (!toolDefinitions || !isToolsUnsupportedError(error)) throw error;
+
+      // Model rejected native tools - retry once with the text-block protocol
+      this.appendToolDescriptions(messages, mcpTools);
+      await turnStorage.updateState(turn.id, state, {
+        promptSent: JSON.stringify(messages),
+      });
+      response = await this.requestCompletion(turn, agent, messages, undefined, onStreamChunk);
+    }
+    const fullContent = response.content;
+    const nativeToolCalls = response.toolCalls ?? [];
+
+    // Guard against empty responses (a native tool call may come without text)
+    if (!fullContent.trim() && nativeToolCalls.length === 0) {
+      throw new Error('Empty response from LLM provider');
+    }
+
+    // Run the agent's tool loop (tool results are fed back within the turn)
+    let content = fullContent;
+    let toolCallsExecuted = 0;
+    let tokensUsed = response.tokensUsed;
+    let reasoning = response.reasoning;
+
+    if (this.mcpServers.length > 0) {
+      const loop = await this.runToolLoop(turn, agent, messages, response, toolDefinitions, onStreamChunk);
+      content = loop.content;
+      tokensUsed += loop.tokensUsed;
+      toolCallsExecuted = loop.toolCallsExecuted;
+      reasoning = loop.reasoning;
+
+      if (!content.trim()) {
+        throw new Error('Empty response from LLM provider');
+      }
+    }
+
+    return { content, tokensUsed, toolCallsExecuted, reasoning };
+  }
+
+  /**
+   * Send the LLM request (streaming when a chunk handler is provided) and record on the turn
+   * which model answered, and which ones failed over before it
+   */
+  private async requestCompletion(
+    turn: Turn,
+    agent: Agent,
+    messages: LLMMessage[],
+    tools: LLMToolDefinition[] | undefined,
+    onStreamChunk?: (content: string) => void
+  ): Promise<LLMResponse> {
+    const options: LLMRequestOptions = {
+      model: agent.modelId,
+      messages,
+      temperature: creativityToTemperature(agent.creativityLevel),
+      reasoningEffort: thinkingDepthToReasoningEffort(agent.thinkingDepth),
+      thinkingBudget: agent.thinkingBudget,
+      signal: this.abortController?.signal,
+      tools,
+      usage: { purpose: 'turn', conversationId: agent.conversationId, agentId: agent.id },
+      fallbacks: agent.modelFallbacks,
+    };
+
+    const response = onStreamChunk
+      ? await llmRouter.stream(agent.llmProviderId, options, (chunk) => {
+          // Thinking is shown apart from the reply text
+          if (chunk.thinking) {
+            eventBus.emit('stream:thinking', { agentId: agent.id, content: chunk.thinking });
+          } else {
+            onStreamChunk(chunk.content);
+          }
+        })
+      : await llmRouter.complete(agent.llmProviderId, options);
+
+    if (response.answeredBy) {
+      await turnStorage.recordAnswer(turn.id, response.answeredBy, response.failovers);
+    }
+    return response;
+  }
+
+  /**
+   * Describe MCP tools in the system prompt (text-block protocol)
+   */
+  private appendToolDescriptions(
+    messages: LLMMessage[],
+    tools: Array<{ serverId: string; serverName: string; tool: MCPTool }>
+  ): void {
+    if (messages.length > 0 && messages[0].role === 'system') {
+      messages[0].content += '\n\n' + buildToolDescriptions(tools);
+    }
+  }
+
+  /**
+   * Load the workspace memory entries relevant to this conversation (once).
+   * Empty when workspace memory is off; the conversation's own entries are left out.
+   */
+  private async loadWorkspaceMemory(): Promise<WorkspaceMemoryEntry[]> {
+    if (this.workspaceMemory) return this.workspaceMemory;
+
+    try {
+      const settings = await settingsStorage.get();
+      if (!settings.workspaceMemory) {
+        this.workspaceMemory = [];
+        return this.workspaceMemory;
+      }
+
+      const entries = (await workspaceMemoryStorage.getAll())
+        .filter(entry => entry.sourceConversationId !== this.conversation.id);
+      this.workspaceMemory = searchMemory(entries, `${this.conversation.subject} ${this.conversation.goal}`);
+    } catch (error) {
+      console.warn('[TurnExecutor] Failed to load workspace memory:', error);
+      this.workspaceMemory = [];
+    }
+    return this.workspaceMemory;
+  }
+
   /**
    * Build context messages for the agent using ContextBuilder
    * Returns both messages and context components for snapshot saving
    */
-  private async buildContextWithSnapshot(agent: Agent): Promise<{
+  private async buildContextWithSnapshot(agent: Agent, replacing?: Message): Promise<{
     messages: LLMMessage[];
     contextComponents: ContextComponents;
     distilledMemory: DistilledMemory | undefined;
@@ -331,11 +685,21 @@ export class TurnExecutor {
     // Get all agents
     const allAgents = await agentStorage.getByConversation(this.conversation.id);
     
-    // Get messages
-    const messages = await messageStorage.getByConversation(this.conversation.id);
+    // Get messages (only those before the message being replaced)
+    const allMessages = await messageStorage.getByConversation(this.conversation.id);
+    const earlierMessages = replacing
+      ? allMessages.filter(m => m.createdAt < replacing.createdAt)
+      : allMessages;
+
+    // In a parallel round each agent answers without seeing the others' answers
+    // from that round (the wrap-up round when finishing is an ordinary conversation)
+    const round = replacing?.round ?? this.conversation.currentRound;
+    const messages = this.conversation.mode === 'parallel' && this.conversation.status !== 'finishing'
+      ? earlierMessages.filter(m => m.type !== 'response' || m.round !== round || m.agentId === agent.id)
+      : earlierMessages;
     
-    // Get unprocessed interjections
-    const interjections = await interjectionStorage.getUnprocessed(this.conversation.id);
+    // Get unprocessed interjections (they belong after a replaced message)
+    const interjections = replacing ? [] : await interjectionStorage.getUnprocessed(this.conversation.id);
     
     // Get notebook
     const notebook = await notebookStorage.get(agent.id);
@@ -344,8 +708,19 @@ export class TurnExecutor {
     const resultDraft = await resultDraftStorage.get(this.conversation.id);
     const secretarySummary = resultDraft?.summary || undefined;
 
-    // Get distilled memory for context compression
-    const distilledMemory = await distilledMemoryStorage.get(this.conversation.id);
+    // Get distilled memory for context compression, unless it already covers a replaced message
+    const storedMemory = await distilledMemoryStorage.get(this.conversation.id);
+    const distilledMemory = replacing && storedMemory && !messages.some(m => m.id === storedMemory.lastDistilledMessageId)
+      ? undefined
+      : storedMemory;
+
+    const workspaceMemory = await this.loadWorkspaceMemory();
+
+    // Attached documents (read every turn, since they can be added mid-discussion)
+    const documents = await documentStorage.getByConversation(this.conversation.id);
+    const documentChunks = documents.length > 0
+      ? await documentStorage.getChunksByConversation(this.conversation.id)
+      : [];
 
     // Determine if this is the first turn (no agent responses yet)
     const agentResponses = messages.filter(m => m.type === 'response');
@@ -365,9 +740,12 @@ export class TurnExecutor {
       secretarySummary,
       {
         isFirstTurn,
-        currentRound: this.conversation.currentRound,
+        currentRound: replacing?.round ?? this.conversation.currentRound,
         distilledMemory: distilledMemory || null,
         isFinishing,
+        workspaceMemory,
+        documents,
+        documentChunks,
       }
     );
 
@@ -409,6 +787,10 @@ export class TurnExecutor {
         openQuestions: distilled?.openQuestions || undefined,
         messagesIncludedCount: contextComponents.messages.length,
         notebookUsed,
+        workspaceMemory: contextComponents.workspaceMemory.length > 0 ? contextComponents.workspaceMemory : undefined,
+        messageScores: contextComponents.messageScores.length > 0 ? contextComponents.messageScores : undefined,
+        documentChunks: contextComponents.documentChunks.length > 0 ? contextComponents.documentChunks : undefined,
+        knowledgePassages: contextComponents.knowledgePassages.length > 0 ? contextComponents.knowledgePassages : undefined,
       };
       
       await contextSnapshotStorage.create(snapshotData);
@@ -420,17 +802,19 @@ export class TurnExecutor {
 
   /**
    * Update agent's notebook with key points from the response
+   * Returns the note that was added, if any
    */
-  private async updateNotebook(agent: Agent, content: string): Promise<void> {
+  private async updateNotebook(agent: Agent, content: string): Promise<string | null> {
     // Only extract notes if content is substantial
-    if (content.length < 100) return;
+    if (content.length < 100) return null;
 
     try {
       const notebookManager = NotebookManager.fromAgent(agent.entityData);
-      await notebookManager.autoExtractNotes(content);
+      return await notebookManager.autoExtractNotes(content);
     } catch (error) {
       console.warn('[TurnExecutor] Failed to update notebook:', error);
       // Don't fail the turn if notebook update fails
+      return null;
     }
   }
 
@@ -476,5 +860,148 @@ export class TurnExecutor {
     const agent = new Agent(agentEntity);
     return this.execute(turn, agent);
   }
+
+  /**
+   * Switch a message to one of its stored versions, swapping the agent's notebook entry
+   * and the turn's tool trace and context snapshot to match
+   */
+  async activateVersion(messageId: string, versionId: string): Promise<Message | undefined> {
+    const message = await messageStorage.getById(messageId);
+    if (!message || message.activeVersionId === versionId) return message;
+
+    const incoming = message.versions?.find(v => v.id === versionId);
+    const outgoing = message.turnId ? await this.captureTrace(message.turnId) : undefined;
+    const updated = await messageStorage.setActiveVersion(messageId, versionId, outgoing);
+    if (!incoming || !updated) return undefined;
+
+    // Versions stored before traces were kept have none to put back
+    if (incoming.toolCalls) {
+      await mcpToolCallStorage.deleteByIds(outgoing?.toolCalls.map(c => c.id) ?? []);
+      await mcpToolCallStorage.restore(incoming.toolCalls);
+    }
+    if (incoming.contextSnapshot) {
+      await contextSnapshotStorage.restore(incoming.contextSnapshot);
+    }
+
+    const agentEntity = message.agentId ? await agentStorage.getById(message.agentId) : undefined;
+    if (agentEntity && agentEntity.notebookUsage > 0) {
+      const notebookManager = NotebookManager.fromAgent(agentEntity);
+      if (message.notebookNote) {
+        await notebookManager.removeNote(message.notebookNote);
+      }
+      if (updated.notebookNote) {
+        await notebookManager.addNote(updated.notebookNote);
+      }
+    }
+
+    eventBus.emit('message:updated', updated);
+    return updated;
+  }
+
+  /**
+   * Produce a new version of a completed turn's message.
+   * Either regenerates it (optionally with another model) or stores hand-edited text.
+   * The previous text stays available as an alternate version, along with the tool trace
+   * and context snapshot it was written with; the agent's notebook entry from that text
+   * is swapped for one taken from the new version.
+   */
+  async regenerate(turnId: string, options: RegenerateOptions = {}): Promise<TurnResult> {
+    const turn = await turnStorage.getById(turnId);
+    const message = turn ? await messageStorage.getByTurn(turnId) : undefined;
+    if (!turn || turn.state !== 'completed' || !message) {
+      return {
+        success: false,
+        error: 'Turn not found or not completed',
+        tokensUsed: 0,
+      };
+    }
+
+    const agentEntity = await agentStorage.getById(turn.agentId);
+    if (!agentEntity) {
+      return {
+        success: false,
+        error: 'Agent not found',
+        tokensUsed: 0,
+      };
+    }
+
+    // A model override applies to this turn only
+    const agent = new Agent(options.modelId ? { ...agentEntity, modelId: options.modelId } : agentEntity);
+    this.abortController = new AbortController();
+
+    try {
+      let content = options.content;
+      let tokensUsed = 0;
+      let toolCallsExecuted = 0;
+      let reasoning: string | undefined;
+      const outgoing = await this.captureTrace(turn.id);
+
+      if (content === undefined) {
+        const result = await this.generate(turn, agent, undefined, message);
+        ({ content, tokensUsed, toolCallsExecuted, reasoning } = result);
+
+        // The turn holds the active version's tool trace; the old one moves onto the old version
+        await mcpToolCallStorage.deleteByIds(outgoing.toolCalls.map(c => c.id));
+        await turnStorage.updateState(turn.id, 'completed', { tokensUsed });
+      }
+
+      let notebookNote: string | null = null;
+      if (agent.notebookUsage > 0) {
+        const notebookManager = NotebookManager.fromAgent(agent.entityData);
+        if (message.notebookNote) {
+          await notebookManager.removeNote(message.notebookNote);
+        }
+        notebookNote = await this.updateNotebook(agent, content);
+      }
+
+      const updated = await messageStorage.addVersion(message.id, {
+        content,
+        source: options.content === undefined ? 'generated' : 'edited',
+        modelId: options.content === undefined ? agent.modelId : undefined,
+        notebookNote: notebookNote ?? undefined,
+        tokensUsed: tokensUsed || undefined,
+        reasoning,
+      }, outgoing);
+      if (updated) {
+        eventBus.emit('message:updated', updated);
+      }
+
+      return {
+        success: true,
+        message: updated,
+        tokensUsed,
+        toolCallsExecuted,
+      };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return {
+          success: false,
+          error: 'Regeneration cancelled',
+          tokensUsed: 0,
+        };
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[TurnExecutor] Regeneration failed:', error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        tokensUsed: 0,
+      };
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * The turn's tool trace and context snapshot, as kept on a version when it stops being active
+   */
+  private async captureTrace(turnId: string): Promise<{ toolCalls: MCPToolCall[]; contextSnapshot?: ContextSnapshot }> {
+    return {
+      toolCalls: await mcpToolCallStorage.getByTurn(turnId),
+      contextSnapshot: await contextSnapshotStorage.getByTurnId(turnId),
+    };
+  }
 }
 
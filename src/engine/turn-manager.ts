@@ -2,17 +2,27 @@
 // AI Brainstorm - Turn Manager
 // ============================================
 
-import type { Agent, Turn, ConversationMode } from '../types';
-import { turnStorage, messageStorage } from '../storage/storage-manager';
+import type { Agent, Turn, Message, Conversation, ConversationMode, ConversationStatus, DebatePhase, ModeratorDecision } from '../types';
+import { turnStorage, messageStorage, conversationStorage, distilledMemoryStorage } from '../storage/storage-manager';
 import { generateTurnId } from '../storage/db';
+import { llmRouter } from '../llm/llm-router';
+import { buildModeratorPrompt, parseModeratorResponse } from '../llm/prompt-builder';
+import { MODERATOR } from '../constants';
+import { getDebaters, orderDebateSpeakers, getDebateRoundCount, getDebatePhase } from './debate';
 
 export interface TurnSchedule {
   round: number;
   sequence: number;
   agentId: string;
   addressedTo?: string;
+  moderatorDecision?: ModeratorDecision;
 }
 
+/**
+ * Debate settings the turn manager needs (debate mode only)
+ */
+export type DebateSettings = Pick<Conversation, 'judgeAgentId' | 'debateRebuttalRounds'>;
+
 /**
  * Turn Manager - Manages turn-taking logic for all conversation modes
  */
@@ -20,19 +30,24 @@ export class TurnManager {
   private conversationId: string;
   private mode: ConversationMode;
   private agents: Agent[];
+  private allAgents: Agent[]; // Including secretary (moderator candidates)
   private currentRound: number;
   private currentSequence: number;
   private pendingAddresses: Map<string, string> = new Map(); // agentId -> addressing content
+  private debate: DebateSettings;
 
   constructor(
     conversationId: string,
     mode: ConversationMode,
     agents: Agent[],
-    currentRound: number = 0
+    currentRound: number = 0,
+    debate: DebateSettings = {}
   ) {
     this.conversationId = conversationId;
     this.mode = mode;
-    this.agents = agents.filter(a => !a.isSecretary); // Exclude secretary from regular turns
+    this.debate = debate;
+    this.agents = this.getSpeakers(agents);
+    this.allAgents = agents;
     this.currentRound = currentRound;
     this.currentSequence = 0;
   }
@@ -48,6 +63,11 @@ export class TurnManager {
         return this.getNextModerated();
       case 'dynamic':
         return this.getNextDynamic();
+      case 'parallel':
+        // Rounds are scheduled as a whole by getParallelRound; one at a time falls back to the fixed order
+        return this.getNextRoundRobin();
+      case 'debate':
+        return this.getNextDebate();
       default:
         return this.getNextRoundRobin();
     }
@@ -82,29 +102,134 @@ export class TurnManager {
     };
   }
 
+  /**
+   * Debate mode: pro and con alternate in a fixed order through the opening,
+   * rebuttal and closing rounds; nobody is scheduled once the closing round is over
+   */
+  private getNextDebate(): TurnSchedule | null {
+    const schedule = this.getNextRoundRobin();
+    if (!schedule || schedule.round >= getDebateRoundCount(this.debate)) {
+      return null;
+    }
+    return schedule;
+  }
+
+  /**
+   * Phase of the current debate round
+   */
+  getDebatePhase(status?: ConversationStatus): DebatePhase {
+    return getDebatePhase({ ...this.debate, status }, this.currentRound);
+  }
+
+  /**
+   * Parallel mode: every agent answers the round at once
+   * Returns one schedule per agent that hasn't answered the round yet (a round paused
+   * midway resumes with the rest), or null when there is nobody to schedule.
+   * The round counts as complete once they have all run.
+   */
+  async getParallelRound(): Promise<TurnSchedule[] | null> {
+    if (this.agents.length === 0) return null;
+
+    const round = this.currentRound;
+    const turns = await turnStorage.getByRound(this.conversationId, round);
+    const taken = new Set(turns.map(turn => turn.sequence));
+    let nextFree = Math.max(this.agents.length - 1, ...taken) + 1;
+
+    // Sequences follow the speaking order, but an agent keeps the slot of its earlier
+    // attempt and never takes one already used, in case the order changed while paused
+    const schedules: TurnSchedule[] = [];
+    this.agents.forEach((agent, index) => {
+      const earlier = turns.filter(turn => turn.agentId === agent.id);
+      if (earlier.some(turn => turn.state === 'completed')) return;
+
+      const sequence = earlier[0]?.sequence ?? (taken.has(index) ? nextFree++ : index);
+      schedules.push({ round, sequence, agentId: agent.id });
+    });
+    this.currentSequence = nextFree;
+    return schedules;
+  }
+
   /**
    * Moderator mode: AI moderator decides who speaks next
-   * For now, uses weighted random selection based on participation
+   * Asks the configured moderator agent (or the secretary) and falls back to
+   * a participation-weighted pick when no moderator is available or its answer is unusable
    */
   private async getNextModerated(): Promise<TurnSchedule | null> {
     if (this.agents.length === 0) return null;
 
     const messages = await messageStorage.getByConversation(this.conversationId);
-    
-    // Calculate participation scores (less participation = higher chance)
-    const participationCounts = new Map<string, number>();
-    for (const agent of this.agents) {
-      participationCounts.set(agent.id, 0);
+    const decision = await this.askModerator(messages);
+
+    return {
+      round: this.currentRound,
+      sequence: this.currentSequence++,
+      agentId: decision.agentId,
+      moderatorDecision: decision,
+    };
+  }
+
+  /**
+   * Ask the moderator agent for the next speaker
+   */
+  private async askModerator(messages: Message[]): Promise<ModeratorDecision> {
+    const conversation = await conversationStorage.getById(this.conversationId);
+    const moderator =
+      this.allAgents.find(a => a.id === conversation?.moderatorAgentId) ??
+      this.allAgents.find(a => a.isSecretary);
+
+    if (!conversation || !moderator) {
+      return this.fallbackDecision(messages, 'No moderator agent available');
     }
-    
-    for (const message of messages) {
-      if (message.agentId && participationCounts.has(message.agentId)) {
-        participationCounts.set(
-          message.agentId,
-          (participationCounts.get(message.agentId) || 0) + 1
-        );
+
+    const participationCounts = this.getParticipationCounts(messages);
+    const candidates = this.agents.map(agent => ({
+      agent,
+      messageCount: participationCounts.get(agent.id) || 0,
+    }));
+    const distilledMemory = await distilledMemoryStorage.get(this.conversationId);
+
+    const prompt = buildModeratorPrompt(
+      conversation,
+      candidates,
+      messages.slice(-MODERATOR.RECENT_MESSAGES),
+      this.allAgents,
+      distilledMemory?.openQuestions ?? []
+    );
+
+    try {
+      const response = await llmRouter.complete(moderator.llmProviderId, {
+        model: moderator.modelId,
+        messages: prompt,
+        temperature: MODERATOR.TEMPERATURE,
+        maxTokens: MODERATOR.MAX_TOKENS,
+        usage: { purpose: 'moderator', conversationId: this.conversationId, agentId: moderator.id },
+        fallbacks: moderator.modelFallbacks,
+      });
+
+      const choice = parseModeratorResponse(response.content, this.agents);
+      if (!choice) {
+        return this.fallbackDecision(messages, 'Moderator did not name a valid participant', moderator.id);
       }
+
+      return {
+        agentId: choice.agentId,
+        reasoning: choice.reasoning,
+        source: 'moderator',
+        moderatorAgentId: moderator.id,
+        decidedAt: Date.now(),
+      };
+    } catch (error) {
+      console.error('[TurnManager] Moderator request failed:', error);
+      const reason = error instanceof Error ? error.message : (error as { message?: string })?.message;
+      return this.fallbackDecision(messages, `Moderator request failed${reason ? `: ${reason}` : ''}`, moderator.id);
     }
+  }
+
+  /**
+   * Participation-weighted pick (less participation = higher chance)
+   */
+  private fallbackDecision(messages: Message[], fallbackReason: string, moderatorAgentId?: string): ModeratorDecision {
+    const participationCounts = this.getParticipationCounts(messages);
 
     // Invert to get weights (less participation = higher weight)
     const maxParticipation = Math.max(...Array.from(participationCounts.values()), 1);
@@ -117,30 +242,50 @@ export class TurnManager {
       });
     }
 
-    // Weighted random selection
+    // Weighted random selection, falling back to the first agent
     const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
     let random = Math.random() * totalWeight;
+    let chosenId = this.agents[0].id;
     
     for (const { agentId, weight } of weights) {
       random -= weight;
       if (random <= 0) {
-        const sequence = this.currentSequence++;
-        return {
-          round: this.currentRound,
-          sequence,
-          agentId,
-        };
+        chosenId = agentId;
+        break;
       }
     }
 
-    // Fallback to first agent
     return {
-      round: this.currentRound,
-      sequence: this.currentSequence++,
-      agentId: this.agents[0].id,
+      agentId: chosenId,
+      reasoning: 'Picked by participation balance',
+      source: 'fallback',
+      moderatorAgentId,
+      fallbackReason,
+      decidedAt: Date.now(),
     };
   }
 
+  /**
+   * Count messages per participating agent
+   */
+  private getParticipationCounts(messages: Message[]): Map<string, number> {
+    const participationCounts = new Map<string, number>();
+    for (const agent of this.agents) {
+      participationCounts.set(agent.id, 0);
+    }
+    
+    for (const message of messages) {
+      if (message.agentId && participationCounts.has(message.agentId)) {
+        participationCounts.set(
+          message.agentId,
+          (participationCounts.get(message.agentId) || 0) + 1
+        );
+      }
+    }
+
+    return participationCounts;
+  }
+
   /**
    * Dynamic mode: Agents can address each other with @mentions
    */
@@ -221,7 +366,8 @@ export class TurnManager {
       this.conversationId,
       schedule.agentId,
       schedule.round,
-      schedule.sequence
+      schedule.sequence,
+      schedule.moderatorDecision ? { moderatorDecision: schedule.moderatorDecision } : undefined
     );
   }
 
@@ -259,6 +405,14 @@ export class TurnManager {
     this.pendingAddresses.clear();
   }
 
+  /**
+   * Put a turn cut short by a pause back at the head of the queue
+   */
+  requeue(schedule: TurnSchedule): void {
+    this.currentRound = schedule.round;
+    this.currentSequence = schedule.sequence;
+  }
+
   /**
    * Get current round number
    */
@@ -292,7 +446,19 @@ export class TurnManager {
    * Update agents list (when agents are added/removed)
    */
   updateAgents(agents: Agent[]): void {
-    this.agents = agents.filter(a => !a.isSecretary);
+    this.agents = this.getSpeakers(agents);
+    this.allAgents = agents;
+  }
+
+  /**
+   * Agents that take regular turns, in speaking order. The secretary never does;
+   * in debate mode the judge sits out and the teams alternate.
+   */
+  private getSpeakers(agents: Agent[]): Agent[] {
+    if (this.mode === 'debate') {
+      return orderDebateSpeakers(getDebaters(agents, this.debate.judgeAgentId));
+    }
+    return agents.filter(a => !a.isSecretary);
   }
 
   /**
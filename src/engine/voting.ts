@@ -0,0 +1,55 @@
+// ============================================
+// AI Brainstorm - Voting
+// ============================================
+
+import { VOTING } from '../constants';
+import type { Vote, VoteOutcome, VoteTally } from '../types';
+
+/**
+ * Count the votes on a proposal.
+ * Abstentions don't count towards agreement; when fewer than half of the
+ * voters take a side there is no quorum.
+ */
+export function tallyVotes(votes: Array<Pick<Vote, 'stance' | 'confidence'>>): VoteTally {
+  const counts = { support: 0, oppose: 0, abstain: 0 };
+  for (const vote of votes) {
+    counts[vote.stance]++;
+  }
+
+  const decided = counts.support + counts.oppose;
+  const agreement = decided > 0 ? Math.max(counts.support, counts.oppose) / decided : 0;
+  const averageConfidence = votes.length > 0
+    ? Math.round(votes.reduce((sum, v) => sum + v.confidence, 0) / votes.length)
+    : 0;
+
+  let outcome: VoteOutcome;
+  if (decided === 0 || decided * 2 < votes.length) {
+    outcome = 'no-quorum';
+  } else if (agreement >= VOTING.CONSENSUS_THRESHOLD) {
+    outcome = counts.support >= counts.oppose ? 'consensus' : 'rejected';
+  } else {
+    outcome = 'split';
+  }
+
+  return { ...counts, agreement, averageConfidence, outcome };
+}
+
+/**
+ * Whether the voters agreed, either to adopt or to reject the proposal
+ */
+export function reachedAgreement(tally: VoteTally): boolean {
+  return tally.outcome === 'consensus' || tally.outcome === 'rejected';
+}
+
+/**
+ * Replace the vote results section at the end of the consensus areas.
+ * The section starts at the header; it is dropped when there are no results.
+ */
+export function withVoteResults(consensusAreas: string, header: string, results: string[]): string {
+  const index = consensusAreas.indexOf(header);
+  const base = (index === -1 ? consensusAreas : consensusAreas.slice(0, index)).trimEnd();
+  if (results.length === 0) return base;
+
+  const section = `${header}\n${results.map(result => `- ${result}`).join('\n')}`;
+  return base ? `${base}\n\n${section}` : section;
+}
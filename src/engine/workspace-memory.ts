@@ -0,0 +1,103 @@
+// ============================================
+// AI Brainstorm - Workspace Memory
+// ============================================
+
+import { WORKSPACE_MEMORY } from '../constants';
+import { contentWords } from './convergence';
+import type { Conversation, DistilledMemory, ResultDraft, WorkspaceMemoryEntry } from '../types';
+
+export type CollectedMemoryEntry = Omit<WorkspaceMemoryEntry, 'id' | 'createdAt'>;
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > WORKSPACE_MEMORY.MAX_ENTRY_CHARS
+    ? `${trimmed.slice(0, WORKSPACE_MEMORY.MAX_ENTRY_CHARS - 3).trimEnd()}...`
+    : trimmed;
+}
+
+// Decisions in the result draft are written as a list, one per line
+function listLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Topics for a conversation's entries: content words of the subject and the result's themes
+ */
+export function conversationTopics(conversation: Pick<Conversation, 'subject'>, themes: string[] = []): string[] {
+  const words = [conversation.subject, ...themes].flatMap(contentWords);
+  return Array.from(new Set(words)).slice(0, WORKSPACE_MEMORY.MAX_TOPICS);
+}
+
+/**
+ * Collect what a finished conversation leaves behind: its pinned facts,
+ * its decisions (from the distilled memory and the result draft, without
+ * duplicates) and its final result
+ */
+export function collectMemoryEntries(
+  conversation: Pick<Conversation, 'id' | 'subject'>,
+  memory?: Pick<DistilledMemory, 'pinnedFacts' | 'keyDecisions'> | null,
+  result?: Pick<ResultDraft, 'executiveSummary' | 'summary' | 'keyDecisions' | 'themes'> | null
+): CollectedMemoryEntry[] {
+  const topics = conversationTopics(conversation, result?.themes);
+  const source = { topics, sourceConversationId: conversation.id, sourceSubject: conversation.subject };
+  const entries: CollectedMemoryEntry[] = [];
+
+  for (const fact of memory?.pinnedFacts ?? []) {
+    if (!fact.content.trim()) continue;
+    entries.push({
+      kind: 'fact',
+      content: truncate(fact.content),
+      category: fact.category,
+      importance: fact.importance,
+      ...source,
+    });
+  }
+
+  const decisions = [...(memory?.keyDecisions ?? []), ...listLines(result?.keyDecisions ?? '')];
+  const seen = new Set(entries.map(entry => entry.content.toLowerCase()));
+  for (const decision of decisions) {
+    const content = truncate(decision);
+    if (!content || seen.has(content.toLowerCase())) continue;
+    seen.add(content.toLowerCase());
+    entries.push({ kind: 'decision', content, importance: WORKSPACE_MEMORY.DECISION_IMPORTANCE, ...source });
+  }
+
+  const summary = result?.executiveSummary?.trim() || result?.summary?.trim();
+  if (summary) {
+    entries.push({ kind: 'result', content: truncate(summary), importance: WORKSPACE_MEMORY.RESULT_IMPORTANCE, ...source });
+  }
+
+  return entries;
+}
+
+/**
+ * Rank entries against a query by keyword and topic.
+ * A topic match counts double a content match and importance breaks ties;
+ * entries that match nothing are left out.
+ */
+export function searchMemory<T extends Pick<WorkspaceMemoryEntry, 'content' | 'topics' | 'importance'>>(
+  entries: T[],
+  query: string,
+  limit: number = WORKSPACE_MEMORY.MAX_ENTRIES
+): T[] {
+  const terms = new Set(contentWords(query));
+  if (terms.size === 0) return [];
+
+  return entries
+    .map(entry => {
+      const words = new Set(contentWords(entry.content));
+      let matches = 0;
+      for (const term of terms) {
+        if (words.has(term)) matches++;
+        if (entry.topics.includes(term)) matches += 2;
+      }
+      return { entry, score: matches === 0 ? 0 : matches + entry.importance / 10 };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
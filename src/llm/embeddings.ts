@@ -0,0 +1,69 @@
+// ============================================
+// AI Brainstorm - Embeddings
+// ============================================
+
+import { EMBEDDINGS } from '../constants';
+import { contentWords } from '../engine/convergence';
+
+/**
+ * FNV-1a hash, used to place features in the vector
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors stay zero)
+ */
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? vector.map(v => v / length) : vector;
+}
+
+/**
+ * Built-in embedder that works offline: content words, word pairs and
+ * character trigrams hashed into a fixed-size vector. Texts sharing words
+ * or word stems end up close; it doesn't know synonyms like a trained model.
+ */
+export function embedLocally(text: string, dimensions: number = EMBEDDINGS.LOCAL_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so colliding features tend to cancel out
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  const words = contentWords(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, 1);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+    const padded = ` ${word} `;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.3);
+    }
+  });
+
+  return normalize(vector);
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or they differ in size)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -4,18 +4,26 @@
 
 import { OpenAIProvider } from './providers/openai-provider';
 import { AnthropicProvider } from './providers/anthropic-provider';
+import { GeminiProvider } from './providers/gemini-provider';
 import { OllamaProvider } from './providers/ollama';
+import { MockProvider } from './providers/mock-provider';
 import { BaseLLMProvider, type ExtendedProviderConfig } from './providers/base-provider';
-import { providerStorage } from '../storage/storage-manager';
+import { providerStorage, usageStorage } from '../storage/storage-manager';
 import { eventBus } from '../utils/event-bus';
+import { calculateCost } from './usage';
+import { responseCache } from './response-cache';
+import { truncate } from '../utils/helpers';
 import type {
   LLMRequestOptions,
   LLMResponse,
   LLMStreamChunk,
   LLMModel,
   LLMProviderConfig,
+  LLMError,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
 } from './types';
-import type { LLMProvider as LLMProviderEntity, ApiFormat, ProviderModel } from '../types';
+import type { LLMProvider as LLMProviderEntity, ApiFormat, ProviderModel, UsageContext, ModelRoute, ModelFailover } from '../types';
 
 /**
  * LLM Router - Routes requests to the appropriate provider
@@ -60,8 +68,12 @@ class LLMRouterService {
         return new OpenAIProvider(config, extendedConfig, entity.name);
       case 'anthropic':
         return new AnthropicProvider(config, extendedConfig, entity.name);
+      case 'gemini':
+        return new GeminiProvider(config, extendedConfig, entity.name);
       case 'ollama':
         return new OllamaProvider(config, extendedConfig, entity.name);
+      case 'mock':
+        return new MockProvider(config, extendedConfig, entity.name);
       default:
         console.warn(`[LLMRouter] Unknown API format: ${entity.apiFormat}`);
         return null;
@@ -196,6 +208,7 @@ class LLMRouterService {
         name: m.name,
         contextLength: m.contextLength,
         isCustom: false, // Auto-fetched models are not custom
+        pricing: m.pricing ? { input: m.pricing.prompt, output: m.pricing.completion } : undefined,
       }));
 
       // Sort by name
@@ -244,15 +257,16 @@ class LLMRouterService {
   }
 
   /**
-   * Send a completion request
+   * Send a completion request.
+   * Requests marked with options.cache are answered from the response cache when it holds them.
    */
   async complete(providerId: string, options: LLMRequestOptions): Promise<LLMResponse> {
-    const provider = this.providers.get(providerId);
-    if (!provider) {
-      throw new Error(`Provider not found: ${providerId}`);
-    }
+    const cached = await responseCache.lookup(providerId, options);
+    if (cached?.response) return cached.response;
 
-    return provider.complete(options);
+    const response = await this.withFailover(providerId, options, (provider, attempt) => provider.complete(attempt));
+    if (cached) await responseCache.store(cached.key, providerId, options, response);
+    return response;
   }
 
   /**
@@ -263,12 +277,151 @@ class LLMRouterService {
     options: LLMRequestOptions,
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<LLMResponse> {
+    // Once text has reached the caller, answering from another model would repeat it
+    let streamed = false;
+
+    return this.withFailover(
+      providerId,
+      options,
+      (provider, attempt) => provider.stream(attempt, (chunk) => {
+        if (chunk.content) streamed = true;
+        onChunk(chunk);
+      }),
+      () => !streamed
+    );
+  }
+
+  /**
+   * Run a request on the given model, then on each of options.fallbacks in order while
+   * the failures are retryable (see isFailoverError). Fallbacks whose provider no longer
+   * exists are skipped. Usage is recorded against the model that answered, and the
+   * response says which one that was and which ones failed before it.
+   */
+  private async withFailover(
+    providerId: string,
+    options: LLMRequestOptions,
+    request: (provider: BaseLLMProvider, options: LLMRequestOptions) => Promise<LLMResponse>,
+    canFailOver: () => boolean = () => true
+  ): Promise<LLMResponse> {
+    const routes: ModelRoute[] = [{ providerId, modelId: options.model }, ...(options.fallbacks ?? [])];
+    const failovers: ModelFailover[] = [];
+
+    for (let i = 0; i < routes.length; i++) {
+      const route = routes[i];
+      const provider = this.providers.get(route.providerId);
+      const attempt: LLMRequestOptions = { ...options, model: route.modelId };
+
+      try {
+        if (!provider) {
+          throw new Error(`Provider not found: ${route.providerId}`);
+        }
+
+        const response = await request(provider, attempt);
+        await this.recordUsage(route.providerId, route.modelId, options.usage, response);
+        return { ...response, answeredBy: route, ...(failovers.length > 0 && { failovers }) };
+      } catch (error) {
+        if (provider) this.handleToolRejection(provider, attempt, error);
+
+        const next = routes[i + 1];
+        const retryable = !provider || isFailoverError(error);
+        if (!next || !retryable || options.signal?.aborted || !canFailOver()) throw error;
+
+        const failover: ModelFailover = { ...route, error: describeError(error) };
+        failovers.push(failover);
+        console.warn(`[LLMRouter] ${route.modelId} failed (${failover.error}), failing over to ${next.modelId}`);
+        eventBus.emit('llm:failover', { failover, next, usage: options.usage });
+      }
+    }
+
+    // Unreachable: the last route either answers or throws
+    throw new Error('No model available');
+  }
+
+  /**
+   * Create embeddings for a batch of texts
+   */
+  async embed(providerId: string, options: LLMEmbeddingOptions): Promise<LLMEmbeddingResponse> {
     const provider = this.providers.get(providerId);
     if (!provider) {
       throw new Error(`Provider not found: ${providerId}`);
     }
 
-    return provider.stream(options, onChunk);
+    const response = await provider.embed(options);
+    await this.recordUsage(providerId, options.model, options.usage, {
+      inputTokens: response.inputTokens,
+      outputTokens: 0,
+      usageEstimated: response.usageEstimated,
+    });
+    return response;
+  }
+
+  /**
+   * Store the token usage (and cost, when the model has a price) of a finished call.
+   * Accounting failures are logged and never fail the request.
+   */
+  private async recordUsage(
+    providerId: string,
+    modelId: string,
+    usage: UsageContext | undefined,
+    response: Pick<LLMResponse, 'inputTokens' | 'outputTokens' | 'usageEstimated'>
+  ): Promise<void> {
+    try {
+      const entity = await providerStorage.getById(providerId);
+      const pricing = entity?.models.find(m => m.id === modelId)?.pricing;
+
+      const record = await usageStorage.record({
+        conversationId: usage?.conversationId,
+        agentId: usage?.agentId,
+        providerId,
+        modelId,
+        purpose: usage?.purpose ?? 'turn',
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+        estimated: response.usageEstimated ?? false,
+        cost: calculateCost(pricing, response.inputTokens, response.outputTokens),
+      });
+      eventBus.emit('usage:recorded', record);
+    } catch (error) {
+      console.warn('[LLMRouter] Failed to record usage:', error);
+    }
+  }
+
+  /**
+   * Check if a provider can create embeddings
+   */
+  supportsEmbeddings(providerId: string): boolean {
+    return this.providers.get(providerId)?.supportsEmbeddings ?? false;
+  }
+
+  /**
+   * Check if native tool definitions should be sent for a provider/model
+   */
+  supportsNativeTools(providerId: string, model: string): boolean {
+    return this.providers.get(providerId)?.supportsNativeTools(model) ?? false;
+  }
+
+  /**
+   * Detect an API rejecting native tool definitions (HTTP 400 mentioning tools or function calling).
+   * The model is remembered as unsupported and a TOOLS_UNSUPPORTED error is thrown
+   * so the caller can retry with the text-block protocol.
+   */
+  private handleToolRejection(provider: BaseLLMProvider, options: LLMRequestOptions, error: unknown): void {
+    if (!options.tools?.length) return;
+
+    const llmError = error as Partial<LLMError> | undefined;
+    const status = llmError?.code?.match(/^HTTP[ _](\d+)$/)?.[1];
+    if (status !== '400' || !/tool|function call/i.test(llmError?.message || '')) return;
+
+    console.warn(`[LLMRouter] ${provider.name} rejected native tools for ${options.model}, falling back to text tool calls`);
+    provider.markNativeToolsUnsupported(options.model);
+
+    const rejection: LLMError = {
+      code: 'TOOLS_UNSUPPORTED',
+      message: `Model ${options.model} does not support native tool calling`,
+      retryable: true,
+      details: error,
+    };
+    throw rejection;
   }
 
   /**
@@ -348,3 +501,36 @@ class LLMRouterService {
 // Singleton instance
 export const llmRouter = new LLMRouterService();
 
+/**
+ * Check if an error is worth trying the next model of a fallback chain:
+ * rate limits, server errors, timeouts and connections that could not be made
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (error instanceof DOMException) return error.name === 'TimeoutError';
+
+  // fetch() rejects with a TypeError when it cannot connect (refused, DNS, offline)
+  if (error instanceof TypeError) return /fetch|network|load failed/i.test(error.message);
+
+  const llmError = error as Partial<LLMError> | undefined;
+  const status = llmError?.code?.match(/^HTTP[ _](\d+)$/)?.[1];
+  if (status) return status === '408' || status === '429' || Number(status) >= 500;
+
+  return llmError?.code === 'TIMEOUT' || /timed? ?out|ECONNREFUSED|ECONNRESET|ETIMEDOUT/i.test(llmError?.message ?? '');
+}
+
+/**
+ * Short description of a failed request for failover notices
+ */
+function describeError(error: unknown): string {
+  const llmError = error as Partial<LLMError> | undefined;
+  const message = llmError?.message ?? String(error);
+  return truncate(llmError?.code ? `${llmError.code}: ${message}` : message, 200);
+}
+
+/**
+ * Check if an error means the model rejected native tool definitions
+ */
+export function isToolsUnsupportedError(error: unknown): boolean {
+  return (error as Partial<LLMError> | undefined)?.code === 'TOOLS_UNSUPPORTED';
+}
+
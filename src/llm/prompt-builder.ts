@@ -2,13 +2,13 @@
 // AI Brainstorm - Prompt Builder
 // ============================================
 
-import type { LLMMessage } from './types';
-import type { Agent, Message, Conversation, UserInterjection, Notebook, ConversationDepth } from '../types';
+import type { LLMMessage, ReasoningEffort } from './types';
+import type { Agent, Message, Conversation, UserInterjection, Notebook, ConversationDepth, DebateSide, DebateTeamScore, VoteStance, ConvergenceRecommendation, ConversationDocument } from '../types';
 import { countTokens, truncateMessagesToFit } from './token-counter';
 import { getStrategyById, getAgentInstructions } from '../strategies/starting-strategies';
 import { languageService } from '../prompts/language-service';
 import type { PromptTemplates } from '../prompts/types';
-import { WORD_LIMIT, DEPTH_CONFIGS } from '../constants';
+import { WORD_LIMIT, DEPTH_CONFIGS, DEBATE, CONVERGENCE, REASONING } from '../constants';
 
 // ----- Conversation Depth Configuration -----
 
@@ -325,6 +325,11 @@ export function buildConversationMessages(context: PromptContext): LLMMessage[]
         role: 'user',
         content: `${prompts.context.messagePrefixes.user}${message.content}`,
       });
+    } else if (message.type === 'vote') {
+      // Votes are shown once counted
+      if (message.voteTally) {
+        messages.push({ role: 'system', content: formatVoteResult(message, context.conversation.targetLanguage) });
+      }
     } else {
       // Other agents' messages
       const addressedTo = message.addressedTo
@@ -480,6 +485,23 @@ export function creativityToTemperature(level: number): number {
   return 0.3 + ((level - 1) / 4) * 0.7;
 }
 
+/**
+ * Map thinking depth to the reasoning effort of reasoning models
+ */
+export function thinkingDepthToReasoningEffort(depth: number): ReasoningEffort {
+  // 1-2 low, 3 medium, 4-5 high
+  if (depth <= 2) return 'low';
+  return depth === 3 ? 'medium' : 'high';
+}
+
+/**
+ * Map thinking depth to an extended thinking budget in tokens
+ */
+export function thinkingDepthToThinkingBudget(depth: number): number {
+  // 1 = 1024 tokens, doubling per level up to 16384 at 5
+  return REASONING.MIN_THINKING_BUDGET * 2 ** (Math.min(Math.max(depth, 1), 5) - 1);
+}
+
 // ============================================
 // Context Distillation Prompts
 // ============================================
@@ -648,3 +670,512 @@ export function parseDistillationResponse(response: string): DistillationOutput
     return null;
   }
 }
+
+// ============================================
+// Moderator Prompts
+// ============================================
+
+/**
+ * Speaker choice returned by the moderator
+ */
+export interface ModeratorChoice {
+  agentId: string;
+  reasoning: string;
+}
+
+/**
+ * Build the prompt asking a moderator which participant should speak next.
+ * 
+ * @param conversation - The conversation being moderated
+ * @param candidates - Participants eligible to speak, with their message counts so far
+ * @param recentMessages - Most recent messages (oldest first)
+ * @param allAgents - All agents in the conversation (for resolving message senders)
+ * @param openQuestions - Open questions from the distilled memory, if any
+ */
+export function buildModeratorPrompt(
+  conversation: Conversation,
+  candidates: Array<{ agent: Agent; messageCount: number }>,
+  recentMessages: Message[],
+  allAgents: Agent[],
+  openQuestions: string[]
+): LLMMessage[] {
+  const targetLanguage = conversation.targetLanguage;
+  const prompts = languageService.getPromptsSync(targetLanguage || '');
+  const moderatorPrompts = prompts.secretary.moderatorSelection
+    ?? languageService.getEnglishPrompts().secretary.moderatorSelection!;
+  const agentMap = new Map(allAgents.map(a => [a.id, a.name]));
+  const lastSpeakerId = [...recentMessages].reverse().find(m => m.type === 'response')?.agentId;
+
+  const participants = candidates.map(({ agent, messageCount }) => {
+    const lastNote = agent.id === lastSpeakerId ? ', spoke last' : '';
+    return `- ${agent.name} (${agent.role}; expertise: ${agent.expertise}) - ${messageCount} contributions${lastNote}`;
+  }).join('\n');
+
+  const messages = recentMessages.length > 0
+    ? recentMessages.map(m => {
+        const senderName = m.agentId ? agentMap.get(m.agentId) || 'Unknown' : 'User';
+        return `[${senderName}]: ${m.content}`;
+      }).join('\n\n')
+    : '(No messages yet)';
+
+  let systemPrompt = prompts.secretary.neutralityPrompt;
+  systemPrompt += `\n\n${languageService.interpolate(moderatorPrompts.system, {
+    subject: conversation.subject,
+    goal: conversation.goal,
+  })}`;
+
+  if (targetLanguage) {
+    systemPrompt += `\n\nLANGUAGE REQUIREMENT: Write the "reasoning" value in ${targetLanguage}. Keep "nextSpeaker" exactly as listed.`;
+  }
+
+  const userPrompt = languageService.interpolate(moderatorPrompts.user, {
+    participants,
+    openQuestions: openQuestions.length > 0 ? `- ${openQuestions.join('\n- ')}` : '(None recorded)',
+    messages,
+  });
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * Parse the moderator's speaker choice.
+ * Accepts either the participant name or ID in "nextSpeaker".
+ * Returns null if the response is not valid JSON or names an unknown participant.
+ */
+export function parseModeratorResponse(
+  response: string,
+  candidates: Array<Pick<Agent, 'id' | 'name'>>
+): ModeratorChoice | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  const speaker = typeof parsed.nextSpeaker === 'string' ? parsed.nextSpeaker.trim() : '';
+  if (!speaker) return null;
+
+  const normalized = speaker.replace(/^@/, '').toLowerCase();
+  const agent =
+    candidates.find(a => a.id === speaker) ??
+    candidates.find(a => a.name.toLowerCase() === normalized);
+  if (!agent) return null;
+
+  return {
+    agentId: agent.id,
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning.trim() : '',
+  };
+}
+
+/**
+ * Verdict returned by the debate judge
+ */
+export interface DebateJudgeResult {
+  winner: DebateSide | 'draw';
+  scores: DebateTeamScore[];
+  reasoning: string;
+}
+
+/**
+ * Build the prompt asking the judge to score both teams and declare a winner.
+ * 
+ * @param conversation - The debate being judged
+ * @param teams - Debaters on each side
+ * @param messages - All conversation messages (only responses are shown to the judge)
+ * @param allAgents - All agents in the conversation (for resolving message senders)
+ */
+export function buildDebateJudgePrompt(
+  conversation: Conversation,
+  teams: Record<DebateSide, Agent[]>,
+  messages: Message[],
+  allAgents: Agent[]
+): LLMMessage[] {
+  const targetLanguage = conversation.targetLanguage;
+  const prompts = languageService.getPromptsSync(targetLanguage || '');
+  const judgePrompts = prompts.secretary.debateJudge
+    ?? languageService.getEnglishPrompts().secretary.debateJudge!;
+  const agentMap = new Map(allAgents.map(a => [a.id, a.name]));
+  const sideOf = new Map<string, DebateSide>();
+  for (const side of ['pro', 'con'] as const) {
+    for (const agent of teams[side]) sideOf.set(agent.id, side);
+  }
+
+  const teamList = (['pro', 'con'] as const).map(side =>
+    `${side.toUpperCase()}: ${teams[side].map(a => a.name).join(', ') || '(nobody)'}`
+  ).join('\n');
+
+  const responses = messages.filter(m => m.type === 'response' && m.agentId && sideOf.has(m.agentId));
+  const transcript = responses.length > 0
+    ? responses.map(m => {
+        const side = sideOf.get(m.agentId!)!.toUpperCase();
+        return `[Round ${m.round + 1}] ${agentMap.get(m.agentId!) || 'Unknown'} (${side}): ${m.content}`;
+      }).join('\n\n')
+    : '(No arguments were made)';
+
+  // The judge has to take a side, so the secretary's neutrality rules don't apply here
+  let systemPrompt = languageService.interpolate(judgePrompts.system, {
+    subject: conversation.subject,
+    goal: conversation.goal,
+    rubric: DEBATE.RUBRIC.join(', '),
+    maxScore: DEBATE.MAX_SCORE,
+  });
+
+  if (targetLanguage) {
+    systemPrompt += `\n\nLANGUAGE REQUIREMENT: Write the "reasoning" value in ${targetLanguage}. Keep the JSON keys and the "winner" value in English.`;
+  }
+
+  const userPrompt = languageService.interpolate(judgePrompts.user, {
+    teams: teamList,
+    transcript,
+  });
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * Parse the judge's verdict.
+ * Scores are clamped to the rubric range and missing criteria count as 0.
+ * When "winner" is missing or invalid, it is derived from the totals.
+ * Returns null if the response is not valid JSON or has no scores.
+ */
+export function parseDebateVerdict(response: string): DebateJudgeResult | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  if (!parsed.scores || typeof parsed.scores !== 'object') return null;
+
+  const scores: DebateTeamScore[] = (['pro', 'con'] as const).map(side => {
+    const source = parsed.scores[side] ?? {};
+    const criteria: Record<string, number> = {};
+    for (const criterion of DEBATE.RUBRIC) {
+      const value = Number(source[criterion]);
+      criteria[criterion] = Number.isFinite(value) ? Math.max(0, Math.min(DEBATE.MAX_SCORE, value)) : 0;
+    }
+    return { side, criteria, total: Object.values(criteria).reduce((sum, v) => sum + v, 0) };
+  });
+
+  const declared = typeof parsed.winner === 'string' ? parsed.winner.trim().toLowerCase() : '';
+  const [pro, con] = scores;
+  const winner: DebateSide | 'draw' = declared === 'pro' || declared === 'con' || declared === 'draw'
+    ? declared
+    : pro.total === con.total ? 'draw' : pro.total > con.total ? 'pro' : 'con';
+
+  return {
+    winner,
+    scores,
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning.trim() : '',
+  };
+}
+
+/**
+ * An agent's vote as parsed from its answer
+ */
+export interface VoteChoice {
+  stance: VoteStance;
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Format recent messages as a plain transcript
+ */
+function formatTranscript(messages: Message[], allAgents: Agent[]): string {
+  const agentMap = new Map(allAgents.map(a => [a.id, a.name]));
+  return messages.length > 0
+    ? messages.map(m => {
+        const senderName = m.agentId ? agentMap.get(m.agentId) || 'Unknown' : 'User';
+        const content = m.type === 'vote' && m.voteTally ? formatVoteResult(m) : m.content;
+        return `[${senderName}]: ${content}`;
+      }).join('\n\n')
+    : '(No messages yet)';
+}
+
+/**
+ * Build the prompt asking an agent to vote on a proposal.
+ * The agent votes in character, with its usual system prompt.
+ * 
+ * @param agent - The voting agent
+ * @param conversation - The conversation the vote was called in
+ * @param proposal - The proposal being voted on
+ * @param recentMessages - Most recent messages (oldest first)
+ * @param allAgents - All agents in the conversation (for resolving message senders)
+ */
+export function buildVotePrompt(
+  agent: Agent,
+  conversation: Conversation,
+  proposal: string,
+  recentMessages: Message[],
+  allAgents: Agent[]
+): LLMMessage[] {
+  const targetLanguage = conversation.targetLanguage;
+  const prompts = languageService.getPromptsSync(targetLanguage || '');
+  const votingPrompts = prompts.context.voting ?? languageService.getEnglishPrompts().context.voting!;
+
+  let systemPrompt = buildSystemPrompt(agent, conversation);
+  if (targetLanguage) {
+    systemPrompt += `\n\nLANGUAGE REQUIREMENT: Write the "reason" value in ${targetLanguage}. Keep the JSON keys and the "stance" value in English.`;
+  }
+
+  const ballot = languageService.interpolate(votingPrompts.ballot, {
+    agentName: agent.name,
+    proposal,
+  });
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `${formatTranscript(recentMessages, allAgents)}\n\n${ballot}` },
+  ];
+}
+
+/**
+ * Parse an agent's vote.
+ * Confidence is clamped to 0-100 (50 when missing) and only the first line of the reason is kept.
+ * Returns null if the response is not valid JSON or has no valid stance.
+ */
+export function parseVoteResponse(response: string): VoteChoice | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  const stance = typeof parsed.stance === 'string' ? parsed.stance.trim().toLowerCase() : '';
+  if (stance !== 'support' && stance !== 'oppose' && stance !== 'abstain') return null;
+
+  const confidence = Number(parsed.confidence);
+  return {
+    stance,
+    confidence: Number.isFinite(confidence) ? Math.round(Math.max(0, Math.min(100, confidence))) : 50,
+    reason: typeof parsed.reason === 'string' ? parsed.reason.trim().split('\n')[0] : '',
+  };
+}
+
+/**
+ * Describe a counted vote in one line, e.g. for agents' context and the consensus areas
+ */
+export function formatVoteResult(message: Pick<Message, 'content' | 'voteTally'>, targetLanguage?: string): string {
+  const prompts = languageService.getPromptsSync(targetLanguage || '');
+  const votingPrompts = prompts.context.voting ?? languageService.getEnglishPrompts().context.voting!;
+  const tally = message.voteTally;
+  if (!tally) return message.content;
+
+  const outcomes = {
+    consensus: votingPrompts.consensus,
+    rejected: votingPrompts.rejected,
+    split: votingPrompts.split,
+    'no-quorum': votingPrompts.noQuorum,
+  };
+
+  return languageService.interpolate(votingPrompts.result, {
+    proposal: message.content,
+    support: tally.support,
+    oppose: tally.oppose,
+    abstain: tally.abstain,
+    outcome: outcomes[tally.outcome],
+    agreement: Math.round(tally.agreement * 100),
+  });
+}
+
+/**
+ * Build the prompt asking the secretary whether the discussion has reached a decision point.
+ * 
+ * @param conversation - The conversation being checked
+ * @param recentMessages - Most recent messages (oldest first)
+ * @param allAgents - All agents in the conversation (for resolving message senders)
+ * @param previousProposals - Proposals already voted on, so they aren't called again
+ */
+export function buildDecisionPointPrompt(
+  conversation: Conversation,
+  recentMessages: Message[],
+  allAgents: Agent[],
+  previousProposals: string[]
+): LLMMessage[] {
+  const targetLanguage = conversation.targetLanguage;
+  const prompts = languageService.getPromptsSync(targetLanguage || '');
+  const decisionPrompts = prompts.secretary.decisionPoint
+    ?? languageService.getEnglishPrompts().secretary.decisionPoint!;
+
+  let systemPrompt = prompts.secretary.neutralityPrompt;
+  systemPrompt += `\n\n${languageService.interpolate(decisionPrompts.system, {
+    subject: conversation.subject,
+    goal: conversation.goal,
+    previousProposals: previousProposals.length > 0 ? `- ${previousProposals.join('\n- ')}` : '(None)',
+  })}`;
+
+  if (targetLanguage) {
+    systemPrompt += `\n\nLANGUAGE REQUIREMENT: Write the "proposal" value in ${targetLanguage}.`;
+  }
+
+  const userPrompt = languageService.interpolate(decisionPrompts.user, {
+    messages: formatTranscript(recentMessages, allAgents),
+  });
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * Parse the secretary's decision-point check.
+ * Returns the proposal to vote on, or null when no vote should be called
+ * (or the response is not valid JSON).
+ */
+export function parseDecisionPoint(response: string): string | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  const proposal = typeof parsed.proposal === 'string' ? parsed.proposal.trim() : '';
+  return parsed.callVote === true && proposal ? proposal : null;
+}
+
+/**
+ * The secretary's reading of a round's convergence
+ */
+export interface ConvergenceView {
+  openQuestions: string[];
+  recommendation: ConvergenceRecommendation;
+  reasoning: string;
+}
+
+/**
+ * Build the prompt asking the secretary how far the discussion has converged after a round.
+ * 
+ * @param conversation - The conversation being checked
+ * @param round - The round that just completed (0-based)
+ * @param roundMessages - The round's messages
+ * @param allAgents - All agents in the conversation (for resolving message senders)
+ * @param previousQuestions - Open questions after the previous round
+ * @param measured - Novelty and repetition measured for the round (0-1)
+ */
+export function buildConvergencePrompt(
+  conversation: Conversation,
+  round: number,
+  roundMessages: Message[],
+  allAgents: Agent[],
+  previousQuestions: string[],
+  measured: { novelty: number; repetition: number }
+): LLMMessage[] {
+  const targetLanguage = conversation.targetLanguage;
+  const prompts = languageService.getPromptsSync(targetLanguage || '');
+  const convergencePrompts = prompts.secretary.convergence
+    ?? languageService.getEnglishPrompts().secretary.convergence!;
+  const roundLimit = conversation.recommendedRounds || conversation.maxRounds;
+
+  let systemPrompt = prompts.secretary.neutralityPrompt;
+  systemPrompt += `\n\n${languageService.interpolate(convergencePrompts.system, {
+    subject: conversation.subject,
+    goal: conversation.goal,
+    roundLimit: roundLimit ? String(roundLimit) : '-',
+  })}`;
+
+  if (targetLanguage) {
+    systemPrompt += `\n\nLANGUAGE REQUIREMENT: Write the "openQuestions" and "reasoning" values in ${targetLanguage}.`;
+  }
+
+  const userPrompt = languageService.interpolate(convergencePrompts.user, {
+    round: round + 1,
+    messages: formatTranscript(roundMessages, allAgents),
+    previousQuestions: previousQuestions.length > 0 ? `- ${previousQuestions.join('\n- ')}` : '(None)',
+    novelty: Math.round(measured.novelty * 100),
+    repetition: Math.round(measured.repetition * 100),
+  });
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * Parse the secretary's convergence check.
+ * An unknown recommendation counts as "continue"; returns null when the response is not valid JSON.
+ */
+export function parseConvergenceResponse(response: string): ConvergenceView | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  const openQuestions = Array.isArray(parsed.openQuestions)
+    ? parsed.openQuestions
+        .filter((q: unknown): q is string => typeof q === 'string' && q.trim() !== '')
+        .map((q: string) => q.trim())
+        .slice(0, CONVERGENCE.MAX_OPEN_QUESTIONS)
+    : [];
+  const recommendation = typeof parsed.recommendation === 'string' ? parsed.recommendation.trim().toLowerCase() : '';
+
+  return {
+    openQuestions,
+    recommendation: recommendation === 'stop' || recommendation === 'extend' ? recommendation : 'continue',
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning.trim() : '',
+  };
+}
+
+/**
+ * Build the prompt for the secretary's summary of an attached document
+ */
+export function buildDocumentSummaryPrompt(
+  conversation: Conversation,
+  document: ConversationDocument,
+  content: string
+): LLMMessage[] {
+  const targetLanguage = conversation.targetLanguage;
+  const prompts = languageService.getPromptsSync(targetLanguage || '');
+  const summaryPrompts = prompts.secretary.documentSummary
+    ?? languageService.getEnglishPrompts().secretary.documentSummary!;
+
+  let systemPrompt = prompts.secretary.neutralityPrompt;
+  systemPrompt += `\n\n${languageService.interpolate(summaryPrompts.system, {
+    subject: conversation.subject,
+    goal: conversation.goal,
+  })}`;
+
+  if (targetLanguage) {
+    systemPrompt += `\n\nLANGUAGE REQUIREMENT: Write the summary in ${targetLanguage}.`;
+  }
+
+  const userPrompt = languageService.interpolate(summaryPrompts.user, {
+    name: document.name,
+    format: document.format,
+    content,
+  });
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+}
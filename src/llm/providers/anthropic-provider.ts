@@ -9,9 +9,12 @@ import type {
   LLMStreamChunk,
   LLMModel,
   LLMProviderConfig,
+  LLMMessage,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMThinkingBlock,
 } from '../types';
 import type { ApiFormat } from '../../types';
-import { countTokens } from '../token-counter';
 import { CACHE } from '../../constants';
 
 const DEFAULT_BASE_URL = 'https://api.anthropic.com';
@@ -19,11 +22,26 @@ const DEFAULT_BASE_URL = 'https://api.anthropic.com';
 /**
  * Anthropic API response types
  */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
+
+type AnthropicRequestBlock =
+  | AnthropicContentBlock
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicRequestMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicRequestBlock[];
+}
+
 interface AnthropicMessage {
   id: string;
   type: 'message';
   role: 'assistant';
-  content: Array<{ type: 'text'; text: string }>;
+  content: Array<AnthropicContentBlock>;
   model: string;
   stop_reason: string | null;
   stop_sequence: string | null;
@@ -39,8 +57,12 @@ interface AnthropicStreamEvent {
   delta?: {
     type: string;
     text?: string;
+    thinking?: string;
+    signature?: string;
+    partial_json?: string;
     stop_reason?: string;
   };
+  content_block?: AnthropicContentBlock;
   message?: AnthropicMessage;
   usage?: {
     output_tokens: number;
@@ -49,7 +71,9 @@ interface AnthropicStreamEvent {
 
 /**
  * Anthropic-Compatible LLM Provider
- * Handles Anthropic Claude API format
+ * Handles Anthropic Claude API format, including extended thinking
+ * (options.thinkingBudget): thinking streams apart from the text and its
+ * blocks go back unchanged with the tool calls they preceded
  */
 export class AnthropicProvider extends BaseLLMProvider {
   private modelsCache: LLMModel[] | null = null;
@@ -77,6 +101,10 @@ export class AnthropicProvider extends BaseLLMProvider {
     return 'anthropic';
   }
 
+  get supportsToolCalling(): boolean {
+    return true;
+  }
+
   isConfigured(): boolean {
     return !!this.config.apiKey && this.config.apiKey.length > 0;
   }
@@ -138,7 +166,7 @@ export class AnthropicProvider extends BaseLLMProvider {
       throw this.createError('NOT_CONFIGURED', 'Anthropic API key not configured', false);
     }
 
-    const controller = this.createAbortController(options.signal);
+    const signal = this.createRequestSignal(options.signal);
 
     // Convert messages to Anthropic format
     const { systemMessage, messages } = this.convertMessages(options.messages);
@@ -154,27 +182,39 @@ export class AnthropicProvider extends BaseLLMProvider {
         },
         body: JSON.stringify({
           model: options.model,
-          max_tokens: options.maxTokens || 4096,
-          temperature: options.temperature ?? 0.7,
+          ...this.buildOutputParams(options),
           system: systemMessage,
           messages,
+          ...(options.tools?.length && { tools: this.formatTools(options.tools) }),
         }),
-        signal: controller.signal,
+        signal,
       }
     );
 
     const data = await response.json() as AnthropicMessage;
 
     const content = data.content
-      .filter(block => block.type === 'text')
-      .map(block => block.text)
+      .map(block => block.type === 'text' ? block.text : '')
       .join('');
 
+    const toolCalls: LLMToolCall[] = data.content.flatMap(block =>
+      block.type === 'tool_use'
+        ? [{ id: block.id, name: block.name, arguments: this.parseToolArguments(block.input) }]
+        : []
+    );
+
+    const thinkingBlocks = data.content.flatMap(block => this.toThinkingBlock(block));
+
     return {
       content,
-      tokensUsed: data.usage.input_tokens + data.usage.output_tokens,
+      ...this.buildUsage(options, content, toolCalls, {
+        input: data.usage?.input_tokens,
+        output: data.usage?.output_tokens,
+      }),
       finishReason: data.stop_reason || 'stop',
       model: data.model,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...this.thinkingFields(thinkingBlocks),
     };
   }
 
@@ -186,7 +226,7 @@ export class AnthropicProvider extends BaseLLMProvider {
       throw this.createError('NOT_CONFIGURED', 'Anthropic API key not configured', false);
     }
 
-    const controller = this.createAbortController(options.signal);
+    const signal = this.createRequestSignal(options.signal);
 
     // Convert messages to Anthropic format
     const { systemMessage, messages } = this.convertMessages(options.messages);
@@ -200,13 +240,13 @@ export class AnthropicProvider extends BaseLLMProvider {
       },
       body: JSON.stringify({
         model: options.model,
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature ?? 0.7,
+        ...this.buildOutputParams(options),
         system: systemMessage,
         messages,
         stream: true,
+        ...(options.tools?.length && { tools: this.formatTools(options.tools) }),
       }),
-      signal: controller.signal,
+      signal,
     });
 
     if (!response.ok) {
@@ -222,7 +262,12 @@ export class AnthropicProvider extends BaseLLMProvider {
     let fullContent = '';
     let finishReason = 'stop';
     let model = options.model;
-    let tokensUsed = 0;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    // tool_use blocks stream their input as partial JSON, keyed by block index
+    const streamedToolCalls = new Map<number, { id: string; name: string; json: string }>();
+    // Thinking blocks stream their text, then a signature, keyed by block index
+    const streamedThinking = new Map<number, LLMThinkingBlock>();
 
     try {
       for await (const data of this.parseSSEStream(reader)) {
@@ -233,17 +278,56 @@ export class AnthropicProvider extends BaseLLMProvider {
             fullContent += event.delta.text;
             onChunk({ content: event.delta.text, done: false });
           }
+
+          if (event.type === 'content_block_start' && event.content_block?.type === 'thinking') {
+            streamedThinking.set(event.index ?? streamedThinking.size, { thinking: '', signature: '' });
+          }
+
+          if (event.type === 'content_block_start' && event.content_block?.type === 'redacted_thinking') {
+            streamedThinking.set(event.index ?? streamedThinking.size, { redactedData: event.content_block.data });
+          }
+
+          if (event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta' && event.delta.thinking) {
+            const block = streamedThinking.get(event.index ?? -1);
+            if (block && 'thinking' in block) {
+              block.thinking += event.delta.thinking;
+            }
+            onChunk({ content: '', thinking: event.delta.thinking, done: false });
+          }
+
+          if (event.type === 'content_block_delta' && event.delta?.type === 'signature_delta') {
+            const block = streamedThinking.get(event.index ?? -1);
+            if (block && 'signature' in block) {
+              block.signature += event.delta.signature || '';
+            }
+          }
+
+          if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+            streamedToolCalls.set(event.index ?? streamedToolCalls.size, {
+              id: event.content_block.id,
+              name: event.content_block.name,
+              json: '',
+            });
+          }
+
+          if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+            const call = streamedToolCalls.get(event.index ?? -1);
+            if (call) {
+              call.json += event.delta.partial_json || '';
+            }
+          }
           
           if (event.type === 'message_delta' && event.delta?.stop_reason) {
             finishReason = event.delta.stop_reason;
           }
 
           if (event.type === 'message_delta' && event.usage) {
-            tokensUsed = event.usage.output_tokens;
+            outputTokens = event.usage.output_tokens;
           }
 
           if (event.type === 'message_start' && event.message) {
             model = event.message.model;
+            inputTokens = event.message.usage?.input_tokens;
           }
         } catch {
           // Skip invalid JSON chunks
@@ -252,36 +336,133 @@ export class AnthropicProvider extends BaseLLMProvider {
 
       onChunk({ content: '', done: true });
 
-      // Estimate tokens if not provided by the API
-      const estimatedTokens = tokensUsed > 0 ? tokensUsed : countTokens(fullContent);
+      const toolCalls: LLMToolCall[] = Array.from(streamedToolCalls.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, call]) => ({
+          id: call.id,
+          name: call.name,
+          arguments: this.parseToolArguments(call.json),
+        }));
+
+      const thinkingBlocks = Array.from(streamedThinking.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, block]) => block);
 
       return {
         content: fullContent,
-        tokensUsed: estimatedTokens,
+        ...this.buildUsage(options, fullContent, toolCalls, { input: inputTokens, output: outputTokens }),
         finishReason,
         model,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        ...this.thinkingFields(thinkingBlocks),
       };
     } finally {
       reader.releaseLock();
     }
   }
 
+  /**
+   * Output limit and sampling. Extended thinking needs max_tokens above the budget
+   * (the reply keeps its own allowance) and rejects a custom temperature.
+   */
+  private buildOutputParams(options: LLMRequestOptions): Record<string, unknown> {
+    const maxTokens = options.maxTokens || 4096;
+    if (!options.thinkingBudget) {
+      return { max_tokens: maxTokens, temperature: options.temperature ?? 0.7 };
+    }
+    return {
+      max_tokens: maxTokens + options.thinkingBudget,
+      thinking: { type: 'enabled', budget_tokens: options.thinkingBudget },
+    };
+  }
+
+  private toThinkingBlock(block: AnthropicContentBlock): LLMThinkingBlock[] {
+    if (block.type === 'thinking') return [{ thinking: block.thinking, signature: block.signature }];
+    if (block.type === 'redacted_thinking') return [{ redactedData: block.data }];
+    return [];
+  }
+
+  /**
+   * The readable thinking text and the blocks to send back with tool calls
+   */
+  private thinkingFields(blocks: LLMThinkingBlock[]): Pick<LLMResponse, 'reasoning' | 'thinkingBlocks'> {
+    if (blocks.length === 0) return {};
+
+    const reasoning = blocks
+      .map(block => ('thinking' in block ? block.thinking : ''))
+      .filter(text => text.trim())
+      .join('\n\n');
+    return { ...(reasoning && { reasoning }), thinkingBlocks: blocks };
+  }
+
+  /**
+   * Convert tool definitions to Anthropic's tool format
+   */
+  private formatTools(tools: LLMToolDefinition[]): Array<{
+    name: string;
+    description?: string;
+    input_schema: Record<string, unknown>;
+  }> {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    }));
+  }
+
   /**
    * Convert OpenAI-style messages to Anthropic format
+   * Tool calls become tool_use blocks; tool results become tool_result blocks in a user message
    */
-  private convertMessages(messages: Array<{ role: string; content: string }>): {
+  private convertMessages(messages: LLMMessage[]): {
     systemMessage: string;
-    messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+    messages: AnthropicRequestMessage[];
   } {
     let systemMessage = '';
-    const anthropicMessages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+    const anthropicMessages: AnthropicRequestMessage[] = [];
 
     for (const msg of messages) {
       if (msg.role === 'system') {
         systemMessage += (systemMessage ? '\n' : '') + msg.content;
+      } else if (msg.role === 'tool') {
+        const block: AnthropicRequestBlock = {
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId || '',
+          content: msg.content,
+        };
+        // Consecutive tool results share one user message
+        const previous = anthropicMessages[anthropicMessages.length - 1];
+        if (this.isToolResultMessage(previous)) {
+          (previous.content as AnthropicRequestBlock[]).push(block);
+        } else {
+          anthropicMessages.push({ role: 'user', content: [block] });
+        }
+      } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        anthropicMessages.push({
+          role: 'assistant',
+          content: [
+            // Thinking must come first and unchanged when the model used tools
+            ...(msg.thinkingBlocks ?? []).map((block): AnthropicRequestBlock => ('redactedData' in block
+              ? { type: 'redacted_thinking', data: block.redactedData }
+              : { type: 'thinking', thinking: block.thinking, signature: block.signature })),
+            ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+            ...msg.toolCalls.map(call => ({
+              type: 'tool_use' as const,
+              id: call.id,
+              name: call.name,
+              input: call.arguments,
+            })),
+          ],
+        });
+      } else if (msg.role === 'user' && this.isToolResultMessage(anthropicMessages[anthropicMessages.length - 1])) {
+        // Text after tool results joins the same user message
+        (anthropicMessages[anthropicMessages.length - 1].content as AnthropicRequestBlock[]).push({
+          type: 'text',
+          text: msg.content,
+        });
       } else if (msg.role === 'user' || msg.role === 'assistant') {
         anthropicMessages.push({
-          role: msg.role as 'user' | 'assistant',
+          role: msg.role,
           content: msg.content,
         });
       }
@@ -298,6 +479,14 @@ export class AnthropicProvider extends BaseLLMProvider {
     return { systemMessage, messages: anthropicMessages };
   }
 
+  /**
+   * Check whether a message is a user message carrying tool results
+   */
+  private isToolResultMessage(message: AnthropicRequestMessage | undefined): message is AnthropicRequestMessage {
+    return message?.role === 'user' && Array.isArray(message.content) &&
+      message.content.some(b => b.type === 'tool_result');
+  }
+
   /**
    * Clear the models cache
    */
@@ -9,10 +9,15 @@ import type {
   LLMModel,
   LLMProviderConfig,
   LLMError,
+  LLMToolDefinition,
+  LLMToolCall,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
 } from '../types';
 import type { ApiFormat, ProviderModel } from '../../types';
 import { RETRY } from '../../constants';
 import { RateLimiter, type RateLimiterConfig } from '../rate-limiter';
+import { countTokens, countMessageTokens } from '../token-counter';
 
 /**
  * Extended provider config with user-defined models
@@ -29,8 +34,9 @@ export interface ExtendedProviderConfig extends LLMProviderConfig {
 export abstract class BaseLLMProvider {
   protected config: LLMProviderConfig;
   protected extendedConfig: ExtendedProviderConfig;
-  protected abortController: AbortController | null = null;
+  private abortController = new AbortController(); // Aborted and replaced by abort()
   protected rateLimiter: RateLimiter;
+  private nativeToolsRejected: Set<string> = new Set(); // Model IDs whose API rejected tool definitions
 
   constructor(config: LLMProviderConfig, extendedConfig?: Partial<ExtendedProviderConfig>) {
     this.config = config;
@@ -107,6 +113,42 @@ export abstract class BaseLLMProvider {
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<LLMResponse>;
 
+  /**
+   * Whether this provider's API format has native tool calling
+   */
+  get supportsToolCalling(): boolean {
+    return false;
+  }
+
+  /**
+   * Whether this provider's API can create embeddings
+   */
+  get supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  /**
+   * Create embeddings for a batch of texts
+   */
+  async embed(_options: LLMEmbeddingOptions): Promise<LLMEmbeddingResponse> {
+    throw this.createError('EMBEDDINGS_UNSUPPORTED', `${this.name} does not create embeddings`, false);
+  }
+
+  /**
+   * Check if native tool definitions should be sent for a model
+   * Models that rejected tool definitions fall back to the text-block protocol
+   */
+  supportsNativeTools(model: string): boolean {
+    return this.supportsToolCalling && !this.nativeToolsRejected.has(model);
+  }
+
+  /**
+   * Remember that a model rejected native tool definitions (for this session)
+   */
+  markNativeToolsUnsupported(model: string): void {
+    this.nativeToolsRejected.add(model);
+  }
+
   /**
    * Update user-defined models
    */
@@ -122,30 +164,37 @@ export abstract class BaseLLMProvider {
   }
 
   /**
-   * Abort any ongoing request
+   * Abort all ongoing requests
    */
   abort(): void {
-    if (this.abortController) {
-      this.abortController.abort();
-      this.abortController = null;
-    }
+    this.abortController.abort();
+    this.abortController = new AbortController();
   }
 
   /**
-   * Create a new AbortController for a request
+   * Create the abort signal for a request, following abort() and the caller's signal.
+   * Requests don't cancel each other, so several turns can share a provider at once.
    */
-  protected createAbortController(externalSignal?: AbortSignal): AbortController {
-    this.abort(); // Cancel any existing request
-    this.abortController = new AbortController();
+  protected createRequestSignal(externalSignal?: AbortSignal): AbortSignal {
+    if (!externalSignal) {
+      return this.abortController.signal;
+    }
 
-    // Link external signal if provided
-    if (externalSignal) {
-      externalSignal.addEventListener('abort', () => {
-        this.abortController?.abort();
-      });
+    // Use AbortSignal.any if available (Chrome 116+, Firefox 124+, Safari 17.4+)
+    if ((AbortSignal as any).any) {
+      return (AbortSignal as any).any([this.abortController.signal, externalSignal]);
     }
 
-    return this.abortController;
+    // Otherwise forward both signals to a controller of the request's own
+    const controller = new AbortController();
+    for (const signal of [this.abortController.signal, externalSignal]) {
+      if (signal.aborted) {
+        controller.abort();
+        break;
+      }
+      signal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+    return controller.signal;
   }
 
   /**
@@ -176,12 +225,45 @@ export abstract class BaseLLMProvider {
     this.rateLimiter.recordTokens(tokens);
   }
 
+  /**
+   * Build the usage fields of a response, estimating any count the API did not report
+   */
+  protected buildUsage(
+    options: LLMRequestOptions,
+    content: string,
+    toolCalls: LLMToolCall[],
+    reported: { input?: number; output?: number }
+  ): Pick<LLMResponse, 'tokensUsed' | 'inputTokens' | 'outputTokens' | 'usageEstimated'> {
+    const inputTokens = reported.input ?? countMessageTokens(options.messages);
+    const outputTokens = reported.output ??
+      countTokens(content) + toolCalls.reduce((sum, call) => sum + countTokens(JSON.stringify(call.arguments)), 0);
+    const usageEstimated = reported.input === undefined || reported.output === undefined;
+
+    return {
+      tokensUsed: inputTokens + outputTokens,
+      inputTokens,
+      outputTokens,
+      ...(usageEstimated && { usageEstimated }),
+    };
+  }
+
+  /**
+   * Input token count of an embedding request, estimated when the API did not report it
+   */
+  protected buildEmbeddingUsage(
+    options: LLMEmbeddingOptions,
+    reported?: number
+  ): Pick<LLMEmbeddingResponse, 'inputTokens' | 'usageEstimated'> {
+    return reported === undefined
+      ? { inputTokens: options.input.reduce((sum, text) => sum + countTokens(text), 0), usageEstimated: true }
+      : { inputTokens: reported };
+  }
+
   /**
    * Wait for rate limit slot before making request
    */
   protected async waitForRateLimit(): Promise<void> {
-    await this.rateLimiter.waitForSlot();
-    this.rateLimiter.recordRequest();
+    await this.rateLimiter.acquire();
   }
 
   /**
@@ -270,6 +352,39 @@ export abstract class BaseLLMProvider {
     };
   }
 
+  /**
+   * Convert tool definitions to the OpenAI-style function format (also used by Ollama)
+   */
+  protected formatFunctionTools(tools: LLMToolDefinition[]): Array<{ type: 'function'; function: LLMToolDefinition }> {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * Parse tool call arguments (some APIs send a JSON string, others an object)
+   */
+  protected parseToolArguments(raw: unknown): Record<string, unknown> {
+    if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+      return raw as Record<string, unknown>;
+    }
+    if (typeof raw !== 'string' || !raw.trim()) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      console.warn(`[${this.name}] Failed to parse tool arguments:`, raw);
+      return {};
+    }
+  }
+
   /**
    * Sleep utility for retry delays
    */
@@ -0,0 +1,490 @@
+// ============================================
+// AI Brainstorm - Google Gemini Provider
+// ============================================
+
+import { BaseLLMProvider, type ExtendedProviderConfig } from './base-provider';
+import type {
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMModel,
+  LLMProviderConfig,
+  LLMMessage,
+  LLMToolCall,
+  LLMToolDefinition,
+} from '../types';
+import type { ApiFormat } from '../../types';
+import { CACHE } from '../../constants';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Gemini API types
+ */
+type GeminiPart =
+  | { text: string; thought?: boolean }
+  | { functionCall: { id?: string; name: string; args?: Record<string, unknown> } }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } };
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { role?: string; parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  promptFeedback?: {
+    blockReason?: string;
+  };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+}
+
+interface GeminiModel {
+  name: string;                 // "models/gemini-2.0-flash"
+  displayName?: string;
+  description?: string;
+  inputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+}
+
+/**
+ * Google Gemini LLM Provider
+ * Handles the native generateContent / streamGenerateContent API:
+ * the assistant role is "model", system messages go in systemInstruction,
+ * and streaming uses SSE framing (alt=sse) with a full response object per event
+ */
+export class GeminiProvider extends BaseLLMProvider {
+  private modelsCache: LLMModel[] | null = null;
+  private modelsCacheTime: number = 0;
+  private readonly CACHE_TTL = CACHE.MODELS_TTL_MS;
+  private providerName: string;
+
+  constructor(
+    config: LLMProviderConfig,
+    extendedConfig?: Partial<ExtendedProviderConfig>,
+    providerName: string = 'Gemini'
+  ) {
+    super({
+      ...config,
+      baseUrl: (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    }, extendedConfig);
+    this.providerName = providerName;
+  }
+
+  get name(): string {
+    return this.providerName;
+  }
+
+  get apiFormat(): ApiFormat {
+    return 'gemini';
+  }
+
+  get supportsToolCalling(): boolean {
+    return true;
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey && this.config.apiKey.length > 0;
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': this.config.apiKey!,
+    };
+  }
+
+  async testConnection(): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/models?pageSize=1`, {
+        headers: this.headers,
+        signal: AbortSignal.timeout(10000),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error(`[${this.name}] Connection test failed:`, error);
+      return false;
+    }
+  }
+
+  async fetchModels(): Promise<LLMModel[]> {
+    // Return cached models if still valid
+    if (this.modelsCache && Date.now() - this.modelsCacheTime < this.CACHE_TTL) {
+      return this.modelsCache;
+    }
+
+    if (!this.isConfigured()) {
+      return this.getDefaultModels();
+    }
+
+    try {
+      const models: GeminiModel[] = [];
+      let pageToken: string | undefined;
+
+      // The list is paged; follow nextPageToken until it runs out
+      do {
+        const url = `${this.config.baseUrl}/models?pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+        const response = await fetch(url, {
+          headers: this.headers,
+          signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) {
+          console.warn(`[${this.name}] Failed to fetch models, using defaults`);
+          return this.getDefaultModels();
+        }
+
+        const data = await response.json() as { models?: GeminiModel[]; nextPageToken?: string };
+        models.push(...(data.models ?? []));
+        pageToken = data.nextPageToken;
+      } while (pageToken);
+
+      // Embedding and other non-chat models can't answer generateContent
+      this.modelsCache = models
+        .filter(model => model.supportedGenerationMethods?.includes('generateContent') ?? true)
+        .map(model => {
+          const id = model.name.replace(/^models\//, '');
+          return {
+            id,
+            name: model.displayName || id,
+            contextLength: model.inputTokenLimit || 32768,
+            description: model.description,
+          };
+        });
+
+      this.modelsCacheTime = Date.now();
+      return this.modelsCache;
+    } catch (error) {
+      console.error(`[${this.name}] Error fetching models:`, error);
+      return this.getDefaultModels();
+    }
+  }
+
+  private getDefaultModels(): LLMModel[] {
+    return [
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', contextLength: 1048576 },
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextLength: 1048576 },
+      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', contextLength: 1048576 },
+      { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', contextLength: 2097152 },
+      { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', contextLength: 1048576 },
+    ];
+  }
+
+  async complete(options: LLMRequestOptions): Promise<LLMResponse> {
+    if (!this.isConfigured()) {
+      throw this.createError('NOT_CONFIGURED', 'Gemini API key not configured', false);
+    }
+
+    const signal = this.createRequestSignal(options.signal);
+
+    const response = await this.fetchWithRetry(
+      `${this.config.baseUrl}/models/${encodeURIComponent(options.model)}:generateContent`,
+      {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify(this.buildRequestBody(options)),
+        signal,
+      }
+    );
+
+    const data = await response.json() as GeminiResponse;
+    this.throwIfBlocked(data);
+
+    const parts = data.candidates?.[0]?.content?.parts ?? [];
+    const content = this.extractText(parts);
+    const toolCalls = this.extractToolCalls(parts, 0);
+
+    return {
+      content,
+      ...this.buildUsage(options, content, toolCalls, this.reportedUsage(data)),
+      finishReason: this.mapFinishReason(data.candidates?.[0]?.finishReason, toolCalls),
+      model: data.modelVersion || options.model,
+      ...(toolCalls.length > 0 && { toolCalls }),
+    };
+  }
+
+  async stream(
+    options: LLMRequestOptions,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    if (!this.isConfigured()) {
+      throw this.createError('NOT_CONFIGURED', 'Gemini API key not configured', false);
+    }
+
+    const signal = this.createRequestSignal(options.signal);
+
+    const response = await fetch(
+      `${this.config.baseUrl}/models/${encodeURIComponent(options.model)}:streamGenerateContent?alt=sse`,
+      {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify(this.buildRequestBody(options)),
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw this.createError(`HTTP_${response.status}`, errorText, response.status >= 500 || response.status === 429);
+    }
+
+    if (!response.body) {
+      throw this.createError('NO_BODY', 'Response body is empty', false);
+    }
+
+    const reader = response.body.getReader();
+    let fullContent = '';
+    let finishReason: string | undefined;
+    let model = options.model;
+    let usage: { input?: number; output?: number } = {};
+    const toolCalls: LLMToolCall[] = [];
+
+    try {
+      // Each event is a complete GenerateContentResponse carrying the next piece of text
+      for await (const data of this.parseSSEStream(reader)) {
+        let event: GeminiResponse;
+        try {
+          event = JSON.parse(data) as GeminiResponse;
+        } catch {
+          continue; // Skip invalid JSON chunks
+        }
+
+        this.throwIfBlocked(event);
+
+        const candidate = event.candidates?.[0];
+        const parts = candidate?.content?.parts ?? [];
+        const text = this.extractText(parts);
+        if (text) {
+          fullContent += text;
+          onChunk({ content: text, done: false });
+        }
+
+        // Function calls arrive whole, never split across events
+        toolCalls.push(...this.extractToolCalls(parts, toolCalls.length));
+
+        if (candidate?.finishReason) finishReason = candidate.finishReason;
+        if (event.modelVersion) model = event.modelVersion;
+        // Usage is cumulative; the last event has the final counts
+        if (event.usageMetadata) usage = this.reportedUsage(event);
+      }
+
+      onChunk({ content: '', done: true });
+
+      return {
+        content: fullContent,
+        ...this.buildUsage(options, fullContent, toolCalls, usage),
+        finishReason: this.mapFinishReason(finishReason, toolCalls),
+        model,
+        ...(toolCalls.length > 0 && { toolCalls }),
+      };
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Build the generateContent request body
+   */
+  private buildRequestBody(options: LLMRequestOptions): Record<string, unknown> {
+    const { systemInstruction, contents } = this.convertMessages(options.messages);
+
+    return {
+      contents,
+      ...(systemInstruction && { systemInstruction: { parts: [{ text: systemInstruction }] } }),
+      generationConfig: {
+        temperature: options.temperature ?? 0.7,
+        ...(options.maxTokens && { maxOutputTokens: options.maxTokens }),
+      },
+      ...(options.tools?.length && { tools: [{ functionDeclarations: this.formatTools(options.tools) }] }),
+    };
+  }
+
+  /**
+   * A prompt Gemini refuses has no candidates, only a block reason
+   */
+  private throwIfBlocked(data: GeminiResponse): void {
+    const blockReason = data.promptFeedback?.blockReason;
+    if (blockReason && !data.candidates?.length) {
+      throw this.createError('BLOCKED', `Gemini blocked the prompt (${blockReason})`, false);
+    }
+  }
+
+  /**
+   * Answer text of a response, leaving out thought summaries
+   */
+  private extractText(parts: GeminiPart[]): string {
+    return parts
+      .map(part => ('text' in part && !part.thought ? part.text : ''))
+      .join('');
+  }
+
+  /**
+   * Function calls of a response; Gemini may omit call IDs, so missing ones are numbered from offset
+   */
+  private extractToolCalls(parts: GeminiPart[], offset: number): LLMToolCall[] {
+    return parts.flatMap(part => ('functionCall' in part ? [part.functionCall] : []))
+      .map((call, index) => ({
+        id: call.id || `call_${offset + index}`,
+        name: call.name,
+        arguments: this.parseToolArguments(call.args),
+      }));
+  }
+
+  private reportedUsage(data: GeminiResponse): { input?: number; output?: number } {
+    const usage = data.usageMetadata;
+    if (!usage) return {};
+    return {
+      input: usage.promptTokenCount,
+      // Thinking models bill their thoughts as output
+      output: usage.candidatesTokenCount === undefined
+        ? undefined
+        : usage.candidatesTokenCount + (usage.thoughtsTokenCount ?? 0),
+    };
+  }
+
+  /**
+   * Map Gemini finish reasons to the OpenAI-style names used across the app
+   */
+  private mapFinishReason(reason: string | undefined, toolCalls: LLMToolCall[]): string {
+    if (toolCalls.length > 0) return 'tool_calls';
+    switch (reason) {
+      case undefined:
+      case 'STOP': return 'stop';
+      case 'MAX_TOKENS': return 'length';
+      default: return reason.toLowerCase();
+    }
+  }
+
+  /**
+   * Convert tool definitions to Gemini function declarations.
+   * Gemini accepts an OpenAPI subset of JSON Schema and rejects keys like $schema.
+   */
+  private formatTools(tools: LLMToolDefinition[]): Array<{
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  }> {
+    return tools.map(tool => {
+      const parameters = stripUnsupportedSchemaKeys(tool.parameters) as Record<string, unknown>;
+      const hasProperties = Object.keys((parameters.properties as Record<string, unknown> | undefined) ?? {}).length > 0;
+      return {
+        name: tool.name,
+        description: tool.description,
+        // An object schema without properties is rejected; leave parameters out instead
+        ...(hasProperties && { parameters }),
+      };
+    });
+  }
+
+  /**
+   * Convert OpenAI-style messages to Gemini contents
+   * System messages become the system instruction, the assistant is "model", tool calls
+   * become functionCall parts and tool results functionResponse parts in a user turn.
+   * Consecutive turns of the same role are merged.
+   */
+  private convertMessages(messages: LLMMessage[]): {
+    systemInstruction: string;
+    contents: GeminiContent[];
+  } {
+    let systemInstruction = '';
+    const contents: GeminiContent[] = [];
+
+    const append = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+      const previous = contents[contents.length - 1];
+      if (previous?.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    };
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        systemInstruction += (systemInstruction ? '\n' : '') + msg.content;
+      } else if (msg.role === 'tool') {
+        append('user', [{
+          functionResponse: {
+            ...(msg.toolCallId && { id: msg.toolCallId }),
+            name: msg.toolName || this.findToolName(messages, msg.toolCallId),
+            response: { content: msg.content },
+          },
+        }]);
+      } else if (msg.role === 'assistant') {
+        append('model', [
+          ...(msg.content ? [{ text: msg.content }] : []),
+          ...(msg.toolCalls ?? []).map(call => ({
+            functionCall: { id: call.id, name: call.name, args: call.arguments },
+          })),
+        ]);
+      } else {
+        append('user', [{ text: msg.content }]);
+      }
+    }
+
+    // Gemini expects the conversation to open with a user turn
+    if (contents.length > 0 && contents[0].role !== 'user') {
+      contents.unshift({ role: 'user', parts: [{ text: 'Please continue.' }] });
+    }
+
+    return { systemInstruction, contents };
+  }
+
+  /**
+   * Name of the tool a result answers, from the assistant message that called it
+   */
+  private findToolName(messages: LLMMessage[], toolCallId?: string): string {
+    for (const msg of messages) {
+      const call = msg.toolCalls?.find(c => c.id === toolCallId);
+      if (call) return call.name;
+    }
+    return 'tool';
+  }
+
+  /**
+   * Clear the models cache
+   */
+  clearModelsCache(): void {
+    this.modelsCache = null;
+    this.modelsCacheTime = 0;
+  }
+}
+
+const UNSUPPORTED_SCHEMA_KEYS = new Set(['$schema', '$id', 'additionalProperties', 'default']);
+
+/**
+ * Copy of a JSON Schema without the keys Gemini's function declarations reject
+ */
+function stripUnsupportedSchemaKeys(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(stripUnsupportedSchemaKeys);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.has(key)) continue;
+
+    if (key === 'properties' && value && typeof value === 'object') {
+      // Property names are the user's own; only their schemas are cleaned
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, stripUnsupportedSchemaKeys(property)])
+      );
+    } else if (key === 'items' || key === 'anyOf' || key === 'oneOf' || key === 'allOf') {
+      result[key] = stripUnsupportedSchemaKeys(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,370 @@
+// ============================================
+// AI Brainstorm - Mock Provider
+// ============================================
+
+import { BaseLLMProvider, type ExtendedProviderConfig } from './base-provider';
+import type {
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMModel,
+  LLMProviderConfig,
+  LLMError,
+  LLMToolCall,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+} from '../types';
+import type { ApiFormat } from '../../types';
+import { MOCK_PROVIDER, DEBATE } from '../../constants';
+import { embedLocally } from '../embeddings';
+
+/**
+ * One scripted reply
+ */
+export interface MockReply {
+  content?: string;
+  /** Sent as native tool calls when the request carries tools, otherwise as ```tool blocks */
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+  /** Fail the call with this error instead of replying */
+  error?: Partial<LLMError>;
+  finishReason?: string;
+  /** Thinking text, streamed before the content and returned as the response's reasoning */
+  thinking?: string;
+}
+
+/**
+ * Decide the reply for a call; return undefined to fall through to the script or generated replies
+ */
+export type MockResponder = (options: LLMRequestOptions, callIndex: number) => MockReply | string | undefined;
+
+export interface MockProviderOptions {
+  /** Seed for generated replies and injected errors */
+  seed: number;
+  /** Replies used in order, one per call, before generated replies take over */
+  script: Array<MockReply | string>;
+  responder?: MockResponder;
+  /** Share of calls (0-1) that fail with a retryable error */
+  errorRate: number;
+  /** Characters per streamed chunk */
+  chunkSize: number;
+  /** Delay before each streamed chunk in ms */
+  chunkDelayMs: number;
+}
+
+const WORDS = [
+  'idea', 'approach', 'risk', 'cost', 'users', 'evidence', 'trade-off', 'option', 'timeline', 'impact',
+  'assumption', 'constraint', 'prototype', 'budget', 'feedback', 'scale', 'quality', 'team', 'market', 'value',
+];
+
+const OPENERS = [
+  'I think', 'Building on that,', 'On the other hand,', 'One concern is that', 'It seems clear that',
+  'We should consider whether', 'The data suggests', 'A simpler path is that',
+];
+
+/**
+ * Mock LLM Provider
+ * Offline provider with scripted or seeded-random replies, for demos and tests.
+ * Recognizes the JSON the app asks for (distillation, round decisions, moderator picks, debate verdicts, votes, convergence checks)
+ * so the whole engine can run without a network.
+ */
+export class MockProvider extends BaseLLMProvider {
+  private providerName: string;
+  private mockOptions: MockProviderOptions;
+  private random: () => number;
+  private scriptIndex = 0;
+  private callCount = 0;
+
+  constructor(
+    config: LLMProviderConfig,
+    extendedConfig?: Partial<ExtendedProviderConfig>,
+    providerName: string = 'Mock',
+    mockOptions: Partial<MockProviderOptions> = {}
+  ) {
+    super(config, extendedConfig);
+    this.providerName = providerName;
+    this.mockOptions = {
+      seed: parseSeed(config.baseUrl) ?? MOCK_PROVIDER.DEFAULT_SEED,
+      script: [],
+      errorRate: 0,
+      chunkSize: MOCK_PROVIDER.CHUNK_SIZE,
+      chunkDelayMs: MOCK_PROVIDER.CHUNK_DELAY_MS,
+      ...mockOptions,
+    };
+    this.random = createRandom(this.mockOptions.seed);
+  }
+
+  get name(): string {
+    return this.providerName;
+  }
+
+  get apiFormat(): ApiFormat {
+    return 'mock';
+  }
+
+  get supportsToolCalling(): boolean {
+    return true;
+  }
+
+  get supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async fetchModels(): Promise<LLMModel[]> {
+    return [
+      { id: MOCK_PROVIDER.MODEL_ID, name: 'Mock Model', contextLength: 128000, pricing: { prompt: 0, completion: 0 } },
+    ];
+  }
+
+  /**
+   * Replace the mock options (resets the script position, call count and random sequence)
+   */
+  configure(options: Partial<MockProviderOptions>): void {
+    this.mockOptions = { ...this.mockOptions, ...options };
+    this.random = createRandom(this.mockOptions.seed);
+    this.scriptIndex = 0;
+    this.callCount = 0;
+  }
+
+  /**
+   * Number of calls made since creation or the last configure()
+   */
+  get calls(): number {
+    return this.callCount;
+  }
+
+  async complete(options: LLMRequestOptions): Promise<LLMResponse> {
+    const signal = this.createRequestSignal(options.signal);
+    const reply = this.nextReply(options);
+    this.throwIfAborted(signal);
+    return this.buildResponse(options, reply);
+  }
+
+  /**
+   * Embeddings from the built-in embedder, so similar texts stay similar
+   */
+  async embed(options: LLMEmbeddingOptions): Promise<LLMEmbeddingResponse> {
+    this.throwIfAborted(this.createRequestSignal(options.signal));
+    return {
+      embeddings: options.input.map(text => embedLocally(text)),
+      ...this.buildEmbeddingUsage(options),
+      model: options.model,
+    };
+  }
+
+  async stream(
+    options: LLMRequestOptions,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    const signal = this.createRequestSignal(options.signal);
+    const response = this.buildResponse(options, this.nextReply(options));
+
+    const { chunkSize, chunkDelayMs } = this.mockOptions;
+    if (response.reasoning) {
+      onChunk({ content: '', thinking: response.reasoning, done: false });
+    }
+    for (let i = 0; i < response.content.length; i += chunkSize) {
+      if (chunkDelayMs > 0) {
+        await this.sleep(chunkDelayMs);
+      }
+      this.throwIfAborted(signal);
+      onChunk({ content: response.content.slice(i, i + chunkSize), done: false });
+    }
+
+    this.throwIfAborted(signal);
+    onChunk({ content: '', done: true });
+    return response;
+  }
+
+  /**
+   * Pick the reply for this call: responder, then script, then a generated reply
+   */
+  private nextReply(options: LLMRequestOptions): MockReply {
+    const callIndex = this.callCount++;
+
+    let reply: MockReply | string | undefined = this.mockOptions.responder?.(options, callIndex);
+    if (reply === undefined && this.scriptIndex < this.mockOptions.script.length) {
+      reply = this.mockOptions.script[this.scriptIndex++];
+    }
+    if (reply === undefined && this.mockOptions.errorRate > 0 && this.random() < this.mockOptions.errorRate) {
+      reply = { error: { code: 'HTTP 503', message: 'Mock provider: injected failure', retryable: true } };
+    }
+    if (reply === undefined) {
+      reply = this.generateReply(options);
+    }
+
+    const normalized = typeof reply === 'string' ? { content: reply } : reply;
+    if (normalized.error) {
+      const { code = 'MOCK_ERROR', message = 'Mock provider: scripted failure', retryable = false, details } = normalized.error;
+      throw this.createError(code, message, retryable, details);
+    }
+    return normalized;
+  }
+
+  private buildResponse(options: LLMRequestOptions, reply: MockReply): LLMResponse {
+    const toolCalls: LLMToolCall[] = (reply.toolCalls || []).map((call, index) => ({
+      id: `mock_call_${this.callCount}_${index}`,
+      name: call.name,
+      arguments: call.arguments || {},
+    }));
+    const native = !!options.tools?.length;
+
+    // Without native tools, tool calls are written as text blocks
+    let content = reply.content || '';
+    if (!native && toolCalls.length > 0) {
+      const blocks = toolCalls.map(call =>
+        '```tool\n' + JSON.stringify({ tool: call.name, arguments: call.arguments }) + '\n```'
+      );
+      content = [content, ...blocks].filter(Boolean).join('\n\n');
+    }
+
+    const sentToolCalls = native ? toolCalls : [];
+    const usage = this.buildUsage(options, content, sentToolCalls, {});
+    this.recordTokenUsage(usage.tokensUsed);
+
+    return {
+      content,
+      ...usage,
+      finishReason: reply.finishReason || (sentToolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      model: options.model,
+      ...(sentToolCalls.length > 0 && { toolCalls: sentToolCalls }),
+      ...(reply.thinking && { reasoning: reply.thinking }),
+    };
+  }
+
+  /**
+   * Generate a reply in the shape the request asks for
+   */
+  private generateReply(options: LLMRequestOptions): MockReply {
+    const prompt = options.messages.map(m => m.content).join('\n');
+
+    if (prompt.includes('"distilledSummary"')) {
+      return {
+        content: JSON.stringify({
+          distilledSummary: this.sentences(3),
+          currentStance: this.sentences(1),
+          keyDecisions: [this.sentences(1)],
+          openQuestions: [this.sentences(1)],
+          constraints: [],
+          actionItems: [],
+          pinnedFacts: [{ content: this.sentences(1), category: 'decision', importance: 8 }],
+        }),
+      };
+    }
+
+    if (prompt.includes('"recommendedRounds"')) {
+      return {
+        content: JSON.stringify({
+          recommendedRounds: 2 + Math.floor(this.random() * 3),
+          reasoning: this.sentences(1),
+        }),
+      };
+    }
+
+    if (prompt.includes('"winner"')) {
+      const scoreTeam = () => Object.fromEntries(
+        DEBATE.RUBRIC.map(criterion => [criterion, Math.round(this.random() * DEBATE.MAX_SCORE)])
+      );
+      const scores = { pro: scoreTeam(), con: scoreTeam() };
+      const total = (team: Record<string, number>) => Object.values(team).reduce((sum, v) => sum + v, 0);
+      const difference = total(scores.pro) - total(scores.con);
+      return {
+        content: JSON.stringify({
+          scores,
+          winner: difference === 0 ? 'draw' : difference > 0 ? 'pro' : 'con',
+          reasoning: this.sentences(2),
+        }),
+      };
+    }
+
+    if (prompt.includes('"stance"')) {
+      const stances = ['support', 'support', 'oppose', 'abstain'];
+      return {
+        content: JSON.stringify({
+          stance: stances[Math.floor(this.random() * stances.length)],
+          confidence: Math.round(40 + this.random() * 60),
+          reason: this.sentences(1),
+        }),
+      };
+    }
+
+    if (prompt.includes('"callVote"')) {
+      const callVote = this.random() < 0.3;
+      return {
+        content: JSON.stringify({ callVote, proposal: callVote ? this.sentences(1) : '' }),
+      };
+    }
+
+    if (prompt.includes('"recommendation"')) {
+      // Always "continue", so generated runs keep their planned length
+      return {
+        content: JSON.stringify({
+          openQuestions: [this.sentences(1)],
+          recommendation: 'continue',
+          reasoning: this.sentences(1),
+        }),
+      };
+    }
+
+    if (prompt.includes('"nextSpeaker"')) {
+      // Participants are listed as "- Name (role; ...)"
+      const names = Array.from(prompt.matchAll(/^- (.+?) \(/gm), match => match[1]);
+      return {
+        content: JSON.stringify({
+          nextSpeaker: names.length > 0 ? names[Math.floor(this.random() * names.length)] : '',
+          reasoning: this.sentences(1),
+        }),
+      };
+    }
+
+    const maxSentences = Math.max(1, Math.min(5, Math.floor((options.maxTokens ?? 400) / 40)));
+    return { content: this.sentences(1 + Math.floor(this.random() * maxSentences)) };
+  }
+
+  private sentences(count: number): string {
+    const result: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const opener = OPENERS[Math.floor(this.random() * OPENERS.length)];
+      const words = Array.from({ length: 5 + Math.floor(this.random() * 6) }, () =>
+        WORDS[Math.floor(this.random() * WORDS.length)]
+      );
+      result.push(`${opener} ${words.join(' ')}.`);
+    }
+    return result.join(' ');
+  }
+
+  private throwIfAborted(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw this.createError('ABORTED', 'Request was aborted', false);
+    }
+  }
+}
+
+/**
+ * Read a seed from a base URL like mock://local?seed=7
+ */
+function parseSeed(baseUrl?: string): number | undefined {
+  const match = baseUrl?.match(/[?&]seed=(\d+)/);
+  return match ? parseInt(match[1]) : undefined;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so generated replies repeat for the same seed
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -12,6 +12,12 @@ import type {
   OllamaModel,
   OllamaChatRequest,
   OllamaChatResponse,
+  OllamaToolCall,
+  OllamaEmbedResponse,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMMessage,
+  LLMToolCall,
 } from '../types';
 import type { ApiFormat } from '../../types';
 
@@ -48,6 +54,10 @@ export class OllamaProvider extends BaseLLMProvider {
     return 'ollama';
   }
 
+  get supportsToolCalling(): boolean {
+    return true;
+  }
+
   isConfigured(): boolean {
     // Ollama doesn't need an API key
     return true;
@@ -162,12 +172,13 @@ Or set it permanently in your environment variables.
   }
 
   async complete(options: LLMRequestOptions): Promise<LLMResponse> {
-    const controller = this.createAbortController(options.signal);
+    const signal = this.createRequestSignal(options.signal);
 
     const request: OllamaChatRequest = {
       model: options.model,
-      messages: options.messages,
+      messages: this.formatMessages(options.messages),
       stream: false,
+      ...(options.tools?.length && { tools: this.formatFunctionTools(options.tools) }),
       options: {
         temperature: options.temperature ?? 0.7,
         num_predict: options.maxTokens || 4096,
@@ -183,17 +194,53 @@ Or set it permanently in your environment variables.
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(request),
-          signal: controller.signal,
+          signal,
         }
       );
 
       const data = await response.json() as OllamaChatResponse;
+      const toolCalls = this.convertToolCalls(data.message?.tool_calls || []);
+      const content = data.message?.content || '';
 
       return {
-        content: data.message?.content || '',
-        tokensUsed: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+        content,
+        ...this.buildUsage(options, content, toolCalls, {
+          input: data.prompt_eval_count,
+          output: data.eval_count,
+        }),
         finishReason: data.done ? 'stop' : 'length',
         model: data.model,
+        ...(toolCalls.length > 0 && { toolCalls }),
+      };
+    } catch (error) {
+      this.handleConnectionError(error);
+      throw error;
+    }
+  }
+
+  get supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  async embed(options: LLMEmbeddingOptions): Promise<LLMEmbeddingResponse> {
+    try {
+      const response = await this.fetchWithRetry(
+        `${this.config.baseUrl}/api/embed`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ model: options.model, input: options.input }),
+          signal: this.createRequestSignal(options.signal),
+        }
+      );
+
+      const data = await response.json() as OllamaEmbedResponse;
+      return {
+        embeddings: data.embeddings,
+        ...this.buildEmbeddingUsage(options, data.prompt_eval_count),
+        model: data.model || options.model,
       };
     } catch (error) {
       this.handleConnectionError(error);
@@ -205,12 +252,13 @@ Or set it permanently in your environment variables.
     options: LLMRequestOptions,
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<LLMResponse> {
-    const controller = this.createAbortController(options.signal);
+    const signal = this.createRequestSignal(options.signal);
 
     const request: OllamaChatRequest = {
       model: options.model,
-      messages: options.messages,
+      messages: this.formatMessages(options.messages),
       stream: true,
+      ...(options.tools?.length && { tools: this.formatFunctionTools(options.tools) }),
       options: {
         temperature: options.temperature ?? 0.7,
         num_predict: options.maxTokens || 4096,
@@ -224,7 +272,7 @@ Or set it permanently in your environment variables.
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(request),
-        signal: controller.signal,
+        signal,
       });
 
       if (!response.ok) {
@@ -238,9 +286,13 @@ Or set it permanently in your environment variables.
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      let buffer = '';
       let fullContent = '';
-      let tokensUsed = 0;
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
       let model = options.model;
+      // Ollama sends complete tool calls (not fragments) in the message chunks
+      const rawToolCalls: OllamaToolCall[] = [];
 
       try {
         while (true) {
@@ -250,10 +302,12 @@ Or set it permanently in your environment variables.
             break;
           }
 
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n').filter(line => line.trim());
+          // Keep partial lines buffered - tool call lines can span several reads
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
 
-          for (const line of lines) {
+          for (const line of lines.filter(l => l.trim())) {
             try {
               const parsed = JSON.parse(line) as OllamaChatResponse;
               
@@ -262,8 +316,13 @@ Or set it permanently in your environment variables.
                 onChunk({ content: parsed.message.content, done: false });
               }
 
+              if (parsed.message?.tool_calls?.length) {
+                rawToolCalls.push(...parsed.message.tool_calls);
+              }
+
               if (parsed.done) {
-                tokensUsed = (parsed.prompt_eval_count || 0) + (parsed.eval_count || 0);
+                inputTokens = parsed.prompt_eval_count;
+                outputTokens = parsed.eval_count;
                 model = parsed.model;
               }
             } catch {
@@ -274,11 +333,14 @@ Or set it permanently in your environment variables.
 
         onChunk({ content: '', done: true });
 
+        const toolCalls = this.convertToolCalls(rawToolCalls);
+
         return {
           content: fullContent,
-          tokensUsed,
+          ...this.buildUsage(options, fullContent, toolCalls, { input: inputTokens, output: outputTokens }),
           finishReason: 'stop',
           model,
+          ...(toolCalls.length > 0 && { toolCalls }),
         };
       } finally {
         reader.releaseLock();
@@ -289,6 +351,40 @@ Or set it permanently in your environment variables.
     }
   }
 
+  /**
+   * Convert messages to the Ollama chat format, including native tool calls and results
+   */
+  private formatMessages(messages: LLMMessage[]): OllamaChatRequest['messages'] {
+    return messages.map(msg => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', content: msg.content, tool_name: msg.toolName };
+      }
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content,
+          tool_calls: msg.toolCalls.map(call => ({
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        };
+      }
+      return { role: msg.role, content: msg.content };
+    });
+  }
+
+  /**
+   * Convert Ollama tool calls (which have no IDs) to the shared format
+   */
+  private convertToolCalls(calls: OllamaToolCall[]): LLMToolCall[] {
+    return calls
+      .filter(call => call.function?.name)
+      .map((call, index) => ({
+        id: `call_${index}`,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments),
+      }));
+  }
+
   /**
    * Clear the models cache
    */
@@ -9,22 +9,68 @@ import type {
   LLMStreamChunk,
   LLMModel,
   LLMProviderConfig,
+  LLMMessage,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMError,
   OpenRouterResponse,
   OpenRouterStreamChunk,
+  OpenRouterModel,
+  OpenAIEmbeddingResponse,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
 } from '../types';
 import type { ApiFormat } from '../../types';
-import { countTokens } from '../token-counter';
-import { CACHE } from '../../constants';
+import { CACHE, REASONING } from '../../constants';
+
+// OpenAI o-series and GPT-5 (optionally vendor-prefixed, as on OpenRouter); GPT-5 chat models don't reason
+const REASONING_MODEL_PATTERN = /^(?:[\w.-]+\/)?(?:o\d|gpt-5(?!-chat))/i;
+
+/**
+ * Responses API types
+ */
+type ResponsesInputItem =
+  | { role: 'user' | 'assistant'; content: string }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string };
+
+type ResponsesOutputItem =
+  | { type: 'message'; content?: Array<{ type: string; text?: string }> }
+  | { type: 'reasoning'; summary?: Array<{ type: string; text?: string }> }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string };
+
+interface ResponsesApiResponse {
+  id: string;
+  model: string;
+  status?: 'completed' | 'incomplete' | 'failed' | 'in_progress';
+  output?: ResponsesOutputItem[];
+  incomplete_details?: { reason?: string } | null;
+  error?: { code?: string; message?: string } | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number; // Includes reasoning tokens
+  };
+}
+
+interface ResponsesStreamEvent {
+  type: string;
+  delta?: string;                   // response.output_text.delta, response.reasoning_summary_text.delta
+  response?: ResponsesApiResponse;  // response.completed / incomplete / failed
+  message?: string;                 // error
+}
 
 /**
  * OpenAI-Compatible LLM Provider
- * Works with OpenRouter, vLLM, LM Studio, LocalAI, and any OpenAI-compatible API
+ * Works with OpenRouter, vLLM, LM Studio, LocalAI, and any OpenAI-compatible API.
+ * Reasoning models go through the Responses API (/responses) for their reasoning
+ * effort and summaries; servers without it get chat completions with the reasoning parameters.
  */
 export class OpenAIProvider extends BaseLLMProvider {
   private modelsCache: LLMModel[] | null = null;
   private modelsCacheTime: number = 0;
   private readonly CACHE_TTL = CACHE.MODELS_TTL_MS;
   private providerName: string;
+  private responsesApiMissing = false; // The server answered 404 on /responses (for this session)
 
   constructor(
     config: LLMProviderConfig,
@@ -43,6 +89,10 @@ export class OpenAIProvider extends BaseLLMProvider {
     return 'openai';
   }
 
+  get supportsToolCalling(): boolean {
+    return true;
+  }
+
   isConfigured(): boolean {
     // Some OpenAI-compatible APIs don't require API keys (local servers)
     // Return true if baseUrl is set
@@ -93,12 +143,13 @@ export class OpenAIProvider extends BaseLLMProvider {
         return this.getDefaultModels();
       }
 
-      const data = await response.json() as { data: Array<{ id: string; context_length?: number; name?: string }> };
+      const data = await response.json() as { data: Array<Partial<OpenRouterModel> & { id: string }> };
       
       this.modelsCache = data.data.map(model => ({
         id: model.id,
         name: model.name || model.id,
         contextLength: model.context_length || 4096,
+        pricing: this.parsePricing(model.pricing),
       }));
 
       this.modelsCacheTime = Date.now();
@@ -109,6 +160,20 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * OpenRouter lists prices as USD-per-token strings; convert to USD per 1M tokens
+   */
+  private parsePricing(pricing?: OpenRouterModel['pricing']): LLMModel['pricing'] {
+    if (!pricing) return undefined;
+
+    const prompt = parseFloat(pricing.prompt) * 1_000_000;
+    const completion = parseFloat(pricing.completion) * 1_000_000;
+    if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+      return undefined;
+    }
+    return { prompt, completion };
+  }
+
   private getDefaultModels(): LLMModel[] {
     // Common OpenAI models as fallback
     return [
@@ -127,13 +192,23 @@ export class OpenAIProvider extends BaseLLMProvider {
     // Wait for rate limit slot
     await this.waitForRateLimit();
 
-    const controller = this.createAbortController(options.signal);
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    if (this.config.apiKey) {
-      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    const signal = this.createRequestSignal(options.signal);
+    const headers = this.buildHeaders();
+    const reasoning = this.isReasoningModel(options.model);
+
+    if (reasoning && !this.responsesApiMissing) {
+      try {
+        const response = await this.fetchWithRetry(`${this.config.baseUrl}/responses`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(this.buildResponsesBody(options, false)),
+          signal,
+        });
+        return this.toLLMResponse(options, await response.json() as ResponsesApiResponse);
+      } catch (error) {
+        if (!this.isEndpointMissing(error)) throw error;
+        this.markResponsesApiMissing();
+      }
     }
 
     const response = await this.fetchWithRetry(
@@ -143,26 +218,80 @@ export class OpenAIProvider extends BaseLLMProvider {
         headers,
         body: JSON.stringify({
           model: options.model,
-          messages: options.messages,
-          max_tokens: options.maxTokens || 4096,
-          temperature: options.temperature ?? 0.7,
+          messages: this.formatMessages(options.messages),
+          ...this.buildOutputParams(options, reasoning),
           stream: false,
+          ...(options.tools?.length && { tools: this.formatFunctionTools(options.tools) }),
         }),
-        signal: controller.signal,
+        signal,
       }
     );
 
     const data = await response.json() as OpenRouterResponse;
-    const tokensUsed = data.usage?.total_tokens || 0;
-    
+
+    const toolCalls: LLMToolCall[] = (data.choices[0]?.message?.tool_calls || []).map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: this.parseToolArguments(call.function.arguments),
+    }));
+    const content = data.choices[0]?.message?.content || '';
+    const usage = this.buildUsage(options, content, toolCalls, {
+      input: data.usage?.prompt_tokens,
+      output: data.usage?.completion_tokens,
+    });
+
     // Record token usage for rate limiting
-    this.recordTokenUsage(tokensUsed);
+    this.recordTokenUsage(usage.tokensUsed);
+
+    const reasoningText = data.choices[0]?.message?.reasoning;
 
     return {
-      content: data.choices[0]?.message?.content || '',
-      tokensUsed,
+      content,
+      ...usage,
       finishReason: data.choices[0]?.finish_reason || 'stop',
       model: data.model,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(reasoningText && { reasoning: reasoningText }),
+    };
+  }
+
+  get supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  async embed(options: LLMEmbeddingOptions): Promise<LLMEmbeddingResponse> {
+    if (!this.isConfigured()) {
+      throw this.createError('NOT_CONFIGURED', 'Provider not configured', false);
+    }
+
+    await this.waitForRateLimit();
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await this.fetchWithRetry(
+      `${this.config.baseUrl}/embeddings`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: options.model, input: options.input }),
+        signal: this.createRequestSignal(options.signal),
+      }
+    );
+
+    const data = await response.json() as OpenAIEmbeddingResponse;
+    const usage = this.buildEmbeddingUsage(options, data.usage?.prompt_tokens);
+    this.recordTokenUsage(usage.inputTokens);
+
+    return {
+      // Entries carry their input index; don't rely on the order
+      embeddings: [...data.data].sort((a, b) => a.index - b.index).map(entry => entry.embedding),
+      ...usage,
+      model: data.model || options.model,
     };
   }
 
@@ -177,13 +306,24 @@ export class OpenAIProvider extends BaseLLMProvider {
     // Wait for rate limit slot
     await this.waitForRateLimit();
 
-    const controller = this.createAbortController(options.signal);
+    const signal = this.createRequestSignal(options.signal);
+    const headers = this.buildHeaders();
+    const reasoning = this.isReasoningModel(options.model);
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    if (this.config.apiKey) {
-      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    if (reasoning && !this.responsesApiMissing) {
+      const response = await fetch(`${this.config.baseUrl}/responses`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(this.buildResponsesBody(options, true)),
+        signal,
+      });
+
+      if (response.status !== 404) {
+        return this.streamResponses(options, response, onChunk);
+      }
+      const error = this.createError('HTTP_404', await response.text(), false);
+      if (!this.isEndpointMissing(error)) throw error;
+      this.markResponsesApiMissing();
     }
 
     const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
@@ -191,12 +331,13 @@ export class OpenAIProvider extends BaseLLMProvider {
       headers,
       body: JSON.stringify({
         model: options.model,
-        messages: options.messages,
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature ?? 0.7,
+        messages: this.formatMessages(options.messages),
+        ...this.buildOutputParams(options, reasoning),
         stream: true,
+        stream_options: { include_usage: true },
+        ...(options.tools?.length && { tools: this.formatFunctionTools(options.tools) }),
       }),
-      signal: controller.signal,
+      signal,
     });
 
     if (!response.ok) {
@@ -217,8 +358,12 @@ export class OpenAIProvider extends BaseLLMProvider {
 
     const reader = response.body.getReader();
     let fullContent = '';
+    let reasoningText = '';
     let finishReason = 'stop';
     let model = options.model;
+    let reportedUsage: OpenRouterStreamChunk['usage'];
+    // Tool calls arrive in fragments keyed by index
+    const streamedToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
 
     try {
       for await (const data of this.parseSSEStream(reader)) {
@@ -231,9 +376,27 @@ export class OpenAIProvider extends BaseLLMProvider {
             onChunk({ content: delta.content, done: false });
           }
 
+          if (delta?.reasoning) {
+            reasoningText += delta.reasoning;
+            onChunk({ content: '', thinking: delta.reasoning, done: false });
+          }
+
+          for (const fragment of delta?.tool_calls || []) {
+            const existing = streamedToolCalls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+            streamedToolCalls.set(fragment.index, {
+              id: fragment.id || existing.id,
+              name: existing.name + (fragment.function?.name || ''),
+              arguments: existing.arguments + (fragment.function?.arguments || ''),
+            });
+          }
+
           if (parsed.choices[0]?.finish_reason) {
             finishReason = parsed.choices[0].finish_reason;
           }
+
+          if (parsed.usage) {
+            reportedUsage = parsed.usage;
+          }
         } catch {
           // Skip invalid JSON chunks
         }
@@ -241,23 +404,286 @@ export class OpenAIProvider extends BaseLLMProvider {
 
       onChunk({ content: '', done: true });
 
-      // Estimate tokens for streaming response since usage data isn't available
-      const estimatedTokens = countTokens(fullContent);
-      
+      const toolCalls: LLMToolCall[] = Array.from(streamedToolCalls.entries())
+        .sort(([a], [b]) => a - b)
+        .filter(([, call]) => call.name)
+        .map(([index, call]) => ({
+          id: call.id || `call_${index}`,
+          name: call.name,
+          arguments: this.parseToolArguments(call.arguments),
+        }));
+
+      // Servers that ignore stream_options send no usage; those counts are estimated
+      const usage = this.buildUsage(options, fullContent, toolCalls, {
+        input: reportedUsage?.prompt_tokens,
+        output: reportedUsage?.completion_tokens,
+      });
+
       // Record token usage for rate limiting
-      this.recordTokenUsage(estimatedTokens);
+      this.recordTokenUsage(usage.tokensUsed);
 
       return {
         content: fullContent,
-        tokensUsed: estimatedTokens,
+        ...usage,
         finishReason,
         model,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        ...(reasoningText && { reasoning: reasoningText }),
       };
     } finally {
       reader.releaseLock();
     }
   }
 
+  /**
+   * Read a streamed Responses API reply: text arrives as deltas, then the final
+   * event carries the full response (tool calls, reasoning summary, usage)
+   */
+  private async streamResponses(
+    options: LLMRequestOptions,
+    response: Response,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw this.createError(`HTTP_${response.status}`, errorText, response.status >= 500 || response.status === 429);
+    }
+
+    if (!response.body) {
+      throw this.createError('NO_BODY', 'Response body is empty', false);
+    }
+
+    const reader = response.body.getReader();
+    let fullContent = '';
+    let final: ResponsesApiResponse | undefined;
+
+    try {
+      for await (const data of this.parseSSEStream(reader)) {
+        let event: ResponsesStreamEvent;
+        try {
+          event = JSON.parse(data) as ResponsesStreamEvent;
+        } catch {
+          continue; // Skip invalid JSON chunks
+        }
+
+        if (event.type === 'response.output_text.delta' && event.delta) {
+          fullContent += event.delta;
+          onChunk({ content: event.delta, done: false });
+        } else if (event.type === 'response.reasoning_summary_text.delta' && event.delta) {
+          onChunk({ content: '', thinking: event.delta, done: false });
+        } else if (event.type === 'error') {
+          throw this.createError('STREAM_ERROR', event.message || 'The response stream failed', true);
+        } else if (event.response && ['response.completed', 'response.incomplete', 'response.failed'].includes(event.type)) {
+          final = event.response;
+        }
+      }
+
+      onChunk({ content: '', done: true });
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (!final) {
+      throw this.createError('STREAM_ERROR', 'The response stream ended without a final response', true);
+    }
+    // The deltas are the text the user saw, even if the final event differs
+    return { ...this.toLLMResponse(options, final), content: fullContent || this.outputText(final) };
+  }
+
+  /**
+   * Request body for the Responses API. System messages become the instructions.
+   */
+  private buildResponsesBody(options: LLMRequestOptions, stream: boolean): Record<string, unknown> {
+    const instructions = options.messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
+    return {
+      model: options.model,
+      input: this.formatResponsesInput(options.messages),
+      ...(instructions && { instructions }),
+      max_output_tokens: this.reasoningTokenLimit(options),
+      reasoning: {
+        ...(options.reasoningEffort && { effort: options.reasoningEffort }),
+        summary: 'auto',
+      },
+      store: false,
+      stream,
+      ...(options.tools?.length && { tools: this.formatResponsesTools(options.tools) }),
+    };
+  }
+
+  /**
+   * Convert messages to Responses API input items; tool calls and results are items of their own
+   */
+  private formatResponsesInput(messages: LLMMessage[]): ResponsesInputItem[] {
+    return messages.flatMap((msg): ResponsesInputItem[] => {
+      switch (msg.role) {
+        case 'system':
+          return [];
+        case 'tool':
+          return [{ type: 'function_call_output', call_id: msg.toolCallId || '', output: msg.content }];
+        case 'assistant':
+          return [
+            ...(msg.content ? [{ role: 'assistant' as const, content: msg.content }] : []),
+            ...(msg.toolCalls ?? []).map(call => ({
+              type: 'function_call' as const,
+              call_id: call.id,
+              name: call.name,
+              arguments: JSON.stringify(call.arguments),
+            })),
+          ];
+        default:
+          return [{ role: 'user', content: msg.content }];
+      }
+    });
+  }
+
+  /**
+   * The Responses API takes flat function tools (no nested "function" object)
+   */
+  private formatResponsesTools(tools: LLMToolDefinition[]): Array<Record<string, unknown>> {
+    return tools.map(tool => ({
+      type: 'function',
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      // Function tools are strict by default here; MCP schemas (optional parameters, open objects) don't meet its rules
+      strict: false,
+    }));
+  }
+
+  /**
+   * Convert a Responses API response, throwing if the model failed to answer
+   */
+  private toLLMResponse(options: LLMRequestOptions, data: ResponsesApiResponse): LLMResponse {
+    if (data.status === 'failed' || data.error) {
+      throw this.createError(data.error?.code || 'RESPONSE_FAILED', data.error?.message || 'The model failed to respond', false);
+    }
+
+    const output = data.output ?? [];
+    const toolCalls: LLMToolCall[] = output.flatMap(item => item.type === 'function_call'
+      ? [{ id: item.call_id, name: item.name, arguments: this.parseToolArguments(item.arguments) }]
+      : []);
+    const reasoning = output
+      .flatMap(item => (item.type === 'reasoning' ? item.summary ?? [] : []))
+      .map(part => part.text || '')
+      .filter(text => text.trim())
+      .join('\n\n');
+    const content = this.outputText(data);
+
+    const usage = this.buildUsage(options, content, toolCalls, {
+      input: data.usage?.input_tokens,
+      output: data.usage?.output_tokens,
+    });
+    this.recordTokenUsage(usage.tokensUsed);
+
+    const finishReason = toolCalls.length > 0
+      ? 'tool_calls'
+      : data.incomplete_details?.reason === 'max_output_tokens' ? 'length' : 'stop';
+
+    return {
+      content,
+      ...usage,
+      finishReason,
+      model: data.model || options.model,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(reasoning && { reasoning }),
+    };
+  }
+
+  private outputText(data: ResponsesApiResponse): string {
+    return (data.output ?? [])
+      .flatMap(item => (item.type === 'message' ? item.content ?? [] : []))
+      .filter(part => part.type === 'output_text')
+      .map(part => part.text || '')
+      .join('');
+  }
+
+  /**
+   * Chat completions output parameters. Reasoning models take max_completion_tokens
+   * and a reasoning effort, and reject temperature.
+   */
+  private buildOutputParams(options: LLMRequestOptions, reasoning: boolean): Record<string, unknown> {
+    if (!reasoning) {
+      return { max_tokens: options.maxTokens || 4096, temperature: options.temperature ?? 0.7 };
+    }
+    return {
+      max_completion_tokens: this.reasoningTokenLimit(options),
+      ...(options.reasoningEffort && { reasoning_effort: options.reasoningEffort }),
+    };
+  }
+
+  /**
+   * Hidden reasoning counts against the output limit, so the visible answer keeps its own budget on top
+   */
+  private reasoningTokenLimit(options: LLMRequestOptions): number {
+    return (options.maxTokens || 4096) + REASONING.TOKEN_ALLOWANCE;
+  }
+
+  /**
+   * Whether a model reasons before answering. A custom model's setting wins over detection by ID.
+   */
+  private isReasoningModel(model: string): boolean {
+    const configured = this.extendedConfig.userModels.find(m => m.id === model)?.reasoning;
+    return configured ?? REASONING_MODEL_PATTERN.test(model);
+  }
+
+  /**
+   * Whether /responses answered 404 because the server has no Responses API.
+   * An unknown model ID is a 404 as well, but then the endpoint is there.
+   */
+  private isEndpointMissing(error: unknown): boolean {
+    const { code = '', message = '' } = (error ?? {}) as Partial<LLMError>;
+    if (!/^HTTP[ _]404$/.test(code)) return false;
+
+    try {
+      const body = JSON.parse(message) as { error?: { code?: string; message?: string } };
+      return body.error?.code !== 'model_not_found' && !/\bmodel\b/i.test(body.error?.message ?? '');
+    } catch {
+      return true;
+    }
+  }
+
+  private markResponsesApiMissing(): void {
+    console.warn(`[${this.name}] No Responses API at ${this.config.baseUrl}, using chat completions for reasoning models`);
+    this.responsesApiMissing = true;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Convert messages to the OpenAI chat format, including native tool calls and results
+   */
+  private formatMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+    return messages.map(msg => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+      }
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        };
+      }
+      return { role: msg.role, content: msg.content };
+    });
+  }
+
   /**
    * Clear the models cache
    */
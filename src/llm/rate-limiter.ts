@@ -25,6 +25,7 @@ export class RateLimiter {
   private requestTimestamps: number[] = [];
   private tokenUsage: { timestamp: number; tokens: number }[] = [];
   private lastRequestTime: number = 0;
+  private queue: Promise<void> = Promise.resolve();
 
   constructor(config: Partial<RateLimiterConfig> = {}) {
     this.config = {
@@ -64,6 +65,19 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Wait for a slot and claim it.
+   * Concurrent callers queue up, so requests started together are still spaced out.
+   */
+  acquire(): Promise<void> {
+    const slot = this.queue.then(async () => {
+      await this.waitForSlot();
+      this.recordRequest();
+    });
+    this.queue = slot.catch(() => {});
+    return slot;
+  }
+
   /**
    * Record a request being made
    */
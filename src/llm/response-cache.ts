@@ -0,0 +1,139 @@
+// ============================================
+// AI Brainstorm - LLM Response Cache
+// ============================================
+
+import { responseCacheStorage, settingsStorage } from '../storage/storage-manager';
+import { RESPONSE_CACHE } from '../constants';
+import type { LLMRequestOptions, LLMResponse } from './types';
+import type { AppSettings } from '../types';
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;          // Hits served by the stored entries
+  sessionHits: number;   // Since the app was loaded
+  sessionMisses: number;
+}
+
+/**
+ * Cache key for a request: SHA-256 of the provider, model, messages and temperature
+ */
+export async function hashRequest(providerId: string, options: LLMRequestOptions): Promise<string> {
+  const fingerprint = JSON.stringify({
+    providerId,
+    model: options.model,
+    temperature: options.temperature ?? null,
+    messages: options.messages,
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function ttlMs(settings: AppSettings): number {
+  return (settings.responseCacheTtlHours ?? RESPONSE_CACHE.DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function maxBytes(settings: AppSettings): number {
+  return (settings.responseCacheMaxMb ?? RESPONSE_CACHE.DEFAULT_MAX_MB) * 1024 * 1024;
+}
+
+/**
+ * Content-addressed cache in IndexedDB for the LLM calls a call site marks as
+ * repeatable (options.cache), such as secretary extraction and translations.
+ * Off unless enabled in settings. Cache failures never fail the request:
+ * they are logged and the request goes to the model.
+ */
+class ResponseCacheService {
+  private sessionHits = 0;
+  private sessionMisses = 0;
+
+  /**
+   * Find the cached answer to a request. Returns null when the request can't use the
+   * cache, otherwise its key and, on a hit, the stored response.
+   */
+  async lookup(providerId: string, options: LLMRequestOptions): Promise<{ key: string; response?: LLMResponse } | null> {
+    // Tool calls and streamed text depend on more than the prompt
+    if (!options.cache || options.tools?.length) return null;
+
+    try {
+      const settings = await settingsStorage.get();
+      if (!settings.responseCache) return null;
+
+      const key = await hashRequest(providerId, options);
+      if (options.cache === 'bypass') return { key };
+
+      const entry = await responseCacheStorage.get(key);
+      if (!entry || entry.createdAt < Date.now() - ttlMs(settings)) {
+        this.sessionMisses++;
+        return { key };
+      }
+
+      this.sessionHits++;
+      await responseCacheStorage.recordHit(key);
+      return {
+        key,
+        response: {
+          content: entry.content,
+          tokensUsed: entry.inputTokens + entry.outputTokens,
+          inputTokens: entry.inputTokens,
+          outputTokens: entry.outputTokens,
+          finishReason: entry.finishReason,
+          model: entry.model,
+          answeredBy: { providerId: entry.providerId, modelId: entry.modelId },
+          cached: true,
+        },
+      };
+    } catch (error) {
+      console.warn('[ResponseCache] Lookup failed, asking the model:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a fresh response, then drop expired entries and the least recently used
+   * ones over the size limit. Answers from a fallback model or cut off at the
+   * output limit are not kept: the key promises the requested model's full answer.
+   */
+  async store(key: string, providerId: string, options: LLMRequestOptions, response: LLMResponse): Promise<void> {
+    if (!response.content || response.toolCalls?.length || response.finishReason === 'length') return;
+
+    const route = response.answeredBy;
+    if (route && (route.providerId !== providerId || route.modelId !== options.model)) return;
+
+    try {
+      const settings = await settingsStorage.get();
+      const now = Date.now();
+
+      await responseCacheStorage.put({
+        key,
+        providerId,
+        modelId: options.model,
+        content: response.content,
+        finishReason: response.finishReason,
+        model: response.model,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+        size: new TextEncoder().encode(response.content).length + key.length,
+        hits: 0,
+        createdAt: now,
+        lastUsedAt: now,
+      });
+      await responseCacheStorage.prune(now - ttlMs(settings), maxBytes(settings));
+    } catch (error) {
+      console.warn('[ResponseCache] Failed to store a response:', error);
+    }
+  }
+
+  async getStats(): Promise<ResponseCacheStats> {
+    const stored = await responseCacheStorage.stats();
+    return { ...stored, sessionHits: this.sessionHits, sessionMisses: this.sessionMisses };
+  }
+
+  async clear(): Promise<void> {
+    await responseCacheStorage.clear();
+    this.sessionHits = 0;
+    this.sessionMisses = 0;
+  }
+}
+
+export const responseCache = new ResponseCacheService();
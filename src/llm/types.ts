@@ -2,9 +2,52 @@
 // AI Brainstorm - LLM Types
 // ============================================
 
+import type { UsageContext, ModelRoute, ModelFailover } from '../types';
+
+/**
+ * How a request uses the response cache: 'use' answers from it when it can,
+ * 'bypass' always asks the model and stores the fresh answer
+ */
+export type CacheMode = 'use' | 'bypass';
+
+/**
+ * How much a reasoning model thinks before answering (ignored by other models)
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * A thinking block as the API returned it. Sent back unchanged with the tool calls
+ * it preceded (the signature / redacted data let the provider verify it).
+ */
+export type LLMThinkingBlock =
+  | { thinking: string; signature: string }
+  | { redactedData: string };
+
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  toolCalls?: LLMToolCall[];  // Assistant message: native tool calls it requested
+  thinkingBlocks?: LLMThinkingBlock[]; // Assistant message: thinking that led to its tool calls
+  toolCallId?: string;        // Tool message: the call this result answers
+  toolName?: string;          // Tool message: name of the tool (some APIs need it)
+}
+
+/**
+ * Tool definition sent in the provider's native tool-calling format
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments
+}
+
+/**
+ * Tool call requested by the model through native tool calling
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
 }
 
 export interface LLMRequestOptions {
@@ -14,20 +57,50 @@ export interface LLMRequestOptions {
   temperature?: number;
   stream?: boolean;
   signal?: AbortSignal;
+  tools?: LLMToolDefinition[];
+  usage?: UsageContext;       // Recorded by the router for usage accounting
+  fallbacks?: ModelRoute[];   // Tried in order by the router when a request fails with a retryable error
+  cache?: CacheMode;          // Repeatable request the response cache may answer (when enabled in settings)
+  reasoningEffort?: ReasoningEffort; // Reasoning models only; the API default when unset
+  thinkingBudget?: number;    // Extended thinking (Anthropic): tokens the model may think for; off when unset
 }
 
 export interface LLMResponse {
   content: string;
-  tokensUsed: number;
+  tokensUsed: number;         // inputTokens + outputTokens
+  inputTokens: number;
+  outputTokens: number;
+  usageEstimated?: boolean;   // Counts were estimated locally (the API did not report them)
   finishReason: string;
   model: string;
+  toolCalls?: LLMToolCall[];
+  answeredBy?: ModelRoute;    // Set by the router: the provider and model that produced this response
+  failovers?: ModelFailover[]; // Set by the router: the models that failed before it
+  cached?: boolean;           // Answered from the response cache (no tokens were spent)
+  reasoning?: string;         // Summary of the model's reasoning, or its thinking text, when the API returns one
+  thinkingBlocks?: LLMThinkingBlock[]; // To send back with toolCalls in the next request
 }
 
 export interface LLMStreamChunk {
   content: string;
+  thinking?: string;          // Thinking / reasoning text, streamed separately from the content
   done: boolean;
 }
 
+export interface LLMEmbeddingOptions {
+  model: string;
+  input: string[];
+  signal?: AbortSignal;
+  usage?: UsageContext;       // Recorded by the router for usage accounting
+}
+
+export interface LLMEmbeddingResponse {
+  embeddings: number[][];     // One vector per input, in order
+  inputTokens: number;
+  usageEstimated?: boolean;   // Counts were estimated locally (the API did not report them)
+  model: string;
+}
+
 export interface LLMModel {
   id: string;
   name: string;
@@ -63,12 +136,24 @@ export interface OpenRouterModel {
   description?: string;
 }
 
+// OpenAI-style tool call (arguments are a JSON string)
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
 export interface OpenRouterResponse {
   id: string;
   choices: Array<{
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      reasoning?: string | null;  // OpenRouter: the model's reasoning text
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -86,9 +171,34 @@ export interface OpenRouterStreamChunk {
     delta: {
       role?: string;
       content?: string;
+      reasoning?: string | null;  // OpenRouter: the model's reasoning text
+      // Streamed in fragments keyed by index; id and name arrive in the first fragment
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
     };
     finish_reason: string | null;
   }>;
+  // Final chunk when stream_options.include_usage is set (choices is empty)
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+// OpenAI-style /embeddings response
+export interface OpenAIEmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+  model: string;
+  usage?: {
+    prompt_tokens: number;
+  };
 }
 
 // Ollama specific types
@@ -129,11 +239,25 @@ export interface OllamaGenerateResponse {
   eval_count?: number;
 }
 
+// Ollama tool call (arguments are already an object)
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
 export interface OllamaChatRequest {
   model: string;
   messages: Array<{
-    role: 'system' | 'user' | 'assistant';
+    role: 'system' | 'user' | 'assistant' | 'tool';
     content: string;
+    tool_calls?: OllamaToolCall[];
+    tool_name?: string;
+  }>;
+  tools?: Array<{
+    type: 'function';
+    function: LLMToolDefinition;
   }>;
   stream?: boolean;
   options?: {
@@ -148,6 +272,7 @@ export interface OllamaChatResponse {
   message: {
     role: string;
     content: string;
+    tool_calls?: OllamaToolCall[];
   };
   done: boolean;
   total_duration?: number;
@@ -156,3 +281,9 @@ export interface OllamaChatResponse {
   eval_count?: number;
 }
 
+// Ollama /api/embed response
+export interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  prompt_eval_count?: number;
+}
@@ -0,0 +1,94 @@
+// ============================================
+// AI Brainstorm - Usage Accounting
+// ============================================
+
+import type { ModelPricing, UsagePurpose, UsageRecord } from '../types';
+
+/**
+ * Totals for a group of LLM calls
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;           // USD, summed over priced calls only
+  estimatedCalls: number; // Calls whose token counts were estimated locally
+  unpricedCalls: number;  // Calls for models without a price
+}
+
+/**
+ * Usage rolled up per conversation, agent, provider and purpose
+ */
+export interface UsageSummary {
+  total: UsageTotals;
+  byAgent: Map<string, UsageTotals>;     // Keyed by agentId ('' for calls without an agent)
+  byProvider: Map<string, UsageTotals>;  // Keyed by providerId
+  byPurpose: Map<UsagePurpose, UsageTotals>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, estimatedCalls: 0, unpricedCalls: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  if (record.cost === undefined) {
+    totals.unpricedCalls++;
+  } else {
+    totals.cost += record.cost;
+  }
+  if (record.estimated) totals.estimatedCalls++;
+}
+
+function addToGroup<K>(groups: Map<K, UsageTotals>, key: K, record: UsageRecord): void {
+  let totals = groups.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    groups.set(key, totals);
+  }
+  addRecord(totals, record);
+}
+
+/**
+ * Cost in USD of one call, or undefined when the model has no price
+ */
+export function calculateCost(
+  pricing: ModelPricing | undefined,
+  inputTokens: number,
+  outputTokens: number
+): number | undefined {
+  if (!pricing) return undefined;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Roll usage records up into totals
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = {
+    total: emptyTotals(),
+    byAgent: new Map(),
+    byProvider: new Map(),
+    byPurpose: new Map(),
+  };
+
+  for (const record of records) {
+    addRecord(summary.total, record);
+    addToGroup(summary.byAgent, record.agentId ?? '', record);
+    addToGroup(summary.byProvider, record.providerId, record);
+    addToGroup(summary.byPurpose, record.purpose, record);
+  }
+
+  return summary;
+}
+
+/**
+ * Format a USD amount, keeping precision for sub-cent totals
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
@@ -18,6 +18,7 @@ export {
 export {
   mcpRouter,
   buildToolDescriptions,
+  buildToolDefinitions,
   parseToolCalls,
   formatToolResult,
 } from './mcp-router';
@@ -5,10 +5,11 @@
 // MCP (Model Context Protocol) client implementation
 // Supports HTTP/SSE and Stdio transports
 //
-// Note: Stdio transport requires a backend proxy in browser environments
+// Note: Stdio transport goes through the local bridge (bridge/mcp-stdio-bridge.mjs)
 // as browsers cannot spawn local processes directly.
 
 import type { MCPServer, MCPTool } from '../types';
+import { MCP_BRIDGE } from '../constants';
 
 // ============================================
 // Types
@@ -698,27 +699,40 @@ export class StreamableHttpMCPClient extends BaseMCPClient {
 }
 
 // ============================================
-// Stdio MCP Client (Browser Limitation Notice)
+// Stdio MCP Client (via local bridge)
 // ============================================
 
 /**
- * StdioMCPClient - Placeholder for stdio transport
- * 
- * In browser environments, we cannot directly spawn local processes.
- * To use stdio MCP servers, you would need:
- * 1. A backend proxy service that spawns the process
- * 2. WebSocket/HTTP bridge to communicate with it
+ * Messages sent by the stdio bridge (see bridge/mcp-stdio-bridge.mjs)
+ */
+type BridgeMessage =
+  | { type: 'ready'; pid?: number }
+  | { type: 'message'; payload: MCPResponse | MCPRequest | { jsonrpc: '2.0'; method: string; params?: unknown } }
+  | { type: 'error'; message: string }
+  | { type: 'exit'; code: number | null; signal: string | null };
+
+/**
+ * StdioMCPClient - MCP client for local processes
  * 
- * This implementation provides stub methods that return appropriate errors.
- * For a full implementation, consider:
- * - Running a local Express/FastAPI server as a proxy
- * - Using Electron's main process for IPC
- * - Deploying an MCP gateway service
+ * Browsers cannot spawn processes, so the command is started by the local
+ * stdio bridge (`npm run mcp-bridge`). The client connects to the bridge over
+ * a WebSocket, asks it to spawn the configured command, and then exchanges
+ * JSON-RPC messages with the process through it.
  */
 export class StdioMCPClient extends BaseMCPClient {
   private command: string;
   private args: string[];
   private env: Record<string, string>;
+  private bridgeUrl: string;
+  private bridgeToken?: string;
+  private socket: WebSocket | null = null;
+  private pendingRequests: Map<number | string, {
+    resolve: (response: MCPResponse) => void;
+    reject: (error: Error) => void;
+    timeout: ReturnType<typeof setTimeout>;
+  }> = new Map();
+  private readonly CONNECT_TIMEOUT = 15000; // 15 seconds (spawning may download packages)
+  private readonly REQUEST_TIMEOUT = 60000; // 60 seconds for potentially long tool calls
 
   constructor(server: MCPServer) {
     super(server);
@@ -728,28 +742,207 @@ export class StdioMCPClient extends BaseMCPClient {
     this.command = server.command;
     this.args = server.args || [];
     this.env = server.env || {};
+    this.bridgeUrl = server.bridgeUrl || MCP_BRIDGE.DEFAULT_URL;
+    this.bridgeToken = server.bridgeToken;
+  }
+
+  /**
+   * Build the bridge URL with the token as query param
+   * (WebSocket doesn't support custom headers)
+   */
+  private getSocketUrl(): string {
+    if (!this.bridgeToken) return this.bridgeUrl;
+    try {
+      const url = new URL(this.bridgeUrl);
+      url.searchParams.set('token', this.bridgeToken);
+      return url.toString();
+    } catch {
+      const separator = this.bridgeUrl.includes('?') ? '&' : '?';
+      return `${this.bridgeUrl}${separator}token=${encodeURIComponent(this.bridgeToken)}`;
+    }
   }
 
   async connect(): Promise<void> {
-    // In a browser environment, we cannot spawn processes
-    // This would need a backend proxy to work
-    throw new Error(
-      'Stdio transport is not supported in browser environments. ' +
-      'Consider using HTTP transport or setting up a backend MCP proxy.'
-    );
+    if (this.connected) return;
+
+    const signal = this.abortController.signal;
+    const socket = new WebSocket(this.getSocketUrl());
+    this.socket = socket;
+
+    try {
+      // Wait until the bridge has spawned the process
+      await new Promise<void>((resolve, reject) => {
+        const fail = (error: Error) => {
+          cleanup();
+          reject(error);
+        };
+
+        const timeout = setTimeout(() => {
+          fail(new Error('Connection timeout: the MCP bridge did not start the server in time'));
+        }, this.CONNECT_TIMEOUT);
+
+        const onAbort = () => fail(new DOMException('Connection aborted', 'AbortError'));
+
+        const cleanup = () => {
+          clearTimeout(timeout);
+          signal.removeEventListener('abort', onAbort);
+          socket.onopen = null;
+          socket.onerror = null;
+        };
+
+        signal.addEventListener('abort', onAbort);
+
+        socket.onopen = () => {
+          socket.send(JSON.stringify({
+            type: 'spawn',
+            command: this.command,
+            args: this.args,
+            env: this.env,
+          }));
+        };
+
+        socket.onerror = () => {
+          fail(new Error(
+            `Could not reach the MCP stdio bridge at ${this.bridgeUrl}. ` +
+            'Start it with "npm run mcp-bridge" and check the bridge token.'
+          ));
+        };
+
+        socket.onmessage = (event) => {
+          const message = this.parseBridgeMessage(event.data);
+          if (!message) return;
+
+          if (message.type === 'ready') {
+            cleanup();
+            resolve();
+          } else if (message.type === 'error') {
+            fail(new Error(message.message));
+          } else if (message.type === 'exit') {
+            fail(new Error(`MCP server exited during startup (code ${message.code ?? message.signal})`));
+          }
+        };
+      });
+    } catch (error) {
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.close();
+      this.socket = null;
+      this.connected = false;
+      throw error;
+    }
+
+    socket.onmessage = (event) => {
+      const message = this.parseBridgeMessage(event.data);
+      if (message) this.handleBridgeMessage(message);
+    };
+    socket.onclose = () => this.handleClose('MCP bridge connection closed');
+
+    this.connected = true;
+    this.emit('connected');
+    console.log(`[MCPClient] Connected to ${this.server.name} via stdio bridge`);
   }
 
   async disconnect(): Promise<void> {
-    this.connected = false;
-    this.emit('disconnected');
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.onmessage = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.handleClose('Client disconnected');
+    console.log(`[MCPClient] Disconnected from ${this.server.name}`);
+  }
+
+  async sendRequest(method: string, params?: Record<string, unknown>): Promise<MCPResponse> {
+    if (!this.socket || !this.connected) {
+      throw new Error('Stdio client is not connected');
+    }
+
+    const id = this.nextRequestId();
+
+    // Notifications carry no ID and get no response
+    if (method.startsWith('notifications/')) {
+      this.send({ jsonrpc: '2.0', method, params });
+      return { jsonrpc: '2.0', id, result: {} };
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new Error(`Request timeout for method: ${method}`));
+      }, this.REQUEST_TIMEOUT);
+
+      this.pendingRequests.set(id, { resolve, reject, timeout });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
   }
 
-  async sendRequest(_method: string, _params?: Record<string, unknown>): Promise<MCPResponse> {
-    throw new Error('Stdio client is not connected');
+  /**
+   * Relay a JSON-RPC message to the process through the bridge
+   */
+  private send(payload: unknown): void {
+    this.socket?.send(JSON.stringify({ type: 'message', payload }));
+  }
+
+  private parseBridgeMessage(data: unknown): BridgeMessage | null {
+    try {
+      return JSON.parse(String(data)) as BridgeMessage;
+    } catch (error) {
+      console.error('[MCPClient] Failed to parse bridge message:', error);
+      return null;
+    }
+  }
+
+  private handleBridgeMessage(message: BridgeMessage): void {
+    switch (message.type) {
+      case 'message': {
+        const payload = message.payload;
+        if ('method' in payload) {
+          // Server-initiated request: answer pings, decline anything else
+          if ('id' in payload) {
+            this.send(payload.method === 'ping'
+              ? { jsonrpc: '2.0', id: payload.id, result: {} }
+              : { jsonrpc: '2.0', id: payload.id, error: { code: -32601, message: `Method not supported: ${payload.method}` } });
+          }
+          return;
+        }
+
+        const pending = this.pendingRequests.get(payload.id);
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingRequests.delete(payload.id);
+          pending.resolve(payload);
+        }
+        break;
+      }
+      case 'error':
+        console.error(`[MCPClient] Bridge error for ${this.server.name}:`, message.message);
+        this.emit('error', new Error(message.message));
+        break;
+      case 'exit':
+        this.handleClose(`MCP server exited (code ${message.code ?? message.signal})`);
+        break;
+    }
+  }
+
+  /**
+   * Reject outstanding requests and mark the client disconnected
+   */
+  private handleClose(reason: string): void {
+    for (const [, pending] of this.pendingRequests) {
+      clearTimeout(pending.timeout);
+      pending.reject(new Error(reason));
+    }
+    this.pendingRequests.clear();
+
+    if (this.connected) {
+      this.connected = false;
+      this.emit('disconnected');
+    }
   }
 
   /**
-   * Get the command configuration for external use (e.g., backend proxy)
+   * Get the command configuration for external use
    */
   getCommandConfig(): { command: string; args: string[]; env: Record<string, string> } {
     return {
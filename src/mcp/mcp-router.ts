@@ -14,6 +14,7 @@ import {
   type MCPToolCallResult 
 } from './mcp-client';
 import type { MCPServer, MCPTool } from '../types';
+import type { LLMToolDefinition } from '../llm/types';
 
 // ============================================
 // MCP Router Service
@@ -388,6 +389,34 @@ export function buildToolDescriptions(
   return lines.join('\n');
 }
 
+/**
+ * Build native tool definitions for providers with tool-calling support
+ */
+export function buildToolDefinitions(
+  tools: Array<{ serverId: string; serverName: string; tool: MCPTool }>
+): LLMToolDefinition[] {
+  const seen = new Set<string>();
+  const definitions: LLMToolDefinition[] = [];
+
+  for (const { serverName, tool } of tools) {
+    // Tool names must be unique per request; calls are routed by name
+    if (seen.has(tool.name)) continue;
+    seen.add(tool.name);
+
+    const schema = tool.inputSchema && typeof tool.inputSchema === 'object'
+      ? tool.inputSchema
+      : {};
+
+    definitions.push({
+      name: tool.name,
+      description: tool.description || `Tool provided by ${serverName}`,
+      parameters: { type: 'object', properties: {}, ...schema },
+    });
+  }
+
+  return definitions;
+}
+
 /**
  * Parse tool calls from agent response content
  */
@@ -6,6 +6,7 @@ import type { PromptTemplates, TemplateParams, LanguageCode } from './types';
 import englishPrompts from './en.json';
 import persianPrompts from './persian.json';
 import { llmRouter } from '../llm/llm-router';
+import type { CacheMode } from '../llm/types';
 
 const PROMPTS_DB_NAME = 'PromptTemplatesDB';
 const PROMPTS_STORE_NAME = 'templates';
@@ -46,6 +47,15 @@ export interface TranslationProgress {
   error?: string;
 }
 
+/**
+ * Model a language is translated with
+ */
+interface TranslationModel {
+  providerId: string;
+  modelId: string;
+  cache: CacheMode;
+}
+
 /**
  * LanguageService - Manages prompt templates for different languages
  * 
@@ -306,13 +316,15 @@ class LanguageServiceImpl {
    * @param onProgress Optional callback for progress updates
    * @param providerId Optional LLM provider ID (will be passed to llmRouter)
    * @param modelId Optional model ID (will be passed to llmRouter)
+   * @param cache 'bypass' to translate again instead of reusing cached translations
    */
   async translateLanguage(
     targetLanguageCode: string,
     targetLanguageName: string,
     onProgress?: (progress: TranslationProgress) => void,
     providerId?: string,
-    modelId?: string
+    modelId?: string,
+    cache: CacheMode = 'use'
   ): Promise<PromptTemplates> {
     const english = this.getEnglishPrompts();
     
@@ -332,6 +344,7 @@ class LanguageServiceImpl {
     
     // Get first available model from the provider's config
     const effectiveModelId = modelId || 'gpt-4o-mini'; // Default to a common model
+    const model: TranslationModel = { providerId: effectiveProviderId, modelId: effectiveModelId, cache };
 
     const emitProgress = (progress: number, section: string, status: 'translating' | 'completed' | 'failed' = 'translating') => {
       const event: TranslationProgress = {
@@ -352,10 +365,10 @@ class LanguageServiceImpl {
         version: english.version,
         language: targetLanguageCode,
         languageName: targetLanguageName,
-        agent: await this.translateAgentPrompts(english.agent, targetLanguageName, effectiveProviderId, effectiveModelId, (p: number) => emitProgress(p * 0.3, 'Agent prompts')),
-        secretary: await this.translateSecretaryPrompts(english.secretary, targetLanguageName, effectiveProviderId, effectiveModelId, (p: number) => emitProgress(30 + p * 0.35, 'Secretary prompts')),
-        strategies: await this.translateStrategyPrompts(english.strategies, targetLanguageName, effectiveProviderId, effectiveModelId, (p: number) => emitProgress(65 + p * 0.2, 'Strategy prompts')),
-        context: await this.translateContextPrompts(english.context, targetLanguageName, effectiveProviderId, effectiveModelId, (p: number) => emitProgress(85 + p * 0.15, 'Context prompts')),
+        agent: await this.translateAgentPrompts(english.agent, targetLanguageName, model, (p: number) => emitProgress(p * 0.3, 'Agent prompts')),
+        secretary: await this.translateSecretaryPrompts(english.secretary, targetLanguageName, model, (p: number) => emitProgress(30 + p * 0.35, 'Secretary prompts')),
+        strategies: await this.translateStrategyPrompts(english.strategies, targetLanguageName, model, (p: number) => emitProgress(65 + p * 0.2, 'Strategy prompts')),
+        context: await this.translateContextPrompts(english.context, targetLanguageName, model, (p: number) => emitProgress(85 + p * 0.15, 'Context prompts')),
       };
 
       // Save to IndexedDB
@@ -457,11 +470,12 @@ class LanguageServiceImpl {
   private async translateText(
     text: string,
     targetLanguage: string,
-    providerId: string,
-    modelId: string
+    model: TranslationModel
   ): Promise<string> {
-    const response = await llmRouter.complete(providerId, {
-      model: modelId,
+    const response = await llmRouter.complete(model.providerId, {
+      model: model.modelId,
+      usage: { purpose: 'translation' },
+      cache: model.cache,
       messages: [
         {
           role: 'system',
@@ -485,15 +499,14 @@ Only output the translated text, nothing else.`,
   private async translateStringRecord<T>(
     obj: T,
     targetLanguage: string,
-    providerId: string,
-    modelId: string
+    model: TranslationModel
   ): Promise<T> {
     const result: Record<string, unknown> = {};
     const entries = Object.entries(obj as Record<string, unknown>);
     
     for (const [key, value] of entries) {
       if (typeof value === 'string') {
-        result[key] = await this.translateText(value, targetLanguage, providerId, modelId);
+        result[key] = await this.translateText(value, targetLanguage, model);
       } else {
         result[key] = value;
       }
@@ -505,8 +518,7 @@ Only output the translated text, nothing else.`,
   private async translateAgentPrompts(
     agent: PromptTemplates['agent'],
     targetLanguage: string,
-    providerId: string,
-    modelId: string,
+    model: TranslationModel,
     onProgress: (progress: number) => void
   ): Promise<PromptTemplates['agent']> {
     onProgress(0);
@@ -517,28 +529,28 @@ Only output the translated text, nothing else.`,
       goalTemplate,
       secretaryRole,
     ] = await Promise.all([
-      this.translateText(agent.coreIdentity, targetLanguage, providerId, modelId),
-      this.translateText(agent.conversationContext, targetLanguage, providerId, modelId),
-      this.translateText(agent.goalTemplate, targetLanguage, providerId, modelId),
-      this.translateText(agent.secretaryRole, targetLanguage, providerId, modelId),
+      this.translateText(agent.coreIdentity, targetLanguage, model),
+      this.translateText(agent.conversationContext, targetLanguage, model),
+      this.translateText(agent.goalTemplate, targetLanguage, model),
+      this.translateText(agent.secretaryRole, targetLanguage, model),
     ]);
     onProgress(25);
     
-    const thinkingDepth = await this.translateStringRecord(agent.thinkingDepth, targetLanguage, providerId, modelId);
+    const thinkingDepth = await this.translateStringRecord(agent.thinkingDepth, targetLanguage, model);
     onProgress(40);
     
-    const creativityGuidance = await this.translateStringRecord(agent.creativityGuidance, targetLanguage, providerId, modelId);
+    const creativityGuidance = await this.translateStringRecord(agent.creativityGuidance, targetLanguage, model);
     onProgress(55);
     
-    const wordLimit = await this.translateStringRecord(agent.wordLimit, targetLanguage, providerId, modelId);
+    const wordLimit = await this.translateStringRecord(agent.wordLimit, targetLanguage, model);
     
     // Translate depth configs
     const depthConfigs: PromptTemplates['agent']['depthConfigs'] = {
-      brief: await this.translateStringRecord(agent.depthConfigs.brief, targetLanguage, providerId, modelId),
-      concise: await this.translateStringRecord(agent.depthConfigs.concise, targetLanguage, providerId, modelId),
-      standard: await this.translateStringRecord(agent.depthConfigs.standard, targetLanguage, providerId, modelId),
-      detailed: await this.translateStringRecord(agent.depthConfigs.detailed, targetLanguage, providerId, modelId),
-      deep: await this.translateStringRecord(agent.depthConfigs.deep, targetLanguage, providerId, modelId),
+      brief: await this.translateStringRecord(agent.depthConfigs.brief, targetLanguage, model),
+      concise: await this.translateStringRecord(agent.depthConfigs.concise, targetLanguage, model),
+      standard: await this.translateStringRecord(agent.depthConfigs.standard, targetLanguage, model),
+      detailed: await this.translateStringRecord(agent.depthConfigs.detailed, targetLanguage, model),
+      deep: await this.translateStringRecord(agent.depthConfigs.deep, targetLanguage, model),
     };
     onProgress(75);
     
@@ -548,10 +560,10 @@ Only output the translated text, nothing else.`,
       interactionGuidelines,
       strategyApproach,
     ] = await Promise.all([
-      this.translateText(agent.plainTextRules, targetLanguage, providerId, modelId),
-      this.translateText(agent.languageRequirement, targetLanguage, providerId, modelId),
-      this.translateText(agent.interactionGuidelines, targetLanguage, providerId, modelId),
-      this.translateText(agent.strategyApproach, targetLanguage, providerId, modelId),
+      this.translateText(agent.plainTextRules, targetLanguage, model),
+      this.translateText(agent.languageRequirement, targetLanguage, model),
+      this.translateText(agent.interactionGuidelines, targetLanguage, model),
+      this.translateText(agent.strategyApproach, targetLanguage, model),
     ]);
     onProgress(100);
     
@@ -574,16 +586,15 @@ Only output the translated text, nothing else.`,
   private async translateSecretaryPrompts(
     secretary: PromptTemplates['secretary'],
     targetLanguage: string,
-    providerId: string,
-    modelId: string,
+    model: TranslationModel,
     onProgress: (progress: number) => void
   ): Promise<PromptTemplates['secretary']> {
     onProgress(0);
     
-    const neutralityPrompt = await this.translateText(secretary.neutralityPrompt, targetLanguage, providerId, modelId);
+    const neutralityPrompt = await this.translateText(secretary.neutralityPrompt, targetLanguage, model);
     onProgress(10);
     
-    const roundDecisionFallbacks = await this.translateStringRecord(secretary.roundDecisionFallbacks, targetLanguage, providerId, modelId);
+    const roundDecisionFallbacks = await this.translateStringRecord(secretary.roundDecisionFallbacks, targetLanguage, model);
     onProgress(15);
     
     const [
@@ -593,11 +604,11 @@ Only output the translated text, nothing else.`,
       summarySystemWithLanguage,
       summaryUser,
     ] = await Promise.all([
-      this.translateText(secretary.roundSummarySystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.roundAnalysisSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.summarySystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.summarySystemWithLanguage, targetLanguage, providerId, modelId),
-      this.translateText(secretary.summaryUser, targetLanguage, providerId, modelId),
+      this.translateText(secretary.roundSummarySystem, targetLanguage, model),
+      this.translateText(secretary.roundAnalysisSystem, targetLanguage, model),
+      this.translateText(secretary.summarySystem, targetLanguage, model),
+      this.translateText(secretary.summarySystemWithLanguage, targetLanguage, model),
+      this.translateText(secretary.summaryUser, targetLanguage, model),
     ]);
     onProgress(35);
     
@@ -608,11 +619,11 @@ Only output the translated text, nothing else.`,
       finalExecutiveSummarySystem,
       themeExtractionSystem,
     ] = await Promise.all([
-      this.translateText(secretary.noteExtractionSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.noteExtractionUser, targetLanguage, providerId, modelId),
-      this.translateText(secretary.executiveSummarySystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.finalExecutiveSummarySystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.themeExtractionSystem, targetLanguage, providerId, modelId),
+      this.translateText(secretary.noteExtractionSystem, targetLanguage, model),
+      this.translateText(secretary.noteExtractionUser, targetLanguage, model),
+      this.translateText(secretary.executiveSummarySystem, targetLanguage, model),
+      this.translateText(secretary.finalExecutiveSummarySystem, targetLanguage, model),
+      this.translateText(secretary.themeExtractionSystem, targetLanguage, model),
     ]);
     onProgress(55);
     
@@ -623,11 +634,11 @@ Only output the translated text, nothing else.`,
       actionItemsExtractionSystem,
       openQuestionsExtractionSystem,
     ] = await Promise.all([
-      this.translateText(secretary.consensusExtractionSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.disagreementExtractionSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.recommendationsExtractionSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.actionItemsExtractionSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.openQuestionsExtractionSystem, targetLanguage, providerId, modelId),
+      this.translateText(secretary.consensusExtractionSystem, targetLanguage, model),
+      this.translateText(secretary.disagreementExtractionSystem, targetLanguage, model),
+      this.translateText(secretary.recommendationsExtractionSystem, targetLanguage, model),
+      this.translateText(secretary.actionItemsExtractionSystem, targetLanguage, model),
+      this.translateText(secretary.openQuestionsExtractionSystem, targetLanguage, model),
     ]);
     onProgress(70);
     
@@ -638,16 +649,37 @@ Only output the translated text, nothing else.`,
       distillationSystem,
       distillationUser,
     ] = await Promise.all([
-      this.translateText(secretary.incrementalUpdateSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.incrementalUpdateUser, targetLanguage, providerId, modelId),
-      this.translateText(secretary.statusUpdateSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.distillationSystem, targetLanguage, providerId, modelId),
-      this.translateText(secretary.distillationUser, targetLanguage, providerId, modelId),
+      this.translateText(secretary.incrementalUpdateSystem, targetLanguage, model),
+      this.translateText(secretary.incrementalUpdateUser, targetLanguage, model),
+      this.translateText(secretary.statusUpdateSystem, targetLanguage, model),
+      this.translateText(secretary.distillationSystem, targetLanguage, model),
+      this.translateText(secretary.distillationUser, targetLanguage, model),
     ]);
     onProgress(85);
     
-    const resultDocument = await this.translateStringRecord(secretary.resultDocument, targetLanguage, providerId, modelId);
-    const defaults = await this.translateStringRecord(secretary.defaults, targetLanguage, providerId, modelId);
+    const resultDocument = await this.translateStringRecord(secretary.resultDocument, targetLanguage, model);
+    const defaults = await this.translateStringRecord(secretary.defaults, targetLanguage, model);
+    
+    const parallelRoundSummarySystem = secretary.parallelRoundSummarySystem
+      ? await this.translateText(secretary.parallelRoundSummarySystem, targetLanguage, model)
+      : undefined;
+
+    // Translate moderator prompts if they exist
+    const moderatorSelection = secretary.moderatorSelection
+      ? await this.translateStringRecord(secretary.moderatorSelection, targetLanguage, model)
+      : undefined;
+    const debateJudge = secretary.debateJudge
+      ? await this.translateStringRecord(secretary.debateJudge, targetLanguage, model)
+      : undefined;
+    const decisionPoint = secretary.decisionPoint
+      ? await this.translateStringRecord(secretary.decisionPoint, targetLanguage, model)
+      : undefined;
+    const convergence = secretary.convergence
+      ? await this.translateStringRecord(secretary.convergence, targetLanguage, model)
+      : undefined;
+    const documentSummary = secretary.documentSummary
+      ? await this.translateStringRecord(secretary.documentSummary, targetLanguage, model)
+      : undefined;
     onProgress(100);
     
     return {
@@ -675,14 +707,19 @@ Only output the translated text, nothing else.`,
       distillationSystem,
       distillationUser,
       defaults,
+      ...(parallelRoundSummarySystem && { parallelRoundSummarySystem }),
+      ...(moderatorSelection && { moderatorSelection }),
+      ...(debateJudge && { debateJudge }),
+      ...(decisionPoint && { decisionPoint }),
+      ...(convergence && { convergence }),
+      ...(documentSummary && { documentSummary }),
     };
   }
 
   private async translateStrategyPrompts(
     strategies: PromptTemplates['strategies'],
     targetLanguage: string,
-    providerId: string,
-    modelId: string,
+    model: TranslationModel,
     onProgress: (progress: number) => void
   ): Promise<PromptTemplates['strategies']> {
     const strategyKeys = [
@@ -709,13 +746,13 @@ Only output the translated text, nothing else.`,
         agentInstructions,
         firstTurnPrompt,
       ] = await Promise.all([
-        this.translateText(strategy.name, targetLanguage, providerId, modelId),
-        this.translateText(strategy.description, targetLanguage, providerId, modelId),
-        this.translateText(strategy.shortDescription, targetLanguage, providerId, modelId),
-        this.translateText(strategy.openingPromptTemplate, targetLanguage, providerId, modelId),
-        this.translateText(strategy.groundRulesTemplate, targetLanguage, providerId, modelId),
-        this.translateText(strategy.agentInstructions, targetLanguage, providerId, modelId),
-        this.translateText(strategy.firstTurnPrompt, targetLanguage, providerId, modelId),
+        this.translateText(strategy.name, targetLanguage, model),
+        this.translateText(strategy.description, targetLanguage, model),
+        this.translateText(strategy.shortDescription, targetLanguage, model),
+        this.translateText(strategy.openingPromptTemplate, targetLanguage, model),
+        this.translateText(strategy.groundRulesTemplate, targetLanguage, model),
+        this.translateText(strategy.agentInstructions, targetLanguage, model),
+        this.translateText(strategy.firstTurnPrompt, targetLanguage, model),
       ]);
       
       result[key] = {
@@ -734,8 +771,7 @@ Only output the translated text, nothing else.`,
     const defaultFirstTurnPrompt = await this.translateText(
       strategies.defaultFirstTurnPrompt,
       targetLanguage,
-      providerId,
-      modelId
+      model
     );
     onProgress(100);
     
@@ -748,8 +784,7 @@ Only output the translated text, nothing else.`,
   private async translateContextPrompts(
     context: PromptTemplates['context'],
     targetLanguage: string,
-    providerId: string,
-    modelId: string,
+    model: TranslationModel,
     onProgress: (progress: number) => void
   ): Promise<PromptTemplates['context']> {
     onProgress(0);
@@ -767,32 +802,47 @@ Only output the translated text, nothing else.`,
       userGuidancePrefix,
       discussionOpeningPrefix,
     ] = await Promise.all([
-      this.translateText(context.discussionContext, targetLanguage, providerId, modelId),
-      this.translateText(context.roundDecisionReasoning, targetLanguage, providerId, modelId),
-      this.translateText(context.distilledMemoryHeader, targetLanguage, providerId, modelId),
-      this.translateText(context.currentDiscussionState, targetLanguage, providerId, modelId),
-      this.translateText(context.keyDecisionsMade, targetLanguage, providerId, modelId),
-      this.translateText(context.openQuestionsLabel, targetLanguage, providerId, modelId),
-      this.translateText(context.keyFactsHeader, targetLanguage, providerId, modelId),
-      this.translateText(context.secretarySummary, targetLanguage, providerId, modelId),
-      this.translateText(context.notebookHeader, targetLanguage, providerId, modelId),
-      this.translateText(context.userGuidancePrefix, targetLanguage, providerId, modelId),
-      this.translateText(context.discussionOpeningPrefix, targetLanguage, providerId, modelId),
+      this.translateText(context.discussionContext, targetLanguage, model),
+      this.translateText(context.roundDecisionReasoning, targetLanguage, model),
+      this.translateText(context.distilledMemoryHeader, targetLanguage, model),
+      this.translateText(context.currentDiscussionState, targetLanguage, model),
+      this.translateText(context.keyDecisionsMade, targetLanguage, model),
+      this.translateText(context.openQuestionsLabel, targetLanguage, model),
+      this.translateText(context.keyFactsHeader, targetLanguage, model),
+      this.translateText(context.secretarySummary, targetLanguage, model),
+      this.translateText(context.notebookHeader, targetLanguage, model),
+      this.translateText(context.userGuidancePrefix, targetLanguage, model),
+      this.translateText(context.discussionOpeningPrefix, targetLanguage, model),
     ]);
     onProgress(40);
     
-    const currentState = await this.translateStringRecord(context.currentState, targetLanguage, providerId, modelId);
-    const phaseGuidance = await this.translateStringRecord(context.phaseGuidance, targetLanguage, providerId, modelId);
-    const messagePrefixes = await this.translateStringRecord(context.messagePrefixes, targetLanguage, providerId, modelId);
+    const currentState = await this.translateStringRecord(context.currentState, targetLanguage, model);
+    const phaseGuidance = await this.translateStringRecord(context.phaseGuidance, targetLanguage, model);
+    const messagePrefixes = await this.translateStringRecord(context.messagePrefixes, targetLanguage, model);
     onProgress(70);
     
-    const turnPrompts = await this.translateStringRecord(context.turnPrompts, targetLanguage, providerId, modelId);
+    const turnPrompts = await this.translateStringRecord(context.turnPrompts, targetLanguage, model);
     onProgress(90);
     
     // Translate finishing phase prompts if they exist
     const finishingPhaseSource = (context as any).finishingPhase as unknown;
     const finishingPhase = finishingPhaseSource
-      ? await this.translateStringRecord(finishingPhaseSource as any, targetLanguage, providerId, modelId)
+      ? await this.translateStringRecord(finishingPhaseSource as any, targetLanguage, model)
+      : undefined;
+    const debate = context.debate
+      ? await this.translateStringRecord(context.debate, targetLanguage, model)
+      : undefined;
+    const voting = context.voting
+      ? await this.translateStringRecord(context.voting, targetLanguage, model)
+      : undefined;
+    const workspaceMemory = context.workspaceMemory
+      ? await this.translateStringRecord(context.workspaceMemory, targetLanguage, model)
+      : undefined;
+    const documents = context.documents
+      ? await this.translateStringRecord(context.documents, targetLanguage, model)
+      : undefined;
+    const knowledge = context.knowledge
+      ? await this.translateStringRecord(context.knowledge, targetLanguage, model)
       : undefined;
     onProgress(100);
     
@@ -813,6 +863,11 @@ Only output the translated text, nothing else.`,
       messagePrefixes,
       turnPrompts,
       ...(finishingPhase && { finishingPhase }),
+      ...(debate && { debate }),
+      ...(voting && { voting }),
+      ...(workspaceMemory && { workspaceMemory }),
+      ...(documents && { documents }),
+      ...(knowledge && { knowledge }),
     };
   }
 }
@@ -102,6 +102,9 @@ export interface SecretaryPrompts {
   
   /** Round summary prompt: uses {round}, {language} */
   roundSummarySystem: string;
+
+  /** Round summary prompt for parallel rounds, where answers were written independently: uses {round} (optional for backward compatibility) */
+  parallelRoundSummarySystem?: string;
   
   /** Round analysis prompt for deciding rounds: uses {subject}, {goal}, {language} */
   roundAnalysisSystem: string;
@@ -179,6 +182,46 @@ export interface SecretaryPrompts {
   /** Distillation user prompt */
   distillationUser: string;
   
+  /** Moderator speaker selection prompts (optional for backward compatibility) */
+  moderatorSelection?: {
+    /** System prompt: uses {subject}, {goal} */
+    system: string;
+    /** User prompt: uses {participants}, {openQuestions}, {messages} */
+    user: string;
+  };
+  
+  /** Debate judge prompts (optional for backward compatibility) */
+  debateJudge?: {
+    /** System prompt: uses {subject}, {goal}, {rubric}, {maxScore} */
+    system: string;
+    /** User prompt: uses {teams}, {transcript} */
+    user: string;
+  };
+  
+  /** Convergence check after each round (optional for backward compatibility) */
+  convergence?: {
+    /** System prompt: uses {subject}, {goal}, {roundLimit} */
+    system: string;
+    /** User prompt: uses {round}, {messages}, {previousQuestions}, {novelty}, {repetition} */
+    user: string;
+  };
+  
+  /** Decision-point check before calling a vote (optional for backward compatibility) */
+  decisionPoint?: {
+    /** System prompt: uses {subject}, {goal}, {previousProposals} */
+    system: string;
+    /** User prompt: uses {messages} */
+    user: string;
+  };
+  
+  /** Summary of an attached document (optional for backward compatibility) */
+  documentSummary?: {
+    /** System prompt: uses {subject}, {goal} */
+    system: string;
+    /** User prompt: uses {name}, {format}, {content} */
+    user: string;
+  };
+  
   /** Default messages */
   defaults: {
     noDiscussion: string;
@@ -301,6 +344,71 @@ export interface ContextPrompts {
     /** Instructions for secretary in the final round */
     secretaryInstructions: string;
   };
+  
+  /** Debate mode turn prompts (optional for backward compatibility) */
+  debate?: {
+    /** Team labels */
+    proTeam: string;
+    conTeam: string;
+    /** How each team relates to the motion, used as {stance} */
+    proStance: string;
+    conStance: string;
+    /** Shown when a team list is empty */
+    nobody: string;
+    /** Team briefing: uses {agentName}, {team}, {stance}, {subject}, {teammates}, {opponents} */
+    briefing: string;
+    /** Phase instructions */
+    opening: string;
+    rebuttal: string;
+    closing: string;
+  };
+  
+  /** Voting prompts (optional for backward compatibility) */
+  voting?: {
+    /** Ballot shown to each voter: uses {agentName}, {proposal} */
+    ballot: string;
+    /** Counted vote: uses {proposal}, {support}, {oppose}, {abstain}, {outcome}, {agreement} */
+    result: string;
+    /** Outcome labels, used as {outcome} */
+    consensus: string;
+    rejected: string;
+    split: string;
+    noQuorum: string;
+    /** Heading for vote results in the consensus areas */
+    consensusHeader: string;
+  };
+  
+  /** Workspace memory from earlier conversations (optional for backward compatibility) */
+  workspaceMemory?: {
+    /** Heading above the retrieved entries */
+    header: string;
+    /** One entry: uses {index}, {kind}, {content}, {subject} */
+    citation: string;
+    /** Entry kind labels, used as {kind} */
+    fact: string;
+    decision: string;
+    result: string;
+  };
+
+  /** Attached source documents (optional for backward compatibility) */
+  documents?: {
+    /** Heading above the document summaries and passages */
+    header: string;
+    /** One document: uses {number}, {name}, {summary} */
+    summary: string;
+    /** One passage: uses {ref}, {content} */
+    chunk: string;
+    /** Heading above the passages */
+    passagesHeader: string;
+  };
+
+  /** The agent's private knowledge packs (optional for backward compatibility) */
+  knowledge?: {
+    /** Heading above the passages */
+    header: string;
+    /** One passage: uses {pack}, {content} */
+    passage: string;
+  };
 }
 
 /**
@@ -18,6 +18,13 @@ import type {
   MCPToolCall,
   UserInterjection,
   UserReaction,
+  UsageRecord,
+  Vote,
+  WorkspaceMemoryEntry,
+  EmbeddingRecord,
+  ConversationDocument,
+  DocumentChunk,
+  ResponseCacheEntry,
   AppSettings,
 } from '../types';
 
@@ -36,6 +43,13 @@ export class BrainstormDB extends Dexie {
   mcpToolCalls!: Table<MCPToolCall, string>;
   userInterjections!: Table<UserInterjection, string>;
   userReactions!: Table<UserReaction, string>;
+  usageRecords!: Table<UsageRecord, string>;
+  votes!: Table<Vote, string>;
+  workspaceMemory!: Table<WorkspaceMemoryEntry, string>;
+  embeddings!: Table<EmbeddingRecord, string>;
+  documents!: Table<ConversationDocument, string>;
+  documentChunks!: Table<DocumentChunk, string>;
+  responseCache!: Table<ResponseCacheEntry, string>;
   appSettings!: Table<AppSettings, string>;
 
   constructor() {
@@ -168,6 +182,162 @@ export class BrainstormDB extends Dexie {
       userReactions: 'id, messageId',
       appSettings: 'id',
     });
+
+    // Version 7: Index conversations by parent so branches can be listed
+    this.version(7).stores({
+      conversations: 'id, status, createdAt, updatedAt, parentConversationId',
+      turns: 'id, conversationId, agentId, [conversationId+round], [conversationId+round+sequence], state',
+      agents: 'id, conversationId, [conversationId+order], isSecretary',
+      messages: 'id, conversationId, turnId, agentId, [conversationId+round], createdAt, type',
+      notebooks: 'agentId',
+      resultDrafts: 'conversationId',
+      distilledMemories: 'conversationId, lastDistilledRound',
+      contextSnapshots: 'turnId, conversationId',
+      agentPresets: 'id, category, isBuiltIn, name',
+      llmProviders: 'id, apiFormat, isActive',
+      mcpServers: 'id, transport, isActive',
+      mcpToolCalls: 'id, conversationId, turnId, [conversationId+status], status, createdAt',
+      userInterjections: 'id, conversationId, [conversationId+afterRound], processed, [conversationId+processed]',
+      userReactions: 'id, messageId',
+      appSettings: 'id',
+    });
+
+    // Version 8: Add usageRecords table for token and cost accounting
+    this.version(8).stores({
+      conversations: 'id, status, createdAt, updatedAt, parentConversationId',
+      turns: 'id, conversationId, agentId, [conversationId+round], [conversationId+round+sequence], state',
+      agents: 'id, conversationId, [conversationId+order], isSecretary',
+      messages: 'id, conversationId, turnId, agentId, [conversationId+round], createdAt, type',
+      notebooks: 'agentId',
+      resultDrafts: 'conversationId',
+      distilledMemories: 'conversationId, lastDistilledRound',
+      contextSnapshots: 'turnId, conversationId',
+      agentPresets: 'id, category, isBuiltIn, name',
+      llmProviders: 'id, apiFormat, isActive',
+      mcpServers: 'id, transport, isActive',
+      mcpToolCalls: 'id, conversationId, turnId, [conversationId+status], status, createdAt',
+      userInterjections: 'id, conversationId, [conversationId+afterRound], processed, [conversationId+processed]',
+      userReactions: 'id, messageId',
+      usageRecords: 'id, conversationId, agentId, providerId, createdAt',
+      appSettings: 'id',
+    });
+
+    // Version 9: Add votes table for agent votes on proposals
+    this.version(9).stores({
+      conversations: 'id, status, createdAt, updatedAt, parentConversationId',
+      turns: 'id, conversationId, agentId, [conversationId+round], [conversationId+round+sequence], state',
+      agents: 'id, conversationId, [conversationId+order], isSecretary',
+      messages: 'id, conversationId, turnId, agentId, [conversationId+round], createdAt, type',
+      notebooks: 'agentId',
+      resultDrafts: 'conversationId',
+      distilledMemories: 'conversationId, lastDistilledRound',
+      contextSnapshots: 'turnId, conversationId',
+      agentPresets: 'id, category, isBuiltIn, name',
+      llmProviders: 'id, apiFormat, isActive',
+      mcpServers: 'id, transport, isActive',
+      mcpToolCalls: 'id, conversationId, turnId, [conversationId+status], status, createdAt',
+      userInterjections: 'id, conversationId, [conversationId+afterRound], processed, [conversationId+processed]',
+      userReactions: 'id, messageId',
+      usageRecords: 'id, conversationId, agentId, providerId, createdAt',
+      votes: 'id, conversationId, messageId, agentId',
+      appSettings: 'id',
+    });
+
+    // Version 10: Add workspace memory shared across conversations
+    this.version(10).stores({
+      conversations: 'id, status, createdAt, updatedAt, parentConversationId',
+      turns: 'id, conversationId, agentId, [conversationId+round], [conversationId+round+sequence], state',
+      agents: 'id, conversationId, [conversationId+order], isSecretary',
+      messages: 'id, conversationId, turnId, agentId, [conversationId+round], createdAt, type',
+      notebooks: 'agentId',
+      resultDrafts: 'conversationId',
+      distilledMemories: 'conversationId, lastDistilledRound',
+      contextSnapshots: 'turnId, conversationId',
+      agentPresets: 'id, category, isBuiltIn, name',
+      llmProviders: 'id, apiFormat, isActive',
+      mcpServers: 'id, transport, isActive',
+      mcpToolCalls: 'id, conversationId, turnId, [conversationId+status], status, createdAt',
+      userInterjections: 'id, conversationId, [conversationId+afterRound], processed, [conversationId+processed]',
+      userReactions: 'id, messageId',
+      usageRecords: 'id, conversationId, agentId, providerId, createdAt',
+      votes: 'id, conversationId, messageId, agentId',
+      workspaceMemory: 'id, sourceConversationId, kind, *topics, createdAt',
+      appSettings: 'id',
+    });
+
+    // Version 11: Add embeddings for semantic search
+    this.version(11).stores({
+      conversations: 'id, status, createdAt, updatedAt, parentConversationId',
+      turns: 'id, conversationId, agentId, [conversationId+round], [conversationId+round+sequence], state',
+      agents: 'id, conversationId, [conversationId+order], isSecretary',
+      messages: 'id, conversationId, turnId, agentId, [conversationId+round], createdAt, type',
+      notebooks: 'agentId',
+      resultDrafts: 'conversationId',
+      distilledMemories: 'conversationId, lastDistilledRound',
+      contextSnapshots: 'turnId, conversationId',
+      agentPresets: 'id, category, isBuiltIn, name',
+      llmProviders: 'id, apiFormat, isActive',
+      mcpServers: 'id, transport, isActive',
+      mcpToolCalls: 'id, conversationId, turnId, [conversationId+status], status, createdAt',
+      userInterjections: 'id, conversationId, [conversationId+afterRound], processed, [conversationId+processed]',
+      userReactions: 'id, messageId',
+      usageRecords: 'id, conversationId, agentId, providerId, createdAt',
+      votes: 'id, conversationId, messageId, agentId',
+      workspaceMemory: 'id, sourceConversationId, kind, *topics, createdAt',
+      embeddings: 'id, conversationId, model',
+      appSettings: 'id',
+    });
+
+    // Version 12: Add documents attached to conversations
+    this.version(12).stores({
+      conversations: 'id, status, createdAt, updatedAt, parentConversationId',
+      turns: 'id, conversationId, agentId, [conversationId+round], [conversationId+round+sequence], state',
+      agents: 'id, conversationId, [conversationId+order], isSecretary',
+      messages: 'id, conversationId, turnId, agentId, [conversationId+round], createdAt, type',
+      notebooks: 'agentId',
+      resultDrafts: 'conversationId',
+      distilledMemories: 'conversationId, lastDistilledRound',
+      contextSnapshots: 'turnId, conversationId',
+      agentPresets: 'id, category, isBuiltIn, name',
+      llmProviders: 'id, apiFormat, isActive',
+      mcpServers: 'id, transport, isActive',
+      mcpToolCalls: 'id, conversationId, turnId, [conversationId+status], status, createdAt',
+      userInterjections: 'id, conversationId, [conversationId+afterRound], processed, [conversationId+processed]',
+      userReactions: 'id, messageId',
+      usageRecords: 'id, conversationId, agentId, providerId, createdAt',
+      votes: 'id, conversationId, messageId, agentId',
+      workspaceMemory: 'id, sourceConversationId, kind, *topics, createdAt',
+      embeddings: 'id, conversationId, model',
+      documents: 'id, conversationId, createdAt',
+      documentChunks: 'id, documentId, conversationId, [conversationId+ref]',
+      appSettings: 'id',
+    });
+
+    // Version 13: Add the LLM response cache
+    this.version(13).stores({
+      conversations: 'id, status, createdAt, updatedAt, parentConversationId',
+      turns: 'id, conversationId, agentId, [conversationId+round], [conversationId+round+sequence], state',
+      agents: 'id, conversationId, [conversationId+order], isSecretary',
+      messages: 'id, conversationId, turnId, agentId, [conversationId+round], createdAt, type',
+      notebooks: 'agentId',
+      resultDrafts: 'conversationId',
+      distilledMemories: 'conversationId, lastDistilledRound',
+      contextSnapshots: 'turnId, conversationId',
+      agentPresets: 'id, category, isBuiltIn, name',
+      llmProviders: 'id, apiFormat, isActive',
+      mcpServers: 'id, transport, isActive',
+      mcpToolCalls: 'id, conversationId, turnId, [conversationId+status], status, createdAt',
+      userInterjections: 'id, conversationId, [conversationId+afterRound], processed, [conversationId+processed]',
+      userReactions: 'id, messageId',
+      usageRecords: 'id, conversationId, agentId, providerId, createdAt',
+      votes: 'id, conversationId, messageId, agentId',
+      workspaceMemory: 'id, sourceConversationId, kind, *topics, createdAt',
+      embeddings: 'id, conversationId, model',
+      documents: 'id, conversationId, createdAt',
+      documentChunks: 'id, documentId, conversationId, [conversationId+ref]',
+      responseCache: 'key, providerId, createdAt, lastUsedAt',
+      appSettings: 'id',
+    });
   }
 }
 
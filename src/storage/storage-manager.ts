@@ -12,8 +12,12 @@ import type {
   CreateAgent,
   UpdateAgent,
   Message,
+  MessageVersion,
+  MessageVersionTrace,
   CreateMessage,
   Turn,
+  ModelRoute,
+  ModelFailover,
   TurnState,
   Notebook,
   ResultDraft,
@@ -40,6 +44,14 @@ import type {
   MCPToolCallStatus,
   UserInterjection,
   UserReaction,
+  UsageRecord,
+  Vote,
+  VoteTally,
+  WorkspaceMemoryEntry,
+  EmbeddingRecord,
+  ConversationDocument,
+  DocumentChunk,
+  ResponseCacheEntry,
   AppSettings,
   PaginatedResult,
 } from '../types';
@@ -59,6 +71,24 @@ function normalizeConversation(raw: any): Conversation {
   } as Conversation;
 }
 
+/**
+ * Remove notes from a notebook, the latest matching entry for each.
+ * Notes were cut to length when stored, so a shortened entry matches the start of its note.
+ */
+function removeNotebookEntries(notes: string, removed: string[]): string {
+  const entries = notes.split('\n---\n');
+  for (const note of removed) {
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const entry = entries[i];
+      if (entry === note || (entry.endsWith('...') && note.startsWith(entry.slice(0, -3)))) {
+        entries.splice(i, 1);
+        break;
+      }
+    }
+  }
+  return entries.join('\n---\n');
+}
+
 // ============================================
 // Conversations
 // ============================================
@@ -117,7 +147,7 @@ export const conversationStorage = {
   },
 
   async delete(id: string): Promise<void> {
-    await db.transaction('rw', [db.conversations, db.agents, db.turns, db.messages, db.notebooks, db.resultDrafts, db.distilledMemories, db.contextSnapshots, db.mcpToolCalls, db.userInterjections], async () => {
+    await db.transaction('rw', [db.conversations, db.agents, db.turns, db.messages, db.notebooks, db.resultDrafts, db.distilledMemories, db.contextSnapshots, db.mcpToolCalls, db.userInterjections, db.usageRecords, db.votes, db.workspaceMemory, db.embeddings, db.documents, db.documentChunks], async () => {
       // Delete all related data
       const agents = await db.agents.where('conversationId').equals(id).toArray();
       for (const agent of agents) {
@@ -131,10 +161,205 @@ export const conversationStorage = {
       await db.contextSnapshots.where('conversationId').equals(id).delete();
       await db.mcpToolCalls.where('conversationId').equals(id).delete();
       await db.userInterjections.where('conversationId').equals(id).delete();
+      await db.usageRecords.where('conversationId').equals(id).delete();
+      await db.votes.where('conversationId').equals(id).delete();
+      await db.workspaceMemory.where('sourceConversationId').equals(id).delete();
+      await db.embeddings.where('conversationId').equals(id).delete();
+      await db.documents.where('conversationId').equals(id).delete();
+      await db.documentChunks.where('conversationId').equals(id).delete();
       await db.conversations.delete(id);
     });
   },
 
+  /**
+   * Fork a conversation at one of its messages.
+   * Copies the conversation, agents, notebooks, attached documents and every message up to and including
+   * the branch message (with their turns, context snapshots, tool calls and votes) under new IDs.
+   * Notes taken from messages after the branch are left out of the copied notebooks, and distilled
+   * memory is kept only if it does not reach past the branch point; the result draft is left for the
+   * secretary to rebuild.
+   */
+  async fork(id: string, messageId: string): Promise<Conversation | undefined> {
+    return db.transaction('rw', [db.conversations, db.agents, db.turns, db.messages, db.notebooks, db.distilledMemories, db.contextSnapshots, db.mcpToolCalls, db.votes, db.documents, db.documentChunks], async () => {
+      const source = await db.conversations.get(id);
+      const branchMessage = await db.messages.get(messageId);
+      if (!source || !branchMessage || branchMessage.conversationId !== id) return undefined;
+
+      const now = Date.now();
+      const forkId = uuidv4();
+
+      // Messages up to the branch point, in display order
+      const allMessages = await db.messages.where('conversationId').equals(id).sortBy('createdAt');
+      const branchIndex = allMessages.findIndex(m => m.id === messageId);
+      const kept = allMessages.slice(0, branchIndex + 1);
+      const later = allMessages.slice(branchIndex + 1);
+
+      // Agents and their notebooks, without the notes taken after the branch point
+      const agentIds = new Map<string, string>();
+      const agents = await db.agents.where('conversationId').equals(id).toArray();
+      for (const agent of agents) {
+        const newAgentId = uuidv4();
+        agentIds.set(agent.id, newAgentId);
+        await db.agents.put({ ...agent, id: newAgentId, conversationId: forkId });
+
+        const notebook = await db.notebooks.get(agent.id);
+        if (notebook) {
+          const laterNotes = later.flatMap(m => (m.agentId === agent.id && m.notebookNote ? [m.notebookNote] : []));
+          await db.notebooks.put({ ...notebook, agentId: newAgentId, notes: removeNotebookEntries(notebook.notes, laterNotes) });
+        }
+      }
+      const mapAgent = (agentId?: string) => (agentId ? agentIds.get(agentId) ?? agentId : agentId);
+
+      const turnIds = new Map<string, string>();
+      const turns = await db.turns.bulkGet(kept.flatMap(m => (m.turnId ? [m.turnId] : [])));
+      for (const turn of turns) {
+        if (!turn) continue;
+        const newTurnId = generateTurnId(forkId, turn.round, turn.sequence);
+        turnIds.set(turn.id, newTurnId);
+        await db.turns.put({
+          ...turn,
+          id: newTurnId,
+          conversationId: forkId,
+          agentId: mapAgent(turn.agentId)!,
+          moderatorDecision: turn.moderatorDecision && {
+            ...turn.moderatorDecision,
+            agentId: mapAgent(turn.moderatorDecision.agentId)!,
+            moderatorAgentId: mapAgent(turn.moderatorDecision.moderatorAgentId),
+          },
+        });
+      }
+
+      const messageIds = new Map<string, string>();
+      for (const message of kept) {
+        const newMessageId = uuidv4();
+        const newTurnId = message.turnId ? turnIds.get(message.turnId) : undefined;
+        messageIds.set(message.id, newMessageId);
+        await db.messages.put({
+          ...message,
+          id: newMessageId,
+          conversationId: forkId,
+          agentId: mapAgent(message.agentId),
+          addressedTo: mapAgent(message.addressedTo),
+          turnId: newTurnId,
+          // Inactive versions carry their own tool trace and snapshot
+          versions: message.versions?.map(version => ({
+            ...version,
+            toolCalls: version.toolCalls?.map(call => ({ ...call, id: uuidv4(), conversationId: forkId, turnId: newTurnId!, agentId: mapAgent(call.agentId)! })),
+            contextSnapshot: version.contextSnapshot && { ...version.contextSnapshot, turnId: newTurnId!, conversationId: forkId },
+          })),
+        });
+
+        if (message.type === 'vote') {
+          const votes = await db.votes.where('messageId').equals(message.id).toArray();
+          for (const vote of votes) {
+            await db.votes.put({ ...vote, id: uuidv4(), conversationId: forkId, messageId: newMessageId, agentId: mapAgent(vote.agentId)! });
+          }
+        }
+      }
+
+      for (const [oldTurnId, newTurnId] of turnIds) {
+        const snapshot = await db.contextSnapshots.get(oldTurnId);
+        if (snapshot) {
+          await db.contextSnapshots.put({ ...snapshot, turnId: newTurnId, conversationId: forkId });
+        }
+        const toolCalls = await db.mcpToolCalls.where('turnId').equals(oldTurnId).toArray();
+        for (const call of toolCalls) {
+          await db.mcpToolCalls.put({ ...call, id: uuidv4(), conversationId: forkId, turnId: newTurnId, agentId: mapAgent(call.agentId)! });
+        }
+      }
+
+      const memory = await db.distilledMemories.get(id);
+      if (memory && memory.lastDistilledRound <= branchMessage.round && messageIds.has(memory.lastDistilledMessageId)) {
+        await db.distilledMemories.put({
+          ...memory,
+          conversationId: forkId,
+          lastDistilledMessageId: messageIds.get(memory.lastDistilledMessageId)!,
+        });
+      }
+
+      // Documents keep their numbers, so citations in the copied messages still resolve
+      const documents = await db.documents.where('conversationId').equals(id).toArray();
+      for (const doc of documents) {
+        const newDocumentId = uuidv4();
+        await db.documents.put({ ...doc, id: newDocumentId, conversationId: forkId });
+        const chunks = await db.documentChunks.where('documentId').equals(doc.id).toArray();
+        await db.documentChunks.bulkPut(chunks.map(chunk => ({ ...chunk, id: uuidv4(), documentId: newDocumentId, conversationId: forkId })));
+      }
+
+      // A round summary is written after its round has closed
+      const round = branchMessage.type === 'summary' ? branchMessage.round + 1 : branchMessage.round;
+      const fork: Conversation = normalizeConversation({
+        ...source,
+        id: forkId,
+        status: kept.some(m => m.turnId) ? 'paused' : 'idle',
+        currentRound: round,
+        isArchived: false,
+        moderatorAgentId: mapAgent(source.moderatorAgentId),
+        judgeAgentId: mapAgent(source.judgeAgentId),
+        convergence: source.convergence?.filter(entry => entry.round < round),
+        budgetStopReason: undefined,
+        runDurationMs: undefined,
+        parentConversationId: id,
+        branchFromMessageId: messageId,
+        branchRound: branchMessage.round,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await db.conversations.put(fork);
+      return fork;
+    });
+  },
+
+  /**
+   * Remove everything a conversation produced after one of its messages:
+   * later messages with their turns, context snapshots, tool calls, reactions and votes.
+   * Returns the number of messages removed.
+   */
+  async truncateAfter(id: string, messageId: string): Promise<number> {
+    return db.transaction('rw', [db.messages, db.turns, db.contextSnapshots, db.mcpToolCalls, db.userReactions, db.votes, db.notebooks], async () => {
+      const messages = await db.messages.where('conversationId').equals(id).sortBy('createdAt');
+      const index = messages.findIndex(m => m.id === messageId);
+      if (index === -1) return 0;
+
+      const removed = messages.slice(index + 1);
+      const keptTurnIds = new Set(messages.slice(0, index + 1).flatMap(m => (m.turnId ? [m.turnId] : [])));
+      const removedTurnIds = removed.flatMap(m => (m.turnId && !keptTurnIds.has(m.turnId) ? [m.turnId] : []));
+
+      await db.userReactions.where('messageId').anyOf(removed.map(m => m.id)).delete();
+      await db.votes.where('messageId').anyOf(removed.map(m => m.id)).delete();
+      await db.messages.bulkDelete(removed.map(m => m.id));
+      await db.turns.bulkDelete(removedTurnIds);
+      await db.contextSnapshots.bulkDelete(removedTurnIds);
+      await db.mcpToolCalls.where('turnId').anyOf(removedTurnIds).delete();
+
+      // Notes the removed messages added to their agents' notebooks go with them
+      const removedNotes = new Map<string, string[]>();
+      for (const message of removed) {
+        if (message.agentId && message.notebookNote) {
+          removedNotes.set(message.agentId, [...(removedNotes.get(message.agentId) ?? []), message.notebookNote]);
+        }
+      }
+      for (const [agentId, notes] of removedNotes) {
+        const notebook = await db.notebooks.get(agentId);
+        if (notebook) {
+          await db.notebooks.put({ ...notebook, notes: removeNotebookEntries(notebook.notes, notes), updatedAt: Date.now() });
+        }
+      }
+
+      // Turns that were planned or failed after the branch point have no message yet
+      await db.turns.where('conversationId').equals(id)
+        .filter(t => t.state !== 'completed' && !keptTurnIds.has(t.id))
+        .delete();
+
+      return removed.length;
+    });
+  },
+
+  async getBranches(parentId: string): Promise<Conversation[]> {
+    const branches = await db.conversations.where('parentConversationId').equals(parentId).sortBy('createdAt');
+    return branches.map(normalizeConversation);
+  },
+
   async getPaginated(page: number, pageSize: number): Promise<PaginatedResult<Conversation>> {
     const total = await db.conversations.count();
     const items = await db.conversations
@@ -234,7 +459,13 @@ export const agentStorage = {
 // ============================================
 
 export const turnStorage = {
-  async create(conversationId: string, agentId: string, round: number, sequence: number): Promise<Turn> {
+  async create(
+    conversationId: string,
+    agentId: string,
+    round: number,
+    sequence: number,
+    extra?: Partial<Pick<Turn, 'moderatorDecision'>>
+  ): Promise<Turn> {
     const id = generateTurnId(conversationId, round, sequence);
     const turn: Turn = {
       id,
@@ -243,6 +474,7 @@ export const turnStorage = {
       round,
       sequence,
       state: 'planned',
+      ...extra,
     };
     await db.turns.put(turn);
     return turn;
@@ -275,6 +507,23 @@ export const turnStorage = {
     return updated;
   },
 
+  /**
+   * Record the model that answered, adding any failovers to those of earlier requests in the turn
+   */
+  async recordAnswer(id: string, answeredBy: ModelRoute, failovers: ModelFailover[] = []): Promise<Turn | undefined> {
+    const existing = await db.turns.get(id);
+    if (!existing) return undefined;
+
+    const allFailovers = [...(existing.failovers ?? []), ...failovers];
+    const updated: Turn = {
+      ...existing,
+      answeredBy,
+      ...(allFailovers.length > 0 && { failovers: allFailovers }),
+    };
+    await db.turns.put(updated);
+    return updated;
+  },
+
   async exists(id: string): Promise<boolean> {
     const turn = await db.turns.get(id);
     return !!turn;
@@ -380,10 +629,79 @@ export const messageStorage = {
     return updated;
   },
 
+  /**
+   * Add a new version of a message and make it the active one.
+   * The first call also records the message's current text as its original version.
+   */
+  /**
+   * Add a version and make it active; the outgoing version keeps the given tool trace and snapshot
+   */
+  async addVersion(id: string, version: Omit<MessageVersion, 'id' | 'createdAt'>, outgoing: MessageVersionTrace = {}): Promise<Message | undefined> {
+    const existing = await db.messages.get(id);
+    if (!existing) return undefined;
+
+    const versions: MessageVersion[] = existing.versions
+      ? existing.versions.map(v => (v.id === existing.activeVersionId ? { ...v, ...outgoing } : v))
+      : [{
+        id: uuidv4(),
+        content: existing.content,
+        source: 'generated',
+        notebookNote: existing.notebookNote,
+        reasoning: existing.reasoning,
+        ...outgoing,
+        createdAt: existing.createdAt,
+      }];
+    const added: MessageVersion = { ...version, id: uuidv4(), createdAt: Date.now() };
+
+    const updated: Message = {
+      ...existing,
+      content: added.content,
+      notebookNote: added.notebookNote,
+      reasoning: added.reasoning,
+      versions: [...versions, added],
+      activeVersionId: added.id,
+    };
+    await db.messages.put(updated);
+    return updated;
+  },
+
+  /**
+   * Switch the active version; the outgoing version keeps the given tool trace and snapshot,
+   * while the incoming one's move back to its turn (see TurnExecutor.activateVersion)
+   */
+  async setActiveVersion(id: string, versionId: string, outgoing: MessageVersionTrace = {}): Promise<Message | undefined> {
+    const existing = await db.messages.get(id);
+    const version = existing?.versions?.find(v => v.id === versionId);
+    if (!existing || !version) return undefined;
+
+    const updated: Message = {
+      ...existing,
+      content: version.content,
+      notebookNote: version.notebookNote,
+      reasoning: version.reasoning,
+      versions: existing.versions!.map(v => {
+        if (v.id === versionId) return { ...v, toolCalls: undefined, contextSnapshot: undefined };
+        return v.id === existing.activeVersionId ? { ...v, ...outgoing } : v;
+      }),
+      activeVersionId: version.id,
+    };
+    await db.messages.put(updated);
+    return updated;
+  },
+
   async getByTurn(turnId: string): Promise<Message | undefined> {
     return db.messages.where('turnId').equals(turnId).first();
   },
 
+  async setVoteTally(id: string, voteTally: VoteTally): Promise<Message | undefined> {
+    const existing = await db.messages.get(id);
+    if (!existing) return undefined;
+
+    const updated: Message = { ...existing, voteTally };
+    await db.messages.put(updated);
+    return updated;
+  },
+
   async deleteByConversation(conversationId: string): Promise<number> {
     return db.messages.where('conversationId').equals(conversationId).delete();
   },
@@ -453,6 +771,7 @@ export const resultDraftStorage = {
       actionItems: existing?.actionItems || '',
       openQuestions: existing?.openQuestions || '',
       roundSummaries: existing?.roundSummaries || [],
+      debateVerdict: existing?.debateVerdict,
       ...data,
       updatedAt: Date.now(),
     };
@@ -688,6 +1007,13 @@ export const contextSnapshotStorage = {
     return new Map(snapshots.map((s: any) => [s.turnId, s]));
   },
 
+  /**
+   * Put back a snapshot kept elsewhere (e.g. on an inactive message version)
+   */
+  async restore(snapshot: ContextSnapshot): Promise<void> {
+    await db.contextSnapshots.put(snapshot);
+  },
+
   /**
    * Delete context snapshot by turn ID
    */
@@ -1068,6 +1394,24 @@ export const mcpToolCallStorage = {
       .sortBy('createdAt');
   },
 
+  /**
+   * Get tool calls for several turns, grouped by turn ID
+   */
+  async getByTurnIds(turnIds: string[]): Promise<Map<string, MCPToolCall[]>> {
+    const toolCalls = await db.mcpToolCalls
+      .where('turnId')
+      .anyOf(turnIds)
+      .sortBy('createdAt');
+
+    const byTurn = new Map<string, MCPToolCall[]>();
+    for (const toolCall of toolCalls) {
+      const calls = byTurn.get(toolCall.turnId) ?? [];
+      calls.push(toolCall);
+      byTurn.set(toolCall.turnId, calls);
+    }
+    return byTurn;
+  },
+
   /**
    * Get pending tool calls for a conversation
    */
@@ -1110,8 +1454,8 @@ export const mcpToolCallStorage = {
   /**
    * Deny a pending tool call
    */
-  async deny(id: string): Promise<MCPToolCall | undefined> {
-    return this.updateStatus(id, 'denied');
+  async deny(id: string, reason?: string): Promise<MCPToolCall | undefined> {
+    return this.updateStatus(id, 'denied', undefined, reason);
   },
 
   /**
@@ -1135,6 +1479,20 @@ export const mcpToolCallStorage = {
     return db.mcpToolCalls.where('conversationId').equals(conversationId).delete();
   },
 
+  /**
+   * Put back tool calls kept elsewhere (e.g. on an inactive message version)
+   */
+  async restore(toolCalls: MCPToolCall[]): Promise<void> {
+    await db.mcpToolCalls.bulkPut(toolCalls);
+  },
+
+  /**
+   * Delete specific tool calls
+   */
+  async deleteByIds(ids: string[]): Promise<void> {
+    await db.mcpToolCalls.bulkDelete(ids);
+  },
+
   /**
    * Delete all tool calls for a turn
    */
@@ -1255,3 +1613,277 @@ export const reactionStorage = {
   },
 };
 
+// ============================================
+// Usage Records
+// ============================================
+
+export const usageStorage = {
+  async record(data: Omit<UsageRecord, 'id' | 'createdAt'>): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      ...data,
+      id: uuidv4(),
+      createdAt: Date.now(),
+    };
+    await db.usageRecords.put(record);
+    return record;
+  },
+
+  async getByConversation(conversationId: string): Promise<UsageRecord[]> {
+    return db.usageRecords.where('conversationId').equals(conversationId).sortBy('createdAt');
+  },
+
+  async getAll(): Promise<UsageRecord[]> {
+    return db.usageRecords.orderBy('createdAt').toArray();
+  },
+
+  async clear(): Promise<void> {
+    await db.usageRecords.clear();
+  },
+};
+
+// ============================================
+// Votes
+// ============================================
+
+export const voteStorage = {
+  async create(data: Omit<Vote, 'id' | 'createdAt'>): Promise<Vote> {
+    const vote: Vote = {
+      ...data,
+      id: uuidv4(),
+      createdAt: Date.now(),
+    };
+    await db.votes.put(vote);
+    return vote;
+  },
+
+  async getByMessage(messageId: string): Promise<Vote[]> {
+    return db.votes.where('messageId').equals(messageId).sortBy('createdAt');
+  },
+
+  async getByConversation(conversationId: string): Promise<Vote[]> {
+    return db.votes.where('conversationId').equals(conversationId).sortBy('createdAt');
+  },
+
+  async deleteByConversation(conversationId: string): Promise<number> {
+    return db.votes.where('conversationId').equals(conversationId).delete();
+  },
+};
+
+// ============================================
+// Workspace Memory
+// ============================================
+
+export const workspaceMemoryStorage = {
+  /**
+   * Replace the entries remembered from a conversation (it is remembered once, as it last finished)
+   */
+  async replaceForConversation(
+    conversationId: string,
+    entries: Array<Omit<WorkspaceMemoryEntry, 'id' | 'createdAt'>>
+  ): Promise<WorkspaceMemoryEntry[]> {
+    const now = Date.now();
+    const stored = entries.map(entry => ({ ...entry, id: uuidv4(), createdAt: now }));
+
+    await db.transaction('rw', db.workspaceMemory, async () => {
+      await db.workspaceMemory.where('sourceConversationId').equals(conversationId).delete();
+      await db.workspaceMemory.bulkPut(stored);
+    });
+    return stored;
+  },
+
+  /**
+   * All entries, newest first
+   */
+  async getAll(): Promise<WorkspaceMemoryEntry[]> {
+    return db.workspaceMemory.orderBy('createdAt').reverse().toArray();
+  },
+
+  async count(): Promise<number> {
+    return db.workspaceMemory.count();
+  },
+
+  async deleteByConversation(conversationId: string): Promise<number> {
+    return db.workspaceMemory.where('sourceConversationId').equals(conversationId).delete();
+  },
+
+  async clear(): Promise<void> {
+    await db.workspaceMemory.clear();
+  },
+};
+
+// ============================================
+// Embeddings
+// ============================================
+
+export const embeddingStorage = {
+  async getAll(): Promise<EmbeddingRecord[]> {
+    return db.embeddings.toArray();
+  },
+
+  async getByModel(model: string): Promise<EmbeddingRecord[]> {
+    return db.embeddings.where('model').equals(model).toArray();
+  },
+
+  async getByConversation(conversationId: string): Promise<EmbeddingRecord[]> {
+    return db.embeddings.where('conversationId').equals(conversationId).toArray();
+  },
+
+  async putMany(records: EmbeddingRecord[]): Promise<void> {
+    await db.embeddings.bulkPut(records);
+  },
+
+  async deleteMany(ids: string[]): Promise<void> {
+    await db.embeddings.bulkDelete(ids);
+  },
+
+  async count(): Promise<number> {
+    return db.embeddings.count();
+  },
+
+  async clear(): Promise<void> {
+    await db.embeddings.clear();
+  },
+};
+
+// ============================================
+// Documents
+// ============================================
+
+export const documentStorage = {
+  /**
+   * Store a document with its chunks; it gets the next document number in the conversation
+   */
+  async create(
+    data: Pick<ConversationDocument, 'conversationId' | 'name' | 'format' | 'size'>,
+    chunks: Array<Pick<DocumentChunk, 'content' | 'tokens'>>
+  ): Promise<ConversationDocument> {
+    return db.transaction('rw', [db.documents, db.documentChunks], async () => {
+      const existing = await db.documents.where('conversationId').equals(data.conversationId).toArray();
+      const number = existing.reduce((max, doc) => Math.max(max, doc.number), 0) + 1;
+
+      const document: ConversationDocument = {
+        ...data,
+        id: uuidv4(),
+        number,
+        chunkCount: chunks.length,
+        tokenCount: chunks.reduce((sum, chunk) => sum + chunk.tokens, 0),
+        createdAt: Date.now(),
+      };
+      await db.documents.put(document);
+      await db.documentChunks.bulkPut(chunks.map((chunk, index) => ({
+        ...chunk,
+        id: uuidv4(),
+        documentId: document.id,
+        conversationId: data.conversationId,
+        ref: `D${number}.${index + 1}`,
+        index,
+      })));
+      return document;
+    });
+  },
+
+  async getById(id: string): Promise<ConversationDocument | undefined> {
+    return db.documents.get(id);
+  },
+
+  /**
+   * A conversation's documents in attachment order
+   */
+  async getByConversation(conversationId: string): Promise<ConversationDocument[]> {
+    const documents = await db.documents.where('conversationId').equals(conversationId).toArray();
+    return documents.sort((a, b) => a.number - b.number);
+  },
+
+  async getChunks(documentId: string): Promise<DocumentChunk[]> {
+    return db.documentChunks.where('documentId').equals(documentId).sortBy('index');
+  },
+
+  async getChunksByConversation(conversationId: string): Promise<DocumentChunk[]> {
+    return db.documentChunks.where('conversationId').equals(conversationId).toArray();
+  },
+
+  /**
+   * Look up a chunk by its citation ID
+   */
+  async getChunkByRef(conversationId: string, ref: string): Promise<DocumentChunk | undefined> {
+    return db.documentChunks.where('[conversationId+ref]').equals([conversationId, ref]).first();
+  },
+
+  async update(id: string, data: Partial<Pick<ConversationDocument, 'summary'>>): Promise<void> {
+    await db.documents.update(id, data);
+  },
+
+  async delete(id: string): Promise<void> {
+    await db.transaction('rw', [db.documents, db.documentChunks], async () => {
+      await db.documentChunks.where('documentId').equals(id).delete();
+      await db.documents.delete(id);
+    });
+  },
+};
+
+// ============================================
+// Response Cache
+// ============================================
+
+export const responseCacheStorage = {
+  async get(key: string): Promise<ResponseCacheEntry | undefined> {
+    return db.responseCache.get(key);
+  },
+
+  async put(entry: ResponseCacheEntry): Promise<void> {
+    await db.responseCache.put(entry);
+  },
+
+  /**
+   * Count a hit on an entry
+   */
+  async recordHit(key: string): Promise<void> {
+    await db.responseCache.where('key').equals(key).modify(entry => {
+      entry.hits += 1;
+      entry.lastUsedAt = Date.now();
+    });
+  },
+
+  async delete(key: string): Promise<void> {
+    await db.responseCache.delete(key);
+  },
+
+  /**
+   * Drop entries created before the cutoff, then the least recently used ones until
+   * the rest fit in maxBytes. Returns the number of entries removed.
+   */
+  async prune(createdBefore: number, maxBytes: number): Promise<number> {
+    return db.transaction('rw', db.responseCache, async () => {
+      const expired = await db.responseCache.where('createdAt').below(createdBefore).primaryKeys();
+      await db.responseCache.bulkDelete(expired);
+
+      const entries = await db.responseCache.orderBy('lastUsedAt').toArray();
+      let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+      const evicted: string[] = [];
+      for (const entry of entries) {
+        if (total <= maxBytes) break;
+        total -= entry.size;
+        evicted.push(entry.key);
+      }
+      await db.responseCache.bulkDelete(evicted);
+
+      return expired.length + evicted.length;
+    });
+  },
+
+  /**
+   * Number of entries, their total size and the hits they have served
+   */
+  async stats(): Promise<{ entries: number; bytes: number; hits: number }> {
+    const entries = await db.responseCache.toArray();
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      hits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+    };
+  },
+
+  async clear(): Promise<void> {
+    await db.responseCache.clear();
+  },
+};
@@ -4,16 +4,27 @@
 
 // ----- Enums -----
 
-export type ConversationMode = 'round-robin' | 'moderator' | 'dynamic';
+export type ConversationMode = 'round-robin' | 'moderator' | 'dynamic' | 'parallel' | 'debate';
 export type ConversationStatus = 'idle' | 'running' | 'paused' | 'finishing' | 'completed';
 export type ConversationDepth = 'brief' | 'concise' | 'standard' | 'detailed' | 'deep';
 export type TurnState = 'planned' | 'running' | 'completed' | 'failed' | 'cancelled';
-export type MessageType = 'response' | 'summary' | 'interjection' | 'system' | 'opening';
-export type ApiFormat = 'openai' | 'anthropic' | 'ollama';
+export type MessageType = 'response' | 'summary' | 'interjection' | 'system' | 'opening' | 'vote';
+export type ApiFormat = 'openai' | 'anthropic' | 'gemini' | 'ollama' | 'mock';
+
+// Debate mode
+export type DebateSide = 'pro' | 'con';
+export type DebatePhase = 'opening' | 'rebuttal' | 'closing';
+
+// Voting
+export type VoteStance = 'support' | 'oppose' | 'abstain';
+export type VoteTrigger = 'user' | 'secretary';
+export type VoteOutcome = 'consensus' | 'rejected' | 'split' | 'no-quorum';
+export type ConvergenceRecommendation = 'continue' | 'stop' | 'extend';
 
 // MCP (Model Context Protocol) types
 export type MCPTransport = 'http' | 'streamable-http' | 'stdio';
 export type ToolApprovalMode = 'auto' | 'approval';
+export type ToolApprovalDefault = 'approve' | 'deny'; // Applied when an approval request times out
 export type MCPToolCallStatus = 'pending' | 'approved' | 'denied' | 'executed' | 'failed';
 
 // Starting strategy types
@@ -64,10 +75,71 @@ export interface Conversation {
   // MCP (Model Context Protocol) settings
   mcpServerIds?: string[];              // Allowed MCP server IDs for this conversation
   mcpToolApprovalMode?: ToolApprovalMode; // 'auto' or 'approval' - how tool calls are handled
+  mcpToolApprovalTimeoutMs?: number;    // How long a turn waits for an approval decision
+  mcpToolApprovalDefault?: ToolApprovalDefault; // Decision applied when the wait times out
+  mcpMaxToolSteps?: number;             // Tool round-trips an agent may take within one turn
+  mcpToolTokenBudget?: number;          // Tokens a turn may spend before tool use is cut off
+  // Moderator mode - agent asked to pick the next speaker (defaults to the secretary)
+  moderatorAgentId?: string;
+  // Debate mode - agent that scores the debate (defaults to the secretary)
+  judgeAgentId?: string;
+  debateRebuttalRounds?: number;        // Rebuttal rounds between opening and closing statements
+  // Voting - let the secretary call a vote when it sees a decision point
+  autoVote?: boolean;
+  // Convergence - the secretary's reading after each round
+  convergence?: RoundConvergence[];
+  autoConverge?: boolean;               // Let the secretary finish early or add rounds on its recommendation
+  // Context selection - also score past messages by similarity to the agent's role and the latest messages
+  relevanceScoring?: boolean;
+  // Branching - set on conversations forked from another conversation
+  parentConversationId?: string;        // Conversation this one was forked from
+  branchFromMessageId?: string;         // Parent message the fork was taken at
+  branchRound?: number;                 // Round of that message
+  // Budget guardrails - checked before every turn
+  budgetMaxTokens?: number;             // Tokens agents may spend on turns
+  budgetMaxCost?: number;               // Estimated USD cost of all LLM calls
+  budgetMaxDurationMs?: number;         // Time the conversation may spend running
+  budgetAction?: BudgetLimitAction;     // What happens when a limit is reached (default 'pause')
+  budgetStopReason?: string;            // Why a budget limit last stopped the conversation
+  runDurationMs?: number;               // Running time accumulated by earlier runs
   createdAt: number;
   updatedAt: number;
 }
 
+export type BudgetLimitAction = 'pause' | 'finish';
+
+export type BudgetLimitKind = 'tokens' | 'cost' | 'time';
+
+// A budget limit that is close to or past its maximum
+export interface BudgetNotice {
+  conversationId: string;
+  kind: BudgetLimitKind;
+  level: 'warning' | 'reached';
+  message: string;
+}
+
+// How far the discussion has converged after a round
+export interface RoundConvergence {
+  round: number;
+  novelty: number;                      // Share of the round's content not said in earlier rounds (0-1)
+  repetition: number;                   // Share of the round's points that repeat earlier ones (0-1)
+  questionStability: number;            // Overlap of the open questions with the previous round's (0-1)
+  openQuestions: string[];
+  recommendation: ConvergenceRecommendation;
+  reasoning: string;
+  plateaued: boolean;                   // Low novelty with settled open questions
+}
+
+// How the next speaker was chosen in moderator mode
+export interface ModeratorDecision {
+  agentId: string;                      // Chosen speaker
+  reasoning: string;                    // Moderator's explanation (or fallback description)
+  source: 'moderator' | 'fallback';     // 'fallback' = participation-weighted pick
+  moderatorAgentId?: string;            // Agent that made the call
+  fallbackReason?: string;              // Why the moderator's answer was not used
+  decidedAt: number;
+}
+
 export interface Turn {
   id: string;
   conversationId: string;
@@ -80,6 +152,24 @@ export interface Turn {
   error?: string;
   startedAt?: number;
   endedAt?: number;
+  moderatorDecision?: ModeratorDecision; // Set in moderator mode
+  answeredBy?: ModelRoute; // Model that produced the reply (differs from the agent's after a failover)
+  failovers?: ModelFailover[]; // Models that failed before one answered
+}
+
+/**
+ * A provider and one of its models
+ */
+export interface ModelRoute {
+  providerId: string;
+  modelId: string;
+}
+
+/**
+ * A model that failed with a retryable error, so the next one in the chain was tried
+ */
+export interface ModelFailover extends ModelRoute {
+  error: string;
 }
 
 export interface Agent {
@@ -91,15 +181,36 @@ export interface Agent {
   presetId?: string;
   llmProviderId: string;
   modelId: string;
+  modelFallbacks?: ModelRoute[]; // Tried in order when the agent's model fails with a retryable error
   thinkingDepth: number; // 1-5 scale
+  extendedThinking?: boolean; // Claude models think before answering, with a budget from thinkingDepth
   creativityLevel: number; // 1-5 scale (temperature mapping)
   notebookUsage: number; // 0-100% of context to use for notebook
+  knowledgePacks?: KnowledgePack[]; // Private reference material only this agent sees
+  knowledgeUsage?: number; // 0-100% of context to use for knowledge packs
   wordLimit?: number; // Optional per-agent word limit override
+  debateSide?: DebateSide; // Team in debate mode (assigned on creation when missing)
   isSecretary: boolean;
   color: string;
   order: number; // Position in turn order
 }
 
+/**
+ * Reference material carried by an agent or preset (style guide, glossary, policy...)
+ */
+export interface KnowledgePack {
+  id: string;
+  name: string;
+  content: string;
+}
+
+// A passage of a knowledge pack, by its position among the pack's chunks
+export interface KnowledgePassageRef {
+  packId: string;
+  packName: string;
+  index: number;
+}
+
 export interface Message {
   id: string;
   turnId?: string;
@@ -110,9 +221,32 @@ export interface Message {
   round: number;
   weight: number; // User can upvote/downvote
   type: MessageType;
+  notebookNote?: string; // Notebook entry extracted from this message
+  versions?: MessageVersion[]; // All versions (including the active one) once regenerated or edited
+  activeVersionId?: string;
+  voteTrigger?: VoteTrigger; // Vote messages: who called the vote (the content is the proposal)
+  voteTally?: VoteTally; // Vote messages: set once every agent has voted
+  reasoning?: string; // Reasoning summary or thinking text (shown on the message, never sent to other agents)
   createdAt: number;
 }
 
+// A version of an agent message; the active version's text is mirrored in Message.content
+export interface MessageVersion {
+  id: string;
+  content: string;
+  source: 'generated' | 'edited';
+  modelId?: string;
+  notebookNote?: string;
+  tokensUsed?: number;
+  reasoning?: string;
+  // Tool trace and context snapshot of an inactive version (the active version's are stored with its turn)
+  toolCalls?: MCPToolCall[];
+  contextSnapshot?: ContextSnapshot;
+  createdAt: number;
+}
+
+export type MessageVersionTrace = Pick<MessageVersion, 'toolCalls' | 'contextSnapshot'>;
+
 export interface Notebook {
   agentId: string;
   notes: string;
@@ -134,9 +268,48 @@ export interface ResultDraft {
   actionItems: string;           // Concrete next steps
   openQuestions: string;         // Unresolved questions
   roundSummaries: string[];      // Array of round-by-round summaries
+  debateVerdict?: DebateVerdict; // Judge's verdict (debate mode)
   updatedAt: number;
 }
 
+// One team's rubric scores from the debate judge
+export interface DebateTeamScore {
+  side: DebateSide;
+  criteria: Record<string, number>;     // Rubric criterion -> score
+  total: number;
+}
+
+// The judge's decision at the end of a debate
+export interface DebateVerdict {
+  winner: DebateSide | 'draw';
+  scores: DebateTeamScore[];
+  reasoning: string;
+  judgeAgentId?: string;
+  decidedAt: number;
+}
+
+// One agent's vote on a proposal (stored in the votes table)
+export interface Vote {
+  id: string;
+  conversationId: string;
+  messageId: string;                    // The vote message holding the proposal
+  agentId: string;
+  stance: VoteStance;
+  confidence: number;                   // 0-100
+  reason: string;                       // One-line explanation
+  createdAt: number;
+}
+
+// Counted result of a vote
+export interface VoteTally {
+  support: number;
+  oppose: number;
+  abstain: number;
+  agreement: number;                    // Share of support/oppose votes on the majority side (0-1)
+  averageConfidence: number;            // 0-100, across all votes
+  outcome: VoteOutcome;
+}
+
 /**
  * DistilledMemory - Compressed conversation context
  * 
@@ -180,6 +353,88 @@ export interface PinnedFact {
   importance: number;            // 1-10 scale
 }
 
+export type WorkspaceMemoryKind = 'fact' | 'decision' | 'result';
+
+/**
+ * WorkspaceMemoryEntry - Long-term knowledge shared across conversations
+ * 
+ * Collected from a conversation's pinned facts, decisions and final result
+ * when it finishes (if workspace memory is enabled), and retrieved into the
+ * prompts of later conversations on related topics.
+ */
+export interface WorkspaceMemoryEntry {
+  id: string;
+  kind: WorkspaceMemoryKind;
+  content: string;
+  category?: PinnedFact['category']; // For facts
+  topics: string[];               // Lowercased keywords from the subject and themes
+  importance: number;             // 1-10 scale
+  sourceConversationId: string;
+  sourceSubject: string;          // Shown in citations
+  createdAt: number;
+}
+
+export type EmbeddingSourceType = 'message' | 'result';
+
+/**
+ * EmbeddingRecord - Vector for a message or a result draft, used by semantic search
+ * 
+ * Built incrementally: a record is (re)embedded when its text or the
+ * embedding model changes, and dropped when its source is gone.
+ */
+export interface EmbeddingRecord {
+  id: string;                     // Message ID, or "result:<conversationId>"
+  sourceType: EmbeddingSourceType;
+  conversationId: string;
+  model: string;                  // Which embedder made the vector
+  contentHash: string;            // Hash of the embedded text
+  vector: number[];
+  createdAt: number;
+}
+
+export type DocumentFormat = 'markdown' | 'text' | 'pdf' | 'csv' | 'json';
+
+// A file attached to a conversation as source material
+export interface ConversationDocument {
+  id: string;
+  conversationId: string;
+  number: number;                 // Cited as D<number>, unique within the conversation
+  name: string;
+  format: DocumentFormat;
+  size: number;                   // File size in bytes
+  chunkCount: number;
+  tokenCount: number;
+  summary?: string;               // Written by the secretary; missing until it has run
+  createdAt: number;
+}
+
+// A passage of an attached document
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  conversationId: string;
+  ref: string;                    // Citation ID, "D<document number>.<chunk number>"
+  index: number;
+  content: string;
+  tokens: number;
+}
+
+// Why a message made it into an agent's context
+export interface MessageScore {
+  messageId: string;
+  round: number;
+  preview: string;                // Start of the message, to tell it apart
+  type: number;                   // Base score for the message type
+  addressing: number;             // Bonus for the agent's own messages and messages addressed to it
+  votes: number;                  // User weight
+  recency: number;                // Recency and position bonuses
+  decayFactor: number;            // Time and round decay applied to the scores above (1 = none)
+  relevance?: number;             // Similarity to the agent's role and the latest messages (0-1)
+  relevanceBonus?: number;        // Added after decay, so on-topic messages can come back
+  total: number;
+  critical: boolean;              // Included before everything else
+}
+
 /**
  * ContextSnapshot - Snapshot of context/distillation used for a turn
  * 
@@ -202,6 +457,10 @@ export interface ContextSnapshot {
   // Context metadata
   messagesIncludedCount: number;  // Number of raw messages included
   notebookUsed: boolean;          // Whether agent's notebook was included
+  workspaceMemory?: WorkspaceMemoryEntry[]; // Entries from earlier conversations that were included
+  messageScores?: MessageScore[]; // Score breakdown of each included message
+  documentChunks?: string[];      // Citation IDs of the document passages that were included
+  knowledgePassages?: KnowledgePassageRef[]; // Knowledge pack passages that were included
   
   createdAt: number;
 }
@@ -218,6 +477,7 @@ export interface AgentPreset {
   isBuiltIn: boolean;
   defaultThinkingDepth: number;
   defaultCreativityLevel: number;
+  knowledgePacks?: KnowledgePack[]; // Copied to agents created from the preset
 }
 
 export interface ProviderModel {
@@ -225,6 +485,13 @@ export interface ProviderModel {
   name: string;         // Display name
   contextLength: number;
   isCustom: boolean;    // User-defined vs auto-fetched
+  pricing?: ModelPricing; // Used for cost accounting
+  reasoning?: boolean;  // Reasoning model (overrides detection by model ID)
+}
+
+export interface ModelPricing {
+  input: number;        // USD per 1M input (prompt) tokens
+  output: number;       // USD per 1M output (completion) tokens
 }
 
 export interface LLMProvider {
@@ -266,6 +533,8 @@ export interface MCPServer {
   command?: string;
   args?: string[];
   env?: Record<string, string>;
+  bridgeUrl?: string;                    // WebSocket URL of the local stdio bridge
+  bridgeToken?: string;                  // Token printed by the bridge on startup
   // Connection state
   isActive: boolean;
   tools: MCPTool[];           // Discovered tools from the server
@@ -286,7 +555,9 @@ export interface MCPToolCall {
   arguments: Record<string, unknown>;
   status: MCPToolCallStatus;
   result?: string;
-  error?: string;
+  error?: string;                       // Failure message, or the reason a call was denied
+  approvalExpiresAt?: number;           // Approval mode: when the default decision is applied
+  step?: number;                        // Tool loop iteration (1-based) within the turn
   createdAt: number;
   executedAt?: number;
 }
@@ -322,6 +593,54 @@ export interface UserReaction {
   createdAt: number;
 }
 
+// ----- Usage Accounting -----
+
+export type UsagePurpose = 'turn' | 'secretary' | 'distillation' | 'notebook' | 'moderator' | 'judge' | 'vote' | 'translation' | 'embedding';
+
+// Who an LLM call is made for (attached to the request so the router can record it)
+export interface UsageContext {
+  purpose: UsagePurpose;
+  conversationId?: string;
+  agentId?: string;
+}
+
+// One LLM call's token usage
+export interface UsageRecord {
+  id: string;
+  conversationId?: string;
+  agentId?: string;
+  providerId: string;
+  modelId: string;
+  purpose: UsagePurpose;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;   // Counts were estimated locally (the API did not report them)
+  cost?: number;        // USD, when the model has a price
+  createdAt: number;
+}
+
+/**
+ * ResponseCacheEntry - A stored LLM response, found again by the request that produced it
+ *
+ * Only requests a call site marks as cacheable are stored, and only while the
+ * cache is enabled in settings. Entries expire after the configured TTL and the
+ * least recently used ones are evicted to stay under the size limit.
+ */
+export interface ResponseCacheEntry {
+  key: string;          // SHA-256 of the provider, model, messages and temperature
+  providerId: string;
+  modelId: string;
+  content: string;
+  finishReason: string;
+  model: string;        // Model name the API reported
+  inputTokens: number;  // Tokens the original call used (saved on every hit)
+  outputTokens: number;
+  size: number;         // Approximate bytes, counted against the size limit
+  hits: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
 // ----- Settings -----
 
 export interface AppSettings {
@@ -340,6 +659,15 @@ export interface AppSettings {
   hiddenCategories: string[];
   // Individual preset IDs to hide
   hiddenPresets: string[];
+  // Remember finished conversations and bring relevant knowledge into new ones
+  workspaceMemory?: boolean;
+  // Embeddings for semantic search come from this provider and model (the built-in embedder when unset)
+  embeddingProviderId?: string;
+  embeddingModelId?: string;
+  // Answer repeated deterministic LLM calls (secretary extraction, translations) from a local cache
+  responseCache?: boolean;
+  responseCacheTtlHours?: number;
+  responseCacheMaxMb?: number;
 }
 
 // ----- LLM Types -----
@@ -385,6 +713,7 @@ export interface TurnQueueItem {
   agentColor: string;
   status: 'completed' | 'current' | 'waiting';
   order: number;
+  debateSide?: DebateSide; // Team in debate mode
 }
 
 export interface TurnQueueState {
@@ -393,6 +722,15 @@ export interface TurnQueueState {
   currentIndex: number;
   totalAgents: number;
   queue: TurnQueueItem[];
+  moderatorDecision?: ModeratorDecision; // Latest speaker decision (moderator mode)
+  debatePhase?: DebatePhase;             // Phase of the displayed round (debate mode)
+}
+
+// Vote completion event payload
+export interface VoteCompletedEvent {
+  conversationId: string;
+  message: Message;
+  votes: Vote[];
 }
 
 // Round decision event payload
@@ -402,6 +740,12 @@ export interface RoundDecisionEvent {
   reasoning: string;
 }
 
+// Convergence event payload, sent after every round
+export interface ConvergenceEvent {
+  conversationId: string;
+  convergence: RoundConvergence;
+}
+
 export interface AppEvents {
   'conversation:created': Conversation;
   'conversation:updated': Conversation;
@@ -416,6 +760,9 @@ export interface AppEvents {
   'conversation:reset': string;
   'conversation:lock-denied': string;
   'conversation:rounds-decided': RoundDecisionEvent;
+  'conversation:convergence': ConvergenceEvent;
+  'conversation:budget-warning': BudgetNotice;
+  'conversation:budget-reached': BudgetNotice;
   'turn:started': Turn;
   'turn:completed': Turn;
   'turn:failed': Turn;
@@ -427,14 +774,21 @@ export interface AppEvents {
   'agent:thinking': string;
   'agent:idle': string;
   'user:interjection': UserInterjection;
+  'vote:cast': Vote;
+  'vote:completed': VoteCompletedEvent;
   'draft:updated': ResultDraft;
+  'documents:updated': string; // Conversation ID
+  'usage:recorded': UsageRecord;
   'provider:connected': string;
   'provider:disconnected': string;
   'settings:open': undefined;
   'settings:close': undefined;
   'settings:updated': AppSettings;
+  'search:open': undefined;
   'stream:chunk': { agentId: string; content: string };
+  'stream:thinking': { agentId: string; content: string };
   'stream:complete': { agentId: string };
+  'llm:failover': { failover: ModelFailover; next: ModelRoute; usage?: UsageContext };
   'error': { message: string; details?: unknown };
   // MCP events
   'mcp:server-connected': MCPServer;
@@ -495,6 +849,6 @@ export type CreateMCPServer = Omit<MCPServer, 'id' | 'isActive' | 'tools' | 'las
 export type UpdateMCPServer = DeepPartial<Omit<MCPServer, 'id'>>;
 
 // MCP Tool Call DTOs
-export type CreateMCPToolCall = Omit<MCPToolCall, 'id' | 'createdAt' | 'executedAt' | 'result' | 'error'>;
+export type CreateMCPToolCall = Omit<MCPToolCall, 'id' | 'createdAt' | 'executedAt' | 'result'>;
 export type UpdateMCPToolCall = DeepPartial<Omit<MCPToolCall, 'id' | 'conversationId' | 'turnId' | 'agentId' | 'createdAt'>>;
 
@@ -0,0 +1,472 @@
+// ============================================
+// AI Brainstorm - Document Attachments
+// ============================================
+//
+// Reads attached files (Markdown, plain text, PDF, CSV, JSON), splits their
+// text into chunks that can be cited by ID, and stores them with the conversation
+
+import { documentStorage } from '../storage/storage-manager';
+import { countTokens } from '../llm/token-counter';
+import { eventBus } from './event-bus';
+import { DOCUMENTS } from '../constants';
+import type { ConversationDocument, DocumentFormat } from '../types';
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  pdf: 'pdf',
+  csv: 'csv',
+  json: 'json',
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'text/markdown': 'markdown',
+  'text/plain': 'text',
+  'application/pdf': 'pdf',
+  'text/csv': 'csv',
+  'application/json': 'json',
+};
+
+/**
+ * Format of a file from its extension, or its MIME type when the extension is unknown
+ */
+export function detectDocumentFormat(name: string, mimeType: string = ''): DocumentFormat | null {
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return EXTENSION_FORMATS[extension] ?? MIME_FORMATS[mimeType] ?? null;
+}
+
+// ----- Chunking -----
+
+/**
+ * A piece of text small enough for one chunk, with what joins it to the piece before
+ */
+interface TextPiece {
+  text: string;
+  joiner: string;
+}
+
+// Text that is too long is split by lines, then by sentences, then by words
+const SPLITS: Array<[RegExp, string]> = [
+  [/\n/, '\n'],
+  [/(?<=[.!?])\s+/, ' '],
+  [/\s+/, ' '],
+];
+
+function splitToFit(text: string, maxTokens: number, joiner: string): TextPiece[] {
+  if (countTokens(text) <= maxTokens) return [{ text, joiner }];
+
+  for (const [pattern, partJoiner] of SPLITS) {
+    const parts = text.split(pattern).map(part => part.trim()).filter(Boolean);
+    if (parts.length > 1) {
+      return parts.flatMap((part, i) => splitToFit(part, maxTokens, i === 0 ? joiner : partJoiner));
+    }
+  }
+
+  // A single "word" longer than a chunk (a long URL, a base64 blob): cut it by characters
+  const size = Math.max(1, Math.floor(text.length * maxTokens / countTokens(text)));
+  const pieces: TextPiece[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    pieces.push({ text: text.slice(i, i + size), joiner: i === 0 ? joiner : '' });
+  }
+  return pieces;
+}
+
+/**
+ * Split text into chunks of about maxTokens. Paragraphs stay together where
+ * they fit, and a Markdown heading starts a new chunk once the current one is half full.
+ */
+export function chunkText(text: string, maxTokens: number = DOCUMENTS.CHUNK_TOKENS): string[] {
+  const pieces = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => splitToFit(paragraph, maxTokens, '\n\n'));
+
+  const chunks: string[] = [];
+  let current = '';
+  let tokens = 0;
+  for (const piece of pieces) {
+    const pieceTokens = countTokens(piece.text);
+    const startsSection = /^#{1,6}\s/.test(piece.text) && tokens > maxTokens / 2;
+    if (current && (tokens + pieceTokens > maxTokens || startsSection)) {
+      chunks.push(current);
+      current = '';
+      tokens = 0;
+    }
+    current += current ? piece.joiner + piece.text : piece.text;
+    tokens += pieceTokens;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Split CSV text into records (a quoted field may span lines)
+ */
+export function splitCsvRecords(text: string): string[] {
+  const records: string[] = [];
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') quoted = !quoted;
+    else if (c === '\n' && !quoted) {
+      records.push(text.slice(start, i).replace(/\r$/, ''));
+      start = i + 1;
+    }
+  }
+  records.push(text.slice(start).replace(/\r$/, ''));
+  return records.filter(record => record.trim());
+}
+
+/**
+ * CSV rows in chunks of about maxTokens, each chunk starting with the header row
+ */
+function chunkCsv(text: string, maxTokens: number): string[] {
+  const [header, ...rows] = splitCsvRecords(text);
+  if (!header) return [];
+  if (rows.length === 0) return [header];
+
+  const headerTokens = countTokens(header);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let tokens = headerTokens;
+  for (const row of rows) {
+    const rowTokens = countTokens(row);
+    if (current.length > 0 && tokens + rowTokens > maxTokens) {
+      chunks.push([header, ...current].join('\n'));
+      current = [];
+      tokens = headerTokens;
+    }
+    current.push(row);
+    tokens += rowTokens;
+  }
+  chunks.push([header, ...current].join('\n'));
+
+  return chunks;
+}
+
+// ----- PDF text extraction -----
+//
+// Reads the text operators of the page content streams (uncompressed or
+// FlateDecode). That covers PDFs exported from word processors and browsers;
+// scanned pages and fonts with custom encodings give little or no text.
+
+const PDF_DELIMITER = /[\s()<>[\]{}/%]/;
+const ARRAY_START = Symbol('array');
+
+type PdfOperand = string | number | typeof ARRAY_START | PdfOperand[] | { name: string };
+
+const winAnsi = new TextDecoder('windows-1252');
+
+// One character per byte, so offsets in the string are offsets in the data
+function toBinaryString(data: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < data.length; i += 8192) {
+    text += String.fromCharCode(...data.subarray(i, i + 8192));
+  }
+  return text;
+}
+
+// PDF text strings are UTF-16BE when they start with a byte order mark; otherwise
+// they are single bytes, read as WinAnsi (the encoding of most standard fonts)
+function decodePdfString(raw: string): string {
+  if (raw.charCodeAt(0) === 0xfe && raw.charCodeAt(1) === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < raw.length; i += 2) {
+      text += String.fromCharCode((raw.charCodeAt(i) << 8) | raw.charCodeAt(i + 1));
+    }
+    return text;
+  }
+  return winAnsi.decode(Uint8Array.from(raw, c => c.charCodeAt(0) & 0xff));
+}
+
+function readLiteralString(content: string, start: number): { value: string; end: number } {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+  let value = '';
+  let depth = 0;
+  let i = start;
+  for (; i < content.length; i++) {
+    const c = content[i];
+    if (c === '\\') {
+      const next = content[++i];
+      if (next in escapes) {
+        value += escapes[next];
+      } else if (/[0-7]/.test(next)) {
+        let octal = next;
+        while (octal.length < 3 && /[0-7]/.test(content[i + 1])) octal += content[++i];
+        value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+      } else if (next === '\r' && content[i + 1] === '\n') {
+        i++; // Line continuation
+      } else if (next !== '\n' && next !== '\r') {
+        value += next;
+      }
+      continue;
+    }
+    if (c === '(' && ++depth === 1) continue;
+    if (c === ')' && --depth === 0) return { value: decodePdfString(value), end: i + 1 };
+    value += c;
+  }
+  return { value: decodePdfString(value), end: i };
+}
+
+function readHexString(hex: string): string {
+  const digits = hex.replace(/[^0-9a-fA-F]/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  let raw = '';
+  for (let i = 0; i < padded.length; i += 2) {
+    raw += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return decodePdfString(raw);
+}
+
+/**
+ * Text shown by the BT ... ET blocks of a content stream, with line breaks where the text moves down
+ */
+export function extractContentStreamText(content: string): string {
+  let text = '';
+  let operands: PdfOperand[] = [];
+  let inText = false;
+  let lastY: number | undefined;
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const c = content[i];
+
+    if (c === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+      continue;
+    }
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    if (c === '(') {
+      const literal = readLiteralString(content, i);
+      operands.push(literal.value);
+      i = literal.end;
+      continue;
+    }
+    if (c === '<') {
+      if (content[i + 1] === '<') {
+        i += 2;
+        continue;
+      }
+      const end = content.indexOf('>', i);
+      if (end < 0) break;
+      operands.push(readHexString(content.slice(i + 1, end)));
+      i = end + 1;
+      continue;
+    }
+    if (c === '[') {
+      operands.push(ARRAY_START);
+      i++;
+      continue;
+    }
+    if (c === ']') {
+      const start = operands.lastIndexOf(ARRAY_START);
+      if (start >= 0) operands.push(operands.splice(start).slice(1));
+      i++;
+      continue;
+    }
+    if (c === '/') {
+      let j = i + 1;
+      while (j < content.length && !PDF_DELIMITER.test(content[j])) j++;
+      operands.push({ name: content.slice(i + 1, j) });
+      i = j;
+      continue;
+    }
+
+    let j = i;
+    while (j < content.length && !PDF_DELIMITER.test(content[j])) j++;
+    if (j === i) {
+      i++; // Stray delimiter
+      continue;
+    }
+    const token = content.slice(i, j);
+    i = j;
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      operands.push(Number(token));
+      continue;
+    }
+
+    const numbers = operands.filter((op): op is number => typeof op === 'number');
+    const strings = operands.filter((op): op is string => typeof op === 'string');
+    switch (token) {
+      case 'BT':
+        inText = true;
+        break;
+      case 'ET':
+        inText = false;
+        newline();
+        break;
+      case 'ID': {
+        // Inline image data runs until EI
+        const end = content.indexOf('EI', i);
+        i = end < 0 ? content.length : end + 2;
+        break;
+      }
+      default:
+        if (!inText) break;
+        if (token === 'Tj' && strings.length > 0) {
+          text += strings[strings.length - 1];
+        } else if ((token === '\'' || token === '"') && strings.length > 0) {
+          newline();
+          text += strings[strings.length - 1];
+        } else if (token === 'TJ') {
+          const array = operands.find((op): op is PdfOperand[] => Array.isArray(op)) ?? [];
+          for (const item of array) {
+            if (typeof item === 'string') text += item;
+            else if (typeof item === 'number' && item < -250 && !text.endsWith(' ')) text += ' ';
+          }
+        } else if (token === 'Td' || token === 'TD') {
+          if (numbers.length >= 2 && numbers[1] !== 0) newline();
+          else if (text && !/\s$/.test(text)) text += ' ';
+        } else if (token === 'T*') {
+          newline();
+        } else if (token === 'Tm' && numbers.length >= 6) {
+          if (lastY !== undefined && numbers[5] !== lastY) newline();
+          else if (text && !/\s$/.test(text)) text += ' ';
+          lastY = numbers[5];
+        }
+    }
+    operands = [];
+  }
+
+  return text;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(new Uint8Array(data)).body!.pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Extract the text of a PDF file
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const source = toBinaryString(bytes);
+  if (!source.startsWith('%PDF')) {
+    throw new Error('Not a PDF file');
+  }
+
+  const pages: string[] = [];
+  const streamPattern = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source))) {
+    const dataStart = match.index + match[0].length;
+    const dictionary = source.slice(source.lastIndexOf('obj', match.index) + 3, match.index);
+
+    // Prefer the declared length; fall back to the endstream keyword
+    const declared = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const end = declared && source.startsWith('endstream', source.indexOf('endstream', dataStart + Number(declared[1])))
+      ? dataStart + Number(declared[1])
+      : source.indexOf('endstream', dataStart);
+    if (end < 0) break;
+    streamPattern.lastIndex = end;
+
+    // Only page content can hold text operators; skip images, fonts and other binary data
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) continue;
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    if (filters && filters.replace(/[[\]\s]/g, '') !== '/FlateDecode') continue;
+
+    let data = bytes.subarray(dataStart, end);
+    try {
+      if (filters) data = await inflate(data);
+    } catch {
+      continue; // Damaged or unsupported stream
+    }
+
+    const text = extractContentStreamText(toBinaryString(data));
+    if (text.trim()) pages.push(text);
+  }
+
+  return pages
+    .join('\n\n')
+    .split('\n')
+    .map(line => line.replace(/[^\S\n]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ----- Attaching -----
+
+/**
+ * Extract a file's text by format and split it into chunks
+ */
+export async function chunkDocument(
+  format: DocumentFormat,
+  bytes: Uint8Array,
+  maxTokens: number = DOCUMENTS.CHUNK_TOKENS
+): Promise<string[]> {
+  if (format === 'pdf') {
+    return chunkText(await extractPdfText(bytes), maxTokens);
+  }
+
+  const text = new TextDecoder('utf-8').decode(bytes).replace(/^﻿/, '');
+  switch (format) {
+    case 'csv':
+      return chunkCsv(text, maxTokens);
+    case 'json': {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      // Pretty-printed, so long documents split between lines
+      return chunkText(JSON.stringify(value, null, 2), maxTokens);
+    }
+    default:
+      return chunkText(text, maxTokens);
+  }
+}
+
+/**
+ * Read a file, chunk it and store it as source material for a conversation
+ */
+export async function attachDocument(conversationId: string, file: File): Promise<ConversationDocument> {
+  const format = detectDocumentFormat(file.name, file.type);
+  if (!format) {
+    throw new Error(`${file.name}: unsupported file type (use Markdown, text, PDF, CSV or JSON)`);
+  }
+  if (file.size > DOCUMENTS.MAX_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than ${DOCUMENTS.MAX_FILE_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const chunks = await chunkDocument(format, new Uint8Array(await file.arrayBuffer()));
+  if (chunks.length === 0) {
+    throw new Error(format === 'pdf'
+      ? `${file.name}: no text found (the PDF may be scanned or use embedded font encodings)`
+      : `${file.name} is empty`);
+  }
+
+  const document = await documentStorage.create(
+    { conversationId, name: file.name, format, size: file.size },
+    chunks.map(content => ({ content, tokens: countTokens(content) }))
+  );
+  eventBus.emit('documents:updated', conversationId);
+  return document;
+}
+
+/**
+ * Remove a document and its chunks from a conversation
+ */
+export async function removeDocument(conversationId: string, documentId: string): Promise<void> {
+  await documentStorage.delete(documentId);
+  eventBus.emit('documents:updated', conversationId);
+}
+
+/**
+ * Citation IDs ("D1.3") in a text, as written by agents in square brackets
+ */
+export const CITATION_PATTERN = /\[(D\d+\.\d+(?:\s*[,;]\s*D\d+\.\d+)*)\]/g;
@@ -2,9 +2,10 @@
 // AI Brainstorm - Export Utilities
 // ============================================
 
-import { conversationStorage, messageStorage, agentStorage, resultDraftStorage, presetStorage, mcpServerStorage } from '../storage/storage-manager';
+import { conversationStorage, messageStorage, agentStorage, resultDraftStorage, presetStorage, mcpServerStorage, voteStorage } from '../storage/storage-manager';
+import { formatVoteResult } from '../llm/prompt-builder';
 import { downloadAsFile } from './helpers';
-import type { Conversation, Message, Agent, ResultDraft, AgentPreset, MCPServer, MCPServerExport, MCPImportConflictStrategy } from '../types';
+import type { Conversation, Message, Agent, ResultDraft, Vote, AgentPreset, KnowledgePack, MCPServer, MCPServerExport, MCPImportConflictStrategy } from '../types';
 
 export interface ConversationExport {
   version: string;
@@ -12,6 +13,7 @@ export interface ConversationExport {
   conversation: Conversation;
   agents: Agent[];
   messages: Message[];
+  votes?: Vote[];
   resultDraft?: ResultDraft;
 }
 
@@ -30,6 +32,7 @@ export async function exportConversationToJSON(conversationId: string): Promise<
 
   const agents = await agentStorage.getByConversation(conversationId);
   const messages = await messageStorage.getByConversation(conversationId);
+  const votes = await voteStorage.getByConversation(conversationId);
   const resultDraft = await resultDraftStorage.get(conversationId);
 
   const exportData: ConversationExport = {
@@ -38,6 +41,7 @@ export async function exportConversationToJSON(conversationId: string): Promise<
     conversation,
     agents,
     messages,
+    votes,
     resultDraft,
   };
 
@@ -104,11 +108,11 @@ export async function exportConversationToMarkdown(conversationId: string): Prom
     }
 
     const agent = message.agentId ? agentMap.get(message.agentId) : null;
-    const senderName = message.type === 'interjection' ? 'User' : (agent?.name || 'System');
+    const senderName = message.type === 'interjection' ? 'User' : message.type === 'vote' ? 'Vote' : (agent?.name || 'System');
 
     lines.push(`**${senderName}:**`);
     lines.push('');
-    lines.push(message.content);
+    lines.push(message.type === 'vote' ? formatVoteResult(message, conversation.targetLanguage) : message.content);
     lines.push('');
   }
 
@@ -189,10 +193,10 @@ export async function exportConversationToText(conversationId: string): Promise<
     }
 
     const agent = message.agentId ? agentMap.get(message.agentId) : null;
-    const senderName = message.type === 'interjection' ? 'User' : (agent?.name || 'System');
+    const senderName = message.type === 'interjection' ? 'User' : message.type === 'vote' ? 'Vote' : (agent?.name || 'System');
 
     lines.push(`[${senderName}]`);
-    lines.push(message.content);
+    lines.push(message.type === 'vote' ? formatVoteResult(message, conversation.targetLanguage) : message.content);
     lines.push('');
   }
 
@@ -240,6 +244,18 @@ export async function exportPresets(): Promise<string> {
   return JSON.stringify(exportData, null, 2);
 }
 
+/**
+ * Knowledge packs from an import file, without the malformed ones
+ */
+function validKnowledgePacks(packs: unknown): KnowledgePack[] | undefined {
+  if (!Array.isArray(packs)) return undefined;
+
+  const valid = packs
+    .filter(pack => typeof pack?.id === 'string' && typeof pack.name === 'string' && typeof pack.content === 'string')
+    .map(({ id, name, content }: KnowledgePack) => ({ id, name, content }));
+  return valid.length > 0 ? valid : undefined;
+}
+
 /**
  * Import presets from JSON
  */
@@ -265,6 +281,7 @@ export async function importPresets(jsonContent: string): Promise<number> {
       thinkingStyle: preset.thinkingStyle,
       defaultThinkingDepth: preset.defaultThinkingDepth || 3,
       defaultCreativityLevel: preset.defaultCreativityLevel || 3,
+      knowledgePacks: validKnowledgePacks(preset.knowledgePacks),
     });
     imported++;
   }
@@ -357,6 +374,8 @@ type MCPServersMapFormat = {
     command?: string;
     args?: string[];
     env?: Record<string, string>;
+    bridgeUrl?: string;
+    bridgeToken?: string;
     useDevProxy?: boolean;
   }>;
 };
@@ -410,6 +429,8 @@ export function normalizeMCPServerImport(jsonContent: string): ExportableMCPServ
         const command = typeof (s as any).command === 'string' ? (s as any).command : undefined;
         const args = Array.isArray((s as any).args) ? ((s as any).args as string[]) : undefined;
         const env = isRecord((s as any).env) ? ((s as any).env as Record<string, string>) : undefined;
+        const bridgeUrl = typeof (s as any).bridgeUrl === 'string' ? (s as any).bridgeUrl : undefined;
+        const bridgeToken = typeof (s as any).bridgeToken === 'string' ? (s as any).bridgeToken : undefined;
         // Auto-enable dev proxy for external HTTPS endpoints (CORS bypass)
         const useDevProxy = typeof (s as any).useDevProxy === 'boolean' 
           ? (s as any).useDevProxy 
@@ -424,6 +445,8 @@ export function normalizeMCPServerImport(jsonContent: string): ExportableMCPServ
           command,
           args,
           env,
+          bridgeUrl,
+          bridgeToken,
           useDevProxy,
         };
         return out;
@@ -439,7 +462,9 @@ export function normalizeMCPServerImport(jsonContent: string): ExportableMCPServ
     const normalized: ExportableMCPServer[] = [];
     for (const [name, cfg] of Object.entries(map)) {
       if (!cfg) continue;
-      const transport = (cfg.transport ?? 'streamable-http') as MCPServer['transport'];
+      // Entries with only a command (e.g. desktop client configs) are stdio servers
+      const inferredTransport = cfg.command && !(cfg.url ?? cfg.endpoint) ? 'stdio' : 'streamable-http';
+      const transport = (cfg.transport ?? inferredTransport) as MCPServer['transport'];
       if (!name || (transport !== 'http' && transport !== 'streamable-http' && transport !== 'stdio')) continue;
 
       const endpoint = cfg.endpoint ?? cfg.url;
@@ -456,6 +481,8 @@ export function normalizeMCPServerImport(jsonContent: string): ExportableMCPServ
         command: cfg.command,
         args: cfg.args,
         env: cfg.env,
+        bridgeUrl: cfg.bridgeUrl,
+        bridgeToken: cfg.bridgeToken,
         useDevProxy,
       };
       normalized.push(out);
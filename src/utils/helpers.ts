@@ -187,6 +187,15 @@ export function readFileContent(file: File): Promise<string> {
   });
 }
 
+/**
+ * Format a byte count for display (e.g. "12 KB", "1.4 MB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Clamp a number between min and max
  */
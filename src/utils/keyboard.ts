@@ -161,6 +161,16 @@ export function initializeDefaultShortcuts(): void {
     },
   });
 
+  // Search all conversations
+  registerShortcut({
+    key: 'k',
+    ctrl: true,
+    description: 'Search all conversations',
+    action: () => {
+      eventBus.emit('search:open', undefined);
+    },
+  });
+
   // Close modals / settings (Escape)
   registerShortcut({
     key: 'Escape',
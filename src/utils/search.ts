@@ -2,8 +2,14 @@
 // AI Brainstorm - Search Utilities
 // ============================================
 
-import { conversationStorage, messageStorage, agentStorage, presetStorage } from '../storage/storage-manager';
-import type { Conversation, Message, AgentPreset } from '../types';
+import { conversationStorage, messageStorage, agentStorage, presetStorage, resultDraftStorage, embeddingStorage, settingsStorage } from '../storage/storage-manager';
+import { llmRouter } from '../llm/llm-router';
+import { embedLocally, cosineSimilarity } from '../llm/embeddings';
+import { contentWords } from '../engine/convergence';
+import { hashString } from './helpers';
+import { eventBus } from './event-bus';
+import { EMBEDDINGS } from '../constants';
+import type { Conversation, Message, MessageType, AgentPreset, ResultDraft, EmbeddingRecord, EmbeddingSourceType } from '../types';
 
 export interface SearchResult {
   type: 'conversation' | 'message' | 'preset';
@@ -90,6 +96,403 @@ export async function globalSearch(query: string, limit: number = 20): Promise<S
     .slice(0, limit);
 }
 
+/**
+ * Semantic search filters (all optional)
+ */
+export interface SemanticSearchFilters {
+  agentName?: string;              // Agents belong to one conversation, so they are matched by name
+  round?: number;
+  messageType?: MessageType | 'result';
+  from?: number;
+  to?: number;
+}
+
+export interface SemanticSearchResult {
+  type: EmbeddingSourceType;
+  id: string;                      // Message ID, or "result:<conversationId>"
+  conversationId: string;
+  title: string;                   // Conversation subject
+  agentName?: string;
+  round?: number;
+  messageType?: MessageType;
+  snippet: string;
+  highlights: Array<[number, number]>; // Start and end offsets of matched words in the snippet
+  similarity: number;
+  timestamp: number;
+}
+
+export interface SearchIndexStatus {
+  indexed: number;                 // Embedded in this run
+  removed: number;                 // Dropped because their source is gone
+  total: number;
+}
+
+/**
+ * A searchable text: a message or a conversation's result draft
+ */
+interface SearchDocument {
+  id: string;
+  type: EmbeddingSourceType;
+  conversationId: string;
+  title: string;
+  text: string;
+  agentName?: string;
+  round?: number;
+  messageType?: MessageType;
+  timestamp: number;
+}
+
+/**
+ * Makes the vectors; the model name tells vectors from different embedders apart
+ */
+interface Embedder {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * The documents and vectors of the last index run, kept so that a search only
+ * refreshes the conversations that changed since
+ */
+interface SearchIndex {
+  embedder: Embedder;
+  documents: Map<string, SearchDocument>;
+  vectors: Map<string, number[]>;
+}
+
+let searchIndex: SearchIndex | null = null;
+let indexRun: Promise<SearchIndexStatus> | null = null;
+const changedConversations = new Set<string>();
+
+eventBus.on('message:created', message => changedConversations.add(message.conversationId));
+eventBus.on('message:updated', message => changedConversations.add(message.conversationId));
+eventBus.on('draft:updated', draft => changedConversations.add(draft.conversationId));
+eventBus.on('conversation:created', conversation => changedConversations.add(conversation.id));
+eventBus.on('conversation:updated', conversation => changedConversations.add(conversation.id));
+eventBus.on('conversation:deleted', conversationId => changedConversations.add(conversationId));
+
+/**
+ * The embedding provider and model from the settings, or the built-in embedder
+ */
+async function getEmbedder(): Promise<Embedder> {
+  const { embeddingProviderId: providerId, embeddingModelId: modelId } = await settingsStorage.get();
+  if (providerId && modelId && llmRouter.supportsEmbeddings(providerId)) {
+    return {
+      model: `${providerId}:${modelId}`,
+      embed: async texts => {
+        const response = await llmRouter.embed(providerId, { model: modelId, input: texts, usage: { purpose: 'embedding' } });
+        return response.embeddings;
+      },
+    };
+  }
+
+  return {
+    model: EMBEDDINGS.LOCAL_MODEL,
+    embed: async texts => texts.map(text => embedLocally(text)),
+  };
+}
+
+function resultText(draft: ResultDraft): string {
+  const sections = [draft.executiveSummary, draft.consensusAreas, draft.recommendations, draft.actionItems, draft.openQuestions];
+  return sections.filter(Boolean).join('\n\n') || draft.content || draft.summary;
+}
+
+async function collectConversationDocuments(conv: Conversation): Promise<SearchDocument[]> {
+  const documents: SearchDocument[] = [];
+  const messages = await messageStorage.getByConversation(conv.id);
+  const agents = await agentStorage.getByConversation(conv.id);
+  const agentNames = new Map(agents.map(a => [a.id, a.name]));
+
+  for (const msg of messages) {
+    if (!msg.content.trim()) continue;
+    documents.push({
+      id: msg.id,
+      type: 'message',
+      conversationId: conv.id,
+      title: conv.subject,
+      text: msg.content,
+      agentName: msg.agentId ? agentNames.get(msg.agentId) : undefined,
+      round: msg.round,
+      messageType: msg.type,
+      timestamp: msg.createdAt,
+    });
+  }
+
+  const draft = await resultDraftStorage.get(conv.id);
+  const text = draft ? resultText(draft) : '';
+  if (draft && text.trim()) {
+    documents.push({
+      id: `result:${conv.id}`,
+      type: 'result',
+      conversationId: conv.id,
+      title: conv.subject,
+      text,
+      timestamp: draft.updatedAt,
+    });
+  }
+
+  return documents;
+}
+
+/**
+ * Embed the documents that are new, edited, or were embedded by another model,
+ * and return the vectors of all of them
+ */
+async function embedDocuments(
+  embedder: Embedder,
+  documents: SearchDocument[],
+  existing: Map<string, EmbeddingRecord>,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ vectors: Map<string, number[]>; indexed: number }> {
+  const vectors = new Map<string, number[]>();
+  const pending: SearchDocument[] = [];
+  for (const doc of documents) {
+    const record = existing.get(doc.id);
+    if (record && record.model === embedder.model && record.contentHash === hashString(doc.text)) {
+      vectors.set(doc.id, record.vector);
+    } else {
+      pending.push(doc);
+    }
+  }
+
+  for (let i = 0; i < pending.length; i += EMBEDDINGS.BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBEDDINGS.BATCH_SIZE);
+    const embedded = await embedder.embed(batch.map(doc => doc.text.slice(0, EMBEDDINGS.MAX_CHARS)));
+    await embeddingStorage.putMany(batch.map((doc, j) => ({
+      id: doc.id,
+      sourceType: doc.type,
+      conversationId: doc.conversationId,
+      model: embedder.model,
+      contentHash: hashString(doc.text),
+      vector: embedded[j],
+      createdAt: Date.now(),
+    })));
+    batch.forEach((doc, j) => vectors.set(doc.id, embedded[j]));
+    onProgress?.(Math.min(i + batch.length, pending.length), pending.length);
+  }
+
+  return { vectors, indexed: pending.length };
+}
+
+/**
+ * Index every conversation and keep the result in memory
+ */
+async function refreshIndex(onProgress?: (done: number, total: number) => void): Promise<SearchIndexStatus> {
+  // Changes from here on are picked up by the next search
+  changedConversations.clear();
+
+  const embedder = await getEmbedder();
+  const documents: SearchDocument[] = [];
+  for (const conv of await conversationStorage.getAll()) {
+    documents.push(...await collectConversationDocuments(conv));
+  }
+  const existing = new Map((await embeddingStorage.getAll()).map(record => [record.id, record]));
+
+  const live = new Set(documents.map(doc => doc.id));
+  const removed = Array.from(existing.keys()).filter(id => !live.has(id));
+  if (removed.length > 0) {
+    await embeddingStorage.deleteMany(removed);
+  }
+
+  const { vectors, indexed } = await embedDocuments(embedder, documents, existing, onProgress);
+  searchIndex = { embedder, documents: new Map(documents.map(doc => [doc.id, doc])), vectors };
+  return { indexed, removed: removed.length, total: documents.length };
+}
+
+/**
+ * Re-index only the conversations that changed since the last run
+ */
+async function refreshChangedConversations(index: SearchIndex): Promise<SearchIndexStatus> {
+  const conversationIds = Array.from(changedConversations);
+  changedConversations.clear();
+
+  let indexed = 0;
+  let removed = 0;
+  for (const conversationId of conversationIds) {
+    const conv = await conversationStorage.getById(conversationId);
+    const documents = conv ? await collectConversationDocuments(conv) : [];
+    const existing = new Map((await embeddingStorage.getByConversation(conversationId)).map(record => [record.id, record]));
+
+    const live = new Set(documents.map(doc => doc.id));
+    const stale = Array.from(index.documents.values())
+      .filter(doc => doc.conversationId === conversationId && !live.has(doc.id))
+      .map(doc => doc.id);
+    const gone = Array.from(new Set([...stale, ...Array.from(existing.keys()).filter(id => !live.has(id))]));
+    if (gone.length > 0) {
+      await embeddingStorage.deleteMany(gone);
+    }
+    for (const id of gone) {
+      index.documents.delete(id);
+      index.vectors.delete(id);
+    }
+
+    const embedded = await embedDocuments(index.embedder, documents, existing);
+    for (const doc of documents) {
+      index.documents.set(doc.id, doc);
+      index.vectors.set(doc.id, embedded.vectors.get(doc.id)!);
+    }
+    indexed += embedded.indexed;
+    removed += gone.length;
+  }
+
+  return { indexed, removed, total: index.documents.size };
+}
+
+/**
+ * One index run at a time; callers that come in meanwhile share it
+ */
+function runIndex(refresh: () => Promise<SearchIndexStatus>): Promise<SearchIndexStatus> {
+  if (!indexRun) {
+    indexRun = refresh().finally(() => {
+      indexRun = null;
+    });
+  }
+  return indexRun;
+}
+
+/**
+ * The in-memory index, up to date: built in full the first time and when the
+ * embedding model changes, otherwise refreshed for the conversations that changed
+ */
+async function currentIndex(): Promise<SearchIndex> {
+  if (indexRun) await indexRun;
+
+  const embedder = await getEmbedder();
+  if (!searchIndex || searchIndex.embedder.model !== embedder.model) {
+    await runIndex(() => refreshIndex());
+  } else if (changedConversations.size > 0) {
+    const index = searchIndex;
+    await runIndex(() => refreshChangedConversations(index));
+  }
+  return searchIndex!;
+}
+
+/**
+ * Bring the search index up to date: embed new and edited messages and
+ * results, and drop the vectors of deleted ones. Only one run goes at a time.
+ */
+export async function updateSearchIndex(onProgress?: (done: number, total: number) => void): Promise<SearchIndexStatus> {
+  return runIndex(() => refreshIndex(onProgress));
+}
+
+/**
+ * Drop every vector and embed everything again
+ */
+export async function rebuildSearchIndex(onProgress?: (done: number, total: number) => void): Promise<SearchIndexStatus> {
+  if (indexRun) await indexRun;
+  await embeddingStorage.clear();
+  return updateSearchIndex(onProgress);
+}
+
+function matchesFilters(doc: SearchDocument, filters: SemanticSearchFilters): boolean {
+  if (filters.agentName && doc.agentName?.toLowerCase() !== filters.agentName.toLowerCase()) return false;
+  if (filters.round !== undefined && doc.round !== filters.round) return false;
+  if (filters.messageType && (doc.messageType ?? doc.type) !== filters.messageType) return false;
+  if (filters.from !== undefined && doc.timestamp < filters.from) return false;
+  if (filters.to !== undefined && doc.timestamp > filters.to) return false;
+  return true;
+}
+
+/**
+ * Search messages and results by meaning: conversations that changed since the
+ * last search are re-indexed first, then everything that passes the filters is
+ * ranked by similarity to the query
+ */
+export async function semanticSearch(
+  query: string,
+  filters: SemanticSearchFilters = {},
+  limit: number = 20
+): Promise<SemanticSearchResult[]> {
+  if (!query.trim()) return [];
+
+  const { documents, vectors, embedder } = await currentIndex();
+  const [queryVector] = await embedder.embed([query]);
+
+  return Array.from(documents.values())
+    .filter(doc => matchesFilters(doc, filters))
+    .map(doc => ({ doc, similarity: cosineSimilarity(queryVector, vectors.get(doc.id) ?? []) }))
+    .filter(({ similarity }) => similarity >= EMBEDDINGS.MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ doc, similarity }) => ({
+      type: doc.type,
+      id: doc.id,
+      conversationId: doc.conversationId,
+      title: doc.title,
+      agentName: doc.agentName,
+      round: doc.round,
+      messageType: doc.messageType,
+      ...buildSnippet(doc.text, query),
+      similarity,
+      timestamp: doc.timestamp,
+    }));
+}
+
+// Two words match when they share a stem: a common start of at least four
+// letters that covers all but the last letter of the shorter word ("price" and "pricing")
+function sharesStem(word: string, term: string): boolean {
+  if (word.startsWith(term)) return true;
+  if (term.startsWith(word)) return word.length >= 4;
+  let common = 0;
+  while (common < word.length && word[common] === term[common]) common++;
+  return common >= 4 && common >= Math.min(word.length, term.length) - 1;
+}
+
+/**
+ * Cut a snippet around the part of the text with the most query words, with
+ * the offsets of those words in the snippet
+ */
+export function buildSnippet(
+  text: string,
+  query: string,
+  maxLength: number = EMBEDDINGS.SNIPPET_LENGTH
+): { snippet: string; highlights: Array<[number, number]> } {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const terms = contentWords(query);
+
+  const matches: Array<[number, number]> = [];
+  for (const match of flat.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase();
+    if (terms.some(term => sharesStem(word, term))) {
+      matches.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+
+  // Start a little before the densest run of matches
+  let start = 0;
+  let best = 0;
+  for (const [matchStart] of matches) {
+    const count = matches.filter(([s, e]) => s >= matchStart && e <= matchStart + maxLength).length;
+    if (count > best) {
+      best = count;
+      start = Math.max(0, matchStart - 30);
+    }
+  }
+  start = Math.max(0, Math.min(start, flat.length - maxLength));
+  const end = Math.min(flat.length, start + maxLength);
+
+  const prefix = start > 0 ? '...' : '';
+  const snippet = prefix + flat.slice(start, end) + (end < flat.length ? '...' : '');
+  const highlights = matches
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]): [number, number] => [s - start + prefix.length, e - start + prefix.length]);
+
+  return { snippet, highlights };
+}
+
+/**
+ * Names of all agents, for the search filter
+ */
+export async function getAgentNames(): Promise<string[]> {
+  const names = new Set<string>();
+  for (const conv of await conversationStorage.getAll()) {
+    for (const agent of await agentStorage.getByConversation(conv.id)) {
+      names.add(agent.name);
+    }
+  }
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
 /**
  * Search within a conversation
  */
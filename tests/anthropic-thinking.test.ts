@@ -0,0 +1,187 @@
+// ============================================
+// AI Brainstorm - Extended Thinking Tests
+// ============================================
+
+// The harness installs fake-indexeddb, so it has to load before any storage module
+import { EngineHarness, roundsReply, isRoundDecision } from './harness/engine-harness';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { agentStorage } from '../src/storage/storage-manager';
+import { ConversationEngine } from '../src/engine/conversation-engine';
+import { AnthropicProvider } from '../src/llm/providers/anthropic-provider';
+import { thinkingDepthToThinkingBudget } from '../src/llm/prompt-builder';
+import type { LLMRequestOptions } from '../src/llm/types';
+
+const options: LLMRequestOptions = {
+  model: 'claude-sonnet-4-20250514',
+  messages: [
+    { role: 'system', content: 'You are concise.' },
+    { role: 'user', content: 'What do you think?' },
+  ],
+  temperature: 0.7,
+  maxTokens: 500,
+  thinkingBudget: 2048,
+};
+
+function streamResponse(events: unknown[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function sentBody(fetchMock: ReturnType<typeof vi.fn>) {
+  return JSON.parse(fetchMock.mock.calls[0][1].body);
+}
+
+describe('AnthropicProvider extended thinking', () => {
+  const provider = new AnthropicProvider({ baseUrl: 'http://localhost', apiKey: 'key' });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should enable thinking with the budget on top of the output limit and no temperature', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(streamResponse([]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await provider.stream(options, () => {});
+    const body = sentBody(fetchMock);
+
+    expect(body.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+    expect(body.max_tokens).toBe(500 + 2048);
+    expect(body.temperature).toBeUndefined();
+  });
+
+  it('should leave thinking off without a budget', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(streamResponse([]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await provider.stream({ ...options, thinkingBudget: undefined }, () => {});
+    const body = sentBody(fetchMock);
+
+    expect(body.thinking).toBeUndefined();
+    expect(body.max_tokens).toBe(500);
+    expect(body.temperature).toBe(0.7);
+  });
+
+  it('should stream thinking deltas apart from the text', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+      { type: 'message_start', message: { model: 'claude-sonnet-4-20250514', usage: { input_tokens: 20 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '', signature: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Weighing ' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'the options.' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig-1' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'I agree.' } },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 30 } },
+    ])));
+    const text: string[] = [];
+    const thinking: string[] = [];
+
+    const response = await provider.stream(options, chunk => {
+      if (chunk.thinking) thinking.push(chunk.thinking);
+      if (chunk.content) text.push(chunk.content);
+    });
+
+    expect(thinking).toEqual(['Weighing ', 'the options.']);
+    expect(text).toEqual(['I agree.']);
+    expect(response.content).toBe('I agree.');
+    expect(response.reasoning).toBe('Weighing the options.');
+    expect(response.thinkingBlocks).toEqual([{ thinking: 'Weighing the options.', signature: 'sig-1' }]);
+  });
+
+  it('should send thinking blocks back first with the tool calls they led to', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: 'Found it.' }],
+      model: 'claude-sonnet-4-20250514',
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 40, output_tokens: 5 },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await provider.complete({
+      ...options,
+      messages: [
+        { role: 'user', content: 'Find it' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'toolu_1', name: 'search', arguments: { query: 'idb' } }],
+          thinkingBlocks: [{ thinking: 'I should search.', signature: 'sig-1' }, { redactedData: 'opaque' }],
+        },
+        { role: 'tool', content: 'IndexedDB docs', toolCallId: 'toolu_1' },
+      ],
+    });
+
+    expect(sentBody(fetchMock).messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'I should search.', signature: 'sig-1' },
+        { type: 'redacted_thinking', data: 'opaque' },
+        { type: 'tool_use', id: 'toolu_1', name: 'search', input: { query: 'idb' } },
+      ],
+    });
+  });
+});
+
+describe('Extended thinking in conversations', () => {
+  let harness: EngineHarness;
+
+  beforeEach(async () => {
+    harness = new EngineHarness();
+    await harness.setup();
+  });
+
+  afterEach(async () => {
+    await harness.teardown();
+  });
+
+  it('should store an agent\'s thinking on its message without showing it to other agents', async () => {
+    const created = await harness.createConversation({ agents: ['Alice', 'Bob'], maxRounds: 1 });
+    const id = created.getConversation().id;
+    const alice = created.getAgents().find(agent => agent.name === 'Alice')!;
+    await agentStorage.update(alice.id, { extendedThinking: true, thinkingDepth: 3 });
+
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(1);
+        if (options.thinkingBudget) return { content: 'Alice speaks.', thinking: 'Private deliberation.' };
+        return undefined;
+      },
+    });
+
+    const engine = await ConversationEngine.load(id);
+    await engine!.start();
+
+    const aliceRequests = harness.requests.filter(request => request.thinkingBudget);
+    expect(aliceRequests.length).toBeGreaterThan(0);
+    expect(aliceRequests[0].thinkingBudget).toBe(thinkingDepthToThinkingBudget(3));
+
+    const messages = await harness.messages(id);
+    expect(messages.find(message => message.agentId === alice.id)?.reasoning).toBe('Private deliberation.');
+    expect(harness.eventsOf('stream:thinking')).toContainEqual({ agentId: alice.id, content: 'Private deliberation.' });
+
+    const seenByOthers = harness.requests
+      .filter(request => !request.thinkingBudget)
+      .flatMap(request => request.messages.map(message => message.content));
+    expect(seenByOthers.some(content => content.includes('Alice speaks.'))).toBe(true);
+    expect(seenByOthers.some(content => content.includes('Private deliberation.'))).toBe(false);
+  });
+});
+
+describe('thinkingDepthToThinkingBudget', () => {
+  it('should double the budget from 1024 tokens per depth level', () => {
+    expect([1, 2, 3, 4, 5].map(thinkingDepthToThinkingBudget)).toEqual([1024, 2048, 4096, 8192, 16384]);
+  });
+});
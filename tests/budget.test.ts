@@ -0,0 +1,65 @@
+// ============================================
+// AI Brainstorm - Budget Guardrail Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { evaluateBudget } from '../src/engine/budget';
+import type { Conversation } from '../src/types';
+
+function conversation(overrides: Partial<Conversation>): Conversation {
+  return {
+    id: 'conv-1',
+    subject: 'Test',
+    goal: 'Test',
+    mode: 'round-robin',
+    status: 'running',
+    speedMs: 1000,
+    maxContextTokens: 8000,
+    plainTextOnly: false,
+    currentRound: 0,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+const idle = { tokens: 0, cost: 0, durationMs: 0 };
+
+describe('evaluateBudget', () => {
+  it('should ignore conversations without limits', () => {
+    expect(evaluateBudget(conversation({}), { tokens: 1e9, cost: 1e3, durationMs: 1e9 })).toEqual([]);
+  });
+
+  it('should stay quiet below the warning threshold', () => {
+    const conv = conversation({ budgetMaxTokens: 10000 });
+    expect(evaluateBudget(conv, { ...idle, tokens: 7000 })).toEqual([]);
+  });
+
+  it('should warn when a limit is close', () => {
+    const conv = conversation({ budgetMaxTokens: 10000 });
+    const [notice] = evaluateBudget(conv, { ...idle, tokens: 8500 });
+
+    expect(notice.kind).toBe('tokens');
+    expect(notice.level).toBe('warning');
+    expect(notice.message).toContain('85%');
+  });
+
+  it('should report reached limits before warnings', () => {
+    const conv = conversation({ budgetMaxTokens: 10000, budgetMaxCost: 1, budgetMaxDurationMs: 60000 });
+    const notices = evaluateBudget(conv, { tokens: 9000, cost: 0.5, durationMs: 61000 });
+
+    expect(notices.map(n => [n.kind, n.level])).toEqual([
+      ['time', 'reached'],
+      ['tokens', 'warning'],
+    ]);
+    expect(notices[0].message).toBe('Time budget reached (1 min of 1 min)');
+  });
+
+  it('should treat hitting the limit exactly as reached', () => {
+    const conv = conversation({ budgetMaxCost: 2 });
+    const [notice] = evaluateBudget(conv, { ...idle, cost: 2 });
+
+    expect(notice.level).toBe('reached');
+    expect(notice.message).toBe('Cost budget reached ($2.00 of $2.00)');
+  });
+});
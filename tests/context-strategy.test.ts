@@ -0,0 +1,76 @@
+// ============================================
+// AI Brainstorm - Context Strategy Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { ContextStrategy } from '../src/engine/context-strategy';
+import { countTokens } from '../src/llm/token-counter';
+import { TOKEN_ESTIMATION } from '../src/constants';
+import type { Message } from '../src/types';
+
+const profile = 'Pricing analyst\nSubscription pricing, free tiers and monthly plans';
+
+let createdAt = Date.now();
+
+function message(id: string, content: string, round: number, type: Message['type'] = 'response'): Message {
+  return { id, conversationId: 'conv-1', agentId: `agent-${id}`, content, round, weight: 0, type, createdAt: createdAt++ };
+}
+
+const messages = [
+  message('opening', 'Welcome, today we plan the product launch.', 0, 'opening'),
+  message('old-pricing', 'Subscription pricing needs a generous free tier before the monthly plans.', 0),
+  message('office', 'The office move should wait until the lease ends in spring.', 3),
+  message('hiring', 'We need two more engineers for the mobile team this quarter.', 3),
+  message('latest-1', 'The launch date depends on the app store review.', 4),
+  message('latest-2', 'Marketing wants the free tier mentioned in the announcement.', 4),
+  message('latest-3', 'What should the monthly plans cost at launch?', 4),
+];
+
+// Room for the opening, the latest three messages and one more
+const budget = ['opening', 'old-pricing', 'latest-1', 'latest-2', 'latest-3']
+  .map(id => messages.find(m => m.id === id)!)
+  .reduce((sum, m) => sum + countTokens(m.content) + TOKEN_ESTIMATION.MESSAGE_OVERHEAD, 0);
+
+describe('ContextStrategy.selectScoredMessages', () => {
+  const strategy = new ContextStrategy(8000);
+
+  it('should leave out old messages once they decay', () => {
+    const { messages: selected } = strategy.selectScoredMessages(messages, budget, 'agent-x', 5);
+    expect(selected.map(m => m.id)).not.toContain('old-pricing');
+  });
+
+  it('should bring back old messages on the agent\'s topic with relevance scoring', () => {
+    const { messages: selected, scores } = strategy.selectScoredMessages(messages, budget, 'agent-x', 5, profile);
+
+    expect(selected.map(m => m.id)).toEqual(['opening', 'old-pricing', 'latest-1', 'latest-2', 'latest-3']);
+
+    const oldPricing = scores.find(s => s.messageId === 'old-pricing')!;
+    expect(oldPricing.decayFactor).toBeLessThan(1);
+    expect(oldPricing.relevanceBonus).toBeGreaterThan(0);
+    expect(oldPricing.critical).toBe(false);
+  });
+
+  it('should explain each selected message in the scores', () => {
+    const { messages: selected, scores } = strategy.selectScoredMessages(messages, budget, 'agent-opening', 5);
+
+    expect(scores.map(s => s.messageId)).toEqual(selected.map(m => m.id));
+    expect(scores[0]).toMatchObject({
+      messageId: 'opening',
+      round: 0,
+      preview: messages[0].content,
+      type: 150,
+      addressing: 40,
+      decayFactor: 1,
+      critical: true,
+    });
+    expect(scores[0].relevance).toBeUndefined();
+    for (const score of scores) {
+      expect(score.total).toBe(Math.floor((score.type + score.addressing + score.votes + score.recency) * score.decayFactor));
+    }
+  });
+
+  it('should keep selectMessages returning the same messages', () => {
+    const scored = strategy.selectScoredMessages(messages, budget, 'agent-x', 5, profile).messages;
+    expect(strategy.selectMessages(messages, budget, 'agent-x', 5, profile)).toEqual(scored);
+  });
+});
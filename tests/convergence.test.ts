@@ -0,0 +1,133 @@
+// ============================================
+// AI Brainstorm - Convergence Tests
+// ============================================
+
+// Serves the bundled English prompts; has to load before anything that reads them
+import './harness/english-prompts';
+import { describe, it, expect } from 'vitest';
+import { measureNovelty, measureRepetition, compareOpenQuestions, isPlateau, assessRound } from '../src/engine/convergence';
+import { parseConvergenceResponse } from '../src/llm/prompt-builder';
+import type { RoundConvergence } from '../src/types';
+
+function entry(round: number, novelty: number, questionStability: number, openQuestions: string[] = []): RoundConvergence {
+  return {
+    round,
+    novelty,
+    repetition: 0,
+    questionStability,
+    openQuestions,
+    recommendation: 'continue',
+    reasoning: '',
+    plateaued: false,
+  };
+}
+
+describe('measureNovelty', () => {
+  it('should count the first round as all new', () => {
+    expect(measureNovelty(['We should build a mobile prototype first.'], [])).toBe(1);
+  });
+
+  it('should drop to zero when a round only repeats earlier content', () => {
+    const earlier = ['We should build a mobile prototype first.'];
+    expect(measureNovelty(['We should build a mobile prototype first.'], earlier)).toBe(0);
+  });
+
+  it('should measure the share of new word pairs', () => {
+    const novelty = measureNovelty(
+      ['Mobile prototype first, then pricing research with early customers.'],
+      ['Build the mobile prototype first.']
+    );
+    expect(novelty).toBeGreaterThan(0.5);
+    expect(novelty).toBeLessThan(1);
+  });
+
+  it('should be zero for an empty round', () => {
+    expect(measureNovelty([], ['Anything at all here.'])).toBe(0);
+  });
+});
+
+describe('measureRepetition', () => {
+  it('should count sentences that restate earlier points', () => {
+    const repetition = measureRepetition(
+      ['The mobile prototype should come first. Pricing needs customer interviews.'],
+      ['I think the mobile prototype should come first.']
+    );
+    expect(repetition).toBe(0.5);
+  });
+
+  it('should work across scripts', () => {
+    expect(measureRepetition(['نمونه اولیه موبایل باید اول ساخته شود.'], ['نمونه اولیه موبایل باید اول ساخته شود.'])).toBe(1);
+  });
+});
+
+describe('compareOpenQuestions', () => {
+  it('should match reworded questions', () => {
+    expect(compareOpenQuestions(
+      ['Which pricing model should we use?', 'Who owns the launch?'],
+      ['Which pricing model should we pick?', 'Who owns the launch?']
+    )).toBe(1);
+  });
+
+  it('should drop when new questions come up', () => {
+    expect(compareOpenQuestions(['Who owns the launch?', 'How do we hire?'], ['Who owns the launch?'])).toBe(0.5);
+    expect(compareOpenQuestions([], ['Who owns the launch?'])).toBe(0);
+    expect(compareOpenQuestions([], [])).toBe(1);
+  });
+});
+
+describe('isPlateau', () => {
+  it('should need consecutive low-novelty rounds with settled questions', () => {
+    expect(isPlateau([entry(0, 1, 0), entry(1, 0.1, 0.8), entry(2, 0.2, 1)])).toBe(true);
+    expect(isPlateau([entry(0, 1, 0), entry(1, 0.1, 0.8)])).toBe(false);
+    expect(isPlateau([entry(1, 0.1, 0.8), entry(2, 0.2, 0.3)])).toBe(false);
+  });
+});
+
+describe('assessRound', () => {
+  const measure = (texts: { round: string[]; earlier: string[] }) => ({
+    novelty: measureNovelty(texts.round, texts.earlier),
+    repetition: measureRepetition(texts.round, texts.earlier),
+  });
+  const same = measure({ round: ['We agree on the mobile prototype plan.'], earlier: ['We agree on the mobile prototype plan.'] });
+  const view = { openQuestions: ['Who owns the launch?'], recommendation: 'continue' as const, reasoning: 'Still useful.' };
+
+  it('should recommend stopping once the rounds plateau', () => {
+    const history = [entry(0, 1, 0, ['Who owns the launch?']), entry(1, 0.1, 1, ['Who owns the launch?'])];
+    const result = assessRound(2, same, view, history);
+
+    expect(result.questionStability).toBe(1);
+    expect(result.plateaued).toBe(true);
+    expect(result.recommendation).toBe('stop');
+  });
+
+  it('should take a stop recommendation as a plateau only when the round added little', () => {
+    const stop = { ...view, recommendation: 'stop' as const };
+    expect(assessRound(1, same, stop, [entry(0, 1, 0)]).plateaued).toBe(true);
+
+    const fresh = measure({ round: ['Pricing research with customers needs budget approval.'], earlier: ['We agree on the mobile prototype plan.'] });
+    const result = assessRound(1, fresh, stop, [entry(0, 1, 0)]);
+    expect(result.plateaued).toBe(false);
+    expect(result.recommendation).toBe('stop');
+  });
+});
+
+describe('parseConvergenceResponse', () => {
+  it('should read open questions, recommendation and reasoning', () => {
+    expect(parseConvergenceResponse(
+      '```json\n{"openQuestions": [" Who owns the launch? ", "", 3], "recommendation": "Extend", "reasoning": "Key questions remain."}\n```'
+    )).toEqual({
+      openQuestions: ['Who owns the launch?'],
+      recommendation: 'extend',
+      reasoning: 'Key questions remain.',
+    });
+  });
+
+  it('should treat unknown recommendations as continue', () => {
+    expect(parseConvergenceResponse('{"recommendation": "pause"}')).toEqual({
+      openQuestions: [],
+      recommendation: 'continue',
+      reasoning: '',
+    });
+    expect(parseConvergenceResponse('Keep going.')).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+// ============================================
+// AI Brainstorm - Debate Mode Tests
+// ============================================
+
+// Serves the bundled English prompts; has to load before anything that reads them
+import './harness/english-prompts';
+import { describe, it, expect } from 'vitest';
+import { assignDebateSides, getDebatePhase, getDebateRoundCount, getDebaters, orderDebateSpeakers } from '../src/engine/debate';
+import { parseDebateVerdict } from '../src/llm/prompt-builder';
+import type { DebateSide } from '../src/types';
+
+function debater(id: string, debateSide?: DebateSide) {
+  return { id, isSecretary: false, debateSide };
+}
+
+describe('debate phases', () => {
+  it('should run opening, rebuttal and closing rounds', () => {
+    const conversation = { debateRebuttalRounds: 2 };
+
+    expect(getDebateRoundCount(conversation)).toBe(4);
+    expect([0, 1, 2, 3].map(round => getDebatePhase(conversation, round))).toEqual([
+      'opening', 'rebuttal', 'rebuttal', 'closing',
+    ]);
+  });
+
+  it('should default to one rebuttal round and clamp the setting', () => {
+    expect(getDebateRoundCount({})).toBe(3);
+    expect(getDebateRoundCount({ debateRebuttalRounds: -3 })).toBe(2);
+    expect(getDebateRoundCount({ debateRebuttalRounds: 99 })).toBe(7);
+  });
+
+  it('should treat the wrap-up round of an early finish as closing', () => {
+    expect(getDebatePhase({ status: 'finishing' }, 0)).toBe('closing');
+  });
+});
+
+describe('debate teams', () => {
+  it('should keep chosen sides and balance the rest', () => {
+    expect(assignDebateSides([{ debateSide: 'pro' }, { debateSide: 'pro' }, {}, {}])).toEqual(['pro', 'pro', 'con', 'con']);
+    expect(assignDebateSides([{}, {}, {}])).toEqual(['pro', 'con', 'pro']);
+  });
+
+  it('should leave out the secretary and the judge', () => {
+    const agents = [debater('a'), debater('judge'), { id: 'sec', isSecretary: true }];
+    expect(getDebaters(agents, 'judge').map(a => a.id)).toEqual(['a']);
+  });
+
+  it('should alternate pro and con speakers', () => {
+    const agents = [debater('p1', 'pro'), debater('p2', 'pro'), debater('p3', 'pro'), debater('c1', 'con')];
+    expect(orderDebateSpeakers(agents).map(a => a.id)).toEqual(['p1', 'c1', 'p2', 'p3']);
+  });
+});
+
+describe('parseDebateVerdict', () => {
+  it('should read scores, winner and reasoning', () => {
+    const result = parseDebateVerdict(JSON.stringify({
+      scores: {
+        pro: { evidence: 8, reasoning: 7, rebuttal: 6, clarity: 9 },
+        con: { evidence: 5, reasoning: 6, rebuttal: 7, clarity: 6 },
+      },
+      winner: 'pro',
+      reasoning: 'Pro backed its claims with data.',
+    }));
+
+    expect(result?.winner).toBe('pro');
+    expect(result?.reasoning).toBe('Pro backed its claims with data.');
+    expect(result?.scores).toEqual([
+      { side: 'pro', criteria: { evidence: 8, reasoning: 7, rebuttal: 6, clarity: 9 }, total: 30 },
+      { side: 'con', criteria: { evidence: 5, reasoning: 6, rebuttal: 7, clarity: 6 }, total: 24 },
+    ]);
+  });
+
+  it('should clamp scores and count missing criteria as zero', () => {
+    const result = parseDebateVerdict('{"scores": {"pro": {"evidence": 15, "clarity": -2}, "con": {}}, "winner": "draw"}');
+
+    expect(result?.scores[0].criteria).toEqual({ evidence: 10, reasoning: 0, rebuttal: 0, clarity: 0 });
+    expect(result?.scores[1].total).toBe(0);
+  });
+
+  it('should derive the winner from the totals when it is missing or invalid', () => {
+    const result = parseDebateVerdict(
+      'Verdict:\n```json\n{"scores": {"pro": {"evidence": 2}, "con": {"evidence": 4}}, "winner": "both"}\n```'
+    );
+    expect(result?.winner).toBe('con');
+  });
+
+  it('should return null without JSON scores', () => {
+    expect(parseDebateVerdict('Pro wins.')).toBeNull();
+    expect(parseDebateVerdict('{"winner": "pro"}')).toBeNull();
+    expect(parseDebateVerdict('{"scores": ')).toBeNull();
+  });
+});
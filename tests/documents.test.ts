@@ -0,0 +1,208 @@
+// ============================================
+// AI Brainstorm - Document Attachment Tests
+// ============================================
+
+// Serves the bundled English prompts; has to load before anything that reads them
+import './harness/english-prompts';
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../src/storage/db';
+import { documentStorage } from '../src/storage/storage-manager';
+import { countTokens } from '../src/llm/token-counter';
+import { detectDocumentFormat, chunkText, chunkDocument, splitCsvRecords, extractPdfText, attachDocument, removeDocument, CITATION_PATTERN } from '../src/utils/documents';
+import { ContextBuilder } from '../src/engine/context-builder';
+import { DOCUMENTS } from '../src/constants';
+import type { Agent, Conversation, ConversationDocument, DocumentChunk } from '../src/types';
+
+const encoder = new TextEncoder();
+
+function bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, c => c.charCodeAt(0));
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data).body!.pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * A minimal PDF with one object per stream
+ */
+function buildPdf(streams: Array<{ dictionary?: string; data: Uint8Array }>): Uint8Array {
+  const parts: Uint8Array[] = [bytes('%PDF-1.4\n')];
+  streams.forEach(({ dictionary = '', data }, i) => {
+    parts.push(bytes(`${i + 1} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`), data, bytes('\nendstream\nendobj\n'));
+  });
+  parts.push(bytes('trailer\n<< >>\n%%EOF\n'));
+
+  const pdf = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    pdf.set(part, offset);
+    offset += part.length;
+  }
+  return pdf;
+}
+
+describe('detectDocumentFormat', () => {
+  it('should detect formats by extension, then by MIME type', () => {
+    expect(detectDocumentFormat('notes.MD')).toBe('markdown');
+    expect(detectDocumentFormat('report.pdf')).toBe('pdf');
+    expect(detectDocumentFormat('data.csv')).toBe('csv');
+    expect(detectDocumentFormat('export', 'application/json')).toBe('json');
+    expect(detectDocumentFormat('photo.png', 'image/png')).toBeNull();
+  });
+});
+
+describe('chunkText', () => {
+  it('should keep paragraphs together while they fit', () => {
+    const chunks = chunkText('First paragraph.\n\nSecond paragraph.', 50);
+    expect(chunks).toEqual(['First paragraph.\n\nSecond paragraph.']);
+  });
+
+  it('should split long text by sentences and stay within the chunk size', () => {
+    const sentence = 'The pilot customers asked for offline sync and faster exports. ';
+    const chunks = chunkText(sentence.repeat(40), 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => countTokens(chunk) <= 60)).toBe(true);
+    expect(chunks[0].startsWith('The pilot customers')).toBe(true);
+  });
+
+  it('should start a new chunk at a heading once the current one is half full', () => {
+    const text = `# Pricing\n\n${'Two tiers priced monthly. '.repeat(12)}\n\n# Onboarding\n\nA guided setup.`;
+    const chunks = chunkText(text, 100);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]).toBe('# Onboarding\n\nA guided setup.');
+  });
+});
+
+describe('chunkDocument', () => {
+  it('should repeat the CSV header in every chunk', async () => {
+    const rows = Array.from({ length: 30 }, (_, i) => `${i},"Customer ${i}, Inc.",${i * 100}`);
+    const chunks = await chunkDocument('csv', encoder.encode(['id,name,revenue', ...rows].join('\n')), 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.startsWith('id,name,revenue\n'))).toBe(true);
+    expect(chunks.join('\n')).toContain('29,"Customer 29, Inc.",2900');
+  });
+
+  it('should keep quoted CSV fields that span lines in one record', () => {
+    expect(splitCsvRecords('a,b\r\n1,"two\nlines"\r\n3,4\n')).toEqual(['a,b', '1,"two\nlines"', '3,4']);
+  });
+
+  it('should pretty-print JSON and reject invalid JSON', async () => {
+    const [chunk] = await chunkDocument('json', encoder.encode('{"plan":"pro","seats":5}'));
+    expect(chunk).toBe('{\n  "plan": "pro",\n  "seats": 5\n}');
+
+    await expect(chunkDocument('json', encoder.encode('{"plan":'))).rejects.toThrow('Invalid JSON');
+  });
+});
+
+describe('extractPdfText', () => {
+  const content = 'BT /F1 12 Tf 72 720 Td (Quarterly \\(Q3\\) report) Tj 0 -14 Td [(Revenue) -300 (grew)] TJ T* <FEFF00480069> Tj ET';
+
+  it('should read text operators from an uncompressed content stream', async () => {
+    const text = await extractPdfText(buildPdf([{ data: bytes(content) }]));
+    expect(text).toBe('Quarterly (Q3) report\nRevenue grew\nHi');
+  });
+
+  it('should inflate FlateDecode streams and skip images', async () => {
+    const pdf = buildPdf([
+      { dictionary: '/Subtype /Image /Width 1 /Height 1', data: bytes('BT (not text) Tj ET') },
+      { dictionary: '/Filter /FlateDecode', data: await deflate(bytes(content)) },
+    ]);
+    expect(await extractPdfText(pdf)).toBe('Quarterly (Q3) report\nRevenue grew\nHi');
+  });
+
+  it('should reject files that are not PDFs', async () => {
+    await expect(extractPdfText(bytes('hello'))).rejects.toThrow('Not a PDF file');
+  });
+});
+
+describe('attachDocument', () => {
+  beforeEach(async () => {
+    if (!db.isOpen()) await db.open();
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('should store chunks with citation IDs and number documents per conversation', async () => {
+    const first = await attachDocument('conv-1', new File(['# Notes\n\nShip in May.'], 'notes.md'));
+    const second = await attachDocument('conv-1', new File(['id,plan\n1,pro'], 'plans.csv'));
+
+    expect(first).toMatchObject({ number: 1, format: 'markdown', chunkCount: 1 });
+    expect(second.number).toBe(2);
+    expect((await documentStorage.getChunks(second.id)).map(c => c.ref)).toEqual(['D2.1']);
+    expect((await documentStorage.getChunkByRef('conv-1', 'D1.1'))?.content).toBe('# Notes\n\nShip in May.');
+
+    await removeDocument('conv-1', first.id);
+    expect(await documentStorage.getChunkByRef('conv-1', 'D1.1')).toBeUndefined();
+    expect((await documentStorage.getByConversation('conv-1')).map(d => d.name)).toEqual(['plans.csv']);
+  });
+
+  it('should refuse unsupported, oversized and empty files', async () => {
+    await expect(attachDocument('conv-1', new File(['x'], 'image.png', { type: 'image/png' }))).rejects.toThrow('unsupported file type');
+    await expect(attachDocument('conv-1', new File([new Uint8Array(DOCUMENTS.MAX_FILE_BYTES + 1)], 'big.txt'))).rejects.toThrow('larger than');
+    await expect(attachDocument('conv-1', new File(['  \n'], 'empty.txt'))).rejects.toThrow('is empty');
+  });
+});
+
+describe('document context', () => {
+  const conversation = {
+    id: 'conv-1',
+    subject: 'Launch plan',
+    goal: 'Pick a launch date',
+    maxContextTokens: 8000,
+    currentRound: 0,
+  } as Conversation;
+  const agent = { id: 'agent-1', name: 'Ada', role: 'Marketing lead', expertise: 'Pricing', thinkingDepth: 3 } as Agent;
+  const document: ConversationDocument = {
+    id: 'doc-1', conversationId: 'conv-1', number: 1, name: 'research.md', format: 'markdown',
+    size: 100, chunkCount: 2, tokenCount: 40, summary: 'Customer research on pricing.', createdAt: 1,
+  };
+  const chunks: DocumentChunk[] = [
+    { id: 'c1', documentId: 'doc-1', conversationId: 'conv-1', ref: 'D1.1', index: 0, content: 'Office plants need watering twice a week.', tokens: 10 },
+    { id: 'c2', documentId: 'doc-1', conversationId: 'conv-1', ref: 'D1.2', index: 1, content: 'Customers accept pricing of 20 dollars for the launch tier.', tokens: 12 },
+  ];
+
+  it('should add document summaries and the passages that fit the budget', () => {
+    const context = new ContextBuilder(conversation).build(agent, [agent], [], [], null, undefined, {
+      isFirstTurn: true,
+      documents: [document],
+      documentChunks: chunks,
+    });
+
+    const documentMessage = context.promptMessages.find(m => m.content.startsWith('SOURCE DOCUMENTS'));
+    expect(documentMessage?.content).toContain('D1 "research.md": Customer research on pricing.');
+    expect(documentMessage?.content).toContain('[D1.2] Customers accept pricing');
+    expect(context.documentChunks).toEqual(['D1.1', 'D1.2']);
+  });
+
+  it('should prefer the passages closest to the discussion when not all of them fit', () => {
+    const filler = Array.from({ length: 300 }, (_, i): DocumentChunk => ({
+      ...chunks[0], id: `filler-${i}`, ref: `D1.${i + 3}`, index: i + 2, content: `Office plants need watering twice a week, row ${i}.`,
+    }));
+    const context = new ContextBuilder(conversation).build(agent, [agent], [], [], null, undefined, {
+      isFirstTurn: true,
+      documents: [{ ...document, chunkCount: 302 }],
+      documentChunks: [...filler, ...chunks],
+    });
+
+    expect(context.documentChunks).toContain('D1.2');
+    expect(context.documentChunks.length).toBeLessThan(302);
+  });
+
+  it('should leave the prompt unchanged without documents', () => {
+    const context = new ContextBuilder(conversation).build(agent, [agent], [], [], null, undefined, { isFirstTurn: true });
+    expect(context.promptMessages.some(m => m.content.startsWith('SOURCE DOCUMENTS'))).toBe(false);
+    expect(context.documentChunks).toEqual([]);
+  });
+});
+
+describe('CITATION_PATTERN', () => {
+  it('should find single and grouped citations', () => {
+    const text = 'Pricing holds [D1.2], see also [D2.1, D2.3] but not [D3] or D1.4.';
+    expect(Array.from(text.matchAll(CITATION_PATTERN), m => m[1])).toEqual(['D1.2', 'D2.1, D2.3']);
+  });
+});
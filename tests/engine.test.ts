@@ -0,0 +1,488 @@
+// ============================================
+// AI Brainstorm - Conversation Engine Tests
+// ============================================
+
+// The harness installs fake-indexeddb, so it has to load before any storage module
+import { EngineHarness, roundsReply, isRoundDecision } from './harness/engine-harness';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { conversationStorage, settingsStorage, documentStorage, contextSnapshotStorage, agentStorage } from '../src/storage/storage-manager';
+import { ConversationEngine } from '../src/engine/conversation-engine';
+import { eventBus } from '../src/utils/event-bus';
+import type { MockProviderOptions } from '../src/llm/providers/mock-provider';
+
+// Fixed round count from the secretary's first-round analysis
+const threeRounds: Partial<MockProviderOptions> = {
+  responder: options => (isRoundDecision(options) ? roundsReply(3) : undefined),
+};
+
+describe('ConversationEngine', () => {
+  let harness: EngineHarness;
+
+  beforeEach(async () => {
+    harness = new EngineHarness();
+    await harness.setup(threeRounds);
+  });
+
+  afterEach(async () => {
+    await harness.teardown();
+  });
+
+  it('should run round-robin rounds to completion with summaries and a final result', async () => {
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const conversation = await harness.conversation(id);
+    const messages = await harness.messages(id);
+    const responses = messages.filter(m => m.type === 'response');
+
+    expect(conversation?.status).toBe('completed');
+    expect(conversation?.recommendedRounds).toBe(3);
+    expect(responses).toHaveLength(6);
+    expect(responses.map(m => m.round)).toEqual([0, 0, 1, 1, 2, 2]);
+    expect(messages.filter(m => m.type === 'summary')).toHaveLength(3);
+    expect((await harness.resultDraft(id))?.content).toBeTruthy();
+    expect(harness.eventsOf('conversation:started')).toEqual([id]);
+  });
+
+  it('should alternate speakers in round-robin order', async () => {
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+    const names = new Map(engine.getAgents().map(a => [a.id, a.name]));
+
+    await engine.start();
+
+    const speakers = (await harness.messages(id)).filter(m => m.type === 'response').map(m => names.get(m.agentId!));
+    expect(speakers).toEqual(['Alice', 'Bob', 'Alice', 'Bob', 'Alice', 'Bob']);
+  });
+
+  it('should complete dynamic mode with every agent speaking each round', async () => {
+    const engine = await harness.createConversation({ mode: 'dynamic', agents: ['Alice', 'Bob', 'Carol'] });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const responses = (await harness.messages(id)).filter(m => m.type === 'response');
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    for (const round of [0, 1, 2]) {
+      expect(new Set(responses.filter(m => m.round === round).map(m => m.agentId)).size).toBe(3);
+    }
+  });
+
+  it('should run parallel rounds concurrently with independent answers', async () => {
+    harness.configure({ ...threeRounds, chunkDelayMs: 1 });
+    const engine = await harness.createConversation({ mode: 'parallel', agents: ['Alice', 'Bob', 'Carol'] });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const responses = (await harness.messages(id)).filter(m => m.type === 'response');
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    expect(responses).toHaveLength(9);
+
+    // Every turn of the first round starts before any of them finishes
+    const names = harness.events.map(e => e.name);
+    expect(names.slice(0, names.indexOf('turn:completed')).filter(n => n === 'turn:started')).toHaveLength(3);
+
+    // First-round prompts don't include the other first-round answers
+    const firstRound = responses.filter(m => m.round === 0).map(m => m.content);
+    const firstRequests = harness.requests.filter(r => r.usage?.purpose === 'turn').slice(0, 3);
+    for (const request of firstRequests) {
+      const prompt = request.messages.map(m => m.content).join('\n');
+      expect(firstRound.some(content => prompt.includes(content))).toBe(false);
+    }
+
+    // The secretary compares the independent answers
+    const summaries = harness.requests.filter(r => r.messages[0]?.content.includes('answered the same prompt independently'));
+    expect(summaries).toHaveLength(3);
+  });
+
+  it('should resume a paused parallel round without re-running the agents that answered', async () => {
+    let firstAnswer = true;
+    harness.configure({
+      chunkDelayMs: 1,
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(1);
+        // The first answer lands while the other two are still streaming
+        if (options.usage?.purpose === 'turn' && firstAnswer) {
+          firstAnswer = false;
+          return 'Short answer.';
+        }
+        return undefined;
+      },
+    });
+    const engine = await harness.createConversation({ mode: 'parallel', agents: ['Alice', 'Bob', 'Carol'] });
+    const id = engine.getConversation().id;
+
+    let pausing: Promise<void> | undefined;
+    eventBus.once('turn:completed', () => {
+      pausing = engine.pause();
+    });
+    await engine.start();
+    await pausing;
+
+    expect((await harness.conversation(id))?.status).toBe('paused');
+    const [answered] = (await harness.messages(id)).filter(m => m.type === 'response');
+    expect(answered.content).toBe('Short answer.');
+    const startedBefore = harness.eventsOf('turn:started').length;
+
+    // The speaking order changes while paused, so the agent that answered no longer has its old slot
+    const agents = engine.getAgents().filter(agent => !agent.isSecretary);
+    await agentStorage.update(answered.agentId!, { order: Math.max(...agents.map(agent => agent.order)) + 1 });
+
+    const resumed = await ConversationEngine.load(id);
+    await resumed!.resume();
+
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    const restarted = harness.eventsOf('turn:started').slice(startedBefore).filter(turn => turn.round === 0);
+    expect(restarted).toHaveLength(2);
+    expect(restarted.map(turn => turn.agentId)).not.toContain(answered.agentId);
+
+    const responses = (await harness.messages(id)).filter(m => m.type === 'response' && m.round === 0);
+    expect(responses).toHaveLength(3);
+    expect(new Set(responses.map(m => m.agentId)).size).toBe(3);
+  });
+
+  it('should let the moderator pick speakers in moderator mode', async () => {
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(2);
+        if (options.messages.some(m => m.content.includes('"nextSpeaker"'))) {
+          return JSON.stringify({ nextSpeaker: 'Bob', reasoning: 'Bob knows the numbers.' });
+        }
+        return undefined;
+      },
+    });
+    const engine = await harness.createConversation({ mode: 'moderator', agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+    const bob = engine.getAgents().find(a => a.name === 'Bob')!;
+
+    await engine.start();
+
+    const turns = await harness.turns(id);
+    const moderated = turns.filter(t => t.moderatorDecision?.source === 'moderator');
+    expect(moderated.length).toBeGreaterThan(0);
+    expect(moderated[0].agentId).toBe(bob.id);
+    expect(moderated[0].moderatorDecision?.reasoning).toBe('Bob knows the numbers.');
+  });
+
+  it('should run a debate through its phases and record the judge verdict', async () => {
+    const engine = await harness.createConversation({ mode: 'debate', agents: ['Alice', 'Bob', 'Carol', 'Dan'] });
+    const id = engine.getConversation().id;
+    const agents = engine.getAgents();
+    const secretary = agents.find(a => a.entityData.isSecretary)!;
+
+    await engine.start();
+
+    // Sides alternate by default, and the teams take turns
+    expect(agents.filter(a => !a.entityData.isSecretary).map(a => a.entityData.debateSide)).toEqual(['pro', 'con', 'pro', 'con']);
+    const responses = (await harness.messages(id)).filter(m => m.type === 'response');
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    expect(responses.map(m => m.round)).toEqual([0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2]);
+
+    // Fixed phases instead of a secretary round decision
+    expect(harness.requests.some(isRoundDecision)).toBe(false);
+    const turnPrompts = harness.requests
+      .map(r => r.messages.map(m => m.content).join('\n'))
+      .filter(prompt => prompt.includes('STRUCTURED DEBATE'));
+    expect(turnPrompts).toHaveLength(12);
+    expect(turnPrompts[0]).toContain('OPENING STATEMENT');
+    expect(turnPrompts[4]).toContain('REBUTTAL');
+    expect(turnPrompts[11]).toContain('CLOSING STATEMENT');
+    expect(turnPrompts[1]).toContain('CON team');
+
+    const verdict = (await harness.resultDraft(id))?.debateVerdict;
+    expect(verdict?.judgeAgentId).toBe(secretary.id);
+    expect(['pro', 'con', 'draw']).toContain(verdict?.winner);
+    expect(verdict?.scores.map(s => s.side)).toEqual(['pro', 'con']);
+    expect(harness.requests.filter(r => r.usage?.purpose === 'judge')).toHaveLength(1);
+  });
+
+  it('should judge a debate stopped before the closing round', async () => {
+    const engine = await harness.createConversation({ mode: 'debate', agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    let stopping: Promise<void> | undefined;
+    eventBus.once('turn:completed', () => {
+      stopping = engine.stop();
+    });
+    await engine.start();
+    await stopping;
+
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    expect((await harness.messages(id)).filter(m => m.type === 'response').length).toBeLessThan(6);
+    expect(harness.requests.filter(r => r.usage?.purpose === 'judge')).toHaveLength(1);
+    expect((await harness.resultDraft(id))?.debateVerdict?.winner).toBeDefined();
+  });
+
+  it('should hold a vote after the run and add an agreed result to the draft', async () => {
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(2);
+        if (options.usage?.purpose === 'vote') {
+          return JSON.stringify({ stance: 'support', confidence: 90, reason: 'It fits the goal.' });
+        }
+        return undefined;
+      },
+    });
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+    const ballot = await engine.callVote('Ship the beta in May');
+
+    expect(ballot?.type).toBe('vote');
+    expect(ballot?.voteTrigger).toBe('user');
+    expect(ballot?.voteTally).toMatchObject({ support: 2, oppose: 0, outcome: 'consensus' });
+    expect(await harness.votes(id)).toHaveLength(2);
+    expect(harness.eventsOf('vote:cast')).toHaveLength(2);
+    expect(harness.eventsOf('vote:completed')).toHaveLength(1);
+    expect((await harness.resultDraft(id))?.consensusAreas).toContain('Votes:\n- VOTE on "Ship the beta in May"');
+  });
+
+  it('should finish early once the discussion plateaus', async () => {
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(6);
+        if (options.usage?.purpose === 'turn') return 'We agree the mobile prototype should ship first.';
+        if (options.messages.some(m => m.content.includes('"recommendation"'))) {
+          return JSON.stringify({ openQuestions: ['Who owns the launch?'], recommendation: 'continue', reasoning: 'Nothing new is coming up.' });
+        }
+        return undefined;
+      },
+    });
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+    await conversationStorage.update(id, { autoConverge: true });
+    engine.getConversation().autoConverge = true;
+
+    await engine.start();
+
+    // Rounds 2 and 3 add nothing new, so the wrap-up round follows round 3
+    const conversation = await harness.conversation(id);
+    expect(conversation?.status).toBe('completed');
+    expect(conversation?.convergence?.map(c => c.plateaued)).toEqual([false, false, true]);
+    expect(conversation?.convergence?.[2].recommendation).toBe('stop');
+    expect(harness.eventsOf('conversation:convergence')).toHaveLength(3);
+    expect(harness.eventsOf('conversation:finishing')).toEqual([id]);
+    expect((await harness.messages(id)).filter(m => m.type === 'response')).toHaveLength(8);
+  });
+
+  it('should only chart the measurements without autoConverge', async () => {
+    harness.configure({ responder: options => (isRoundDecision(options) ? roundsReply(2) : undefined) });
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const conversation = await harness.conversation(id);
+    expect(conversation?.convergence?.map(c => c.round)).toEqual([0, 1]);
+    expect(conversation?.convergence?.[0].novelty).toBe(1);
+    expect(harness.requests.some(r => r.messages.some(m => m.content.includes('"recommendation"')))).toBe(false);
+  });
+
+  it('should add rounds when the secretary recommends extending', async () => {
+    let checks = 0;
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(2);
+        if (options.messages.some(m => m.content.includes('"recommendation"'))) {
+          checks++;
+          return JSON.stringify({ openQuestions: [], recommendation: checks === 2 ? 'extend' : 'continue', reasoning: 'Pricing is still open.' });
+        }
+        return undefined;
+      },
+    });
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+    await conversationStorage.update(id, { autoConverge: true });
+    engine.getConversation().autoConverge = true;
+
+    await engine.start();
+
+    const conversation = await harness.conversation(id);
+    expect(conversation?.status).toBe('completed');
+    expect(conversation?.recommendedRounds).toBe(4);
+    expect((await harness.messages(id)).filter(m => m.type === 'response')).toHaveLength(8);
+    expect((await harness.messages(id)).some(m => m.type === 'system' && m.content === 'Pricing is still open.')).toBe(true);
+  });
+
+  it('should remember finished conversations and cite them in related ones', async () => {
+    await settingsStorage.update({ workspaceMemory: true });
+
+    const first = await harness.createConversation({ subject: 'Pricing for the mobile app' });
+    await first.start();
+
+    const remembered = await harness.workspaceMemory();
+    expect(remembered.length).toBeGreaterThan(0);
+    expect(remembered.every(entry => entry.sourceConversationId === first.getConversation().id)).toBe(true);
+    expect(remembered.some(entry => entry.kind === 'result')).toBe(true);
+    expect(remembered[0].topics).toEqual(expect.arrayContaining(['pricing', 'mobile']));
+
+    const second = await harness.createConversation({ subject: 'Mobile app pricing tiers' });
+    harness.requests.length = 0;
+    await second.start();
+
+    const participants = new Set(second.getAgents().filter(a => !a.isSecretary).map(a => a.id));
+    const turnPrompts = harness.requests
+      .filter(r => r.usage?.purpose === 'turn' && participants.has(r.usage.agentId!))
+      .map(r => r.messages.map(m => m.content).join('\n'));
+    expect(turnPrompts.length).toBeGreaterThan(0);
+    expect(turnPrompts.every(prompt => prompt.includes('FROM EARLIER CONVERSATIONS'))).toBe(true);
+    expect(turnPrompts[0]).toContain('- from "Pricing for the mobile app"');
+  });
+
+  it('should leave the workspace memory alone when it is off', async () => {
+    const engine = await harness.createConversation({ subject: 'Pricing for the mobile app' });
+    await engine.start();
+
+    expect(await harness.workspaceMemory()).toEqual([]);
+  });
+
+  it('should summarize attached documents and give agents their passages to cite', async () => {
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(2);
+        if (options.messages.some(m => m.content.includes('DOCUMENT "research.md"'))) {
+          return 'Pilot customers accept 20 dollars a month.';
+        }
+        return undefined;
+      },
+    });
+    const engine = await harness.createConversation({ subject: 'Pricing for the mobile app' });
+    const id = engine.getConversation().id;
+    const document = await documentStorage.create(
+      { conversationId: id, name: 'research.md', format: 'markdown', size: 120 },
+      [{ content: 'Pilot customers accept pricing of 20 dollars a month.', tokens: 12 }]
+    );
+
+    await engine.start();
+
+    expect((await documentStorage.getById(document.id))?.summary).toBe('Pilot customers accept 20 dollars a month.');
+    expect(harness.eventsOf('documents:updated')).toEqual([id]);
+
+    const turnRequests = harness.requests.filter(r => r.usage?.purpose === 'turn');
+    expect(turnRequests.length).toBeGreaterThan(0);
+    const documentContext = turnRequests[0].messages.find(m => m.content.startsWith('SOURCE DOCUMENTS'))?.content;
+    expect(documentContext).toContain('D1 "research.md": Pilot customers accept 20 dollars a month.');
+    expect(documentContext).toContain('[D1.1] Pilot customers accept pricing');
+
+    const snapshots = await contextSnapshotStorage.getByConversation(id);
+    expect(snapshots.length).toBeGreaterThan(0);
+    expect(snapshots.every(snapshot => snapshot.documentChunks?.includes('D1.1'))).toBe(true);
+  });
+
+  it('should show user interjections to the agents', async () => {
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    await engine.addInterjection('Please focus on the budget.', true);
+    await engine.start();
+
+    const messages = await harness.messages(id);
+    expect(messages.some(m => m.type === 'interjection' && m.content === 'Please focus on the budget.')).toBe(true);
+
+    const turnRequests = harness.requests.filter(r => r.usage?.purpose === 'turn');
+    expect(turnRequests[0].messages.some(m => m.content.includes('Please focus on the budget.'))).toBe(true);
+    expect(harness.eventsOf('user:interjection')).toHaveLength(1);
+  });
+
+  it('should distill older rounds into memory', async () => {
+    harness.configure({ responder: options => (isRoundDecision(options) ? roundsReply(4) : undefined) });
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const memory = await harness.distilledMemory(id);
+    expect(memory?.distilledSummary).toBeTruthy();
+    expect(memory?.lastDistilledRound).toBeGreaterThanOrEqual(1);
+    expect(harness.requests.some(r => r.usage?.purpose === 'distillation')).toBe(true);
+  });
+
+  it('should pause mid-run and finish with a wrap-up round', async () => {
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    let pausing: Promise<void> | undefined;
+    eventBus.once('turn:completed', () => {
+      pausing = engine.pause();
+    });
+    await engine.start();
+    await pausing;
+
+    expect((await harness.conversation(id))?.status).toBe('paused');
+    const before = (await harness.messages(id)).filter(m => m.type === 'response').length;
+
+    await engine.finish();
+
+    const messages = await harness.messages(id);
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    expect(messages.filter(m => m.type === 'response').length).toBe(before + 2);
+    expect(harness.eventsOf('conversation:finishing')).toEqual([id]);
+    expect((await harness.resultDraft(id))?.content).toBeTruthy();
+  });
+
+  it('should number wrap-up turns after the turns already taken in the round', async () => {
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob', 'Carol'] });
+    const id = engine.getConversation().id;
+
+    let pausing: Promise<void> | undefined;
+    eventBus.once('turn:completed', () => {
+      pausing = engine.pause();
+    });
+    await engine.start();
+    await pausing;
+    const taken = await harness.turns(id);
+
+    await engine.finish();
+
+    const round = engine.getConversation().currentRound;
+    const wrapUps = (await harness.turns(id)).filter(t => !taken.some(earlier => earlier.id === t.id));
+    expect(wrapUps.map(t => t.state)).toEqual(['completed', 'completed', 'completed']);
+    expect(wrapUps.every(t => t.round === round)).toBe(true);
+    expect(new Set(wrapUps.map(t => t.agentId)).size).toBe(3);
+    const firstFree = Math.max(...taken.filter(t => t.round === round).map(t => t.sequence)) + 1;
+    expect(wrapUps.map(t => t.sequence)).toEqual([firstFree, firstFree + 1, firstFree + 2]);
+  });
+
+  it('should keep running after a failed turn', async () => {
+    let failed = false;
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(2);
+        if (!failed && options.usage?.purpose === 'turn') {
+          failed = true;
+          return { error: { code: 'HTTP 500', message: 'Server error', retryable: false } };
+        }
+        return undefined;
+      },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const turns = await harness.turns(id);
+    expect(turns.filter(t => t.state === 'failed')).toHaveLength(1);
+    expect(harness.eventsOf('turn:failed')).toHaveLength(1);
+    expect((await harness.conversation(id))?.status).toBe('completed');
+  }, 10000);
+
+  it('should pause when the token budget is reached', async () => {
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    const id = engine.getConversation().id;
+    await conversationStorage.update(id, { budgetMaxTokens: 1 });
+    engine.getConversation().budgetMaxTokens = 1;
+
+    await engine.start();
+
+    const conversation = await harness.conversation(id);
+    expect(conversation?.status).toBe('paused');
+    expect(conversation?.budgetStopReason).toMatch(/^Token budget reached/);
+    expect((await harness.messages(id)).filter(m => m.type === 'response')).toHaveLength(1);
+    expect(harness.eventsOf('conversation:budget-reached')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,121 @@
+// ============================================
+// AI Brainstorm - Provider Failover Tests
+// ============================================
+
+// The harness installs fake-indexeddb, so it has to load before any storage module
+import { EngineHarness, roundsReply, isRoundDecision } from './harness/engine-harness';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { agentStorage } from '../src/storage/storage-manager';
+import { llmRouter, isFailoverError } from '../src/llm/llm-router';
+import { ConversationEngine } from '../src/engine/conversation-engine';
+import { MockProvider } from '../src/llm/providers/mock-provider';
+import { MOCK_PROVIDER } from '../src/constants';
+import type { MockReply } from '../src/llm/providers/mock-provider';
+
+const unavailable: MockReply = { error: { code: 'HTTP 503', message: 'Service Unavailable', retryable: true } };
+const badRequest: MockReply = { error: { code: 'HTTP 400', message: 'Bad Request', retryable: false } };
+
+const request = {
+  model: MOCK_PROVIDER.MODEL_ID,
+  messages: [{ role: 'user' as const, content: 'What do you think?' }],
+};
+
+describe('LLMRouterService failover', () => {
+  let harness: EngineHarness;
+  let backup: MockProvider;
+  let backupId: string;
+
+  beforeEach(async () => {
+    harness = new EngineHarness();
+    await harness.setup();
+
+    const entity = await llmRouter.createNewProvider('Backup', 'mock', MOCK_PROVIDER.BASE_URL);
+    backupId = entity.id;
+    backup = llmRouter.getProvider(backupId) as MockProvider;
+    backup.configure({ chunkDelayMs: 0, script: ['Backup reply'] });
+  });
+
+  afterEach(async () => {
+    await llmRouter.deleteProvider(backupId);
+    await harness.teardown();
+  });
+
+  it('should answer from the next model when the first one is unavailable', async () => {
+    harness.configure({ responder: () => unavailable });
+
+    const response = await llmRouter.complete(harness.providerId, {
+      ...request,
+      fallbacks: [{ providerId: backupId, modelId: MOCK_PROVIDER.MODEL_ID }],
+    });
+
+    expect(response.content).toBe('Backup reply');
+    expect(response.answeredBy).toEqual({ providerId: backupId, modelId: MOCK_PROVIDER.MODEL_ID });
+    expect(response.failovers).toHaveLength(1);
+    expect(response.failovers![0].providerId).toBe(harness.providerId);
+    expect(response.failovers![0].error).toContain('503');
+    expect(harness.eventsOf('llm:failover')).toHaveLength(1);
+  });
+
+  it('should not fail over on errors a retry cannot fix', async () => {
+    harness.configure({ responder: () => badRequest });
+
+    await expect(llmRouter.complete(harness.providerId, {
+      ...request,
+      fallbacks: [{ providerId: backupId, modelId: MOCK_PROVIDER.MODEL_ID }],
+    })).rejects.toMatchObject({ code: 'HTTP 400' });
+    expect(backup.calls).toBe(0);
+  });
+
+  it('should report the answering model without failovers when the first one succeeds', async () => {
+    harness.configure({ script: ['Primary reply'] });
+
+    const response = await llmRouter.stream(harness.providerId, {
+      ...request,
+      fallbacks: [{ providerId: backupId, modelId: MOCK_PROVIDER.MODEL_ID }],
+    }, () => {});
+
+    expect(response.content).toBe('Primary reply');
+    expect(response.answeredBy?.providerId).toBe(harness.providerId);
+    expect(response.failovers).toBeUndefined();
+    expect(backup.calls).toBe(0);
+  });
+
+  it('should record which model answered each turn', async () => {
+    const created = await harness.createConversation({ agents: ['Alice'], maxRounds: 1 });
+    const id = created.getConversation().id;
+    for (const agent of created.getAgents()) {
+      await agentStorage.update(agent.id, { modelFallbacks: [{ providerId: backupId, modelId: MOCK_PROVIDER.MODEL_ID }] });
+    }
+
+    harness.configure({ responder: () => unavailable });
+    backup.configure({ chunkDelayMs: 0, responder: options => (isRoundDecision(options) ? roundsReply(1) : undefined) });
+
+    const engine = await ConversationEngine.load(id);
+    await engine!.start();
+
+    const turns = (await harness.turns(id)).filter(t => t.state === 'completed');
+    expect(turns.length).toBeGreaterThan(0);
+    for (const turn of turns) {
+      expect(turn.answeredBy?.providerId).toBe(backupId);
+      expect(turn.failovers?.[0].providerId).toBe(harness.providerId);
+    }
+  });
+});
+
+describe('isFailoverError', () => {
+  it('should fail over on rate limits, server errors, timeouts and refused connections', () => {
+    expect(isFailoverError({ code: 'HTTP 429', message: 'Too Many Requests' })).toBe(true);
+    expect(isFailoverError({ code: 'HTTP 502', message: 'Bad Gateway' })).toBe(true);
+    expect(isFailoverError({ code: 'TIMEOUT', message: 'Request timed out' })).toBe(true);
+    expect(isFailoverError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isFailoverError(new Error('connect ECONNREFUSED 127.0.0.1:11434'))).toBe(true);
+    expect(isFailoverError(new DOMException('Timed out', 'TimeoutError'))).toBe(true);
+  });
+
+  it('should not fail over on client errors or aborts', () => {
+    expect(isFailoverError({ code: 'HTTP 400', message: 'Bad Request' })).toBe(false);
+    expect(isFailoverError({ code: 'HTTP 401', message: 'Unauthorized' })).toBe(false);
+    expect(isFailoverError({ code: 'ABORTED', message: 'Request was aborted' })).toBe(false);
+    expect(isFailoverError(new DOMException('Aborted', 'AbortError'))).toBe(false);
+  });
+});
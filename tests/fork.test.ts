@@ -0,0 +1,127 @@
+// ============================================
+// AI Brainstorm - Conversation Fork Tests
+// ============================================
+
+// The harness installs fake-indexeddb, so it has to load before any storage module
+import { EngineHarness, roundsReply, isRoundDecision } from './harness/engine-harness';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '../src/storage/db';
+import { conversationStorage, agentStorage, distilledMemoryStorage, notebookStorage } from '../src/storage/storage-manager';
+import type { Agent, Message } from '../src/types';
+
+describe('conversationStorage.fork', () => {
+  let harness: EngineHarness;
+  let id: string;
+  let agents: Agent[];
+  let messages: Message[];
+
+  beforeEach(async () => {
+    harness = new EngineHarness();
+    await harness.setup({ responder: options => (isRoundDecision(options) ? roundsReply(3) : undefined) });
+
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'] });
+    id = engine.getConversation().id;
+    await engine.start();
+    agents = await agentStorage.getByConversation(id);
+    messages = await harness.messages(id);
+  });
+
+  afterEach(async () => {
+    await harness.teardown();
+  });
+
+  function agentId(name: string): string {
+    return agents.find(agent => agent.name === name)!.id;
+  }
+
+  function responseIn(round: number, name: string): Message {
+    return messages.find(m => m.type === 'response' && m.round === round && m.agentId === agentId(name))!;
+  }
+
+  it('should copy the messages up to the branch point with their agents and turns remapped', async () => {
+    const branch = responseIn(1, 'Bob');
+    const fork = await conversationStorage.fork(id, branch.id);
+
+    expect(fork).toBeDefined();
+    expect(fork!.id).not.toBe(id);
+
+    const copied = await harness.messages(fork!.id);
+    const expected = messages.slice(0, messages.findIndex(m => m.id === branch.id) + 1);
+    expect(copied.map(m => m.content)).toEqual(expected.map(m => m.content));
+    expect(copied.every(m => !messages.some(original => original.id === m.id))).toBe(true);
+
+    const forkAgents = await agentStorage.getByConversation(fork!.id);
+    const forkAgentIds = new Set(forkAgents.map(agent => agent.id));
+    expect(forkAgents.map(agent => agent.name)).toEqual(agents.map(agent => agent.name));
+    expect(copied.filter(m => m.agentId).every(m => forkAgentIds.has(m.agentId!))).toBe(true);
+
+    const forkTurns = await harness.turns(fork!.id);
+    expect(forkTurns).toHaveLength(copied.filter(m => m.turnId).length);
+    for (const message of copied.filter(m => m.turnId)) {
+      const turn = forkTurns.find(t => t.id === message.turnId);
+      expect(turn?.agentId).toBe(message.agentId);
+    }
+
+    // The source conversation is untouched
+    expect(await harness.messages(id)).toHaveLength(messages.length);
+  });
+
+  it('should point copied moderator decisions at the forked agents', async () => {
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(2);
+        if (options.messages.some(m => m.content.includes('"nextSpeaker"'))) {
+          return JSON.stringify({ nextSpeaker: 'Bob', reasoning: 'Bob knows the numbers.' });
+        }
+        return undefined;
+      },
+    });
+    const engine = await harness.createConversation({ mode: 'moderator', agents: ['Alice', 'Bob'] });
+    const moderatedId = engine.getConversation().id;
+    await engine.start();
+    const last = (await harness.messages(moderatedId)).filter(m => m.type === 'response').at(-1)!;
+
+    const fork = await conversationStorage.fork(moderatedId, last.id);
+
+    const forkAgentIds = new Set((await agentStorage.getByConversation(fork!.id)).map(agent => agent.id));
+    const moderated = (await harness.turns(fork!.id)).filter(t => t.moderatorDecision?.source === 'moderator');
+    expect(moderated.length).toBeGreaterThan(0);
+    for (const turn of moderated) {
+      expect(turn.moderatorDecision?.agentId).toBe(turn.agentId);
+      expect(forkAgentIds.has(turn.moderatorDecision!.moderatorAgentId!)).toBe(true);
+    }
+  });
+
+  it('should leave notes taken after the branch point out of the copied notebooks', async () => {
+    const aliceId = agentId('Alice');
+    const early = responseIn(0, 'Alice');
+    const late = responseIn(2, 'Alice');
+    const longNote = `Late finding: ${'x'.repeat(120)}`;
+    await db.messages.update(early.id, { notebookNote: 'Early finding' });
+    await db.messages.update(late.id, { notebookNote: longNote });
+    // Long notes are stored cut to length
+    await notebookStorage.update(aliceId, ['Manual note', 'Early finding', `${longNote.slice(0, 97)}...`].join('\n---\n'));
+
+    const fork = await conversationStorage.fork(id, responseIn(1, 'Bob').id);
+
+    const forkAlice = (await agentStorage.getByConversation(fork!.id)).find(agent => agent.name === 'Alice')!;
+    expect((await notebookStorage.get(forkAlice.id))?.notes).toBe('Manual note\n---\nEarly finding');
+    expect((await notebookStorage.get(aliceId))?.notes).toContain('Late finding');
+  });
+
+  it('should keep distilled memory only when it stops before the branch point', async () => {
+    const distilledUpTo = responseIn(0, 'Bob');
+    await distilledMemoryStorage.update(id, {
+      distilledSummary: 'Round 0 in brief',
+      lastDistilledRound: 0,
+      lastDistilledMessageId: distilledUpTo.id,
+    });
+
+    const kept = await conversationStorage.fork(id, responseIn(1, 'Alice').id);
+    expect((await distilledMemoryStorage.get(kept!.id))?.distilledSummary).toBe('Round 0 in brief');
+
+    await distilledMemoryStorage.update(id, { lastDistilledRound: 2, lastDistilledMessageId: distilledUpTo.id });
+    const dropped = await conversationStorage.fork(id, responseIn(1, 'Alice').id);
+    expect(await distilledMemoryStorage.get(dropped!.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+// ============================================
+// AI Brainstorm - Gemini Provider Tests
+// ============================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GeminiProvider } from '../src/llm/providers/gemini-provider';
+import type { LLMRequestOptions } from '../src/llm/types';
+
+const options: LLMRequestOptions = {
+  model: 'gemini-2.0-flash',
+  messages: [
+    { role: 'system', content: 'You are concise.' },
+    { role: 'system', content: 'Answer in English.' },
+    { role: 'assistant', content: 'Welcome to the discussion.' },
+    { role: 'user', content: 'What do you think?' },
+  ],
+  temperature: 0.4,
+  maxTokens: 200,
+};
+
+function streamResponse(events: unknown[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\r\n\r\n`));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function mockFetch(response: Response) {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function sentBody(fetchMock: ReturnType<typeof vi.fn>) {
+  return JSON.parse(fetchMock.mock.calls[0][1].body);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('GeminiProvider', () => {
+  const provider = new GeminiProvider({ baseUrl: 'https://gemini.test/v1beta/', apiKey: 'key' });
+
+  it('should send system messages as the system instruction and the assistant as "model"', async () => {
+    const fetchMock = mockFetch(new Response(JSON.stringify({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'I agree.' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 21, candidatesTokenCount: 3 },
+      modelVersion: 'gemini-2.0-flash-001',
+    })));
+
+    const response = await provider.complete(options);
+    const body = sentBody(fetchMock);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://gemini.test/v1beta/models/gemini-2.0-flash:generateContent');
+    expect(fetchMock.mock.calls[0][1].headers['x-goog-api-key']).toBe('key');
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'You are concise.\nAnswer in English.' }] });
+    expect(body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Please continue.' }] },
+      { role: 'model', parts: [{ text: 'Welcome to the discussion.' }] },
+      { role: 'user', parts: [{ text: 'What do you think?' }] },
+    ]);
+    expect(body.generationConfig).toEqual({ temperature: 0.4, maxOutputTokens: 200 });
+    expect(response).toMatchObject({
+      content: 'I agree.',
+      inputTokens: 21,
+      outputTokens: 3,
+      finishReason: 'stop',
+      model: 'gemini-2.0-flash-001',
+    });
+    expect(response.usageEstimated).toBeUndefined();
+  });
+
+  it('should stream text from SSE events and take usage from the last one', async () => {
+    const fetchMock = mockFetch(streamResponse([
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }] } }], usageMetadata: { promptTokenCount: 10 } },
+      { candidates: [{ content: { role: 'model', parts: [{ text: ' there' }] } }] },
+      {
+        candidates: [{ content: { role: 'model', parts: [{ text: '!' }] }, finishReason: 'MAX_TOKENS' }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 4, thoughtsTokenCount: 6 },
+      },
+    ]));
+    const chunks: string[] = [];
+
+    const response = await provider.stream(options, chunk => {
+      if (!chunk.done) chunks.push(chunk.content);
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://gemini.test/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse');
+    expect(chunks).toEqual(['Hello', ' there', '!']);
+    expect(response.content).toBe('Hello there!');
+    expect(response.inputTokens).toBe(10);
+    expect(response.outputTokens).toBe(10);
+    expect(response.finishReason).toBe('length');
+  });
+
+  it('should send tools as function declarations and read function calls back', async () => {
+    const fetchMock = mockFetch(new Response(JSON.stringify({
+      candidates: [{
+        content: { role: 'model', parts: [{ functionCall: { name: 'search', args: { query: 'idb' } } }] },
+        finishReason: 'STOP',
+      }],
+    })));
+
+    const response = await provider.complete({
+      ...options,
+      tools: [{
+        name: 'search',
+        description: 'Search the web',
+        parameters: {
+          $schema: 'http://json-schema.org/draft-07/schema#',
+          type: 'object',
+          properties: { query: { type: 'string' }, default: { type: 'boolean', default: false } },
+          additionalProperties: false,
+        },
+      }],
+    });
+
+    expect(sentBody(fetchMock).tools).toEqual([{
+      functionDeclarations: [{
+        name: 'search',
+        description: 'Search the web',
+        parameters: { type: 'object', properties: { query: { type: 'string' }, default: { type: 'boolean' } } },
+      }],
+    }]);
+    expect(response.toolCalls).toEqual([{ id: 'call_0', name: 'search', arguments: { query: 'idb' } }]);
+    expect(response.finishReason).toBe('tool_calls');
+  });
+
+  it('should send tool results as function responses in a user turn', async () => {
+    const fetchMock = mockFetch(new Response(JSON.stringify({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Found it.' }] }, finishReason: 'STOP' }],
+    })));
+
+    await provider.complete({
+      model: 'gemini-2.0-flash',
+      messages: [
+        { role: 'user', content: 'Find it' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'search', arguments: { query: 'idb' } }] },
+        { role: 'tool', content: 'IndexedDB docs', toolCallId: 'call_0' },
+      ],
+    });
+
+    expect(sentBody(fetchMock).contents.slice(1)).toEqual([
+      { role: 'model', parts: [{ functionCall: { id: 'call_0', name: 'search', args: { query: 'idb' } } }] },
+      { role: 'user', parts: [{ functionResponse: { id: 'call_0', name: 'search', response: { content: 'IndexedDB docs' } } }] },
+    ]);
+  });
+
+  it('should list the models that can generate content', async () => {
+    mockFetch(new Response(JSON.stringify({
+      models: [
+        { name: 'models/gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', inputTokenLimit: 1048576, supportedGenerationMethods: ['generateContent', 'countTokens'] },
+        { name: 'models/text-embedding-004', displayName: 'Text Embedding 004', supportedGenerationMethods: ['embedContent'] },
+      ],
+    })));
+
+    const models = await new GeminiProvider({ baseUrl: '', apiKey: 'key' }).fetchModels();
+
+    expect(models).toEqual([
+      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', contextLength: 1048576, description: undefined },
+    ]);
+  });
+
+  it('should fail without retrying when the prompt is blocked', async () => {
+    mockFetch(new Response(JSON.stringify({ promptFeedback: { blockReason: 'SAFETY' } })));
+
+    await expect(provider.complete(options)).rejects.toMatchObject({ code: 'BLOCKED', retryable: false });
+  });
+});
@@ -0,0 +1,188 @@
+// ============================================
+// AI Brainstorm - Headless Engine Test Harness
+// ============================================
+//
+// Runs ConversationEngine end to end without a browser or network:
+// - IndexedDB comes from fake-indexeddb (imported first, before Dexie loads)
+// - Web Locks are replaced by an in-memory lock manager
+// - LLM calls go to a MockProvider registered with the router
+// - Every event bus emission is recorded for assertions
+
+import 'fake-indexeddb/auto';
+import { vi } from 'vitest';
+import { db } from '../../src/storage/db';
+import { messageStorage, turnStorage, conversationStorage, resultDraftStorage, distilledMemoryStorage, voteStorage, workspaceMemoryStorage } from '../../src/storage/storage-manager';
+import { llmRouter } from '../../src/llm/llm-router';
+import { MockProvider, type MockProviderOptions, type MockReply } from '../../src/llm/providers/mock-provider';
+import { ConversationEngine } from '../../src/engine/conversation-engine';
+import { releaseAllLocks } from '../../src/utils/conversation-lock';
+import { eventBus } from '../../src/utils/event-bus';
+import { MOCK_PROVIDER } from '../../src/constants';
+import type { AppEvents, ConversationMode } from '../../src/types';
+import type { LLMRequestOptions } from '../../src/llm/types';
+
+type CreateOptions = NonNullable<Parameters<typeof ConversationEngine.create>[4]>;
+
+export interface RecordedEvent {
+  name: keyof AppEvents;
+  data: unknown;
+}
+
+export interface HarnessConversationOptions extends CreateOptions {
+  subject?: string;
+  goal?: string;
+  mode?: ConversationMode;
+  /** Participant names (a secretary is added unless includeSecretary is false) */
+  agents?: string[];
+}
+
+/**
+ * In-memory Web Locks: one holder per name, released when the callback's promise settles
+ */
+class TestLockManager {
+  private held = new Set<string>();
+
+  async request(
+    name: string,
+    options: { mode?: LockMode; ifAvailable?: boolean },
+    callback: (lock: { name: string; mode: LockMode } | null) => Promise<unknown>
+  ): Promise<unknown> {
+    if (this.held.has(name)) {
+      if (options.ifAvailable) return callback(null);
+      throw new Error(`TestLockManager: ${name} is already held`);
+    }
+
+    this.held.add(name);
+    try {
+      return await callback({ name, mode: options.mode ?? 'exclusive' });
+    } finally {
+      this.held.delete(name);
+    }
+  }
+
+  async query() {
+    return {
+      held: Array.from(this.held, name => ({ name, mode: 'exclusive' as LockMode, clientId: 'harness' })),
+      pending: [],
+    };
+  }
+}
+
+/**
+ * Reply the mock gives the secretary's round-count analysis
+ */
+export function roundsReply(rounds: number): MockReply {
+  return { content: JSON.stringify({ recommendedRounds: rounds, reasoning: `Run ${rounds} rounds.` }) };
+}
+
+/**
+ * True when a request is the secretary's round-count analysis
+ */
+export function isRoundDecision(options: LLMRequestOptions): boolean {
+  return options.messages.some(m => m.content.includes('"recommendedRounds"'));
+}
+
+export class EngineHarness {
+  readonly events: RecordedEvent[] = [];
+  readonly requests: LLMRequestOptions[] = [];
+  provider!: MockProvider;
+  providerId!: string;
+
+  /**
+   * Reset the database, register the mock provider and start recording
+   */
+  async setup(mockOptions: Partial<MockProviderOptions> = {}): Promise<void> {
+    Object.defineProperty(navigator, 'locks', { value: new TestLockManager(), configurable: true });
+
+    // Keep engine logging out of the test output
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    if (!db.isOpen()) await db.open();
+    await Promise.all(db.tables.map(table => table.clear()));
+
+    const emit = eventBus.emit.bind(eventBus);
+    vi.spyOn(eventBus, 'emit').mockImplementation((name, data) => {
+      this.events.push({ name, data });
+      emit(name, data);
+    });
+
+    const entity = await llmRouter.createNewProvider('Mock', 'mock', MOCK_PROVIDER.BASE_URL);
+    this.providerId = entity.id;
+    this.provider = llmRouter.getProvider(entity.id) as MockProvider;
+    this.configure(mockOptions);
+  }
+
+  /**
+   * Change the mock's replies; requests keep being recorded
+   */
+  configure(mockOptions: Partial<MockProviderOptions>): void {
+    const responder = mockOptions.responder;
+    this.provider.configure({
+      chunkDelayMs: 0,
+      ...mockOptions,
+      responder: (options, callIndex) => {
+        this.requests.push(options);
+        return responder?.(options, callIndex);
+      },
+    });
+  }
+
+  async teardown(): Promise<void> {
+    llmRouter.abortAll();
+    await llmRouter.deleteProvider(this.providerId);
+    releaseAllLocks();
+    eventBus.clear();
+    vi.restoreAllMocks();
+  }
+
+  /**
+   * Create a conversation through ConversationEngine.create with mock-backed agents
+   */
+  async createConversation(options: HarnessConversationOptions = {}): Promise<ConversationEngine> {
+    const { subject = 'Test subject', goal = 'Test goal', mode = 'round-robin', agents = ['Alice', 'Bob'], ...createOptions } = options;
+
+    return ConversationEngine.create(
+      subject,
+      goal,
+      mode,
+      agents.map(name => ({ name, llmProviderId: this.providerId, modelId: MOCK_PROVIDER.MODEL_ID })),
+      { speedMs: 0, ...createOptions }
+    );
+  }
+
+  /**
+   * Payloads of every recorded emission of an event
+   */
+  eventsOf<K extends keyof AppEvents>(name: K): AppEvents[K][] {
+    return this.events.filter(e => e.name === name).map(e => e.data as AppEvents[K]);
+  }
+
+  async conversation(conversationId: string) {
+    return conversationStorage.getById(conversationId);
+  }
+
+  async messages(conversationId: string) {
+    return messageStorage.getByConversation(conversationId);
+  }
+
+  async turns(conversationId: string) {
+    return turnStorage.getByConversation(conversationId);
+  }
+
+  async resultDraft(conversationId: string) {
+    return resultDraftStorage.get(conversationId);
+  }
+
+  async distilledMemory(conversationId: string) {
+    return distilledMemoryStorage.get(conversationId);
+  }
+
+  async votes(conversationId: string) {
+    return voteStorage.getByConversation(conversationId);
+  }
+
+  async workspaceMemory() {
+    return workspaceMemoryStorage.getAll();
+  }
+}
@@ -0,0 +1,20 @@
+// ============================================
+// AI Brainstorm - English Prompts for Unit Tests
+// ============================================
+//
+// The real language service opens IndexedDB on load; importing this module
+// first serves the bundled English pack instead.
+
+import { vi } from 'vitest';
+
+vi.mock('../../src/prompts/language-service', async () => {
+  const english = (await import('../../src/prompts/en.json')).default;
+  return {
+    languageService: {
+      getPromptsSync: () => english,
+      getEnglishPrompts: () => english,
+      interpolate: (template: string, values: Record<string, string | number>) =>
+        template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match)),
+    },
+  };
+});
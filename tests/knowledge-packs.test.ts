@@ -0,0 +1,122 @@
+// ============================================
+// AI Brainstorm - Knowledge Pack Tests
+// ============================================
+
+// Serves the bundled English prompts; has to load before anything that reads them
+import './harness/english-prompts';
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../src/storage/db';
+import { presetStorage } from '../src/storage/storage-manager';
+import { ContextBuilder } from '../src/engine/context-builder';
+import { ContextStrategy } from '../src/engine/context-strategy';
+import { AgentFactory } from '../src/agents/agent-factory';
+import { financePresets } from '../src/agents/presets/finance-presets';
+import { importPresets } from '../src/utils/export';
+import { countTokens } from '../src/llm/token-counter';
+import { KNOWLEDGE } from '../src/constants';
+import type { Agent, Conversation, KnowledgePack } from '../src/types';
+
+const conversation = {
+  id: 'conv-1',
+  subject: 'Launch plan',
+  goal: 'Pick a launch date',
+  maxContextTokens: 8000,
+  currentRound: 0,
+} as Conversation;
+
+const glossary: KnowledgePack = {
+  id: 'pack-1',
+  name: 'Pricing glossary',
+  content: 'ARPU: average revenue per user, measured monthly.\n\nChurn: share of paying customers who cancel in a month.',
+};
+
+const ada = { id: 'agent-1', name: 'Ada', role: 'Pricing lead', expertise: 'Pricing', thinkingDepth: 3, knowledgePacks: [glossary] } as Agent;
+const bob = { id: 'agent-2', name: 'Bob', role: 'Engineer', expertise: 'Mobile apps', thinkingDepth: 3 } as Agent;
+
+function knowledgeMessage(agent: Agent) {
+  return new ContextBuilder(conversation)
+    .build(agent, [ada, bob], [], [], null, undefined, { isFirstTurn: true })
+    .promptMessages.find(m => m.content.startsWith('YOUR PRIVATE REFERENCE MATERIAL'));
+}
+
+describe('knowledge packs in context', () => {
+  it('should show a pack only to the agent that carries it', () => {
+    expect(knowledgeMessage(ada)?.content).toContain('[Pricing glossary] ARPU: average revenue per user');
+    expect(knowledgeMessage(bob)).toBeUndefined();
+  });
+
+  it('should record which passages were used by pack and position', () => {
+    const context = new ContextBuilder(conversation).build(ada, [ada, bob], [], [], null, undefined, { isFirstTurn: true });
+
+    expect(context.knowledgePassages).toEqual([{ packId: 'pack-1', packName: 'Pricing glossary', index: 0 }]);
+  });
+
+  it('should keep passages within the share the agent reserves', () => {
+    const manual: KnowledgePack = {
+      id: 'pack-2',
+      name: 'Style guide',
+      content: Array.from({ length: 200 }, (_, i) => `Rule ${i}: write short sentences and name the metric you quote.`).join('\n\n'),
+    };
+    const agent = { ...ada, knowledgePacks: [manual], knowledgeUsage: 5 };
+    const context = new ContextBuilder(conversation).build(agent, [agent], [], [], null, undefined, { isFirstTurn: true });
+
+    const share = new ContextStrategy(conversation.maxContextTokens, 1000)
+      .calculateBudget(countTokens(context.systemPrompt), false, 5).knowledge;
+    expect(context.knowledgePassages.length).toBeGreaterThan(0);
+    expect(countTokens(knowledgeMessage(agent)!.content)).toBeLessThanOrEqual(share);
+  });
+
+  it('should take the knowledge share from the message budget and cap it', () => {
+    const strategy = new ContextStrategy(8000, 1000);
+    const without = strategy.calculateBudget(500);
+    const withKnowledge = strategy.calculateBudget(500, false, 20);
+
+    expect(withKnowledge.knowledge).toBe(Math.floor(6500 * 0.2));
+    expect(withKnowledge.messages).toBe(without.messages - withKnowledge.knowledge);
+    expect(strategy.calculateBudget(500, false, 90).knowledge).toBe(Math.floor(6500 * KNOWLEDGE.MAX_USAGE / 100));
+  });
+});
+
+describe('knowledge packs on presets', () => {
+  beforeEach(async () => {
+    if (!db.isOpen()) await db.open();
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('should give agents created from the Compliance Officer its regulations pack', async () => {
+    await presetStorage.bulkPut(financePresets);
+
+    const officer = await AgentFactory.createFromPreset('conv-1', 'preset-compliance-officer', 'provider-1', 'model-1', 0);
+    const analyst = await AgentFactory.createFromPreset('conv-1', 'preset-financial-analyst', 'provider-1', 'model-1', 1);
+
+    expect(officer?.entityData.knowledgePacks?.map(pack => pack.name)).toEqual(['Financial Regulations Reference']);
+    expect(analyst?.entityData.knowledgePacks).toBeUndefined();
+  });
+
+  it('should drop malformed knowledge packs when importing presets', async () => {
+    await importPresets(JSON.stringify({
+      version: 1,
+      presets: [{
+        name: 'Imported analyst',
+        description: 'Reads the numbers',
+        expertise: 'Finance',
+        systemPrompt: 'You are an analyst.',
+        strengths: 'Numbers',
+        thinkingStyle: 'Careful',
+        knowledgePacks: [
+          { ...glossary, extra: 'ignored' },
+          { id: 'pack-2', name: 'No content' },
+          { id: 'pack-3', name: 'Numeric content', content: 42 },
+          null,
+        ],
+      }],
+    }));
+
+    const [imported] = (await presetStorage.getAll()).filter(preset => preset.name === 'Imported analyst');
+    expect(imported.knowledgePacks).toEqual([glossary]);
+
+    const agent = { ...ada, knowledgePacks: imported.knowledgePacks };
+    expect(() => new ContextBuilder(conversation).build(agent, [agent], [], [], null, undefined, { isFirstTurn: true })).not.toThrow();
+  });
+});
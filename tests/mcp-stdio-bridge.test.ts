@@ -0,0 +1,167 @@
+// @vitest-environment node
+// ============================================
+// AI Brainstorm - MCP Stdio Bridge Tests
+// ============================================
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { connect, type AddressInfo, type Socket } from 'node:net';
+import { randomBytes } from 'node:crypto';
+import { startBridge, encodeFrame, createFrameDecoder } from '../bridge/mcp-stdio-bridge.mjs';
+import { StdioMCPClient } from '../src/mcp/mcp-client';
+import type { MCPServer } from '../src/types';
+
+const TOKEN = 'test-token';
+
+// Minimal stdio MCP server: answers initialize, tools/list and tools/call
+const echoServer = `
+  const readline = require('node:readline');
+  const rl = readline.createInterface({ input: process.stdin });
+  rl.on('line', (line) => {
+    const msg = JSON.parse(line);
+    if (msg.id === undefined) return;
+    let result = {};
+    if (msg.method === 'tools/list') {
+      result = { tools: [{ name: 'echo', description: 'Echo text', inputSchema: { type: 'object' } }] };
+    } else if (msg.method === 'tools/call') {
+      result = { content: [{ type: 'text', text: 'echo: ' + msg.params.arguments.text }] };
+    }
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result }) + '\\n');
+  });
+`;
+
+/**
+ * Just enough of the browser WebSocket API for StdioMCPClient, built on the bridge's framing
+ */
+class TestWebSocket {
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  private socket: Socket;
+
+  constructor(url: string) {
+    const { hostname, port, pathname, search } = new URL(url);
+    const decode = createFrameDecoder((opcode: number, payload: Buffer) => {
+      if (opcode === 0x1) this.onmessage?.({ data: payload.toString('utf8') });
+      if (opcode === 0x8) this.socket.end();
+    });
+    let head: Buffer | null = Buffer.alloc(0);
+
+    this.socket = connect(Number(port), hostname, () => {
+      this.socket.write(
+        `GET ${pathname}${search} HTTP/1.1\r\nHost: ${hostname}:${port}\r\n` +
+        'Upgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Version: 13\r\n' +
+        `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}\r\n\r\n`
+      );
+    });
+    this.socket.on('data', (chunk: Buffer) => {
+      if (!head) return decode(chunk);
+
+      head = Buffer.concat([head, chunk]);
+      const end = head.indexOf('\r\n\r\n');
+      if (end === -1) return;
+
+      const status = head.subarray(0, end).toString();
+      const rest = head.subarray(end + 4);
+      head = null;
+      if (!status.startsWith('HTTP/1.1 101')) {
+        this.onerror?.({});
+        this.socket.destroy();
+        return;
+      }
+      this.onopen?.({});
+      if (rest.length > 0) decode(rest);
+    });
+    this.socket.on('error', () => this.onerror?.({}));
+    this.socket.on('close', () => this.onclose?.({}));
+  }
+
+  send(data: string): void {
+    this.socket.write(encodeFrame(0x1, Buffer.from(data), true));
+  }
+
+  close(): void {
+    this.socket.end(encodeFrame(0x8, Buffer.alloc(0), true));
+  }
+}
+
+function serverConfig(bridgeUrl: string, token?: string): MCPServer {
+  return {
+    id: 'stdio-1',
+    name: 'Echo',
+    transport: 'stdio',
+    command: process.execPath,
+    args: ['-e', echoServer],
+    bridgeUrl,
+    bridgeToken: token,
+    isActive: true,
+    tools: [],
+  };
+}
+
+describe('WebSocket framing', () => {
+  it('should decode masked frames split across chunks', () => {
+    const received: string[] = [];
+    const decode = createFrameDecoder((_opcode: number, payload: Buffer) => {
+      received.push(payload.toString('utf8'));
+    });
+
+    const frame = encodeFrame(0x1, Buffer.from('x'.repeat(300)), true);
+    decode(frame.subarray(0, 5));
+    decode(frame.subarray(5));
+
+    expect(received).toEqual(['x'.repeat(300)]);
+  });
+});
+
+describe('StdioMCPClient through the bridge', () => {
+  let bridge: Server;
+  let bridgeUrl: string;
+
+  beforeAll(async () => {
+    vi.stubGlobal('WebSocket', TestWebSocket);
+    bridge = await startBridge({ host: '127.0.0.1', port: 0, token: TOKEN });
+    bridgeUrl = `ws://127.0.0.1:${(bridge.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    bridge.closeAllConnections();
+    await new Promise(resolve => bridge.close(resolve));
+  });
+
+  it('should spawn the server and call its tools', async () => {
+    const client = new StdioMCPClient(serverConfig(bridgeUrl, TOKEN));
+
+    await client.connect();
+    await client.initialize();
+    const tools = await client.listTools();
+    const result = await client.callTool('echo', { text: 'hello' });
+    await client.disconnect();
+
+    expect(tools.map(t => t.name)).toEqual(['echo']);
+    expect(result.content[0].text).toBe('echo: hello');
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('should run several servers at once', async () => {
+    const first = new StdioMCPClient(serverConfig(bridgeUrl, TOKEN));
+    const second = new StdioMCPClient(serverConfig(bridgeUrl, TOKEN));
+
+    await Promise.all([first.connect(), second.connect()]);
+    const results = await Promise.all([
+      first.callTool('echo', { text: 'one' }),
+      second.callTool('echo', { text: 'two' }),
+    ]);
+    await Promise.all([first.disconnect(), second.disconnect()]);
+
+    expect(results.map(r => r.content[0].text)).toEqual(['echo: one', 'echo: two']);
+  });
+
+  it('should reject connections without the token', async () => {
+    const client = new StdioMCPClient(serverConfig(bridgeUrl));
+
+    await expect(client.connect()).rejects.toThrow('Could not reach the MCP stdio bridge');
+  });
+});
@@ -0,0 +1,140 @@
+// ============================================
+// AI Brainstorm - Message Version Tests
+// ============================================
+
+// The harness installs fake-indexeddb, so it has to load before any storage module
+import { EngineHarness, roundsReply, isRoundDecision } from './harness/engine-harness';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from '../src/storage/db';
+import { contextSnapshotStorage, mcpToolCallStorage, notebookStorage } from '../src/storage/storage-manager';
+import { mcpRouter } from '../src/mcp/mcp-router';
+import { eventBus } from '../src/utils/event-bus';
+import type { Message } from '../src/types';
+
+describe('Message versions', () => {
+  let harness: EngineHarness;
+  let query: string;
+
+  beforeEach(async () => {
+    harness = new EngineHarness();
+    await harness.setup();
+
+    // Every turn searches once for the current query, then answers with the result
+    query = 'first';
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(2);
+        if (options.usage?.purpose !== 'turn') return undefined;
+        const result = options.messages.find(m => m.role === 'tool');
+        if (result) return `Found: ${result.content}`;
+        return { content: '', toolCalls: [{ name: 'search', arguments: { query } }] };
+      },
+    });
+
+    await db.mcpServers.put({
+      id: 'search-server',
+      name: 'Search',
+      transport: 'http',
+      endpoint: 'http://localhost/mcp',
+      isActive: true,
+      tools: [{ name: 'search', description: 'Search the web', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } }],
+    });
+    vi.spyOn(mcpRouter, 'isConnected').mockReturnValue(true);
+    vi.spyOn(mcpRouter, 'callTool').mockImplementation(async (_serverId, _tool, args) => ({
+      content: [{ type: 'text', text: `results for ${args.query}` }],
+      isError: false,
+    }));
+  });
+
+  afterEach(async () => {
+    await harness.teardown();
+  });
+
+  async function runConversation() {
+    const engine = await harness.createConversation({ agents: ['Alice', 'Bob'], mcpServerIds: ['search-server'] });
+    const id = engine.getConversation().id;
+    await engine.start();
+    const messages = await harness.messages(id);
+    const first = messages.find(m => m.type === 'response' && m.round === 0)!;
+    return { engine, id, messages, first };
+  }
+
+  async function searchedFor(message: Message): Promise<unknown[]> {
+    return (await mcpToolCallStorage.getByTurn(message.turnId!)).map(call => call.arguments.query);
+  }
+
+  it('should keep each version\'s tool trace and context snapshot and restore them on switch', async () => {
+    const { engine, first } = await runConversation();
+    expect(await searchedFor(first)).toEqual(['first']);
+    // Mark the original snapshot so it can be told apart from the regenerated one
+    await db.contextSnapshots.update(first.turnId!, { messagesIncludedCount: 99 });
+
+    query = 'second';
+    const result = await engine.regenerateMessage(first.id);
+
+    expect(result.success).toBe(true);
+    const regenerated = result.message!;
+    expect(regenerated.content).toBe('Found: results for second');
+    expect(await searchedFor(first)).toEqual(['second']);
+    expect((await contextSnapshotStorage.getByTurnId(first.turnId!))?.messagesIncludedCount).not.toBe(99);
+
+    const [original, latest] = regenerated.versions!;
+    expect(original.toolCalls?.map(call => call.arguments.query)).toEqual(['first']);
+    expect(original.contextSnapshot?.messagesIncludedCount).toBe(99);
+    expect(latest.toolCalls).toBeUndefined();
+
+    const restored = await engine.selectMessageVersion(first.id, original.id);
+    expect(restored?.content).toBe(first.content);
+    expect(await searchedFor(first)).toEqual(['first']);
+    expect((await contextSnapshotStorage.getByTurnId(first.turnId!))?.messagesIncludedCount).toBe(99);
+
+    await engine.selectMessageVersion(first.id, latest.id);
+    expect(await searchedFor(first)).toEqual(['second']);
+    expect((await contextSnapshotStorage.getByTurnId(first.turnId!))?.messagesIncludedCount).not.toBe(99);
+  });
+
+  it('should store hand-edited text as a version without calling the model', async () => {
+    const { engine, first } = await runConversation();
+    const requestsBefore = harness.requests.length;
+
+    const result = await engine.regenerateMessage(first.id, { content: 'Edited by hand.' });
+
+    expect(harness.requests).toHaveLength(requestsBefore);
+    expect(result.message?.content).toBe('Edited by hand.');
+    expect(result.message?.versions?.map(v => v.source)).toEqual(['generated', 'edited']);
+    expect(await searchedFor(first)).toEqual(['first']);
+  });
+
+  it('should run the later turns again after a regenerate with rerun', async () => {
+    const { engine, id, messages, first } = await runConversation();
+    const laterIds = new Set(messages.filter(m => m.createdAt > first.createdAt).map(m => m.id));
+
+    const stopped = new Promise(resolve => eventBus.once('conversation:stopped', resolve));
+    query = 'second';
+    const result = await engine.regenerateMessage(first.id, { laterTurns: 'rerun' });
+    expect(result.success).toBe(true);
+    await stopped;
+
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    const rerun = (await harness.messages(id)).filter(m => m.type === 'response');
+    expect(rerun).toHaveLength(4);
+    expect(rerun.filter(m => m.id !== first.id).every(m => !laterIds.has(m.id))).toBe(true);
+    expect(rerun.every(m => m.content === 'Found: results for second')).toBe(true);
+  });
+
+  it('should drop the notebook notes of the turns a rerun discards', async () => {
+    const { engine, messages, first } = await runConversation();
+    const later = messages.find(m => m.type === 'response' && m.createdAt > first.createdAt && m.agentId === first.agentId)!;
+    await db.messages.update(later.id, { notebookNote: 'Discarded finding' });
+    await notebookStorage.update(first.agentId!, 'Manual note\n---\nDiscarded finding');
+
+    const stopped = new Promise(resolve => eventBus.once('conversation:stopped', resolve));
+    const result = await engine.regenerateMessage(first.id, { laterTurns: 'rerun' });
+    expect(result.success).toBe(true);
+    await stopped;
+
+    const notes = (await notebookStorage.get(first.agentId!))?.notes;
+    expect(notes).toContain('Manual note');
+    expect(notes).not.toContain('Discarded finding');
+  });
+});
@@ -0,0 +1,140 @@
+// ============================================
+// AI Brainstorm - Mock Provider Tests
+// ============================================
+
+// Serves the bundled English prompts; has to load before anything that reads them
+import './harness/english-prompts';
+import { describe, it, expect } from 'vitest';
+import { MockProvider } from '../src/llm/providers/mock-provider';
+import { parseDistillationResponse } from '../src/llm/prompt-builder';
+import { parseToolCalls } from '../src/mcp/mcp-router';
+import type { LLMRequestOptions } from '../src/llm/types';
+
+const options: LLMRequestOptions = {
+  model: 'mock-model',
+  messages: [{ role: 'user', content: 'What do you think?' }],
+};
+
+function createProvider(overrides: ConstructorParameters<typeof MockProvider>[3] = {}) {
+  return new MockProvider({ baseUrl: 'mock://local' }, {}, 'Mock', { chunkDelayMs: 0, ...overrides });
+}
+
+describe('MockProvider', () => {
+  it('should play the script in order, then generate replies', async () => {
+    const provider = createProvider({ script: ['First', { content: 'Second' }] });
+
+    expect((await provider.complete(options)).content).toBe('First');
+    expect((await provider.complete(options)).content).toBe('Second');
+    expect((await provider.complete(options)).content.length).toBeGreaterThan(0);
+    expect(provider.calls).toBe(3);
+  });
+
+  it('should generate the same replies for the same seed', async () => {
+    const first = createProvider({ seed: 42 });
+    const second = createProvider({ seed: 42 });
+
+    const a = await first.complete(options);
+    const b = await second.complete(options);
+
+    expect(a.content).toBe(b.content);
+    expect(a.inputTokens).toBeGreaterThan(0);
+    expect(a.usageEstimated).toBe(true);
+  });
+
+  it('should stream the reply in chunks', async () => {
+    const provider = createProvider({ script: ['Hello there, mock world'], chunkSize: 5 });
+    const chunks: string[] = [];
+
+    const response = await provider.stream(options, chunk => {
+      if (!chunk.done) chunks.push(chunk.content);
+    });
+
+    expect(chunks).toEqual(['Hello', ' ther', 'e, mo', 'ck wo', 'rld']);
+    expect(response.content).toBe('Hello there, mock world');
+  });
+
+  it('should return native tool calls when tools are sent', async () => {
+    const provider = createProvider({ script: [{ toolCalls: [{ name: 'search', arguments: { query: 'dexie' } }] }] });
+
+    const response = await provider.complete({
+      ...options,
+      tools: [{ name: 'search', description: 'Search', parameters: {} }],
+    });
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([{ id: expect.any(String), name: 'search', arguments: { query: 'dexie' } }]);
+  });
+
+  it('should write text tool blocks when no tools are sent', async () => {
+    const provider = createProvider({ script: [{ content: 'Checking.', toolCalls: [{ name: 'search', arguments: { query: 'dexie' } }] }] });
+
+    const response = await provider.complete(options);
+
+    expect(response.toolCalls).toBeUndefined();
+    expect(parseToolCalls(response.content)).toEqual([
+      { tool: 'search', arguments: { query: 'dexie' }, raw: expect.any(String) },
+    ]);
+  });
+
+  it('should answer distillation prompts with parseable JSON', async () => {
+    const provider = createProvider();
+
+    const response = await provider.complete({
+      ...options,
+      messages: [{ role: 'system', content: 'Respond with {"distilledSummary": "..."}' }],
+    });
+
+    expect(parseDistillationResponse(response.content)?.distilledSummary).toBeTruthy();
+  });
+
+  it('should pick a listed participant for moderator prompts', async () => {
+    const provider = createProvider();
+
+    const response = await provider.complete({
+      ...options,
+      messages: [
+        { role: 'system', content: 'Respond with {"nextSpeaker": "<name>"}' },
+        { role: 'user', content: '- Alice (Optimist; expertise: x) - 1 contributions\n- Bob (Skeptic; expertise: y) - 0 contributions' },
+      ],
+    });
+
+    expect(['Alice', 'Bob']).toContain(JSON.parse(response.content).nextSpeaker);
+  });
+
+  it('should throw scripted and injected errors', async () => {
+    const scripted = createProvider({ script: [{ error: { code: 'HTTP 400', message: 'tools not supported' } }] });
+    await expect(scripted.complete(options)).rejects.toMatchObject({ code: 'HTTP 400', retryable: false });
+
+    const flaky = createProvider({ errorRate: 1 });
+    await expect(flaky.complete(options)).rejects.toMatchObject({ code: 'HTTP 503', retryable: true });
+  });
+
+  it('should take the seed from the base URL', async () => {
+    const fromUrl = new MockProvider({ baseUrl: 'mock://local?seed=7' });
+    const explicit = createProvider({ seed: 7 });
+
+    expect((await fromUrl.complete(options)).content).toBe((await explicit.complete(options)).content);
+  });
+
+  it('should follow the caller\'s signal where AbortSignal.any is missing', async () => {
+    const any = AbortSignal.any;
+    (AbortSignal as { any?: typeof any }).any = undefined;
+    try {
+      const provider = createProvider({ script: ['Cancelled reply', 'Finished reply'], chunkDelayMs: 1 });
+      const cancelled = new AbortController();
+      const other = new AbortController();
+
+      const first = provider.stream({ ...options, signal: cancelled.signal }, () => cancelled.abort());
+      const second = provider.stream({ ...options, signal: other.signal }, () => {});
+
+      await expect(first).rejects.toMatchObject({ code: 'ABORTED' });
+      expect((await second).content).toBe('Finished reply');
+      await expect(provider.complete({ ...options, signal: cancelled.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+
+      const running = provider.stream({ ...options, signal: other.signal }, () => provider.abort());
+      await expect(running).rejects.toMatchObject({ code: 'ABORTED' });
+    } finally {
+      AbortSignal.any = any;
+    }
+  });
+});
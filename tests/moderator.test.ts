@@ -0,0 +1,55 @@
+// ============================================
+// AI Brainstorm - Moderator Parsing Tests
+// ============================================
+
+// Serves the bundled English prompts; has to load before anything that reads them
+import './harness/english-prompts';
+import { describe, it, expect } from 'vitest';
+import { parseModeratorResponse } from '../src/llm/prompt-builder';
+
+const candidates = [
+  { id: 'agent-1', name: 'Alice' },
+  { id: 'agent-2', name: 'Bob Smith' },
+];
+
+describe('parseModeratorResponse', () => {
+  it('should resolve the speaker by name', () => {
+    const result = parseModeratorResponse(
+      '{"nextSpeaker": "Bob Smith", "reasoning": "Bob has not answered the cost question."}',
+      candidates
+    );
+    expect(result).toEqual({ agentId: 'agent-2', reasoning: 'Bob has not answered the cost question.' });
+  });
+
+  it('should match names case-insensitively and ignore a leading @', () => {
+    const result = parseModeratorResponse('{"nextSpeaker": "@alice", "reasoning": "x"}', candidates);
+    expect(result?.agentId).toBe('agent-1');
+  });
+
+  it('should accept an agent ID', () => {
+    const result = parseModeratorResponse('{"nextSpeaker": "agent-1", "reasoning": "x"}', candidates);
+    expect(result?.agentId).toBe('agent-1');
+  });
+
+  it('should extract JSON wrapped in commentary or code fences', () => {
+    const result = parseModeratorResponse(
+      'Here is my decision:\n```json\n{"nextSpeaker": "Alice", "reasoning": "Needs a rebuttal."}\n```',
+      candidates
+    );
+    expect(result?.agentId).toBe('agent-1');
+  });
+
+  it('should default reasoning to an empty string', () => {
+    const result = parseModeratorResponse('{"nextSpeaker": "Alice"}', candidates);
+    expect(result?.reasoning).toBe('');
+  });
+
+  it('should return null for unknown participants', () => {
+    expect(parseModeratorResponse('{"nextSpeaker": "Carol", "reasoning": "x"}', candidates)).toBeNull();
+  });
+
+  it('should return null for invalid JSON', () => {
+    expect(parseModeratorResponse('Alice should speak next.', candidates)).toBeNull();
+    expect(parseModeratorResponse('{"nextSpeaker": }', candidates)).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+// ============================================
+// AI Brainstorm - OpenAI Reasoning Model Tests
+// ============================================
+
+// The prompt builder loads the language service, which opens IndexedDB
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OpenAIProvider } from '../src/llm/providers/openai-provider';
+import { thinkingDepthToReasoningEffort } from '../src/llm/prompt-builder';
+import { REASONING } from '../src/constants';
+import type { LLMRequestOptions } from '../src/llm/types';
+
+const options: LLMRequestOptions = {
+  model: 'o3-mini',
+  messages: [
+    { role: 'system', content: 'You are concise.' },
+    { role: 'user', content: 'What do you think?' },
+  ],
+  temperature: 0.7,
+  maxTokens: 500,
+  reasoningEffort: 'high',
+};
+
+const completed = {
+  id: 'resp_1',
+  model: 'o3-mini-2025-01-31',
+  status: 'completed',
+  output: [
+    { type: 'reasoning', summary: [{ type: 'summary_text', text: 'Weighing the options.' }] },
+    { type: 'message', content: [{ type: 'output_text', text: 'I agree.' }] },
+  ],
+  usage: { input_tokens: 12, output_tokens: 40 },
+};
+
+function streamResponse(events: unknown[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function sentBody(fetchMock: ReturnType<typeof vi.fn>, call = 0) {
+  return JSON.parse(fetchMock.mock.calls[call][1].body);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAIProvider reasoning models', () => {
+  it('should send reasoning models to the Responses API with the reasoning effort', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(completed)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await new OpenAIProvider({ baseUrl: 'http://localhost/v1', apiKey: 'key' }).complete(options);
+    const body = sentBody(fetchMock);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost/v1/responses');
+    expect(body).toMatchObject({
+      model: 'o3-mini',
+      instructions: 'You are concise.',
+      input: [{ role: 'user', content: 'What do you think?' }],
+      max_output_tokens: 500 + REASONING.TOKEN_ALLOWANCE,
+      reasoning: { effort: 'high', summary: 'auto' },
+    });
+    expect(body.temperature).toBeUndefined();
+    expect(response).toMatchObject({
+      content: 'I agree.',
+      reasoning: 'Weighing the options.',
+      inputTokens: 12,
+      outputTokens: 40,
+      finishReason: 'stop',
+      model: 'o3-mini-2025-01-31',
+    });
+  });
+
+  it('should stream text deltas and read the summary from the final event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+      { type: 'response.created', response: { id: 'resp_1', model: 'o3-mini', status: 'in_progress' } },
+      { type: 'response.output_text.delta', delta: 'I ' },
+      { type: 'response.output_text.delta', delta: 'agree.' },
+      { type: 'response.completed', response: completed },
+    ])));
+    const chunks: string[] = [];
+
+    const response = await new OpenAIProvider({ baseUrl: 'http://localhost/v1' }).stream(options, chunk => {
+      if (!chunk.done) chunks.push(chunk.content);
+    });
+
+    expect(chunks).toEqual(['I ', 'agree.']);
+    expect(response.content).toBe('I agree.');
+    expect(response.reasoning).toBe('Weighing the options.');
+    expect(response.outputTokens).toBe(40);
+  });
+
+  it('should send tool calls and results as Responses API items', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      ...completed,
+      output: [{ type: 'function_call', call_id: 'call_2', name: 'search', arguments: '{"query":"dexie"}' }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await new OpenAIProvider({ baseUrl: 'http://localhost/v1' }).complete({
+      model: 'gpt-5-mini',
+      messages: [
+        { role: 'user', content: 'Find it' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search', arguments: { query: 'idb' } }] },
+        { role: 'tool', content: 'IndexedDB docs', toolCallId: 'call_1' },
+      ],
+      tools: [{ name: 'search', description: 'Search the web', parameters: { type: 'object' } }],
+    });
+    const body = sentBody(fetchMock);
+
+    expect(body.input).toEqual([
+      { role: 'user', content: 'Find it' },
+      { type: 'function_call', call_id: 'call_1', name: 'search', arguments: '{"query":"idb"}' },
+      { type: 'function_call_output', call_id: 'call_1', output: 'IndexedDB docs' },
+    ]);
+    expect(body.tools).toEqual([{ type: 'function', name: 'search', description: 'Search the web', parameters: { type: 'object' }, strict: false }]);
+    expect(response.toolCalls).toEqual([{ id: 'call_2', name: 'search', arguments: { query: 'dexie' } }]);
+    expect(response.finishReason).toBe('tool_calls');
+  });
+
+  it('should send MCP tool schemas with optional parameters as non-strict functions', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(completed)));
+    vi.stubGlobal('fetch', fetchMock);
+    const parameters = {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for' },
+        limit: { type: 'number', description: 'Maximum results (optional)' },
+      },
+      required: ['query'],
+    };
+
+    await new OpenAIProvider({ baseUrl: 'http://localhost/v1' }).complete({
+      ...options,
+      tools: [{ name: 'search', description: 'Search the web', parameters }],
+    });
+
+    expect(sentBody(fetchMock).tools).toEqual([
+      { type: 'function', name: 'search', description: 'Search the web', parameters, strict: false },
+    ]);
+  });
+
+  it('should fall back to chat completions with reasoning parameters when /responses is missing', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+      .mockResolvedValue(streamResponse([
+        { choices: [{ delta: { reasoning: 'Thinking it over.' }, finish_reason: null }] },
+        { choices: [{ delta: { content: 'Done.' }, finish_reason: 'stop' }] },
+      ]));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = new OpenAIProvider({ baseUrl: 'http://localhost/v1' });
+
+    const response = await provider.stream({ ...options, model: 'openai/o4-mini' }, () => {});
+    await provider.stream({ ...options, model: 'openai/o4-mini' }, () => {});
+
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+      'http://localhost/v1/responses',
+      'http://localhost/v1/chat/completions',
+      'http://localhost/v1/chat/completions',
+    ]);
+    const body = sentBody(fetchMock, 1);
+    expect(body.max_completion_tokens).toBe(500 + REASONING.TOKEN_ALLOWANCE);
+    expect(body.reasoning_effort).toBe('high');
+    expect(body.max_tokens).toBeUndefined();
+    expect(body.temperature).toBeUndefined();
+    expect(response.content).toBe('Done.');
+    expect(response.reasoning).toBe('Thinking it over.');
+  });
+
+  it('should keep using /responses after a 404 for an unknown model', async () => {
+    const modelNotFound = JSON.stringify({
+      error: { message: 'The model `o3-mnii` does not exist or you do not have access to it.', type: 'invalid_request_error', code: 'model_not_found' },
+    });
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+      JSON.parse(init.body as string).model === 'o3-mnii'
+        ? new Response(modelNotFound, { status: 404 })
+        : new Response(JSON.stringify(completed)));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = new OpenAIProvider({ baseUrl: 'http://localhost/v1' });
+
+    await expect(provider.stream({ ...options, model: 'o3-mnii' }, () => {})).rejects.toMatchObject({ code: 'HTTP_404' });
+    const response = await provider.complete(options);
+
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+      'http://localhost/v1/responses',
+      'http://localhost/v1/responses',
+    ]);
+    expect(response.content).toBe('I agree.');
+  });
+
+  it('should let a custom model setting override detection by ID', async () => {
+    const chatReply = {
+      id: 'chat_1',
+      model: 'gpt-4o',
+      choices: [{ message: { role: 'assistant', content: 'I agree.' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    };
+    const fetchMock = vi.fn(async (url: string) =>
+      new Response(JSON.stringify(url.endsWith('/responses') ? completed : chatReply)));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = new OpenAIProvider({ baseUrl: 'http://localhost/v1' }, {
+      userModels: [
+        { id: 'local-thinker', name: 'Local Thinker', contextLength: 32768, isCustom: true, reasoning: true },
+        { id: 'o3-mini', name: 'o3-mini (no reasoning)', contextLength: 200000, isCustom: true, reasoning: false },
+      ],
+    });
+
+    await provider.complete({ ...options, model: 'local-thinker' });
+    await provider.complete({ ...options, model: 'gpt-4o' });
+    await provider.complete(options);
+
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+      'http://localhost/v1/responses',
+      'http://localhost/v1/chat/completions',
+      'http://localhost/v1/chat/completions',
+    ]);
+    expect(sentBody(fetchMock, 2)).toMatchObject({ max_tokens: 500, temperature: 0.7 });
+  });
+});
+
+describe('thinkingDepthToReasoningEffort', () => {
+  it('should map thinking depth 1-5 to low, medium and high effort', () => {
+    expect([1, 2, 3, 4, 5].map(thinkingDepthToReasoningEffort)).toEqual(['low', 'low', 'medium', 'high', 'high']);
+  });
+});
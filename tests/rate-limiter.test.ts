@@ -80,6 +80,21 @@ describe('RateLimiter', () => {
     });
   });
 
+  describe('acquire', () => {
+    it('should space out concurrent requests', async () => {
+      const spaced = new RateLimiter({ minRequestDelay: 1000 });
+      const start = Date.now();
+      const granted: number[] = [];
+
+      const slots = [1, 2, 3].map(() => spaced.acquire().then(() => granted.push(Date.now() - start)));
+      await vi.advanceTimersByTimeAsync(3000);
+      await Promise.all(slots);
+
+      expect(granted).toEqual([0, 1000, 2000]);
+      expect(spaced.getUsage().requests).toBe(3);
+    });
+  });
+
   describe('canMakeRequest', () => {
     it('should return true when under limits', () => {
       expect(limiter.canMakeRequest()).toBe(true);
@@ -0,0 +1,190 @@
+// ============================================
+// AI Brainstorm - Response Cache Tests
+// ============================================
+
+// The harness installs fake-indexeddb, so it has to load before any storage module
+import { EngineHarness, roundsReply, isRoundDecision } from './harness/engine-harness';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from '../src/storage/db';
+import { settingsStorage, responseCacheStorage } from '../src/storage/storage-manager';
+import { llmRouter } from '../src/llm/llm-router';
+import { responseCache } from '../src/llm/response-cache';
+import { MockProvider } from '../src/llm/providers/mock-provider';
+import { MOCK_PROVIDER } from '../src/constants';
+import type { LLMRequestOptions } from '../src/llm/types';
+import type { ResponseCacheEntry } from '../src/types';
+
+const request: LLMRequestOptions = {
+  model: MOCK_PROVIDER.MODEL_ID,
+  messages: [{ role: 'user', content: 'List the themes of the discussion' }],
+  temperature: 0.2,
+  usage: { purpose: 'secretary' },
+  cache: 'use',
+};
+
+function entry(key: string, size: number, lastUsedAt: number): ResponseCacheEntry {
+  return {
+    key,
+    providerId: 'provider-1',
+    modelId: 'model-1',
+    content: 'cached',
+    finishReason: 'stop',
+    model: 'model-1',
+    inputTokens: 10,
+    outputTokens: 5,
+    size,
+    hits: 0,
+    createdAt: lastUsedAt,
+    lastUsedAt,
+  };
+}
+
+describe('Response cache', () => {
+  let harness: EngineHarness;
+
+  beforeEach(async () => {
+    harness = new EngineHarness();
+    await harness.setup({ script: ['First answer', 'Second answer', 'Third answer'] });
+    await responseCache.clear();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await harness.teardown();
+  });
+
+  it('should stay off until enabled in settings', async () => {
+    await llmRouter.complete(harness.providerId, request);
+    const second = await llmRouter.complete(harness.providerId, request);
+
+    expect(second.content).toBe('Second answer');
+    expect(harness.provider.calls).toBe(2);
+    expect(await responseCacheStorage.stats()).toMatchObject({ entries: 0 });
+  });
+
+  it('should answer a repeated request from the cache without spending tokens', async () => {
+    await settingsStorage.update({ responseCache: true });
+
+    const first = await llmRouter.complete(harness.providerId, request);
+    const second = await llmRouter.complete(harness.providerId, request);
+
+    expect(second.content).toBe(first.content);
+    expect(second.cached).toBe(true);
+    expect(harness.provider.calls).toBe(1);
+    expect(await db.usageRecords.count()).toBe(1);
+    expect(await responseCache.getStats()).toMatchObject({ entries: 1, hits: 1, sessionHits: 1, sessionMisses: 1 });
+  });
+
+  it('should key entries by model, messages and temperature', async () => {
+    await settingsStorage.update({ responseCache: true });
+
+    await llmRouter.complete(harness.providerId, request);
+    const warmer = await llmRouter.complete(harness.providerId, { ...request, temperature: 0.7 });
+    const reworded = await llmRouter.complete(harness.providerId, {
+      ...request,
+      messages: [{ role: 'user', content: 'List the open questions' }],
+    });
+
+    expect(warmer.cached).toBeUndefined();
+    expect(reworded.cached).toBeUndefined();
+    expect(harness.provider.calls).toBe(3);
+  });
+
+  it('should only cache requests a call site marks as cacheable', async () => {
+    await settingsStorage.update({ responseCache: true });
+    const { cache: _, ...uncached } = request;
+
+    await llmRouter.complete(harness.providerId, uncached);
+    await llmRouter.complete(harness.providerId, uncached);
+
+    expect(harness.provider.calls).toBe(2);
+    expect(await responseCacheStorage.stats()).toMatchObject({ entries: 0 });
+  });
+
+  it('should ask the model again and refresh the entry when bypassed', async () => {
+    await settingsStorage.update({ responseCache: true });
+
+    await llmRouter.complete(harness.providerId, request);
+    const fresh = await llmRouter.complete(harness.providerId, { ...request, cache: 'bypass' });
+    const reused = await llmRouter.complete(harness.providerId, request);
+
+    expect(fresh.content).toBe('Second answer');
+    expect(fresh.cached).toBeUndefined();
+    expect(reused.content).toBe('Second answer');
+    expect(reused.cached).toBe(true);
+    expect(harness.provider.calls).toBe(2);
+  });
+
+  it('should not keep an answer cut off at the output limit', async () => {
+    await settingsStorage.update({ responseCache: true });
+    harness.configure({ script: [{ content: 'Half an ans', finishReason: 'length' }, 'Full answer'] });
+
+    await llmRouter.complete(harness.providerId, request);
+    const retried = await llmRouter.complete(harness.providerId, request);
+
+    expect(retried.content).toBe('Full answer');
+    expect(retried.cached).toBeUndefined();
+    expect(await responseCacheStorage.stats()).toMatchObject({ entries: 1 });
+  });
+
+  it('should not keep an answer from a fallback model under the requested model\'s key', async () => {
+    await settingsStorage.update({ responseCache: true });
+    const backupId = (await llmRouter.createNewProvider('Backup', 'mock', MOCK_PROVIDER.BASE_URL)).id;
+    (llmRouter.getProvider(backupId) as MockProvider).configure({ chunkDelayMs: 0, script: ['Backup answer'] });
+    harness.configure({
+      script: [{ error: { code: 'HTTP 503', message: 'Service Unavailable', retryable: true } }, 'Primary answer'],
+    });
+    const withFallback = { ...request, fallbacks: [{ providerId: backupId, modelId: MOCK_PROVIDER.MODEL_ID }] };
+
+    const fallback = await llmRouter.complete(harness.providerId, withFallback);
+    const primary = await llmRouter.complete(harness.providerId, withFallback);
+    await llmRouter.deleteProvider(backupId);
+
+    expect(fallback.content).toBe('Backup answer');
+    expect(primary.content).toBe('Primary answer');
+    expect(primary.cached).toBeUndefined();
+    expect((await llmRouter.complete(harness.providerId, withFallback)).cached).toBe(true);
+  });
+
+  it('should ask the model again when the result draft is regenerated', async () => {
+    await settingsStorage.update({ responseCache: true });
+    harness.configure({ responder: options => (isRoundDecision(options) ? roundsReply(1) : undefined) });
+    const engine = await harness.createConversation({ maxRounds: 1 });
+    await engine.start();
+    expect((await harness.conversation(engine.getConversation().id))?.status).toBe('completed');
+    const requestsBefore = harness.requests.length;
+
+    await engine.regenerateResult();
+
+    const regenerated = harness.requests.slice(requestsBefore);
+    expect(regenerated.length).toBeGreaterThan(0);
+    expect(regenerated.every(r => r.cache === 'bypass')).toBe(true);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    await settingsStorage.update({ responseCache: true, responseCacheTtlHours: 1 });
+    const now = Date.now();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+
+    await llmRouter.complete(harness.providerId, request);
+    vi.setSystemTime(now + 2 * 60 * 60 * 1000);
+    const later = await llmRouter.complete(harness.providerId, request);
+
+    expect(later.cached).toBeUndefined();
+    expect(harness.provider.calls).toBe(2);
+  });
+
+  it('should evict the least recently used entries over the size limit', async () => {
+    await responseCacheStorage.put(entry('old', 600, 1000));
+    await responseCacheStorage.put(entry('recent', 600, 3000));
+    await responseCacheStorage.put(entry('expired', 100, 10));
+
+    const removed = await responseCacheStorage.prune(500, 1000);
+
+    expect(removed).toBe(2);
+    expect(await responseCacheStorage.get('recent')).toBeDefined();
+    expect(await responseCacheStorage.get('old')).toBeUndefined();
+    expect(await responseCacheStorage.get('expired')).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+// ============================================
+// AI Brainstorm - Semantic Search Tests
+// ============================================
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { db } from '../src/storage/db';
+import { embedLocally, cosineSimilarity } from '../src/llm/embeddings';
+import { messageStorage } from '../src/storage/storage-manager';
+import { eventBus } from '../src/utils/event-bus';
+import { buildSnippet, semanticSearch, updateSearchIndex } from '../src/utils/search';
+import { EMBEDDINGS } from '../src/constants';
+import type { Agent, Conversation, Message, ResultDraft } from '../src/types';
+
+function message(id: string, content: string, round: number, agentId?: string, type: Message['type'] = 'response'): Message {
+  return { id, conversationId: 'conv-1', agentId, content, round, weight: 1, type, createdAt: 1000 + round };
+}
+
+async function seed(): Promise<void> {
+  const conversation = { id: 'conv-1', subject: 'Mobile app launch', updatedAt: 2000 } as Conversation;
+  await db.conversations.put(conversation);
+  await db.agents.bulkPut([
+    { id: 'agent-a', conversationId: 'conv-1', name: 'Ada' } as Agent,
+    { id: 'agent-b', conversationId: 'conv-1', name: 'Bo' } as Agent,
+  ]);
+  await db.messages.bulkPut([
+    message('m1', 'Pricing should start with a free tier and a monthly subscription.', 0, 'agent-a'),
+    message('m2', 'The onboarding flow needs fewer screens before signup.', 0, 'agent-b'),
+    message('m3', 'Subscription pricing works if the free tier stays generous.', 1, 'agent-b'),
+  ]);
+  await db.resultDrafts.put({
+    conversationId: 'conv-1',
+    executiveSummary: 'Launch with a free tier, then a monthly subscription.',
+    updatedAt: 2000,
+  } as ResultDraft);
+
+  // The search index re-reads conversations the app reports as changed
+  eventBus.emit('conversation:updated', conversation);
+}
+
+describe('embedLocally', () => {
+  it('should return unit vectors of the configured size', () => {
+    const vector = embedLocally('Pricing for the mobile app');
+    expect(vector).toHaveLength(EMBEDDINGS.LOCAL_DIMENSIONS);
+    expect(cosineSimilarity(vector, vector)).toBeCloseTo(1);
+  });
+
+  it('should place related texts closer than unrelated ones', () => {
+    const query = embedLocally('subscription pricing');
+    const related = embedLocally('We could price it as a monthly subscription.');
+    const unrelated = embedLocally('The onboarding flow needs fewer screens.');
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should be zero for empty or mismatched vectors', () => {
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should mark words matching the query, including other forms of them', () => {
+    const { snippet, highlights } = buildSnippet('Our price should follow the pricing research.', 'pricing');
+    expect(highlights.map(([start, end]) => snippet.slice(start, end))).toEqual(['price', 'pricing']);
+  });
+
+  it('should cut around the matches and keep offsets inside the snippet', () => {
+    const text = `${'filler words here. '.repeat(20)}The subscription price is settled. ${'more filler. '.repeat(20)}`;
+    const { snippet, highlights } = buildSnippet(text, 'subscription', 60);
+
+    expect(snippet.startsWith('...')).toBe(true);
+    expect(snippet.endsWith('...')).toBe(true);
+    expect(highlights).toHaveLength(1);
+    expect(snippet.slice(...highlights[0])).toBe('subscription');
+  });
+});
+
+describe('semanticSearch', () => {
+  beforeEach(async () => {
+    await Promise.all([db.conversations, db.agents, db.messages, db.resultDrafts, db.embeddings].map(table => table.clear()));
+    await seed();
+  });
+
+  it('should index messages and results only once', async () => {
+    expect(await updateSearchIndex()).toEqual({ indexed: 4, removed: 0, total: 4 });
+    expect(await updateSearchIndex()).toEqual({ indexed: 0, removed: 0, total: 4 });
+
+    await db.messages.update('m2', { content: 'Onboarding should skip the tutorial.' });
+    await db.messages.delete('m3');
+    expect(await updateSearchIndex()).toEqual({ indexed: 1, removed: 1, total: 3 });
+  });
+
+  it('should rank by similarity with snippets and details', async () => {
+    const results = await semanticSearch('subscription pricing');
+
+    expect(results[0]).toMatchObject({ type: 'message', conversationId: 'conv-1', title: 'Mobile app launch' });
+    expect(results.map(r => r.id)).not.toContain('m2');
+    expect(results.map(r => r.id)).toContain('result:conv-1');
+    expect(results[0].highlights.length).toBeGreaterThan(0);
+  });
+
+  it('should apply the filters', async () => {
+    const byAgent = await semanticSearch('subscription pricing', { agentName: 'bo' });
+    expect(byAgent.map(r => r.id)).toEqual(['m3']);
+
+    const byRound = await semanticSearch('subscription pricing', { round: 0 });
+    expect(byRound.map(r => r.id)).toEqual(['m1']);
+
+    const results = await semanticSearch('subscription pricing', { messageType: 'result' });
+    expect(results.map(r => r.id)).toEqual(['result:conv-1']);
+
+    expect(await semanticSearch('subscription pricing', { from: 1500 })).toHaveLength(1);
+  });
+
+  it('should only re-index the conversations that changed between searches', async () => {
+    await semanticSearch('subscription pricing');
+    const reads = vi.spyOn(messageStorage, 'getByConversation');
+
+    await semanticSearch('onboarding');
+    expect(reads).not.toHaveBeenCalled();
+
+    const added = message('m4', 'Annual subscription pricing gets a discount.', 2, 'agent-a');
+    await db.messages.put(added);
+    eventBus.emit('message:created', added);
+
+    const results = await semanticSearch('annual subscription discount');
+    expect(results[0].id).toBe('m4');
+    expect(reads).toHaveBeenCalledTimes(1);
+    expect(reads).toHaveBeenCalledWith('conv-1');
+    expect(await db.embeddings.get('m4')).toBeDefined();
+    reads.mockRestore();
+  });
+});
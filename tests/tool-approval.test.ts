@@ -0,0 +1,183 @@
+// ============================================
+// AI Brainstorm - Tool Approval Tests
+// ============================================
+
+// The harness installs fake-indexeddb, so it has to load before any storage module
+import { EngineHarness, roundsReply, isRoundDecision } from './harness/engine-harness';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from '../src/storage/db';
+import { mcpToolCallStorage } from '../src/storage/storage-manager';
+import { mcpRouter } from '../src/mcp/mcp-router';
+import { eventBus } from '../src/utils/event-bus';
+import type { MCPToolCall, ToolApprovalDefault } from '../src/types';
+
+describe('Tool call approval', () => {
+  let harness: EngineHarness;
+  let callTool: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    harness = new EngineHarness();
+    // Every turn searches once, then answers with what the tool returned
+    await harness.setup({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(1);
+        if (options.usage?.purpose !== 'turn') return undefined;
+        const result = options.messages.find(m => m.role === 'tool');
+        if (result) return `Found: ${result.content}`;
+        return { content: '', toolCalls: [{ name: 'search', arguments: { query: 'idb' } }] };
+      },
+    });
+
+    await db.mcpServers.put({
+      id: 'search-server',
+      name: 'Search',
+      transport: 'http',
+      endpoint: 'http://localhost/mcp',
+      isActive: true,
+      tools: [{ name: 'search', description: 'Search the web', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } }],
+    });
+    vi.spyOn(mcpRouter, 'isConnected').mockReturnValue(true);
+    callTool = vi.spyOn(mcpRouter, 'callTool').mockImplementation(async (_serverId, _tool, args) => ({
+      content: [{ type: 'text', text: `results for ${args.query}` }],
+      isError: false,
+    }));
+  });
+
+  afterEach(async () => {
+    await harness.teardown();
+  });
+
+  function createConversation(options: { mcpToolApprovalTimeoutMs?: number; mcpToolApprovalDefault?: ToolApprovalDefault } = {}) {
+    return harness.createConversation({
+      agents: ['Alice', 'Bob'],
+      maxRounds: 1,
+      mcpServerIds: ['search-server'],
+      mcpToolApprovalMode: 'approval',
+      ...options,
+    });
+  }
+
+  function nextPending(): Promise<MCPToolCall> {
+    return new Promise(resolve => eventBus.once('mcp:tool-call-pending', resolve));
+  }
+
+  function answerEveryCall(decision: 'approved' | 'denied'): void {
+    eventBus.on('mcp:tool-call-pending', call => {
+      eventBus.emit(`mcp:tool-call-${decision}`, { ...call, status: decision });
+    });
+  }
+
+  async function responses(conversationId: string): Promise<string[]> {
+    return (await harness.messages(conversationId)).filter(m => m.type === 'response').map(m => m.content);
+  }
+
+  it('should hold the turn on a pending call and run the tool once it is approved', async () => {
+    const engine = await createConversation();
+    const id = engine.getConversation().id;
+    const pending = nextPending();
+    const run = engine.start();
+
+    const call = await pending;
+    const requestsWhilePending = harness.requests.length;
+    const stored = await mcpToolCallStorage.getById(call.id);
+    expect(stored?.status).toBe('pending');
+    expect(stored?.approvalExpiresAt).toBeGreaterThan(Date.now());
+    expect((await mcpToolCallStorage.getPending(id)).map(c => c.id)).toEqual([call.id]);
+    expect((await harness.conversation(id))?.status).toBe('running');
+    expect(callTool).not.toHaveBeenCalled();
+
+    // Nothing moves until the user decides
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(harness.requests).toHaveLength(requestsWhilePending);
+
+    answerEveryCall('approved');
+    eventBus.emit('mcp:tool-call-approved', { ...call, status: 'approved' });
+    await run;
+
+    const calls = await mcpToolCallStorage.getByConversation(id);
+    expect(callTool).toHaveBeenCalledTimes(calls.length);
+    expect(await mcpToolCallStorage.getById(call.id)).toMatchObject({ status: 'executed', result: 'results for idb' });
+    expect(await mcpToolCallStorage.getPending(id)).toEqual([]);
+    expect(await responses(id)).toEqual(calls.map(() => 'Found: results for idb'));
+  });
+
+  it('should tell the agent a denied call was not run', async () => {
+    const engine = await createConversation();
+    const id = engine.getConversation().id;
+    answerEveryCall('denied');
+
+    await engine.start();
+
+    expect(callTool).not.toHaveBeenCalled();
+    const calls = await mcpToolCallStorage.getByConversation(id);
+    expect(calls.length).toBeGreaterThan(0);
+    expect(calls.every(c => c.status === 'denied' && c.error === 'Denied by user')).toBe(true);
+    expect(await responses(id)).toEqual(calls.map(() => 'Found: The tool call was not executed: denied by user.'));
+  });
+
+  it.each([
+    ['approve', 'executed', 'mcp:tool-call-approved'],
+    ['deny', 'denied', 'mcp:tool-call-denied'],
+  ] as const)('should %s a call nobody answers once the wait times out', async (defaultAction, status, event) => {
+    const engine = await createConversation({ mcpToolApprovalTimeoutMs: 10, mcpToolApprovalDefault: defaultAction });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const calls = await mcpToolCallStorage.getByConversation(id);
+    expect(calls.length).toBeGreaterThan(0);
+    expect(calls.every(c => c.status === status)).toBe(true);
+    expect(harness.eventsOf(event).map(c => c.id)).toEqual(calls.map(c => c.id));
+    if (defaultAction === 'deny') {
+      expect(calls[0].error).toBe('No decision before the approval timeout');
+      expect(callTool).not.toHaveBeenCalled();
+    }
+  });
+
+  it('should record a call over the step limit once, as not executed', async () => {
+    harness.configure({
+      responder: options => {
+        if (isRoundDecision(options)) return roundsReply(1);
+        if (options.usage?.purpose !== 'turn') return undefined;
+        if (options.messages.some(m => m.content.includes('Tool use stopped'))) return 'Final answer.';
+        return { content: '', toolCalls: [{ name: 'search', arguments: { query: 'idb' } }] };
+      },
+    });
+    const deny = vi.spyOn(mcpToolCallStorage, 'deny');
+    const engine = await harness.createConversation({ agents: ['Alice'], maxRounds: 1, mcpServerIds: ['search-server'], mcpMaxToolSteps: 1 });
+    const id = engine.getConversation().id;
+
+    await engine.start();
+
+    const skipped = (await mcpToolCallStorage.getByConversation(id)).filter(c => c.status === 'denied');
+    expect(skipped.length).toBeGreaterThan(0);
+    expect(skipped.every(c => c.error === 'Not executed: the limit of 1 tool steps was reached' && c.step === 2)).toBe(true);
+    expect(harness.eventsOf('mcp:tool-call-denied').map(c => c.id)).toEqual(skipped.map(c => c.id));
+    expect(deny).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a pending call on pause and ask again on resume', async () => {
+    const engine = await createConversation();
+    const id = engine.getConversation().id;
+    const pending = nextPending();
+    const run = engine.start();
+
+    const cancelled = await pending;
+    await engine.pause();
+    await run;
+
+    expect((await harness.conversation(id))?.status).toBe('paused');
+    expect(await mcpToolCallStorage.getById(cancelled.id)).toMatchObject({ status: 'denied', error: 'Turn cancelled' });
+    expect(await responses(id)).toEqual([]);
+
+    const asked: MCPToolCall[] = [];
+    eventBus.on('mcp:tool-call-pending', call => { asked.push(call); });
+    answerEveryCall('approved');
+    await engine.resume();
+
+    expect(asked[0].id).not.toBe(cancelled.id);
+    expect(asked[0].agentId).toBe(cancelled.agentId);
+    expect((await harness.conversation(id))?.status).toBe('completed');
+    expect(await responses(id)).toEqual(asked.map(() => 'Found: results for idb'));
+  });
+});
@@ -0,0 +1,216 @@
+// ============================================
+// AI Brainstorm - Native Tool Calling Tests
+// ============================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OpenAIProvider } from '../src/llm/providers/openai-provider';
+import { AnthropicProvider } from '../src/llm/providers/anthropic-provider';
+import { OllamaProvider } from '../src/llm/providers/ollama';
+import type { LLMRequestOptions } from '../src/llm/types';
+
+const tools = [
+  {
+    name: 'search',
+    description: 'Search the web',
+    parameters: { type: 'object', properties: { query: { type: 'string' } } },
+  },
+];
+
+const options: LLMRequestOptions = {
+  model: 'test-model',
+  messages: [{ role: 'user', content: 'Find it' }],
+  tools,
+};
+
+function streamResponse(lines: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const line of lines) {
+        controller.enqueue(encoder.encode(line));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function mockFetch(response: Response) {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function sentBody(fetchMock: ReturnType<typeof vi.fn>) {
+  return JSON.parse(fetchMock.mock.calls[0][1].body);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAIProvider tool calling', () => {
+  const provider = new OpenAIProvider({ baseUrl: 'http://localhost/v1', apiKey: 'key' });
+
+  it('should send tools in the function format', async () => {
+    const fetchMock = mockFetch(new Response(JSON.stringify({
+      id: '1',
+      model: 'test-model',
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_a', type: 'function', function: { name: 'search', arguments: '{"query":"dexie"}' } }],
+        },
+        finish_reason: 'tool_calls',
+      }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    })));
+
+    const response = await provider.complete(options);
+
+    expect(sentBody(fetchMock).tools).toEqual([{ type: 'function', function: tools[0] }]);
+    expect(response.content).toBe('');
+    expect(response.toolCalls).toEqual([{ id: 'call_a', name: 'search', arguments: { query: 'dexie' } }]);
+  });
+
+  it('should assemble streamed tool call fragments', async () => {
+    mockFetch(streamResponse([
+      'data: {"choices":[{"delta":{"content":"Let me check."},"finish_reason":null}]}\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_b","type":"function","function":{"name":"search","arguments":""}}]},"finish_reason":null}]}\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"query\\":"}}]},"finish_reason":null}]}\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"idb\\"}"}}]},"finish_reason":"tool_calls"}]}\n',
+      'data: [DONE]\n',
+    ]));
+
+    const chunks: string[] = [];
+    const response = await provider.stream(options, chunk => chunks.push(chunk.content));
+
+    expect(chunks.join('')).toBe('Let me check.');
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([{ id: 'call_b', name: 'search', arguments: { query: 'idb' } }]);
+  });
+
+  it('should omit tools when none are given', async () => {
+    const fetchMock = mockFetch(new Response(JSON.stringify({
+      id: '1',
+      model: 'test-model',
+      choices: [{ message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    })));
+
+    const response = await provider.complete({ ...options, tools: undefined });
+
+    expect(sentBody(fetchMock).tools).toBeUndefined();
+    expect(response.toolCalls).toBeUndefined();
+  });
+});
+
+describe('AnthropicProvider tool calling', () => {
+  const provider = new AnthropicProvider({ baseUrl: 'http://localhost', apiKey: 'key' });
+
+  it('should send tools with input_schema and read tool_use blocks', async () => {
+    const fetchMock = mockFetch(new Response(JSON.stringify({
+      id: 'msg',
+      type: 'message',
+      role: 'assistant',
+      model: 'test-model',
+      content: [
+        { type: 'text', text: 'Searching.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'search', input: { query: 'dexie' } },
+      ],
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 1, output_tokens: 1 },
+    })));
+
+    const response = await provider.complete(options);
+
+    expect(sentBody(fetchMock).tools).toEqual([
+      { name: 'search', description: 'Search the web', input_schema: tools[0].parameters },
+    ]);
+    expect(response.content).toBe('Searching.');
+    expect(response.toolCalls).toEqual([{ id: 'toolu_1', name: 'search', arguments: { query: 'dexie' } }]);
+  });
+
+  it('should assemble streamed input_json_delta events', async () => {
+    mockFetch(streamResponse([
+      'data: {"type":"message_start","message":{"model":"test-model"}}\n',
+      'data: {"type":"content_block_start","index":0,"content_block":{"type":"tool_use","id":"toolu_2","name":"search","input":{}}}\n',
+      'data: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"{\\"query\\""}}\n',
+      'data: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":":\\"idb\\"}"}}\n',
+      'data: {"type":"content_block_stop","index":0}\n',
+      'data: {"type":"message_delta","delta":{"type":"message_delta","stop_reason":"tool_use"},"usage":{"output_tokens":5}}\n',
+    ]));
+
+    const response = await provider.stream(options, () => {});
+
+    expect(response.finishReason).toBe('tool_use');
+    expect(response.toolCalls).toEqual([{ id: 'toolu_2', name: 'search', arguments: { query: 'idb' } }]);
+  });
+
+  it('should send tool results and follow-up text in one user message', async () => {
+    const fetchMock = mockFetch(new Response(JSON.stringify({
+      id: 'msg',
+      type: 'message',
+      role: 'assistant',
+      model: 'test-model',
+      content: [{ type: 'text', text: 'Done.' }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 1, output_tokens: 1 },
+    })));
+
+    await provider.complete({
+      ...options,
+      messages: [
+        { role: 'user', content: 'Find it' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            { id: 'toolu_1', name: 'search', arguments: { query: 'a' } },
+            { id: 'toolu_2', name: 'search', arguments: { query: 'b' } },
+          ],
+        },
+        { role: 'tool', content: 'A', toolCallId: 'toolu_1', toolName: 'search' },
+        { role: 'tool', content: 'B', toolCallId: 'toolu_2', toolName: 'search' },
+        { role: 'user', content: 'Continue.' },
+      ],
+    });
+
+    const messages = sentBody(fetchMock).messages;
+    expect(messages).toHaveLength(3);
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: 'A' },
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: 'B' },
+        { type: 'text', text: 'Continue.' },
+      ],
+    });
+  });
+});
+
+describe('OllamaProvider tool calling', () => {
+  const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434' });
+
+  it('should read tool calls split across stream reads', async () => {
+    const line = JSON.stringify({
+      model: 'test-model',
+      created_at: '',
+      message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'search', arguments: { query: 'idb' } } }] },
+      done: false,
+    });
+    const fetchMock = mockFetch(streamResponse([
+      line.slice(0, 40),
+      line.slice(40) + '\n',
+      JSON.stringify({ model: 'test-model', created_at: '', message: { role: 'assistant', content: '' }, done: true }) + '\n',
+    ]));
+
+    const response = await provider.stream(options, () => {});
+
+    expect(sentBody(fetchMock).tools).toEqual([{ type: 'function', function: tools[0] }]);
+    expect(response.toolCalls).toEqual([{ id: 'call_0', name: 'search', arguments: { query: 'idb' } }]);
+  });
+});
@@ -0,0 +1,72 @@
+// ============================================
+// AI Brainstorm - Usage Accounting Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { calculateCost, summarizeUsage, formatCost } from '../src/llm/usage';
+import type { UsageRecord } from '../src/types';
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    id: 'r',
+    conversationId: 'conv-1',
+    providerId: 'provider-1',
+    modelId: 'model-1',
+    purpose: 'turn',
+    inputTokens: 0,
+    outputTokens: 0,
+    estimated: false,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe('calculateCost', () => {
+  it('should price input and output tokens per million', () => {
+    expect(calculateCost({ input: 3, output: 15 }, 1_000_000, 200_000)).toBeCloseTo(6);
+  });
+
+  it('should return undefined for models without a price', () => {
+    expect(calculateCost(undefined, 1000, 1000)).toBeUndefined();
+  });
+});
+
+describe('summarizeUsage', () => {
+  const records = [
+    record({ agentId: 'a1', inputTokens: 100, outputTokens: 50, cost: 0.01 }),
+    record({ agentId: 'a1', inputTokens: 200, outputTokens: 20, cost: 0.02, estimated: true }),
+    record({ agentId: 'a2', providerId: 'provider-2', inputTokens: 10, outputTokens: 5 }),
+    record({ purpose: 'translation', inputTokens: 30, outputTokens: 30, cost: 0.005 }),
+  ];
+
+  it('should total all calls', () => {
+    const { total } = summarizeUsage(records);
+
+    expect(total.calls).toBe(4);
+    expect(total.inputTokens).toBe(340);
+    expect(total.outputTokens).toBe(105);
+    expect(total.cost).toBeCloseTo(0.035);
+    expect(total.estimatedCalls).toBe(1);
+    expect(total.unpricedCalls).toBe(1);
+  });
+
+  it('should group by agent, provider and purpose', () => {
+    const summary = summarizeUsage(records);
+
+    expect(summary.byAgent.get('a1')?.inputTokens).toBe(300);
+    expect(summary.byAgent.get('a2')?.unpricedCalls).toBe(1);
+    expect(summary.byAgent.get('')?.calls).toBe(1);
+    expect(summary.byProvider.get('provider-1')?.calls).toBe(3);
+    expect(summary.byProvider.get('provider-2')?.cost).toBe(0);
+    expect(summary.byPurpose.get('translation')?.outputTokens).toBe(30);
+    expect(summary.byPurpose.get('turn')?.calls).toBe(3);
+  });
+});
+
+describe('formatCost', () => {
+  it('should keep precision for sub-cent amounts', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.0042)).toBe('$0.0042');
+    expect(formatCost(1.234)).toBe('$1.23');
+  });
+});
@@ -0,0 +1,94 @@
+// ============================================
+// AI Brainstorm - Voting Tests
+// ============================================
+
+// Serves the bundled English prompts; has to load before anything that reads them
+import './harness/english-prompts';
+import { describe, it, expect } from 'vitest';
+import { tallyVotes, reachedAgreement, withVoteResults } from '../src/engine/voting';
+import { parseVoteResponse, parseDecisionPoint, formatVoteResult } from '../src/llm/prompt-builder';
+import type { VoteStance } from '../src/types';
+
+function votes(...stances: VoteStance[]) {
+  return stances.map(stance => ({ stance, confidence: 80 }));
+}
+
+describe('tallyVotes', () => {
+  it('should reach consensus when enough voters agree', () => {
+    const tally = tallyVotes(votes('support', 'support', 'support', 'oppose'));
+
+    expect(tally).toMatchObject({ support: 3, oppose: 1, abstain: 0, agreement: 0.75, averageConfidence: 80 });
+    expect(tally.outcome).toBe('consensus');
+    expect(reachedAgreement(tally)).toBe(true);
+  });
+
+  it('should count agreement to reject', () => {
+    expect(tallyVotes(votes('oppose', 'oppose', 'abstain')).outcome).toBe('rejected');
+  });
+
+  it('should report a split below the threshold', () => {
+    const tally = tallyVotes(votes('support', 'support', 'oppose'));
+    expect(tally.outcome).toBe('split');
+    expect(reachedAgreement(tally)).toBe(false);
+  });
+
+  it('should need half of the voters to take a side', () => {
+    expect(tallyVotes(votes('support', 'abstain', 'abstain')).outcome).toBe('no-quorum');
+    expect(tallyVotes([]).outcome).toBe('no-quorum');
+  });
+});
+
+describe('withVoteResults', () => {
+  it('should append the results under the header', () => {
+    expect(withVoteResults('Use TypeScript.', 'Votes:', ['Adopt it'])).toBe('Use TypeScript.\n\nVotes:\n- Adopt it');
+    expect(withVoteResults('', 'Votes:', ['Adopt it'])).toBe('Votes:\n- Adopt it');
+  });
+
+  it('should replace an earlier results section', () => {
+    const areas = 'Use TypeScript.\n\nVotes:\n- Old result';
+    expect(withVoteResults(areas, 'Votes:', ['New result'])).toBe('Use TypeScript.\n\nVotes:\n- New result');
+    expect(withVoteResults(areas, 'Votes:', [])).toBe('Use TypeScript.');
+  });
+});
+
+describe('parseVoteResponse', () => {
+  it('should read the stance, confidence and reason', () => {
+    expect(parseVoteResponse('```json\n{"stance": "Support", "confidence": 85, "reason": "It is cheaper."}\n```')).toEqual({
+      stance: 'support',
+      confidence: 85,
+      reason: 'It is cheaper.',
+    });
+  });
+
+  it('should clamp the confidence and keep a one-line reason', () => {
+    expect(parseVoteResponse('{"stance": "oppose", "confidence": 140, "reason": "Too slow.\\nAlso risky."}')).toEqual({
+      stance: 'oppose',
+      confidence: 100,
+      reason: 'Too slow.',
+    });
+    expect(parseVoteResponse('{"stance": "abstain"}')?.confidence).toBe(50);
+  });
+
+  it('should return null without a valid stance', () => {
+    expect(parseVoteResponse('I support it.')).toBeNull();
+    expect(parseVoteResponse('{"stance": "maybe"}')).toBeNull();
+  });
+});
+
+describe('parseDecisionPoint', () => {
+  it('should return the proposal only when a vote is called', () => {
+    expect(parseDecisionPoint('{"callVote": true, "proposal": " Ship the beta in May "}')).toBe('Ship the beta in May');
+    expect(parseDecisionPoint('{"callVote": false, "proposal": "Ship the beta in May"}')).toBeNull();
+    expect(parseDecisionPoint('{"callVote": true, "proposal": ""}')).toBeNull();
+    expect(parseDecisionPoint('No vote needed.')).toBeNull();
+  });
+});
+
+describe('formatVoteResult', () => {
+  it('should describe the counted vote', () => {
+    const voteTally = tallyVotes(votes('support', 'support', 'support', 'oppose'));
+    expect(formatVoteResult({ content: 'Ship the beta', voteTally })).toBe(
+      'VOTE on "Ship the beta": 3 support, 1 oppose, 0 abstain - consensus to adopt (75% agreement)'
+    );
+  });
+});
@@ -0,0 +1,81 @@
+// ============================================
+// AI Brainstorm - Workspace Memory Tests
+// ============================================
+
+import { describe, it, expect } from 'vitest';
+import { collectMemoryEntries, conversationTopics, searchMemory } from '../src/engine/workspace-memory';
+import type { PinnedFact } from '../src/types';
+
+const conversation = { id: 'conv-1', subject: 'Pricing for the mobile app' };
+
+function fact(content: string, importance: number): PinnedFact {
+  return { id: content, content, category: 'constraint', round: 1, importance };
+}
+
+describe('conversationTopics', () => {
+  it('should take content words from the subject and themes without repeats', () => {
+    expect(conversationTopics(conversation, ['Mobile pricing', 'Churn'])).toEqual(['pricing', 'mobile', 'app', 'churn']);
+  });
+});
+
+describe('collectMemoryEntries', () => {
+  it('should collect facts, decisions and the final result with their source', () => {
+    const entries = collectMemoryEntries(
+      conversation,
+      { pinnedFacts: [fact('Budget is capped at 20k', 7)], keyDecisions: ['Launch with two tiers'] },
+      { executiveSummary: 'Two tiers, priced monthly.', summary: '', keyDecisions: '- Launch with two tiers\n- Offer a free trial', themes: [] }
+    );
+
+    expect(entries.map(e => [e.kind, e.content])).toEqual([
+      ['fact', 'Budget is capped at 20k'],
+      ['decision', 'Launch with two tiers'],
+      ['decision', 'Offer a free trial'],
+      ['result', 'Two tiers, priced monthly.'],
+    ]);
+    expect(entries[0]).toMatchObject({ category: 'constraint', importance: 7, sourceConversationId: 'conv-1', sourceSubject: conversation.subject });
+  });
+
+  it('should fall back to the summary and cut long entries', () => {
+    const entries = collectMemoryEntries(conversation, null, {
+      executiveSummary: '',
+      summary: 'x'.repeat(1000),
+      keyDecisions: '',
+      themes: [],
+    });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].content).toHaveLength(600);
+    expect(entries[0].content.endsWith('...')).toBe(true);
+  });
+
+  it('should return nothing for a conversation without results', () => {
+    expect(collectMemoryEntries(conversation)).toEqual([]);
+  });
+});
+
+describe('searchMemory', () => {
+  const entries = [
+    { content: 'Budget is capped at 20k', topics: ['hiring'], importance: 9 },
+    { content: 'Launch with two tiers', topics: ['pricing', 'mobile'], importance: 8 },
+    { content: 'Mobile onboarding needs work', topics: ['onboarding'], importance: 5 },
+  ];
+
+  it('should rank topic matches above content matches', () => {
+    expect(searchMemory(entries, 'mobile pricing').map(e => e.content)).toEqual([
+      'Launch with two tiers',
+      'Mobile onboarding needs work',
+    ]);
+  });
+
+  it('should break ties by importance and respect the limit', () => {
+    const tied = [
+      { content: 'Budget review in May', topics: [], importance: 4 },
+      { content: 'Budget is capped at 20k', topics: [], importance: 9 },
+    ];
+    expect(searchMemory(tied, 'budget', 1).map(e => e.content)).toEqual(['Budget is capped at 20k']);
+  });
+
+  it('should find nothing without content words', () => {
+    expect(searchMemory(entries, 'the and')).toEqual([]);
+  });
+});